@@ -1,7 +1,7 @@
 import { defineConfig } from "drizzle-kit";
 
 export default defineConfig({
-  schema: "./src/drizzle/schema.ts",
+  schema: ["./src/drizzle/schema.ts", "./src/drizzle/AuditSchema.ts"],
   out: "./src/drizzle/migrations",
   dialect: "postgresql",
   dbCredentials: {
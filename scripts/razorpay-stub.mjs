@@ -0,0 +1,174 @@
+// Local stand-in for Razorpay's payment link API and webhooks, for trying the
+// invoice payment flow without a Razorpay account.
+//
+//   RAZORPAY_WEBHOOK_SECRET=dev-secret npm run razorpay:stub
+//
+// Point the app at it with RAZORPAY_API_URL=http://localhost:4010 (any
+// RAZORPAY_KEY_ID/SECRET will do) and the same RAZORPAY_WEBHOOK_SECRET. Then:
+//
+//   POST /pay/<payment link id>         pay the rest of the link
+//   POST /pay/<payment link id>  {"amount": 50000}
+//                                       pay part of it, in paise
+//   POST /replay/<payment link id>      send the last webhook again
+//
+// Each payment is sent to the app's webhook as payment_link.partially_paid or
+// payment_link.paid, signed the way Razorpay signs it.
+
+import { createHmac, randomBytes } from 'crypto';
+import http from 'http';
+
+const PORT = parseInt(process.env.RAZORPAY_STUB_PORT || '4010', 10);
+const WEBHOOK_URL = process.env.RAZORPAY_WEBHOOK_URL || 'http://localhost:3000/api/webhooks/razorpay';
+const WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+if (!WEBHOOK_SECRET) {
+  console.error('RAZORPAY_WEBHOOK_SECRET must be set');
+  process.exit(1);
+}
+
+const links = new Map();
+const lastEvents = new Map();
+
+const randomId = (prefix) => `${prefix}_${randomBytes(7).toString('hex')}`;
+const now = () => Math.floor(Date.now() / 1000);
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, description) =>
+  send(res, status, { error: { code: 'BAD_REQUEST_ERROR', description } });
+
+const deliver = async (payload) => {
+  const body = JSON.stringify(payload);
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Razorpay-Event-Id': randomId('evt'),
+      'X-Razorpay-Signature': createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex'),
+    },
+    body,
+  });
+  return { status: response.status, body: await response.text() };
+};
+
+const createLink = (req, res, body) => {
+  if (!req.headers.authorization?.startsWith('Basic ')) {
+    return sendError(res, 401, 'The api key provided is invalid');
+  }
+  if (!(Number(body.amount) >= 100)) {
+    return sendError(res, 400, 'The amount must be atleast INR 1.00');
+  }
+
+  const id = randomId('plink');
+  const link = {
+    id,
+    entity: 'payment_link',
+    amount: Number(body.amount),
+    amount_paid: 0,
+    currency: body.currency || 'INR',
+    accept_partial: !!body.accept_partial,
+    reference_id: body.reference_id || '',
+    description: body.description || '',
+    customer: body.customer || {},
+    notes: body.notes || {},
+    status: 'created',
+    short_url: `http://localhost:${PORT}/pay/${id}`,
+    payments: null,
+    created_at: now(),
+  };
+  links.set(id, link);
+  console.log(`Created ${id} for ${link.amount} ${link.currency} (${link.reference_id})`);
+  send(res, 200, link);
+};
+
+const pay = async (res, link, body) => {
+  const remaining = link.amount - link.amount_paid;
+  const amount = body.amount === undefined ? remaining : Number(body.amount);
+
+  if (remaining <= 0) return sendError(res, 400, 'Payment link has already been paid');
+  if (!(amount > 0) || amount > remaining) return sendError(res, 400, `Amount must be between 1 and ${remaining}`);
+  if (amount < remaining && !link.accept_partial) return sendError(res, 400, 'Partial payments are not accepted');
+
+  link.amount_paid += amount;
+  link.status = link.amount_paid >= link.amount ? 'paid' : 'partially_paid';
+
+  const payment = {
+    id: randomId('pay'),
+    entity: 'payment',
+    amount,
+    currency: link.currency,
+    status: 'captured',
+    method: body.method || 'upi',
+    created_at: now(),
+  };
+
+  const event = {
+    entity: 'event',
+    account_id: 'acc_stub',
+    event: `payment_link.${link.status}`,
+    contains: ['payment_link', 'payment'],
+    payload: {
+      payment_link: { entity: { ...link } },
+      payment: { entity: payment },
+    },
+    created_at: now(),
+  };
+  lastEvents.set(link.id, event);
+
+  const delivery = await deliver(event);
+  console.log(`${event.event} ${payment.id} (${amount}) -> webhook ${delivery.status}`);
+  send(res, 200, { payment, webhook: delivery });
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const [, first, second] = url.pathname.split('/');
+    const body = req.method === 'POST' ? await readJson(req) : {};
+
+    if (req.method === 'POST' && url.pathname === '/v1/payment_links') {
+      return createLink(req, res, body);
+    }
+
+    if (req.method === 'GET' && first === 'v1' && second === 'payment_links') {
+      const link = links.get(url.pathname.split('/')[3]);
+      return link ? send(res, 200, link) : sendError(res, 404, 'The id provided does not exist');
+    }
+
+    if (req.method === 'POST' && first === 'pay') {
+      const link = links.get(second);
+      return link ? pay(res, link, body) : sendError(res, 404, 'The id provided does not exist');
+    }
+
+    if (req.method === 'POST' && first === 'replay') {
+      const event = lastEvents.get(second);
+      if (!event) return sendError(res, 404, 'No webhook has been sent for this link');
+      return send(res, 200, { webhook: await deliver(event) });
+    }
+
+    sendError(res, 404, 'The requested URL was not found on the server.');
+  } catch (error) {
+    console.error(error);
+    sendError(res, 500, error instanceof Error ? error.message : 'Stub error');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Razorpay stub on http://localhost:${PORT}, webhooks to ${WEBHOOK_URL}`);
+});
@@ -0,0 +1,317 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChevronDown, ChevronRight, Loader2, Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import Navigation from '@/components/pages/Navbar';
+import DownloadButton from '@/components/DownloadButton';
+import { exportEstimationScorecardToExcel } from '@/utils/exportUtils';
+
+// ==================== TYPES ====================
+interface AccuracyMetrics {
+  taskCount: number;
+  expectedHours: number;
+  actualHours: number;
+  mape: number;
+  bias: number;
+}
+
+interface ScorecardRow {
+  employeeId: string;
+  employeeName: string;
+  employeeEmail: string;
+  overall: AccuracyMetrics;
+  periods: (AccuracyMetrics & { period: string })[];
+  trend: { slope: number; trend: 'improving' | 'worsening' | 'stable' } | null;
+  biasLabel: string;
+}
+
+interface Project {
+  id: string;
+  projectName: string;
+  clientId: string | null;
+}
+
+interface Client {
+  id: string;
+  legalName: string;
+}
+
+const getMapeColor = (mape: number) => {
+  if (mape <= 15) return 'text-green-600';
+  if (mape <= 35) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+const TrendBadge: React.FC<{ trend: ScorecardRow['trend'] }> = ({ trend }) => {
+  if (!trend) return <span className="text-sm text-gray-400">Not enough data</span>;
+
+  switch (trend.trend) {
+    case 'improving':
+      return (
+        <span className="inline-flex items-center gap-1 text-sm font-medium text-green-600">
+          <TrendingDown className="w-4 h-4" /> Improving
+        </span>
+      );
+    case 'worsening':
+      return (
+        <span className="inline-flex items-center gap-1 text-sm font-medium text-red-600">
+          <TrendingUp className="w-4 h-4" /> Worsening
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-flex items-center gap-1 text-sm font-medium text-gray-600">
+          <Minus className="w-4 h-4" /> Stable
+        </span>
+      );
+  }
+};
+
+// ==================== ACCURACY PAGE ====================
+export default function EstimationAccuracyPage() {
+  const [scorecard, setScorecard] = useState<ScorecardRow[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [period, setPeriod] = useState<'month' | 'quarter'>('month');
+  const [expandedEmployeeId, setExpandedEmployeeId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      try {
+        const response = await fetch('/api/projects');
+        const data = await response.json();
+        if (response.ok) setProjects(data.projects || []);
+      } catch (err) {
+        console.error('Error fetching projects:', err);
+      }
+    };
+    const fetchClients = async () => {
+      try {
+        const response = await fetch('/api/clients');
+        const data = await response.json();
+        if (response.ok) setClients(data.clients || []);
+      } catch (err) {
+        console.error('Error fetching clients:', err);
+      }
+    };
+    fetchProjects();
+    fetchClients();
+  }, []);
+
+  useEffect(() => {
+    const fetchScorecard = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ period });
+        if (projectId) params.set('projectId', projectId);
+        if (clientId) params.set('clientId', clientId);
+
+        const response = await fetch(`/api/reports/estimation-accuracy?${params}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load scorecard');
+        }
+
+        setScorecard(data.scorecard || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load scorecard');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchScorecard();
+  }, [projectId, clientId, period]);
+
+  const handleExport = () => {
+    setIsExporting(true);
+    try {
+      const projectName = projects.find(p => p.id === projectId)?.projectName;
+      const clientName = clients.find(c => c.id === clientId)?.legalName;
+      const scope = projectName || clientName;
+      exportEstimationScorecardToExcel(
+        scorecard,
+        scope ? `estimation_accuracy_${scope}` : 'estimation_accuracy'
+      );
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError('Failed to export scorecard');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div>
+            <Link href="/dashboard/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+              ← Back to Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mt-4">Estimation Accuracy</h1>
+            <p className="text-gray-600 mt-2">
+              How closely approved hours matched expected hours. MAPE is the mean absolute % error;
+              a positive bias means work usually takes longer than estimated.
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col md:flex-row gap-4 md:items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Client</label>
+              <select
+                value={clientId}
+                onChange={(e) => {
+                  setClientId(e.target.value);
+                  setProjectId('');
+                }}
+                className="w-56 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All clients</option>
+                {clients.map((client) => (
+                  <option key={client.id} value={client.id}>{client.legalName}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Project</label>
+              <select
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All projects</option>
+                {projects.filter((project) => !clientId || project.clientId === clientId).map((project) => (
+                  <option key={project.id} value={project.id}>{project.projectName}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Period</label>
+              <select
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as 'month' | 'quarter')}
+                className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="month">Monthly</option>
+                <option value="quarter">Quarterly</option>
+              </select>
+            </div>
+            <div className="md:ml-auto">
+              <DownloadButton
+                onDownload={handleExport}
+                isLoading={isExporting}
+                disabled={scorecard.length === 0}
+                variant="outline"
+              >
+                Export Scorecard
+              </DownloadButton>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {/* Scorecard */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Employee</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Tasks</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Expected / Actual</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">MAPE</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Bias</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Trend</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {scorecard.map((row) => (
+                      <React.Fragment key={row.employeeId}>
+                        <tr
+                          onClick={() => setExpandedEmployeeId(expandedEmployeeId === row.employeeId ? null : row.employeeId)}
+                          className="hover:bg-gray-50 transition-colors cursor-pointer"
+                        >
+                          <td className="px-6 py-4">
+                            <div className="flex items-center gap-2">
+                              {expandedEmployeeId === row.employeeId ? (
+                                <ChevronDown className="w-4 h-4 text-gray-400" />
+                              ) : (
+                                <ChevronRight className="w-4 h-4 text-gray-400" />
+                              )}
+                              <div>
+                                <p className="font-medium text-gray-900">{row.employeeName}</p>
+                                <p className="text-sm text-gray-500">{row.employeeEmail}</p>
+                              </div>
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">{row.overall.taskCount}</td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {row.overall.expectedHours.toFixed(1)}h / {row.overall.actualHours.toFixed(1)}h
+                          </td>
+                          <td className={`px-6 py-4 font-semibold ${getMapeColor(row.overall.mape)}`}>
+                            {row.overall.mape.toFixed(1)}%
+                          </td>
+                          <td className="px-6 py-4">
+                            <p className="font-semibold text-gray-900">
+                              {row.overall.bias > 0 ? '+' : ''}{row.overall.bias.toFixed(1)}%
+                            </p>
+                            <p className="text-xs text-gray-500">{row.biasLabel}</p>
+                          </td>
+                          <td className="px-6 py-4">
+                            <TrendBadge trend={row.trend} />
+                          </td>
+                        </tr>
+
+                        {expandedEmployeeId === row.employeeId && row.periods.map((periodRow) => (
+                          <tr key={`${row.employeeId}-${periodRow.period}`} className="bg-gray-50">
+                            <td className="px-6 py-2 pl-16 text-sm text-gray-600">{periodRow.period}</td>
+                            <td className="px-6 py-2 text-sm text-gray-600">{periodRow.taskCount}</td>
+                            <td className="px-6 py-2 text-sm text-gray-600">
+                              {periodRow.expectedHours.toFixed(1)}h / {periodRow.actualHours.toFixed(1)}h
+                            </td>
+                            <td className={`px-6 py-2 text-sm font-medium ${getMapeColor(periodRow.mape)}`}>
+                              {periodRow.mape.toFixed(1)}%
+                            </td>
+                            <td className="px-6 py-2 text-sm text-gray-600">
+                              {periodRow.bias > 0 ? '+' : ''}{periodRow.bias.toFixed(1)}%
+                            </td>
+                            <td />
+                          </tr>
+                        ))}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+
+                {scorecard.length === 0 && (
+                  <div className="text-center py-12">
+                    <p className="text-gray-500">No approved tasks with expected hours to score yet.</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,648 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import Navigation from '@/components/pages/Navbar';
+import { ShareLinksPanel } from '@/components/admin/dashboard/ShareLinksPanel';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '@/lib/currency';
+
+// ==================== TYPES ====================
+interface Client {
+  id: string;
+  legalName: string;
+  city: string | null;
+  stateCode: string | null;
+  countryCode: string | null;
+  gstin: string | null;
+  defaultCurrency: string;
+  paymentTermsDays: number;
+  projectCount: number;
+}
+
+interface ContactFormData {
+  name: string;
+  email: string;
+  phone: string;
+  designation: string;
+  isPrimary: boolean;
+}
+
+interface ClientFormData {
+  legalName: string;
+  addressLine1: string;
+  addressLine2: string;
+  countryCode: string;
+  stateCode: string;
+  city: string;
+  postalCode: string;
+  gstin: string;
+  defaultCurrency: string;
+  paymentTermsDays: string;
+  contacts: ContactFormData[];
+}
+
+interface AddressOption {
+  code: string;
+  name: string;
+}
+
+const emptyContact: ContactFormData = {
+  name: '',
+  email: '',
+  phone: '',
+  designation: '',
+  isPrimary: false,
+};
+
+const emptyForm: ClientFormData = {
+  legalName: '',
+  addressLine1: '',
+  addressLine2: '',
+  countryCode: 'IN',
+  stateCode: '',
+  city: '',
+  postalCode: '',
+  gstin: '',
+  defaultCurrency: DEFAULT_CURRENCY,
+  paymentTermsDays: '30',
+  contacts: [],
+};
+
+// ==================== CLIENTS PAGE ====================
+export default function ClientsPage() {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [formData, setFormData] = useState<ClientFormData>(emptyForm);
+  const [editingClientId, setEditingClientId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [countries, setCountries] = useState<AddressOption[]>([]);
+  const [states, setStates] = useState<AddressOption[]>([]);
+  const [cities, setCities] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingClientId, setDeletingClientId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchClients();
+    fetchCountries();
+  }, []);
+
+  useEffect(() => {
+    if (!formData.countryCode) {
+      setStates([]);
+      return;
+    }
+    fetch(`/api/address/states/${formData.countryCode}`)
+      .then(response => response.json())
+      .then(data => setStates(Array.isArray(data) ? data : []))
+      .catch(err => console.error('Error fetching states:', err));
+  }, [formData.countryCode]);
+
+  useEffect(() => {
+    if (!formData.countryCode || !formData.stateCode) {
+      setCities([]);
+      return;
+    }
+    fetch(`/api/address/cities/${formData.countryCode}/${formData.stateCode}`)
+      .then(response => response.json())
+      .then(data => setCities(Array.isArray(data) ? data.map((city: { name: string }) => city.name) : []))
+      .catch(err => console.error('Error fetching cities:', err));
+  }, [formData.countryCode, formData.stateCode]);
+
+  const fetchCountries = async () => {
+    try {
+      const response = await fetch('/api/address/countries');
+      const data = await response.json();
+      if (response.ok && Array.isArray(data)) {
+        setCountries(data.map((country: { isoCode: string; name: string }) => ({
+          code: country.isoCode,
+          name: country.name,
+        })));
+      }
+    } catch (err) {
+      console.error('Error fetching countries:', err);
+    }
+  };
+
+  const fetchClients = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/clients');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch clients');
+      }
+
+      setClients(data.clients || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch clients');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChange = (field: keyof Omit<ClientFormData, 'contacts'>, value: string) => {
+    setFormData(prev => {
+      const next = { ...prev, [field]: value };
+      // A new country or state invalidates the narrower parts of the address
+      if (field === 'countryCode') {
+        next.stateCode = '';
+        next.city = '';
+      }
+      if (field === 'stateCode') {
+        next.city = '';
+      }
+      return next;
+    });
+  };
+
+  const handleContactChange = (index: number, field: keyof ContactFormData, value: string | boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      contacts: prev.contacts.map((contact, i) => {
+        if (field === 'isPrimary') {
+          return { ...contact, isPrimary: i === index };
+        }
+        return i === index ? { ...contact, [field]: value } : contact;
+      }),
+    }));
+  };
+
+  const handleAddContact = () => {
+    setFormData(prev => ({
+      ...prev,
+      contacts: [...prev.contacts, { ...emptyContact, isPrimary: prev.contacts.length === 0 }],
+    }));
+  };
+
+  const handleRemoveContact = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      contacts: prev.contacts.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleNew = () => {
+    setEditingClientId(null);
+    setFormData(emptyForm);
+    setShowForm(true);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleEdit = async (clientId: string) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/clients/${clientId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch client');
+      }
+
+      const client = data.client;
+      setFormData({
+        legalName: client.legalName,
+        addressLine1: client.addressLine1 || '',
+        addressLine2: client.addressLine2 || '',
+        countryCode: client.countryCode || '',
+        stateCode: client.stateCode || '',
+        city: client.city || '',
+        postalCode: client.postalCode || '',
+        gstin: client.gstin || '',
+        defaultCurrency: client.defaultCurrency,
+        paymentTermsDays: String(client.paymentTermsDays),
+        contacts: (client.contacts || []).map((contact: any) => ({
+          name: contact.name,
+          email: contact.email || '',
+          phone: contact.phone || '',
+          designation: contact.designation || '',
+          isPrimary: contact.isPrimary,
+        })),
+      });
+      setEditingClientId(clientId);
+      setShowForm(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch client');
+    }
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingClientId(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.legalName.trim()) {
+      setError('Legal name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(editingClientId ? `/api/clients/${editingClientId}` : '/api/clients', {
+        method: editingClientId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          paymentTermsDays: parseInt(formData.paymentTermsDays, 10),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save client');
+      }
+
+      setMessage(editingClientId ? 'Client updated' : 'Client created');
+      handleCancel();
+      fetchClients();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save client');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (client: Client) => {
+    if (!confirm(`Delete ${client.legalName}?`)) {
+      return;
+    }
+
+    setDeletingClientId(client.id);
+    try {
+      const response = await fetch(`/api/clients/${client.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete client');
+      }
+
+      setClients(prev => prev.filter(c => c.id !== client.id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete client');
+    } finally {
+      setDeletingClientId(null);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-end">
+            <div>
+              <Link href="/dashboard/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+                ← Back to Dashboard
+              </Link>
+              <h1 className="text-3xl font-bold text-gray-900 mt-4">Clients</h1>
+              <p className="text-gray-600 mt-2">
+                Projects billed to a client use its currency by default, and its payment terms set invoice due dates.
+              </p>
+            </div>
+            {!showForm && (
+              <button
+                onClick={handleNew}
+                className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-sm"
+              >
+                <Plus className="w-5 h-5" />
+                Add Client
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+              {message}
+            </div>
+          )}
+
+          {/* Client Form */}
+          {showForm && (
+            <form
+              onSubmit={handleSubmit}
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6"
+            >
+              <h2 className="text-xl font-bold text-gray-900">
+                {editingClientId ? 'Edit Client' : 'New Client'}
+              </h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Legal Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.legalName}
+                    onChange={(e) => handleChange('legalName', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">GSTIN</label>
+                  <input
+                    type="text"
+                    value={formData.gstin}
+                    onChange={(e) => handleChange('gstin', e.target.value.toUpperCase())}
+                    disabled={isSubmitting}
+                    maxLength={15}
+                    className={inputClass}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+                  <input
+                    type="text"
+                    value={formData.addressLine1}
+                    onChange={(e) => handleChange('addressLine1', e.target.value)}
+                    disabled={isSubmitting}
+                    className={`${inputClass} mb-2`}
+                    placeholder="Line 1"
+                  />
+                  <input
+                    type="text"
+                    value={formData.addressLine2}
+                    onChange={(e) => handleChange('addressLine2', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                    placeholder="Line 2"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Postal Code</label>
+                  <input
+                    type="text"
+                    value={formData.postalCode}
+                    onChange={(e) => handleChange('postalCode', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Country</label>
+                  <select
+                    value={formData.countryCode}
+                    onChange={(e) => handleChange('countryCode', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  >
+                    <option value="">Select country</option>
+                    {countries.map((country) => (
+                      <option key={country.code} value={country.code}>{country.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">State</label>
+                  <select
+                    value={formData.stateCode}
+                    onChange={(e) => handleChange('stateCode', e.target.value)}
+                    disabled={isSubmitting || states.length === 0}
+                    className={inputClass}
+                  >
+                    <option value="">Select state</option>
+                    {states.map((state) => (
+                      <option key={state.code} value={state.code}>{state.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">City</label>
+                  <select
+                    value={formData.city}
+                    onChange={(e) => handleChange('city', e.target.value)}
+                    disabled={isSubmitting || cities.length === 0}
+                    className={inputClass}
+                  >
+                    <option value="">Select city</option>
+                    {/* Keep a saved city selectable even if the list no longer has it */}
+                    {formData.city && !cities.includes(formData.city) && (
+                      <option value={formData.city}>{formData.city}</option>
+                    )}
+                    {cities.map((city) => (
+                      <option key={city} value={city}>{city}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Default Currency</label>
+                  <select
+                    value={formData.defaultCurrency}
+                    onChange={(e) => handleChange('defaultCurrency', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  >
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Payment Terms (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="365"
+                    step="1"
+                    value={formData.paymentTermsDays}
+                    onChange={(e) => handleChange('paymentTermsDays', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {/* Contacts */}
+              <div>
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="text-lg font-semibold text-gray-900">Contacts</h3>
+                  <button
+                    type="button"
+                    onClick={handleAddContact}
+                    disabled={isSubmitting}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Contact
+                  </button>
+                </div>
+                {formData.contacts.length === 0 ? (
+                  <p className="text-sm text-gray-500">No contacts yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {formData.contacts.map((contact, index) => (
+                      <div key={index} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-center">
+                        <input
+                          type="text"
+                          value={contact.name}
+                          onChange={(e) => handleContactChange(index, 'name', e.target.value)}
+                          disabled={isSubmitting}
+                          className={inputClass}
+                          placeholder="Name"
+                        />
+                        <input
+                          type="email"
+                          value={contact.email}
+                          onChange={(e) => handleContactChange(index, 'email', e.target.value)}
+                          disabled={isSubmitting}
+                          className={`${inputClass} md:col-span-2`}
+                          placeholder="Email"
+                        />
+                        <input
+                          type="tel"
+                          value={contact.phone}
+                          onChange={(e) => handleContactChange(index, 'phone', e.target.value)}
+                          disabled={isSubmitting}
+                          className={inputClass}
+                          placeholder="Phone"
+                        />
+                        <input
+                          type="text"
+                          value={contact.designation}
+                          onChange={(e) => handleContactChange(index, 'designation', e.target.value)}
+                          disabled={isSubmitting}
+                          className={inputClass}
+                          placeholder="Designation"
+                        />
+                        <div className="flex items-center justify-between gap-2">
+                          <label className="flex items-center gap-1 text-sm text-gray-700">
+                            <input
+                              type="radio"
+                              name="primaryContact"
+                              checked={contact.isPrimary}
+                              onChange={() => handleContactChange(index, 'isPrimary', true)}
+                              disabled={isSubmitting}
+                            />
+                            Primary
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveContact(index)}
+                            disabled={isSubmitting}
+                            className="text-red-500 hover:text-red-700 p-1"
+                            title="Remove contact"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {editingClientId ? 'Save Client' : 'Create Client'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {/* Portal links for all of the client's projects */}
+          {showForm && editingClientId && <ShareLinksPanel clientId={editingClientId} />}
+
+          {/* Clients Table */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Client</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Location</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">GSTIN</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Currency</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Terms</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Projects</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {clients.map((client) => (
+                      <tr key={client.id} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-6 py-4 font-medium text-gray-900">{client.legalName}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {[client.city, client.stateCode, client.countryCode].filter(Boolean).join(', ') || '—'}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 font-mono">{client.gstin || '—'}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">{client.defaultCurrency}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">Net {client.paymentTermsDays}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">{client.projectCount}</td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => handleEdit(client.id)}
+                              className="text-blue-600 hover:text-blue-700 p-1"
+                              title="Edit client"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(client)}
+                              disabled={deletingClientId === client.id}
+                              className="text-red-500 hover:text-red-700 p-1 disabled:opacity-50"
+                              title="Delete client"
+                            >
+                              {deletingClientId === client.id
+                                ? <Loader2 className="w-4 h-4 animate-spin" />
+                                : <Trash2 className="w-4 h-4" />}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {clients.length === 0 && (
+                  <div className="text-center py-12 text-gray-500">
+                    No clients yet. Click &quot;Add Client&quot; to get started.
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,429 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Plus, Trash2, Upload } from 'lucide-react';
+import Navigation from '@/components/pages/Navbar';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { localDateKey } from '@/lib/costing';
+
+// ==================== TYPES ====================
+interface ExchangeRate {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  effectiveDate: string;
+  source: string;
+  createdByName: string | null;
+}
+
+interface OrganisationSettings {
+  costCurrency: string;
+  reportingCurrency: string;
+}
+
+interface RateFormData {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  effectiveDate: string;
+}
+
+const emptyForm: RateFormData = {
+  baseCurrency: 'USD',
+  quoteCurrency: 'INR',
+  rate: '',
+  effectiveDate: localDateKey(),
+};
+
+// ==================== CURRENCIES PAGE ====================
+export default function CurrenciesPage() {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [settings, setSettings] = useState<OrganisationSettings | null>(null);
+  const [formData, setFormData] = useState<RateFormData>(emptyForm);
+  const [currencyFilter, setCurrencyFilter] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [deletingRateId, setDeletingRateId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  useEffect(() => {
+    fetchRates();
+  }, [currencyFilter]);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/organisation');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch settings');
+      }
+
+      setSettings(data.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch settings');
+    }
+  };
+
+  const fetchRates = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const query = currencyFilter ? `?currency=${currencyFilter}` : '';
+      const response = await fetch(`/api/exchange-rates${query}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch exchange rates');
+      }
+
+      setRates(data.rates || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch exchange rates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSettingsChange = async (field: keyof OrganisationSettings, value: string) => {
+    setIsSavingSettings(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/settings/organisation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [field]: value }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update settings');
+      }
+
+      setSettings(data.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settings');
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const handleChange = (field: keyof RateFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.rate || !formData.effectiveDate) {
+      setError('Rate and effective date are required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/exchange-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          baseCurrency: formData.baseCurrency,
+          quoteCurrency: formData.quoteCurrency,
+          rate: parseFloat(formData.rate),
+          effectiveDate: formData.effectiveDate,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create exchange rate');
+      }
+
+      setFormData(prev => ({ ...prev, rate: '' }));
+      fetchRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create exchange rate');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/exchange-rates/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: await file.text() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import exchange rates');
+      }
+
+      setMessage(`Imported ${data.imported} rate${data.imported === 1 ? '' : 's'}`);
+      fetchRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import exchange rates');
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    if (!confirm('Delete this exchange rate? Amounts on dates it covered will use the previous rate, or stay unconverted.')) {
+      return;
+    }
+
+    setDeletingRateId(rateId);
+    try {
+      const response = await fetch(`/api/exchange-rates/${rateId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete exchange rate');
+      }
+
+      setRates(prev => prev.filter(r => r.id !== rateId));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete exchange rate');
+    } finally {
+      setDeletingRateId(null);
+    }
+  };
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div>
+            <Link href="/dashboard/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+              ← Back to Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mt-4">Currencies &amp; Exchange Rates</h1>
+            <p className="text-gray-600 mt-2">
+              Amounts are converted at the latest rate effective on the work date. A rate also converts the opposite way.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+              {message}
+            </div>
+          )}
+
+          {/* Organisation currencies */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Cost Currency</label>
+              <select
+                value={settings?.costCurrency || ''}
+                onChange={(e) => handleSettingsChange('costCurrency', e.target.value)}
+                disabled={!settings || isSavingSettings}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Employee cost rates and project cost budgets are in this currency.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reporting Currency</label>
+              <select
+                value={settings?.reportingCurrency || ''}
+                onChange={(e) => handleSettingsChange('reportingCurrency', e.target.value)}
+                disabled={!settings || isSavingSettings}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Revenue, cost and margin are reported in this currency.</p>
+            </div>
+          </div>
+
+          {/* Add Rate Form */}
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <select
+                value={formData.baseCurrency}
+                onChange={(e) => handleChange('baseCurrency', e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <select
+                value={formData.quoteCurrency}
+                onChange={(e) => handleChange('quoteCurrency', e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Rate (1 {formData.baseCurrency} =)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.000001"
+                value={formData.rate}
+                onChange={(e) => handleChange('rate', e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Effective Date</label>
+              <input
+                type="date"
+                value={formData.effectiveDate}
+                onChange={(e) => handleChange('effectiveDate', e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Add Rate
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              title="CSV with the columns date, base, quote, rate"
+              className="flex items-center justify-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-100 transition-colors font-medium disabled:opacity-50"
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Import CSV
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </form>
+
+          {/* Rates Table */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-4 border-b border-gray-200 flex items-center gap-3">
+              <label className="text-sm font-medium text-gray-700">Currency</label>
+              <select
+                value={currencyFilter}
+                onChange={(e) => setCurrencyFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All currencies</option>
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Pair</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Rate</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Effective Date</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Source</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rates.map((rate) => (
+                      <tr key={rate.id} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-6 py-4 font-medium text-gray-900">
+                          {rate.baseCurrency} → {rate.quoteCurrency}
+                        </td>
+                        <td className="px-6 py-4 font-semibold text-gray-900">{parseFloat(rate.rate)}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">{rate.effectiveDate}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {rate.source === 'csv' ? 'CSV import' : 'Manual'}
+                          {rate.createdByName && <span className="text-gray-400"> · {rate.createdByName}</span>}
+                        </td>
+                        <td className="px-6 py-4">
+                          <button
+                            onClick={() => handleDelete(rate.id)}
+                            disabled={deletingRateId === rate.id}
+                            className="text-red-600 hover:text-red-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                          >
+                            {deletingRateId === rate.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4" />
+                            )}
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {rates.length === 0 && (
+                  <div className="text-center py-12">
+                    <p className="text-gray-500">No exchange rates yet. Add one above or import a CSV.</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Plus, Loader2 } from 'lucide-react';
 import { 
   exportProjectsToExcel, 
@@ -13,6 +13,14 @@ import {DeleteConfirmModal} from '@/components/admin/dashboard/DeleteConfirmModa
 import {ProjectCard} from '@/components/admin/dashboard/ProjectCard';
 import {ProjectDetailView} from "@/components/admin/dashboard/ProjectDetailView"
 import Navigation from '@/components/pages/Navbar';
+import Link from 'next/link';
+import { ProjectBudget } from '@/components/admin/dashboard/BudgetPanel';
+import { EstimateRange } from '@/components/admin/dashboard/EstimateRangePanel';
+import { ProjectForecast } from '@/components/admin/dashboard/ForecastPanel';
+import { ProjectCurrencies } from '@/components/admin/dashboard/FinancialsPanel';
+import { DailyHours } from '@/components/admin/dashboard/DailyHoursPanel';
+import { TimeEntry } from '@/components/admin/dashboard/TimeEntriesPanel';
+import { NonBillableReason } from '@/lib/billable';
 
 // ==================== TYPES ====================
 interface Project {
@@ -21,22 +29,59 @@ interface Project {
   description: string | null;
   createdBy: string;
   isActive: boolean;
+  plannedStartDate?: string | null;
+  plannedEndDate?: string | null;
+  billingCurrency?: string;
+  clientGstin?: string | null;
+  placeOfSupply?: string | null;
+  clientId?: string | null;
+  clientName?: string | null;
+  requiresClientSignoff?: boolean;
+  defaultBillable?: boolean;
+  defaultNonBillableReason?: NonBillableReason | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface Client {
+  id: string;
+  legalName: string;
+  defaultCurrency: string;
+}
+
 interface Task {
   taskId: string;
   taskName: string;
   description: string | null;
   expectedHours: string;
+  optimisticHours: string | null;
+  mostLikelyHours: string | null;
+  pessimisticHours: string | null;
+  estimateStdDev: string | null;
   actualHours: string;
   status: 'pending' | 'approved' | 'rejected';
   approvedAt: string;
+  workDate: string;
   createdAt: string;
   employeeId: string;
   employeeName: string;
   employeeEmail: string;
+  hourlyRate: string | null;
+  rateMultiplier: number | null;
+  multiplierReason: string | null;
+  cost: string | null;
+  loadedCost: string | null;
+  billRate: string | null;
+  revenue: string | null;
+  reportingCost: string | null;
+  reportingLoadedCost: string | null;
+  reportingRevenue: string | null;
+  estimateLineItemId: string | null;
+  invoiceId: string | null;
+  clientSignoffStatus: 'pending' | 'accepted' | 'disputed' | null;
+  isBillable: boolean;
+  nonBillableReason: NonBillableReason | null;
+  entries: TimeEntry[];
 }
 
 interface EmployeeSummary {
@@ -46,13 +91,28 @@ interface EmployeeSummary {
   totalTasks: number;
   totalExpectedHours: number;
   totalActualHours: number;
+  totalCost: number;
+  totalLoadedCost: number;
+  totalRevenue: number;
+  reportingCost: number;
+  reportingLoadedCost: number;
+  reportingRevenue: number;
+  grossMargin: number;
+  marginPercent: number | null;
+  loadedMarginPercent: number | null;
   pendingTasks: number;
   approvedTasks: number;
   rejectedTasks: number;
+  billableHours: number;
+  nonBillableHours: number;
+  billableCost: number;
+  nonBillableCost: number;
+  utilisationPercent: number | null;
 }
 
 interface ProjectDetails {
   project: Project;
+  currencies: ProjectCurrencies;
   tasks: Task[];
   summary: {
     totalTasks: number;
@@ -60,7 +120,33 @@ interface ProjectDetails {
     totalActualHours: string;
     variance: string;
     variancePercentage: string;
+    totalCost: string;
+    labourCost: string;
+    labourLoadedCost: string;
+    loadedCost: string;
+    expenseCost: string;
+    billableExpenseCost: string;
+    uncostedHours: string;
+    totalRevenue: string;
+    reportingCost: string;
+    reportingLoadedCost: string;
+    reportingRevenue: string;
+    unconvertedTasks: number;
+    unconvertedExpenses: number;
+    grossMargin: string;
+    marginPercent: string | null;
+    loadedMarginPercent: string | null;
+    estimateRange: EstimateRange;
+    billableHours: string;
+    nonBillableHours: string;
+    billableCost: string;
+    nonBillableCost: string;
+    nonBillableByReason: { reason: NonBillableReason; hours: string; cost: string }[];
+    utilisationPercent: string | null;
+    dailyHours: DailyHours[];
   };
+  budget: ProjectBudget;
+  forecast: ProjectForecast;
   employees: EmployeeSummary[];
 }
 
@@ -68,6 +154,9 @@ interface ProjectDetails {
 export default function AdminDashboard() {
   const [filteredProjects, setFilteredProjects] = useState<Project[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientFilter, setClientFilter] = useState('');
+  const [groupByClient, setGroupByClient] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
@@ -84,21 +173,41 @@ export default function AdminDashboard() {
   useEffect(() => {
     checkUserRole();
     fetchProjects();
+    fetchClients();
   }, []);
 
   useEffect(() => {
-    // Filter projects based on search term
+    // Filter projects based on client and search term
+    let filtered = projects;
+    if (clientFilter) {
+      filtered = filtered.filter(project =>
+        clientFilter === 'none' ? !project.clientId : project.clientId === clientFilter
+      );
+    }
     if (searchTerm) {
-      const filtered = projects.filter(project =>
+      filtered = filtered.filter(project =>
         project.projectName.toLowerCase().includes(searchTerm.toLowerCase()) ||
         (project.description && project.description.toLowerCase().includes(searchTerm.toLowerCase())) ||
+        (project.clientName && project.clientName.toLowerCase().includes(searchTerm.toLowerCase())) ||
         project.createdBy.toLowerCase().includes(searchTerm.toLowerCase())
       );
-      setFilteredProjects(filtered);
-    } else {
-      setFilteredProjects(projects);
     }
-  }, [searchTerm, projects]);
+    setFilteredProjects(filtered);
+  }, [searchTerm, clientFilter, projects]);
+
+  // Projects grouped under their client's name, unassigned projects last
+  const projectGroups = useMemo(() => {
+    const groups = new Map<string, Project[]>();
+    filteredProjects.forEach(project => {
+      const key = project.clientName || '';
+      groups.set(key, [...(groups.get(key) || []), project]);
+    });
+    return Array.from(groups.entries()).sort(([a], [b]) => {
+      if (!a) return 1;
+      if (!b) return -1;
+      return a.localeCompare(b);
+    });
+  }, [filteredProjects]);
 
   const checkUserRole = async () => {
     try {
@@ -129,6 +238,16 @@ export default function AdminDashboard() {
     }
   };
 
+  const fetchClients = async () => {
+    try {
+      const response = await fetch('/api/clients');
+      const data = await response.json();
+      if (response.ok) setClients(data.clients || []);
+    } catch (err) {
+      console.error('Error fetching clients:', err);
+    }
+  };
+
   const fetchProjectDetails = async (projectId: string) => {
     setIsLoadingDetails(true);
     try {
@@ -157,7 +276,10 @@ export default function AdminDashboard() {
   const handleExportProjects = async () => {
     setIsExporting(true);
     try {
-      exportProjectsToExcel(filteredProjects, 'projects_export');
+      exportProjectsToExcel(
+        groupByClient ? projectGroups.flatMap(([, groupProjects]) => groupProjects) : filteredProjects,
+        'projects_export'
+      );
     } catch (error) {
       console.error('Export failed:', error);
       setError('Failed to export data');
@@ -240,6 +362,7 @@ export default function AdminDashboard() {
           <ProjectDetailView
             projectDetails={projectDetails}
             onBack={handleBack}
+            onRefresh={() => fetchProjectDetails(selectedProjectId)}
             isLoading={isLoadingDetails}
             // userRole={userRole}
           />
@@ -265,13 +388,69 @@ export default function AdminDashboard() {
               </p>
             </div>
             {isAdmin && (
-              <button
-                onClick={() => setShowAddProject(true)}
-                className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-sm"
-              >
-                <Plus className="w-5 h-5" />
-                Add New Project
-              </button>
+              <div className="flex items-center gap-3">
+                <Link
+                  href="/dashboard/admin/clients"
+                  className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors font-medium"
+                >
+                  Clients
+                </Link>
+                <Link
+                  href="/dashboard/admin/rates"
+                  className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors font-medium"
+                >
+                  Cost Rates
+                </Link>
+                <Link
+                  href="/dashboard/admin/currencies"
+                  className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors font-medium"
+                >
+                  Currencies
+                </Link>
+                <Link
+                  href="/dashboard/admin/tax"
+                  className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors font-medium"
+                >
+                  Tax Settings
+                </Link>
+                <Link
+                  href="/dashboard/admin/timesheets"
+                  className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors font-medium"
+                >
+                  Timesheets
+                </Link>
+                <Link
+                  href="/dashboard/admin/periods"
+                  className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors font-medium"
+                >
+                  Periods
+                </Link>
+                <Link
+                  href="/dashboard/admin/payroll"
+                  className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors font-medium"
+                >
+                  Payroll
+                </Link>
+                <Link
+                  href="/dashboard/admin/rate-rules"
+                  className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors font-medium"
+                >
+                  Rate Rules
+                </Link>
+                <Link
+                  href="/dashboard/admin/accuracy"
+                  className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors font-medium"
+                >
+                  Estimation Accuracy
+                </Link>
+                <button
+                  onClick={() => setShowAddProject(true)}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-sm"
+                >
+                  <Plus className="w-5 h-5" />
+                  Add New Project
+                </button>
+              </div>
             )}
           </div>
 
@@ -281,10 +460,30 @@ export default function AdminDashboard() {
               <SearchBox
                 value={searchTerm}
                 onChange={setSearchTerm}
-                placeholder="Search projects by name, description, or creator..."
+                placeholder="Search projects by name, client, description, or creator..."
                 className="w-full"
               />
             </div>
+            <select
+              value={clientFilter}
+              onChange={(e) => setClientFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All clients</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>{client.legalName}</option>
+              ))}
+              <option value="none">No client</option>
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={groupByClient}
+                onChange={(e) => setGroupByClient(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Group by client
+            </label>
             <div className="flex gap-2">
               <DownloadButton
                 onDownload={handleExportProjects}
@@ -312,23 +511,49 @@ export default function AdminDashboard() {
           ) : (
             <>
               {/* Projects Grid */}
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredProjects.map((project) => (
-                  <ProjectCard
-                    key={project.id}
-                    project={project}
-                    onClick={() => handleProjectClick(project)}
-                    onDelete={() => handleDeleteClick(project)}
-                    isAdmin={isAdmin}
-                  />
-                ))}
-              </div>
+              {groupByClient ? (
+                <div className="space-y-8">
+                  {projectGroups.map(([clientName, groupProjects]) => (
+                    <div key={clientName || 'none'}>
+                      <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                        {clientName || 'No client'}
+                        <span className="ml-2 text-sm font-normal text-gray-500">
+                          ({groupProjects.length})
+                        </span>
+                      </h2>
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                        {groupProjects.map((project) => (
+                          <ProjectCard
+                            key={project.id}
+                            project={project}
+                            onClick={() => handleProjectClick(project)}
+                            onDelete={() => handleDeleteClick(project)}
+                            isAdmin={isAdmin}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {filteredProjects.map((project) => (
+                    <ProjectCard
+                      key={project.id}
+                      project={project}
+                      onClick={() => handleProjectClick(project)}
+                      onDelete={() => handleDeleteClick(project)}
+                      isAdmin={isAdmin}
+                    />
+                  ))}
+                </div>
+              )}
 
               {/* Empty State */}
               {filteredProjects.length === 0 && (
                 <div className="text-center py-16">
                   <p className="text-gray-500 text-lg">
-                    {searchTerm 
+                    {searchTerm || clientFilter
                       ? 'No projects found matching your search.' 
                       : isAdmin
                         ? 'No projects yet. Click "Add New Project" to get started.'
@@ -344,6 +569,7 @@ export default function AdminDashboard() {
             isOpen={showAddProject}
             onClose={() => setShowAddProject(false)}
             onSuccess={handleProjectCreated}
+            clients={clients}
           />
 
           <DeleteConfirmModal
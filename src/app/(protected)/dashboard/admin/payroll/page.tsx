@@ -0,0 +1,323 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Download, Loader2, Lock, Save } from 'lucide-react';
+import Navigation from '@/components/pages/Navbar';
+import { PAY_PERIOD_FREQUENCIES } from '@/lib/payroll';
+
+// ==================== TYPES ====================
+interface PayrollFormData {
+  payPeriodFrequency: string;
+  payPeriodAnchorDate: string;
+}
+
+interface PayPeriod {
+  periodStart: string;
+  periodEnd: string;
+  frequency: string;
+  status: 'open' | 'locked';
+  hasEnded: boolean; // only periods that are over can be exported
+  lockedAt?: string;
+  lockedByName?: string | null;
+  totalHours?: string;
+  overtimeHours?: string;
+}
+
+interface PendingAdjustment {
+  id: string;
+  taskName: string;
+  employeeName: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  previousHours: string;
+  hours: string;
+  reason: string;
+}
+
+const emptyForm: PayrollFormData = {
+  payPeriodFrequency: 'monthly',
+  payPeriodAnchorDate: '',
+};
+
+// ==================== PAYROLL PAGE ====================
+export default function PayrollPage() {
+  const [formData, setFormData] = useState<PayrollFormData>(emptyForm);
+  const [periods, setPeriods] = useState<PayPeriod[]>([]);
+  const [pendingAdjustments, setPendingAdjustments] = useState<PendingAdjustment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPeriods();
+  }, []);
+
+  const fetchPeriods = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/payroll/periods');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch pay periods');
+      }
+
+      setFormData({
+        payPeriodFrequency: data.settings.payPeriodFrequency,
+        payPeriodAnchorDate: data.settings.payPeriodAnchorDate,
+      });
+      setPeriods(data.periods || []);
+      setPendingAdjustments(data.pendingAdjustments || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch pay periods');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChange = (field: keyof PayrollFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/settings/organisation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update settings');
+      }
+
+      setMessage('Payroll settings saved');
+      await fetchPeriods();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async (period: PayPeriod, format: 'xlsx' | 'csv') => {
+    if (
+      period.status === 'open' &&
+      !confirm(
+        `Export ${period.periodStart} to ${period.periodEnd}? The period will be locked, and later changes to its approved hours will need an adjustment.`
+      )
+    ) {
+      return;
+    }
+
+    setExporting(`${period.periodStart}-${format}`);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/payroll/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ periodStart: period.periodStart, periodEnd: period.periodEnd, format }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export payroll');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `payroll_${period.periodStart}_to_${period.periodEnd}.${format}`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      if (period.status === 'open') {
+        await fetchPeriods();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export payroll');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div>
+            <Link href="/dashboard/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+              ← Back to Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mt-4">Payroll</h1>
+            <p className="text-gray-600 mt-2">
+              Export approved hours per pay period once it has ended. Exporting locks the period; later changes
+              to its hours are recorded as adjustments and paid in the next export.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+              {message}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <>
+              <form
+                onSubmit={handleSubmit}
+                className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-2 gap-4"
+              >
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Pay Period</label>
+                  <select
+                    value={formData.payPeriodFrequency}
+                    onChange={(e) => handleChange('payPeriodFrequency', e.target.value)}
+                    disabled={isSaving}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    {PAY_PERIOD_FREQUENCIES.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">First Period Starts</label>
+                  <input
+                    type="date"
+                    value={formData.payPeriodAnchorDate}
+                    onChange={(e) => handleChange('payPeriodAnchorDate', e.target.value)}
+                    disabled={isSaving || formData.payPeriodFrequency === 'monthly'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Weekly periods repeat from this date. Months start on the 1st.</p>
+                </div>
+                <div className="md:col-span-2 flex items-center justify-between">
+                  <p className="text-sm text-gray-500">
+                    Overtime follows the thresholds in the{' '}
+                    <Link href="/dashboard/admin/rate-rules" className="text-blue-600 hover:text-blue-700">
+                      rate rules
+                    </Link>
+                    .
+                  </p>
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                  >
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Save
+                  </button>
+                </div>
+              </form>
+
+              {pendingAdjustments.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                  <p className="text-sm font-medium text-amber-800">
+                    {pendingAdjustments.length} adjustment{pendingAdjustments.length > 1 ? 's' : ''} will be paid in
+                    the next export
+                  </p>
+                  <ul className="mt-2 space-y-1 text-sm text-amber-700">
+                    {pendingAdjustments.map((adjustment) => (
+                      <li key={adjustment.id}>
+                        {adjustment.employeeName || 'Unknown'} · {adjustment.taskName} ({adjustment.periodStart} to{' '}
+                        {adjustment.periodEnd}): {parseFloat(adjustment.previousHours).toFixed(2)}h →{' '}
+                        {parseFloat(adjustment.hours).toFixed(2)}h, {adjustment.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Pay Period</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Hours Paid</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Export</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {periods.map((period) => (
+                      <tr key={period.periodStart} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {period.periodStart} to {period.periodEnd}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          {period.status === 'locked' ? (
+                            <span className="inline-flex items-center gap-1 text-gray-700">
+                              <Lock className="w-3 h-3" />
+                              Exported{period.lockedAt && ` ${new Date(period.lockedAt).toLocaleDateString()}`}
+                              {period.lockedByName && ` by ${period.lockedByName}`}
+                            </span>
+                          ) : period.hasEnded ? (
+                            <span className="text-green-700">Open</span>
+                          ) : (
+                            <span className="text-gray-500">In progress</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-right text-gray-900">
+                          {period.status === 'locked'
+                            ? `${parseFloat(period.totalHours || '0').toFixed(2)}h (${parseFloat(period.overtimeHours || '0').toFixed(2)}h OT)`
+                            : '—'}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <div className="flex justify-end gap-2">
+                            {(['xlsx', 'csv'] as const).map((format) => (
+                              <button
+                                key={format}
+                                onClick={() => handleExport(period, format)}
+                                disabled={exporting !== null || !period.hasEnded}
+                                title={period.hasEnded ? undefined : 'Available once the pay period has ended'}
+                                className="flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                              >
+                                {exporting === `${period.periodStart}-${format}` ? (
+                                  <Loader2 className="w-3 h-3 animate-spin" />
+                                ) : (
+                                  <Download className="w-3 h-3" />
+                                )}
+                                {format.toUpperCase()}
+                              </button>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,411 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { History, Loader2, Lock, Unlock, Plus, Trash2 } from 'lucide-react';
+import Navigation from '@/components/pages/Navbar';
+import { monthPeriod, PeriodStatus } from '@/lib/periods';
+
+// ==================== TYPES ====================
+interface TimesheetPeriod {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  status: PeriodStatus;
+  statusChangedAt: string | null;
+  statusChangedByName: string | null;
+}
+
+interface PeriodHistoryItem {
+  id: string;
+  type: 'status' | 'adjustment';
+  createdAt: string;
+  userName: string | null;
+  from?: PeriodStatus | null;
+  to?: PeriodStatus | null;
+  action?: string | null;
+  taskName?: string | null;
+  reason: string | null;
+}
+
+const getPeriodStatusColor = (status: PeriodStatus) => {
+  switch (status) {
+    case 'locked': return 'bg-red-100 text-red-700';
+    case 'closed': return 'bg-amber-100 text-amber-700';
+    default: return 'bg-green-100 text-green-700';
+  }
+};
+
+const ADJUSTMENT_LABELS: Record<string, string> = {
+  create: 'Task logged',
+  update: 'Task changed',
+  delete: 'Task deleted',
+  create_entry: 'Time entry logged',
+  update_entry: 'Time entry changed',
+  delete_entry: 'Time entry deleted',
+  approve_timesheet: 'Timesheet approved',
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+// ==================== PERIODS PAGE ====================
+export default function PeriodsPage() {
+  const [periods, setPeriods] = useState<TimesheetPeriod[]>([]);
+  const [formData, setFormData] = useState({ periodStart: '', periodEnd: '' });
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [history, setHistory] = useState<PeriodHistoryItem[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPeriods();
+  }, []);
+
+  const fetchPeriods = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/timesheets/periods');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch periods');
+      }
+
+      setPeriods(data.periods || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch periods');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchHistory = async (periodId: string) => {
+    setHistory(null);
+    try {
+      const response = await fetch(`/api/timesheets/periods/${periodId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch period history');
+      }
+
+      setHistory(data.history || []);
+    } catch (err) {
+      setOpenId(null);
+      setError(err instanceof Error ? err.message : 'Failed to fetch period history');
+    }
+  };
+
+  const handleMonthChange = (month: string) => {
+    if (!month) return;
+    setFormData(monthPeriod(month));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.periodStart || !formData.periodEnd) {
+      alert('Pick the first and last day of the period');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/timesheets/periods', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add period');
+      }
+
+      setFormData({ periodStart: '', periodEnd: '' });
+      setMessage('Period added');
+      await fetchPeriods();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add period');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatus = async (period: TimesheetPeriod, status: PeriodStatus) => {
+    let reason: string | undefined;
+    if (status === 'open') {
+      const answer = prompt(`Reopen ${period.periodStart} to ${period.periodEnd}? Its hours and costs can change again.\n\nReason:`);
+      if (!answer?.trim()) return;
+      reason = answer.trim();
+    } else if (
+      !confirm(
+        status === 'closed'
+          ? `Close ${period.periodStart} to ${period.periodEnd}? Employees will no longer be able to change its hours.`
+          : `Lock ${period.periodStart} to ${period.periodEnd}? Its hours will only change through an adjustment with a reason.`
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(period.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/timesheets/periods/${period.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, reason }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update period');
+      }
+
+      setMessage(`Period ${status === 'open' ? 'reopened' : status}`);
+      await fetchPeriods();
+      if (openId === period.id) {
+        await fetchHistory(period.id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update period');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (period: TimesheetPeriod) => {
+    if (!confirm(`Remove the period ${period.periodStart} to ${period.periodEnd}?`)) return;
+
+    setBusyId(period.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/timesheets/periods/${period.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove period');
+      }
+
+      await fetchPeriods();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove period');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleHistory = (period: TimesheetPeriod) => {
+    if (openId === period.id) {
+      setOpenId(null);
+      setHistory(null);
+      return;
+    }
+    setOpenId(period.id);
+    fetchHistory(period.id);
+  };
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div>
+            <Link href="/dashboard/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+              ← Back to Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mt-4">Periods</h1>
+            <p className="text-gray-600 mt-2">
+              Close a period once its reports have gone out so its hours and costs stop changing. Employees cannot
+              change hours in a closed period; in a locked one, only an admin adjustment with a reason can, and it
+              is recorded in the period&apos;s history. Reopening a period needs a reason.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+              {message}
+            </div>
+          )}
+
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Month</label>
+              <input
+                type="month"
+                onChange={(e) => handleMonthChange(e.target.value)}
+                disabled={isSaving}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">First Day</label>
+              <input
+                type="date"
+                value={formData.periodStart}
+                onChange={(e) => setFormData(prev => ({ ...prev, periodStart: e.target.value }))}
+                disabled={isSaving}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Last Day</label>
+              <input
+                type="date"
+                value={formData.periodEnd}
+                onChange={(e) => setFormData(prev => ({ ...prev, periodEnd: e.target.value }))}
+                disabled={isSaving}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Add Period
+            </button>
+          </form>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : periods.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-gray-500">
+              No periods defined yet.
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Period</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Changed</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {periods.map((period) => (
+                    <React.Fragment key={period.id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {period.periodStart} to {period.periodEnd}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <span className={`px-3 py-1 rounded-full text-xs font-medium ${getPeriodStatusColor(period.status)}`}>
+                            {period.status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {period.statusChangedAt
+                            ? `${formatDateTime(period.statusChangedAt)}${period.statusChangedByName ? ` by ${period.statusChangedByName}` : ''}`
+                            : '—'}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <div className="flex justify-end gap-2">
+                            {period.status === 'open' && (
+                              <button
+                                onClick={() => handleStatus(period, 'closed')}
+                                disabled={busyId !== null}
+                                className="px-3 py-1 text-sm border border-amber-300 text-amber-700 rounded-lg hover:bg-amber-50 disabled:opacity-50"
+                              >
+                                Close
+                              </button>
+                            )}
+                            {period.status !== 'locked' && (
+                              <button
+                                onClick={() => handleStatus(period, 'locked')}
+                                disabled={busyId !== null}
+                                className="flex items-center gap-1 px-3 py-1 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                              >
+                                <Lock className="w-3 h-3" />
+                                Lock
+                              </button>
+                            )}
+                            {period.status !== 'open' && (
+                              <button
+                                onClick={() => handleStatus(period, 'open')}
+                                disabled={busyId !== null}
+                                className="flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                              >
+                                <Unlock className="w-3 h-3" />
+                                Reopen
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleHistory(period)}
+                              className="flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-100"
+                            >
+                              <History className="w-3 h-3" />
+                              History
+                            </button>
+                            {period.status === 'open' && !period.statusChangedAt && (
+                              <button
+                                onClick={() => handleDelete(period)}
+                                disabled={busyId !== null}
+                                className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                title="Remove period"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                      {openId === period.id && (
+                        <tr>
+                          <td colSpan={4} className="px-6 py-4 bg-gray-50">
+                            {history === null ? (
+                              <div className="flex items-center justify-center py-4">
+                                <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+                              </div>
+                            ) : history.length === 0 ? (
+                              <p className="text-sm text-gray-500">No changes recorded yet.</p>
+                            ) : (
+                              <ul className="space-y-2 text-sm text-gray-700">
+                                {history.map((item) => (
+                                  <li key={item.id}>
+                                    <span className="text-gray-500">{formatDateTime(item.createdAt)}</span>{' '}
+                                    {item.userName || 'Unknown'}:{' '}
+                                    {item.type === 'status'
+                                      ? `${item.from} → ${item.to}`
+                                      : `${ADJUSTMENT_LABELS[item.action || ''] || 'Adjustment'}${item.taskName ? ` (${item.taskName})` : ''}`}
+                                    {item.reason && <span className="text-gray-500">, {item.reason}</span>}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,610 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import Navigation from '@/components/pages/Navbar';
+import { localDateKey } from '@/lib/costing';
+
+// ==================== TYPES ====================
+interface RuleVersion {
+  id: string;
+  version: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  dailyThresholdHours: string | null;
+  weeklyThresholdHours: string | null;
+  overtimeMultiplier: string;
+  weekendMultiplier: string;
+  holidayMultiplier: string;
+  holidayCountryCode: string | null;
+  holidayStateCode: string | null;
+  createdByName: string | null;
+}
+
+interface Holiday {
+  id: string;
+  countryCode: string;
+  stateCode: string | null;
+  holidayDate: string;
+  name: string;
+}
+
+interface RuleFormData {
+  effectiveFrom: string;
+  dailyThresholdHours: string;
+  weeklyThresholdHours: string;
+  overtimeMultiplier: string;
+  weekendMultiplier: string;
+  holidayMultiplier: string;
+  holidayCountryCode: string;
+  holidayStateCode: string;
+}
+
+interface Region {
+  code: string;
+  name: string;
+}
+
+const emptyRuleForm: RuleFormData = {
+  effectiveFrom: '',
+  dailyThresholdHours: '8',
+  weeklyThresholdHours: '40',
+  overtimeMultiplier: '1.5',
+  weekendMultiplier: '1',
+  holidayMultiplier: '1',
+  holidayCountryCode: '',
+  holidayStateCode: '',
+};
+
+const formatHours = (value: string | null) => (value === null ? '—' : `${parseFloat(value)}h`);
+const formatMultiplier = (value: string) => `×${parseFloat(value)}`;
+
+// ==================== RATE RULES PAGE ====================
+export default function RateRulesPage() {
+  const [versions, setVersions] = useState<RuleVersion[]>([]);
+  const [ruleForm, setRuleForm] = useState<RuleFormData>(emptyRuleForm);
+  const [countries, setCountries] = useState<Region[]>([]);
+  const [ruleStates, setRuleStates] = useState<Region[]>([]);
+  const [calendar, setCalendar] = useState({ countryCode: '', stateCode: '' });
+  const [calendarStates, setCalendarStates] = useState<Region[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [holidayForm, setHolidayForm] = useState({ holidayDate: '', name: '', stateOnly: false });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchVersions();
+    fetchCountries();
+  }, []);
+
+  useEffect(() => {
+    fetchStates(ruleForm.holidayCountryCode, setRuleStates);
+  }, [ruleForm.holidayCountryCode]);
+
+  useEffect(() => {
+    fetchStates(calendar.countryCode, setCalendarStates);
+  }, [calendar.countryCode]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [calendar.countryCode, calendar.stateCode]);
+
+  const fetchCountries = async () => {
+    try {
+      const response = await fetch('/api/address/countries');
+      const data = await response.json();
+      if (response.ok && Array.isArray(data)) {
+        setCountries(data.map((country: { isoCode: string; name: string }) => ({
+          code: country.isoCode,
+          name: country.name,
+        })));
+      }
+    } catch (err) {
+      console.error('Error fetching countries:', err);
+    }
+  };
+
+  const fetchStates = (countryCode: string, setStates: (states: Region[]) => void) => {
+    if (!countryCode) {
+      setStates([]);
+      return;
+    }
+    fetch(`/api/address/states/${countryCode}`)
+      .then(response => response.json())
+      .then(data => setStates(Array.isArray(data) ? data : []))
+      .catch(err => console.error('Error fetching states:', err));
+  };
+
+  const fetchVersions = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/rate-rules');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch rate rules');
+      }
+
+      setVersions(data.versions || []);
+
+      // A new version starts from the latest one, and the holiday list from its calendar
+      const latest: RuleVersion | undefined = data.versions?.[data.versions.length - 1];
+      if (latest) {
+        setRuleForm({
+          effectiveFrom: '',
+          dailyThresholdHours: latest.dailyThresholdHours ? parseFloat(latest.dailyThresholdHours).toString() : '',
+          weeklyThresholdHours: latest.weeklyThresholdHours ? parseFloat(latest.weeklyThresholdHours).toString() : '',
+          overtimeMultiplier: parseFloat(latest.overtimeMultiplier).toString(),
+          weekendMultiplier: parseFloat(latest.weekendMultiplier).toString(),
+          holidayMultiplier: parseFloat(latest.holidayMultiplier).toString(),
+          holidayCountryCode: latest.holidayCountryCode || '',
+          holidayStateCode: latest.holidayStateCode || '',
+        });
+        setCalendar(prev =>
+          prev.countryCode
+            ? prev
+            : { countryCode: latest.holidayCountryCode || '', stateCode: latest.holidayStateCode || '' }
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch rate rules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchHolidays = async () => {
+    if (!calendar.countryCode) {
+      setHolidays([]);
+      return;
+    }
+    try {
+      const params = new URLSearchParams({ countryCode: calendar.countryCode });
+      if (calendar.stateCode) params.set('stateCode', calendar.stateCode);
+      const response = await fetch(`/api/holidays?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch holidays');
+      }
+
+      setHolidays(data.holidays || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch holidays');
+    }
+  };
+
+  const handleRuleChange = (field: keyof RuleFormData, value: string) => {
+    setRuleForm(prev => ({
+      ...prev,
+      [field]: value,
+      ...(field === 'holidayCountryCode' ? { holidayStateCode: '' } : {}),
+    }));
+  };
+
+  const handleAddVersion = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/rate-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ruleForm),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add rule version');
+      }
+
+      setMessage(`Version ${data.version.version} takes effect on ${data.version.effectiveFrom}`);
+      await fetchVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add rule version');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleWithdrawVersion = async (version: RuleVersion) => {
+    if (!confirm(`Withdraw version ${version.version}? The version before it stays in force.`)) {
+      return;
+    }
+
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/rate-rules/${version.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to withdraw rule version');
+      }
+
+      await fetchVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw rule version');
+    }
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/holidays', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          countryCode: calendar.countryCode,
+          stateCode: holidayForm.stateOnly ? calendar.stateCode : null,
+          holidayDate: holidayForm.holidayDate,
+          name: holidayForm.name,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add holiday');
+      }
+
+      setHolidayForm({ holidayDate: '', name: '', stateOnly: holidayForm.stateOnly });
+      await fetchHolidays();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add holiday');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    if (!confirm(`Remove ${holiday.name} (${holiday.holidayDate})?`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/holidays/${holiday.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete holiday');
+      }
+
+      setHolidays(prev => prev.filter(h => h.id !== holiday.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete holiday');
+    }
+  };
+
+  const today = localDateKey();
+  const latestVersion = versions[versions.length - 1];
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div>
+            <Link href="/dashboard/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+              ← Back to Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mt-4">Rate Rules</h1>
+            <p className="text-gray-600 mt-2">
+              Approved hours beyond the daily or weekly threshold, on weekends or on holidays of the chosen calendar cost
+              more. Each version applies to work dated from its effective date, and every costed task shows the
+              multiplier it got and why.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+              {message}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">In Force</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Daily / Weekly</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Overtime</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Weekend</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Holiday</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Calendar</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {versions.length === 0 ? (
+                      <tr>
+                        <td colSpan={8} className="px-4 py-6 text-center text-sm text-gray-500">
+                          No rules yet; all hours are costed at the standard rate.
+                        </td>
+                      </tr>
+                    ) : (
+                      versions.map((version) => (
+                        <tr key={version.id} className="hover:bg-gray-50">
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            v{version.version}
+                            {version.createdByName && (
+                              <p className="text-xs text-gray-500 font-normal">by {version.createdByName}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700">
+                            {version.effectiveFrom} to {version.effectiveTo ?? 'now'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-700">
+                            {formatHours(version.dailyThresholdHours)} / {formatHours(version.weeklyThresholdHours)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-700">{formatMultiplier(version.overtimeMultiplier)}</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-700">{formatMultiplier(version.weekendMultiplier)}</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-700">{formatMultiplier(version.holidayMultiplier)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700">
+                            {version.holidayCountryCode
+                              ? [version.holidayCountryCode, version.holidayStateCode].filter(Boolean).join(' / ')
+                              : 'None'}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {version.id === latestVersion?.id && version.effectiveFrom > today && (
+                              <button
+                                onClick={() => handleWithdrawVersion(version)}
+                                className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                                title="Withdraw version"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              <form
+                onSubmit={handleAddVersion}
+                className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-4 gap-4"
+              >
+                <h2 className="md:col-span-4 text-lg font-semibold text-gray-900">New Version</h2>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Effective From</label>
+                  <input
+                    type="date"
+                    required
+                    min={latestVersion?.effectiveFrom}
+                    value={ruleForm.effectiveFrom}
+                    onChange={(e) => handleRuleChange('effectiveFrom', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Daily Threshold (h)</label>
+                  <input
+                    type="number"
+                    min="0.5"
+                    max="24"
+                    step="0.5"
+                    value={ruleForm.dailyThresholdHours}
+                    onChange={(e) => handleRuleChange('dailyThresholdHours', e.target.value)}
+                    disabled={isSubmitting}
+                    placeholder="None"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Weekly Threshold (h)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="168"
+                    step="0.5"
+                    value={ruleForm.weeklyThresholdHours}
+                    onChange={(e) => handleRuleChange('weeklyThresholdHours', e.target.value)}
+                    disabled={isSubmitting}
+                    placeholder="None"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Overtime Multiplier</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="10"
+                    step="0.05"
+                    value={ruleForm.overtimeMultiplier}
+                    onChange={(e) => handleRuleChange('overtimeMultiplier', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Weekend Multiplier</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="10"
+                    step="0.05"
+                    value={ruleForm.weekendMultiplier}
+                    onChange={(e) => handleRuleChange('weekendMultiplier', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Holiday Multiplier</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="10"
+                    step="0.05"
+                    value={ruleForm.holidayMultiplier}
+                    onChange={(e) => handleRuleChange('holidayMultiplier', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Holiday Calendar</label>
+                  <select
+                    value={ruleForm.holidayCountryCode}
+                    onChange={(e) => handleRuleChange('holidayCountryCode', e.target.value)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  >
+                    <option value="">No holidays</option>
+                    {countries.map((country) => (
+                      <option key={country.code} value={country.code}>{country.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">State</label>
+                  <select
+                    value={ruleForm.holidayStateCode}
+                    onChange={(e) => handleRuleChange('holidayStateCode', e.target.value)}
+                    disabled={isSubmitting || !ruleForm.holidayCountryCode}
+                    className={inputClass}
+                  >
+                    <option value="">Countrywide holidays only</option>
+                    {ruleStates.map((state) => (
+                      <option key={state.code} value={state.code}>{state.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-4 flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                  >
+                    {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                    Add Version
+                  </button>
+                </div>
+              </form>
+
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+                <h2 className="text-lg font-semibold text-gray-900">Holiday Calendars</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <select
+                    value={calendar.countryCode}
+                    onChange={(e) => setCalendar({ countryCode: e.target.value, stateCode: '' })}
+                    className={inputClass}
+                  >
+                    <option value="">Choose a country</option>
+                    {countries.map((country) => (
+                      <option key={country.code} value={country.code}>{country.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={calendar.stateCode}
+                    onChange={(e) => setCalendar(prev => ({ ...prev, stateCode: e.target.value }))}
+                    disabled={!calendar.countryCode}
+                    className={inputClass}
+                  >
+                    <option value="">Countrywide</option>
+                    {calendarStates.map((state) => (
+                      <option key={state.code} value={state.code}>{state.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {calendar.countryCode && (
+                  <>
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                      {holidays.length === 0 ? (
+                        <li className="px-4 py-3 text-sm text-gray-500">No holidays in this calendar yet.</li>
+                      ) : (
+                        holidays.map((holiday) => (
+                          <li key={holiday.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                            <span className="text-gray-900">
+                              {holiday.holidayDate} · {holiday.name}
+                              <span className="text-gray-500">
+                                {holiday.stateCode ? ` (${holiday.stateCode} only)` : ' (countrywide)'}
+                              </span>
+                            </span>
+                            <button
+                              onClick={() => handleDeleteHoliday(holiday)}
+                              className="p-1 text-red-600 hover:bg-red-50 rounded"
+                              title="Remove holiday"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </li>
+                        ))
+                      )}
+                    </ul>
+
+                    <form onSubmit={handleAddHoliday} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                      <input
+                        type="date"
+                        required
+                        value={holidayForm.holidayDate}
+                        onChange={(e) => setHolidayForm(prev => ({ ...prev, holidayDate: e.target.value }))}
+                        disabled={isSubmitting}
+                        className={inputClass}
+                      />
+                      <input
+                        type="text"
+                        required
+                        placeholder="Holiday name"
+                        value={holidayForm.name}
+                        onChange={(e) => setHolidayForm(prev => ({ ...prev, name: e.target.value }))}
+                        disabled={isSubmitting}
+                        className={inputClass}
+                      />
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={holidayForm.stateOnly}
+                          onChange={(e) => setHolidayForm(prev => ({ ...prev, stateOnly: e.target.checked }))}
+                          disabled={isSubmitting || !calendar.stateCode}
+                        />
+                        This state only
+                      </label>
+                      <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                      >
+                        <Plus className="w-4 h-4" />
+                        Add Holiday
+                      </button>
+                    </form>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,502 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import Navigation from '@/components/pages/Navbar';
+import { formatCurrency, localDateKey } from '@/lib/costing';
+
+// ==================== TYPES ====================
+interface EmployeeRate {
+  id: string;
+  employeeId: string;
+  employeeName: string | null;
+  employeeEmail: string | null;
+  hourlyRate: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+interface CostLoading {
+  id: string;
+  benefitsPercent: string;
+  facilitiesOverheadPerHour: string;
+  nonBillableAllocationPercent: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  createdByName: string | null;
+}
+
+interface Employee {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface RateFormData {
+  employeeId: string;
+  hourlyRate: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+}
+
+const emptyForm: RateFormData = {
+  employeeId: '',
+  hourlyRate: '',
+  effectiveFrom: localDateKey(),
+  effectiveTo: '',
+};
+
+const emptyLoadingForm = {
+  benefitsPercent: '',
+  facilitiesOverheadPerHour: '',
+  nonBillableAllocationPercent: '',
+  effectiveFrom: localDateKey(),
+};
+
+// ==================== RATES PAGE ====================
+export default function EmployeeRatesPage() {
+  const [rates, setRates] = useState<EmployeeRate[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [formData, setFormData] = useState<RateFormData>(emptyForm);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingRateId, setDeletingRateId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [costCurrency, setCostCurrency] = useState<string | undefined>(undefined);
+  const [loadings, setLoadings] = useState<CostLoading[]>([]);
+  const [loadingForm, setLoadingForm] = useState(emptyLoadingForm);
+  const [isSubmittingLoading, setIsSubmittingLoading] = useState(false);
+  const [withdrawingLoadingId, setWithdrawingLoadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRates();
+    fetchCostCurrency();
+    fetchLoadings();
+  }, []);
+
+  const fetchLoadings = async () => {
+    try {
+      const response = await fetch('/api/cost-loadings');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch cost loadings');
+      }
+
+      setLoadings(data.loadings || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch cost loadings');
+    }
+  };
+
+  const fetchCostCurrency = async () => {
+    try {
+      const response = await fetch('/api/settings/organisation');
+      const data = await response.json();
+      if (response.ok) setCostCurrency(data.settings.costCurrency);
+    } catch (err) {
+      console.error('Error fetching organisation settings:', err);
+    }
+  };
+
+  const fetchRates = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/employee-rates');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch rates');
+      }
+
+      setRates(data.rates || []);
+      setEmployees(data.employees || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch rates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChange = (field: keyof RateFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.employeeId || !formData.hourlyRate || !formData.effectiveFrom) {
+      setError('Employee, hourly rate and effective from are required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/employee-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          employeeId: formData.employeeId,
+          hourlyRate: parseFloat(formData.hourlyRate),
+          effectiveFrom: formData.effectiveFrom,
+          effectiveTo: formData.effectiveTo || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create rate');
+      }
+
+      setFormData(emptyForm);
+      fetchRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create rate');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    if (!confirm('Delete this rate? Costs for the period it covered will no longer be calculated.')) {
+      return;
+    }
+
+    setDeletingRateId(rateId);
+    try {
+      const response = await fetch(`/api/employee-rates/${rateId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete rate');
+      }
+
+      setRates(prev => prev.filter(r => r.id !== rateId));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete rate');
+    } finally {
+      setDeletingRateId(null);
+    }
+  };
+
+  const handleAddLoading = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmittingLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/cost-loadings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          benefitsPercent: loadingForm.benefitsPercent || '0',
+          facilitiesOverheadPerHour: loadingForm.facilitiesOverheadPerHour || '0',
+          nonBillableAllocationPercent: loadingForm.nonBillableAllocationPercent || '0',
+          effectiveFrom: loadingForm.effectiveFrom,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create cost loading');
+      }
+
+      setLoadingForm(emptyLoadingForm);
+      fetchLoadings();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create cost loading');
+    } finally {
+      setIsSubmittingLoading(false);
+    }
+  };
+
+  const handleWithdrawLoading = async (loadingId: string) => {
+    if (!confirm('Withdraw this cost loading? The one before it stays in force.')) {
+      return;
+    }
+
+    setWithdrawingLoadingId(loadingId);
+    try {
+      const response = await fetch(`/api/cost-loadings/${loadingId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to withdraw cost loading');
+      }
+
+      fetchLoadings();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to withdraw cost loading');
+    } finally {
+      setWithdrawingLoadingId(null);
+    }
+  };
+
+  const today = localDateKey();
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div>
+            <Link href="/dashboard/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+              ← Back to Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mt-4">Employee Cost Rates</h1>
+            <p className="text-gray-600 mt-2">
+              Hourly cost per employee. Adding a new rate closes the current one the day before it takes effect.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {/* Add Rate Form */}
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-5 gap-4 items-end"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Employee</label>
+              <select
+                value={formData.employeeId}
+                onChange={(e) => handleChange('employeeId', e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Select employee</option>
+                {employees.map((employee) => (
+                  <option key={employee.id} value={employee.id}>
+                    {employee.name} ({employee.email})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Hourly Rate</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.hourlyRate}
+                onChange={(e) => handleChange('hourlyRate', e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Effective From</label>
+              <input
+                type="date"
+                value={formData.effectiveFrom}
+                onChange={(e) => handleChange('effectiveFrom', e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Effective To (optional)</label>
+              <input
+                type="date"
+                value={formData.effectiveTo}
+                onChange={(e) => handleChange('effectiveTo', e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Add Rate
+            </button>
+          </form>
+
+          {/* Rates Table */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Employee</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Hourly Rate</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Effective From</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Effective To</th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rates.map((rate) => (
+                      <tr key={rate.id} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-6 py-4">
+                          <p className="font-medium text-gray-900">{rate.employeeName || 'Unknown'}</p>
+                          <p className="text-sm text-gray-500">{rate.employeeEmail || 'N/A'}</p>
+                        </td>
+                        <td className="px-6 py-4 font-semibold text-gray-900">{formatCurrency(rate.hourlyRate, costCurrency)}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">{rate.effectiveFrom}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600">{rate.effectiveTo || 'Current'}</td>
+                        <td className="px-6 py-4">
+                          <button
+                            onClick={() => handleDelete(rate.id)}
+                            disabled={deletingRateId === rate.id}
+                            className="text-red-600 hover:text-red-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                          >
+                            {deletingRateId === rate.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4" />
+                            )}
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {rates.length === 0 && (
+                  <div className="text-center py-12">
+                    <p className="text-gray-500">No rates yet. Add one above to start costing approved hours.</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Cost Loading */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Cost Loading</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Fully-loaded cost is the direct cost plus benefits, plus facilities overhead for each hour worked,
+                divided by the share of time that is not non-billable. A new loading closes the current one the day
+                before it takes effect, so reports for earlier work do not change.
+              </p>
+            </div>
+
+            <form onSubmit={handleAddLoading} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Benefits (% of direct cost)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="500"
+                  step="0.01"
+                  value={loadingForm.benefitsPercent}
+                  onChange={(e) => setLoadingForm(prev => ({ ...prev, benefitsPercent: e.target.value }))}
+                  disabled={isSubmittingLoading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Facilities / hour{costCurrency ? ` (${costCurrency})` : ''}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={loadingForm.facilitiesOverheadPerHour}
+                  onChange={(e) => setLoadingForm(prev => ({ ...prev, facilitiesOverheadPerHour: e.target.value }))}
+                  disabled={isSubmittingLoading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Non-billable time (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="90"
+                  step="0.01"
+                  value={loadingForm.nonBillableAllocationPercent}
+                  onChange={(e) => setLoadingForm(prev => ({ ...prev, nonBillableAllocationPercent: e.target.value }))}
+                  disabled={isSubmittingLoading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Effective From</label>
+                <input
+                  type="date"
+                  value={loadingForm.effectiveFrom}
+                  onChange={(e) => setLoadingForm(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+                  disabled={isSubmittingLoading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmittingLoading}
+                className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+              >
+                {isSubmittingLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                Add Loading
+              </button>
+            </form>
+
+            {loadings.length === 0 ? (
+              <p className="text-sm text-gray-500">No cost loading yet. Reports show direct cost only.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Benefits</th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Facilities / hour</th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Non-billable</th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Effective From</th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Effective To</th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Added By</th>
+                      <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {[...loadings].reverse().map((loading, index) => (
+                      <tr key={loading.id}>
+                        <td className="px-6 py-3 text-sm text-gray-900">{parseFloat(loading.benefitsPercent)}%</td>
+                        <td className="px-6 py-3 text-sm text-gray-900">{formatCurrency(loading.facilitiesOverheadPerHour, costCurrency)}</td>
+                        <td className="px-6 py-3 text-sm text-gray-900">{parseFloat(loading.nonBillableAllocationPercent)}%</td>
+                        <td className="px-6 py-3 text-sm text-gray-600">{loading.effectiveFrom}</td>
+                        <td className="px-6 py-3 text-sm text-gray-600">{loading.effectiveTo || 'Current'}</td>
+                        <td className="px-6 py-3 text-sm text-gray-600">{loading.createdByName || 'Unknown'}</td>
+                        <td className="px-6 py-3">
+                          {index === 0 && loading.effectiveFrom > today && (
+                            <button
+                              onClick={() => handleWithdrawLoading(loading.id)}
+                              disabled={withdrawingLoadingId === loading.id}
+                              className="text-red-600 hover:text-red-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                            >
+                              {withdrawingLoadingId === loading.id ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="w-4 h-4" />
+                              )}
+                              Withdraw
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Save } from 'lucide-react';
+import Navigation from '@/components/pages/Navbar';
+import { GST_STATE_CODES, isValidHsnSac, stateCodeFromGstin, validateGstin } from '@/lib/gst';
+
+// ==================== TYPES ====================
+interface TaxFormData {
+  legalName: string;
+  address: string;
+  gstin: string;
+  defaultSacCode: string;
+  defaultGstRate: string;
+}
+
+const emptyForm: TaxFormData = {
+  legalName: '',
+  address: '',
+  gstin: '',
+  defaultSacCode: '',
+  defaultGstRate: '',
+};
+
+// ==================== TAX SETTINGS PAGE ====================
+export default function TaxSettingsPage() {
+  const [formData, setFormData] = useState<TaxFormData>(emptyForm);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/settings/organisation');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch settings');
+      }
+
+      setFormData({
+        legalName: data.settings.legalName || '',
+        address: data.settings.address || '',
+        gstin: data.settings.gstin || '',
+        defaultSacCode: data.settings.defaultSacCode || '',
+        defaultGstRate: data.settings.defaultGstRate ? parseFloat(data.settings.defaultGstRate).toString() : '',
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChange = (field: keyof TaxFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const gstin = formData.gstin.trim().toUpperCase();
+    const gstinError = gstin ? validateGstin(gstin) : null;
+    if (gstinError) {
+      setError(gstinError);
+      return;
+    }
+    if (!isValidHsnSac(formData.defaultSacCode)) {
+      setError('HSN/SAC code must be 4, 6 or 8 digits');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/settings/organisation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          legalName: formData.legalName,
+          address: formData.address,
+          gstin: gstin || null,
+          defaultSacCode: formData.defaultSacCode,
+          defaultGstRate: formData.defaultGstRate,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update settings');
+      }
+
+      setMessage('Tax settings saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const stateCode = stateCodeFromGstin(formData.gstin.trim().toUpperCase());
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div>
+            <Link href="/dashboard/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+              ← Back to Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mt-4">Tax Settings</h1>
+            <p className="text-gray-600 mt-2">
+              With a GSTIN set, invoices charge CGST + SGST to clients in your state and IGST to everyone else.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+              {message}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <form
+              onSubmit={handleSubmit}
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-2 gap-4"
+            >
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Legal Name</label>
+                <input
+                  type="text"
+                  value={formData.legalName}
+                  onChange={(e) => handleChange('legalName', e.target.value)}
+                  disabled={isSaving}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Registered Address</label>
+                <textarea
+                  rows={3}
+                  value={formData.address}
+                  onChange={(e) => handleChange('address', e.target.value)}
+                  disabled={isSaving}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">GSTIN</label>
+                <input
+                  type="text"
+                  maxLength={15}
+                  value={formData.gstin}
+                  onChange={(e) => handleChange('gstin', e.target.value.toUpperCase())}
+                  disabled={isSaving}
+                  placeholder="Not registered"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+                {stateCode && GST_STATE_CODES[stateCode] && (
+                  <p className="text-xs text-gray-500 mt-1">Registered in {GST_STATE_CODES[stateCode]}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Default SAC Code</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  maxLength={8}
+                  value={formData.defaultSacCode}
+                  onChange={(e) => handleChange('defaultSacCode', e.target.value)}
+                  disabled={isSaving}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Printed on every invoice line unless changed on the draft.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Default GST Rate (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={formData.defaultGstRate}
+                  onChange={(e) => handleChange('defaultGstRate', e.target.value)}
+                  disabled={isSaving}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="md:col-span-2 flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Save
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
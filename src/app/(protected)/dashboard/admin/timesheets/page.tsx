@@ -0,0 +1,369 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, Eye, Loader2, Save, XCircle } from 'lucide-react';
+import Navigation from '@/components/pages/Navbar';
+import { TimesheetTable } from '@/components/admin/dashboard/TimesheetTable';
+import { TimesheetRow, TimesheetStatus } from '@/lib/timesheets';
+
+// ==================== TYPES ====================
+interface TimesheetSummary {
+  id: string;
+  employeeId: string;
+  employeeName: string | null;
+  employeeEmail: string | null;
+  weekStart: string;
+  status: TimesheetStatus;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+  totalHours: string;
+}
+
+interface TimesheetWeek {
+  days: string[];
+  rows: TimesheetRow[];
+}
+
+const STATUS_TABS: { value: Exclude<TimesheetStatus, 'draft'>; label: string }[] = [
+  { value: 'submitted', label: 'Awaiting Approval' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Sent Back' },
+];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// ==================== TIMESHEETS PAGE ====================
+export default function TimesheetsPage() {
+  const [status, setStatus] = useState<Exclude<TimesheetStatus, 'draft'>>('submitted');
+  const [timesheets, setTimesheets] = useState<TimesheetSummary[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [openWeek, setOpenWeek] = useState<TimesheetWeek | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [timerLimitHours, setTimerLimitHours] = useState('');
+  const [isSavingLimit, setIsSavingLimit] = useState(false);
+
+  useEffect(() => {
+    fetchTimesheets();
+  }, [status]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/organisation');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch settings');
+      }
+
+      setTimerLimitHours(String(data.settings.timerLimitHours));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch settings');
+    }
+  };
+
+  const handleSaveLimit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSavingLimit(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/settings/organisation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timerLimitHours }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update settings');
+      }
+
+      setMessage('Timer limit saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settings');
+    } finally {
+      setIsSavingLimit(false);
+    }
+  };
+
+  const fetchTimesheets = async () => {
+    setIsLoading(true);
+    setOpenId(null);
+    setOpenWeek(null);
+    try {
+      const response = await fetch(`/api/timesheets?status=${status}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch timesheets');
+      }
+
+      setTimesheets(data.timesheets || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch timesheets');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleView = async (timesheet: TimesheetSummary) => {
+    if (openId === timesheet.id) {
+      setOpenId(null);
+      setOpenWeek(null);
+      return;
+    }
+
+    setOpenId(timesheet.id);
+    setOpenWeek(null);
+    try {
+      const response = await fetch(`/api/timesheets/${timesheet.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch timesheet');
+      }
+
+      setOpenWeek({ days: data.days, rows: data.rows });
+    } catch (err) {
+      setOpenId(null);
+      setError(err instanceof Error ? err.message : 'Failed to fetch timesheet');
+    }
+  };
+
+  // Approving hours already exported to payroll, or in a locked period, asks
+  // for the reason of the adjustment, as approving the task would
+  const handleReview = async (timesheet: TimesheetSummary, review: 'approved' | 'rejected') => {
+    let rejectionReason: string | undefined;
+    if (review === 'rejected') {
+      const reason = prompt(`Send back the week of ${timesheet.weekStart} for ${timesheet.employeeName || 'this employee'}?\n\nReason:`);
+      if (!reason?.trim()) return;
+      rejectionReason = reason.trim();
+    } else if (!confirm(`Approve ${parseFloat(timesheet.totalHours).toFixed(2)}h for the week of ${timesheet.weekStart}?`)) {
+      return;
+    }
+
+    setBusyId(timesheet.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const send = (adjustmentReason?: string) =>
+        fetch(`/api/timesheets/${timesheet.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status: review, rejectionReason, adjustmentReason }),
+        });
+
+      let response = await send();
+      let data = await response.json();
+
+      if (response.status === 409 && (data.payPeriodLocked || data.periodLocked)) {
+        const reason = prompt(`${data.error}\n\nReason for the adjustment:`);
+        if (!reason?.trim()) return;
+        response = await send(reason.trim());
+        data = await response.json();
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to review timesheet');
+      }
+
+      setMessage(review === 'approved' ? 'Timesheet approved' : 'Timesheet sent back');
+      await fetchTimesheets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review timesheet');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div>
+            <Link href="/dashboard/admin" className="text-blue-600 hover:text-blue-700 font-medium">
+              ← Back to Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 mt-4">Timesheets</h1>
+            <p className="text-gray-600 mt-2">
+              Review the weeks employees submit. Approving a week approves all of its pending time at once;
+              sending it back lets the employee correct and submit it again.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+              {message}
+            </div>
+          )}
+
+          <form
+            onSubmit={handleSaveLimit}
+            className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col md:flex-row md:items-end gap-4"
+          >
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Timer Limit (hours)</label>
+              <input
+                type="number"
+                min="1"
+                max="24"
+                step="1"
+                value={timerLimitHours}
+                onChange={(e) => setTimerLimitHours(e.target.value)}
+                disabled={isSavingLimit}
+                className="w-full md:w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Timers left running longer are stopped at this many hours and the employee is emailed.
+              </p>
+            </div>
+            <button
+              type="submit"
+              disabled={isSavingLimit || !timerLimitHours}
+              className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isSavingLimit ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save
+            </button>
+          </form>
+
+          <div className="flex gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setStatus(tab.value)}
+                className={`px-4 py-2 rounded-lg font-medium text-sm transition-colors ${
+                  status === tab.value
+                    ? 'bg-blue-600 text-white'
+                    : 'border border-gray-300 text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : timesheets.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-gray-500">
+              No timesheets here.
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Employee</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Week</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      {status === 'submitted' ? 'Submitted' : 'Reviewed'}
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Hours</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {timesheets.map((timesheet) => (
+                    <React.Fragment key={timesheet.id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-6 py-4 text-sm">
+                          <p className="font-medium text-gray-900">{timesheet.employeeName || 'Unknown'}</p>
+                          <p className="text-gray-500">{timesheet.employeeEmail}</p>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">{formatDate(timesheet.weekStart)}</td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {status === 'submitted'
+                            ? timesheet.submittedAt && formatDate(timesheet.submittedAt)
+                            : timesheet.reviewedAt && formatDate(timesheet.reviewedAt)}
+                          {status === 'rejected' && timesheet.rejectionReason && (
+                            <p className="text-xs text-red-600">{timesheet.rejectionReason}</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-right font-semibold text-gray-900">
+                          {parseFloat(timesheet.totalHours).toFixed(2)}h
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => handleView(timesheet)}
+                              className="flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-100"
+                            >
+                              <Eye className="w-3 h-3" />
+                              {openId === timesheet.id ? 'Hide' : 'View'}
+                            </button>
+                            {timesheet.status === 'submitted' && (
+                              <>
+                                <button
+                                  onClick={() => handleReview(timesheet, 'approved')}
+                                  disabled={busyId !== null}
+                                  className="flex items-center gap-1 px-3 py-1 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                                >
+                                  {busyId === timesheet.id ? (
+                                    <Loader2 className="w-3 h-3 animate-spin" />
+                                  ) : (
+                                    <CheckCircle className="w-3 h-3" />
+                                  )}
+                                  Approve
+                                </button>
+                                <button
+                                  onClick={() => handleReview(timesheet, 'rejected')}
+                                  disabled={busyId !== null}
+                                  className="flex items-center gap-1 px-3 py-1 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                                >
+                                  <XCircle className="w-3 h-3" />
+                                  Send Back
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                      {openId === timesheet.id && (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                            {openWeek ? (
+                              <TimesheetTable
+                                days={openWeek.days}
+                                rows={openWeek.rows}
+                                values={Object.fromEntries(openWeek.rows.map((row) => [row.taskId, row.hours]))}
+                              />
+                            ) : (
+                              <div className="flex items-center justify-center py-4">
+                                <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
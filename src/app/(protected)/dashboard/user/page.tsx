@@ -7,6 +7,9 @@ import { Loader2 } from 'lucide-react';
 import NavBar from '@/components/common/NavBar';
 import DashboardNavBar from '@/components/common/DashboardNavBar';
 import Navigation from '@/components/pages/Navbar';
+import { NonBillableReason } from '@/lib/billable';
+import { TimesheetGrid } from '@/components/user/dashboard/TimesheetGrid';
+import { TaskTimer } from '@/components/user/dashboard/TaskTimer';
 
 // ==================== TYPES ====================
 interface Project {
@@ -14,6 +17,9 @@ interface Project {
   projectName: string;
   description: string | null;
   isActive: boolean;
+  billingCurrency: string;
+  defaultBillable: boolean;
+  defaultNonBillableReason: NonBillableReason | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -25,7 +31,11 @@ interface Task {
   actualHours: string;
   status: 'pending' | 'approved' | 'rejected';
   approvedAt: string | null;
+  workDate: string;
   createdAt: string;
+  isBillable: boolean;
+  nonBillableReason: NonBillableReason | null;
+  invoiceId: string | null;
   employeeId: string;
   employeeName: string;
   employeeEmail: string;
@@ -41,6 +51,9 @@ interface EmployeeSummary {
   pendingTasks: number;
   approvedTasks: number;
   rejectedTasks: number;
+  billableHours: number;
+  nonBillableHours: number;
+  utilisationPercent: number | null;
 }
 
 interface ProjectDetails {
@@ -66,6 +79,7 @@ export default function UserDashboard() {
   const [isLoadingDetails, setIsLoadingDetails] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentUserId, setCurrentUserId] = useState<string>('');
+  const [timerStops, setTimerStops] = useState(0);
 
   useEffect(() => {
     fetchCurrentUser();
@@ -183,6 +197,16 @@ export default function UserDashboard() {
             <p className="text-gray-500 text-lg">No projects available.</p>
           </div>
         )}
+
+        {/* Timer */}
+        <div className="mt-8">
+          <TaskTimer onStopped={() => setTimerStops(stops => stops + 1)} />
+        </div>
+
+        {/* Weekly Timesheet */}
+        <div className="mt-8">
+          <TimesheetGrid refreshKey={timerStops} />
+        </div>
       </div>
       </div>
     </>
@@ -0,0 +1,142 @@
+// ====================================
+// app/api/bill-rates/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, isNull } from 'drizzle-orm';
+import { BillRates, Projects } from '@/drizzle/schema';
+import { findBillRatesByProject, findBillRatesInScope } from '@/data/bill-rate';
+import { findOverlappingPeriod, isDateKey, previousDateKey, supersedeOpenPeriod } from '@/lib/costing';
+
+// GET - List bill rates for a project (Admin only)
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const projectId = searchParams.get('projectId');
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'Project ID is required' }, { status: 400 });
+    }
+
+    const rates = await findBillRatesByProject(projectId);
+
+    return NextResponse.json({ rates }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching bill rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bill rates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a bill rate for a project or a project/employee pair (Admin only)
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { projectId, hourlyRate, effectiveFrom, effectiveTo } = body;
+    const employeeId: string | null = body.employeeId || null;
+
+    if (!projectId || hourlyRate == null || !effectiveFrom) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (isNaN(parseFloat(hourlyRate)) || parseFloat(hourlyRate) < 0) {
+      return NextResponse.json({ error: 'Hourly rate must be a positive number' }, { status: 400 });
+    }
+
+    if (!isDateKey(effectiveFrom) || (effectiveTo && !isDateKey(effectiveTo))) {
+      return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (effectiveTo && effectiveTo < effectiveFrom) {
+      return NextResponse.json({ error: 'Effective to cannot be before effective from' }, { status: 400 });
+    }
+
+    const [project] = await db
+      .select({ id: Projects.id })
+      .from(Projects)
+      .where(eq(Projects.id, projectId))
+      .limit(1);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const existingRates = await findBillRatesInScope(projectId, employeeId);
+
+    // A new rate starting after the current open-ended one supersedes it
+    const { openPeriod: openRate, periods: ratesAfterClosing } = supersedeOpenPeriod(
+      existingRates,
+      effectiveFrom
+    );
+
+    const overlapping = findOverlappingPeriod(
+      ratesAfterClosing,
+      effectiveFrom,
+      effectiveTo || null
+    );
+    if (overlapping) {
+      return NextResponse.json(
+        {
+          error: `Rate period overlaps an existing bill rate starting ${overlapping.effectiveFrom}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const rate = await db.transaction(async (tx) => {
+      if (openRate) {
+        await tx
+          .update(BillRates)
+          .set({
+            effectiveTo: previousDateKey(effectiveFrom),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(BillRates.id, openRate.id), isNull(BillRates.effectiveTo)));
+      }
+
+      const [created] = await tx
+        .insert(BillRates)
+        .values({
+          projectId,
+          employeeId,
+          hourlyRate: parseFloat(hourlyRate).toString(),
+          effectiveFrom,
+          effectiveTo: effectiveTo || null,
+          createdBy: session.user.id!,
+        })
+        .returning();
+
+      return created;
+    });
+
+    return NextResponse.json({ rate }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating bill rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to create bill rate' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+// ====================================
+// app/api/clients/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { ClientContacts, Clients, Projects } from '@/drizzle/schema';
+import { findClientById, findClientContacts } from '@/data/client';
+import { parseClientInput } from '@/lib/client';
+
+// GET - Client with its contacts and active projects
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const client = await findClientById(params.id);
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    const contacts = await findClientContacts(params.id);
+    const projects = await db
+      .select({ id: Projects.id, projectName: Projects.projectName, billingCurrency: Projects.billingCurrency })
+      .from(Projects)
+      .where(and(eq(Projects.clientId, params.id), eq(Projects.isActive, true)));
+
+    return NextResponse.json({ client: { ...client, contacts, projects } }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching client:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch client' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update a client; the contacts sent replace the existing ones (Admin only)
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingClient = await findClientById(params.id);
+    if (!existingClient) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    const parsed = parseClientInput(await req.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { contacts, ...details } = parsed.client;
+
+    const client = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(Clients)
+        .set({ ...details, updatedAt: new Date() })
+        .where(eq(Clients.id, params.id))
+        .returning();
+
+      await tx.delete(ClientContacts).where(eq(ClientContacts.clientId, params.id));
+      if (contacts.length > 0) {
+        await tx
+          .insert(ClientContacts)
+          .values(contacts.map((contact) => ({ ...contact, clientId: params.id })));
+      }
+
+      return updated;
+    });
+
+    return NextResponse.json({ client }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating client:', error);
+    return NextResponse.json(
+      { error: 'Failed to update client' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Deactivate a client (Admin only). Clients with active projects are
+// kept so the projects' invoices and reports still name them.
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingClient = await findClientById(params.id);
+    if (!existingClient) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    const [activeProject] = await db
+      .select({ id: Projects.id })
+      .from(Projects)
+      .where(and(eq(Projects.clientId, params.id), eq(Projects.isActive, true)))
+      .limit(1);
+
+    if (activeProject) {
+      return NextResponse.json(
+        { error: 'This client has active projects; move or delete them first' },
+        { status: 409 }
+      );
+    }
+
+    await db
+      .update(Clients)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(Clients.id, params.id));
+
+    return NextResponse.json({ message: 'Client deleted successfully' }, { status: 200 });
+  } catch (error) {
+    console.error('Error deleting client:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete client' },
+      { status: 500 }
+    );
+  }
+}
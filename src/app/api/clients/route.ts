@@ -0,0 +1,74 @@
+// ====================================
+// app/api/clients/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { ClientContacts, Clients } from '@/drizzle/schema';
+import { findClients } from '@/data/client';
+import { parseClientInput } from '@/lib/client';
+
+// GET - List active clients with their project counts
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const clients = await findClients();
+
+    return NextResponse.json({ clients }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching clients:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch clients' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a client with its contacts (Admin only)
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = parseClientInput(await req.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { contacts, ...details } = parsed.client;
+
+    const client = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(Clients)
+        .values({ ...details, createdBy: session.user.id! })
+        .returning();
+
+      if (contacts.length > 0) {
+        await tx
+          .insert(ClientContacts)
+          .values(contacts.map((contact) => ({ ...contact, clientId: created.id })));
+      }
+
+      return created;
+    });
+
+    return NextResponse.json({ client }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating client:', error);
+    return NextResponse.json(
+      { error: 'Failed to create client' },
+      { status: 500 }
+    );
+  }
+}
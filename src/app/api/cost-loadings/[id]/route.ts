@@ -0,0 +1,61 @@
+// ====================================
+// app/api/cost-loadings/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { CostLoadings } from '@/drizzle/schema';
+import { findCostLoadingById, findLatestCostLoading } from '@/data/cost-loading';
+import { orgDateKey, previousDateKey } from '@/lib/costing';
+
+// DELETE - Withdraw the latest cost loading before it takes effect (Admin
+// only). The loading before it is back in force with no end date.
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingLoading = await findCostLoadingById(params.id);
+    if (!existingLoading) {
+      return NextResponse.json({ error: 'Cost loading not found' }, { status: 404 });
+    }
+
+    const latest = await findLatestCostLoading();
+    if (latest?.id !== existingLoading.id || existingLoading.effectiveFrom <= orgDateKey()) {
+      return NextResponse.json(
+        { error: 'Only the latest loading can be withdrawn, and only before it takes effect' },
+        { status: 409 }
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(CostLoadings).where(eq(CostLoadings.id, existingLoading.id));
+      await tx
+        .update(CostLoadings)
+        .set({ effectiveTo: null })
+        .where(eq(CostLoadings.effectiveTo, previousDateKey(existingLoading.effectiveFrom)));
+    });
+
+    return NextResponse.json(
+      { message: 'Cost loading withdrawn' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting cost loading:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete cost loading' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+// ====================================
+// app/api/cost-loadings/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, isNull } from 'drizzle-orm';
+import { CostLoadings } from '@/drizzle/schema';
+import { findCostLoadings, findLatestCostLoading } from '@/data/cost-loading';
+import { parseCostLoadingInput, previousDateKey } from '@/lib/costing';
+
+// GET - Cost loadings, oldest first (Admin only)
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const loadings = await findCostLoadings();
+
+    return NextResponse.json({ loadings }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching cost loadings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cost loadings' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a cost loading (Admin only). It supersedes the current loading
+// from its effective date; earlier work keeps the loading it was costed under.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = parseCostLoadingInput(await req.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { loading } = parsed;
+
+    const latest = await findLatestCostLoading();
+    if (latest && loading.effectiveFrom <= latest.effectiveFrom) {
+      return NextResponse.json(
+        { error: `A new loading must take effect after the current one (${latest.effectiveFrom})` },
+        { status: 400 }
+      );
+    }
+
+    const created = await db.transaction(async (tx) => {
+      if (latest) {
+        await tx
+          .update(CostLoadings)
+          .set({ effectiveTo: previousDateKey(loading.effectiveFrom) })
+          .where(and(eq(CostLoadings.id, latest.id), isNull(CostLoadings.effectiveTo)));
+      }
+
+      const [inserted] = await tx
+        .insert(CostLoadings)
+        .values({
+          ...loading,
+          effectiveTo: null,
+          createdBy: session.user.id!,
+        })
+        .returning();
+
+      return inserted;
+    });
+
+    return NextResponse.json({ loading: created }, { status: 201 });
+  } catch (error) {
+    // Another admin added a loading for the same date at the same time
+    if ((error as { code?: string })?.code === '23505') {
+      return NextResponse.json(
+        { error: 'Another cost loading was added at the same time. Please try again.' },
+        { status: 409 }
+      );
+    }
+    console.error('Error creating cost loading:', error);
+    return NextResponse.json(
+      { error: 'Failed to create cost loading' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+// ====================================
+// app/api/cron/timers/route.ts
+// ====================================
+
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { stopExpiredTimers } from '@/lib/timer-stop';
+
+// The scheduler sends CRON_SECRET as a bearer token. Compared in constant time
+// so the secret cannot be guessed byte by byte.
+function isScheduler(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = req.headers.get('authorization');
+  if (!secret || !header) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// GET - Stop every timer that has run past the organisation's limit and email
+// the employees. Public: the request is authenticated by CRON_SECRET, not a
+// session. Run on a schedule, every 15 minutes.
+export async function GET(req: Request) {
+  try {
+    if (!isScheduler(req)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const stopped = await stopExpiredTimers();
+
+    return NextResponse.json({ stopped: stopped.length }, { status: 200 });
+  } catch (error) {
+    console.error('Error stopping expired timers:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop expired timers' },
+      { status: 500 }
+    );
+  }
+}
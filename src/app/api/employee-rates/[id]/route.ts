@@ -0,0 +1,124 @@
+// ====================================
+// app/api/employee-rates/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { EmployeeRates } from '@/drizzle/schema';
+import { findEmployeeRateById } from '@/data/employee-rate';
+import { findOverlappingPeriod, isDateKey } from '@/lib/costing';
+
+// PUT - Correct a rate or its effective period (Admin only)
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingRate = await findEmployeeRateById(params.id);
+    if (!existingRate) {
+      return NextResponse.json({ error: 'Rate not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const hourlyRate = body.hourlyRate ?? existingRate.hourlyRate;
+    const effectiveFrom = body.effectiveFrom ?? existingRate.effectiveFrom;
+    const effectiveTo =
+      body.effectiveTo !== undefined ? body.effectiveTo || null : existingRate.effectiveTo;
+
+    if (isNaN(parseFloat(hourlyRate)) || parseFloat(hourlyRate) < 0) {
+      return NextResponse.json({ error: 'Hourly rate must be a positive number' }, { status: 400 });
+    }
+
+    if (!isDateKey(effectiveFrom) || (effectiveTo && !isDateKey(effectiveTo))) {
+      return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (effectiveTo && effectiveTo < effectiveFrom) {
+      return NextResponse.json({ error: 'Effective to cannot be before effective from' }, { status: 400 });
+    }
+
+    const otherRates = (
+      await db
+        .select()
+        .from(EmployeeRates)
+        .where(eq(EmployeeRates.employeeId, existingRate.employeeId))
+    ).filter((rate) => rate.id !== existingRate.id);
+
+    const overlapping = findOverlappingPeriod(otherRates, effectiveFrom, effectiveTo);
+    if (overlapping) {
+      return NextResponse.json(
+        {
+          error: `Rate period overlaps an existing rate starting ${overlapping.effectiveFrom}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const [rate] = await db
+      .update(EmployeeRates)
+      .set({
+        hourlyRate: parseFloat(hourlyRate).toString(),
+        effectiveFrom,
+        effectiveTo,
+        updatedAt: new Date(),
+      })
+      .where(eq(EmployeeRates.id, params.id))
+      .returning();
+
+    return NextResponse.json({ rate }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating employee rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to update employee rate' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a rate (Admin only)
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [rate] = await db
+      .delete(EmployeeRates)
+      .where(eq(EmployeeRates.id, params.id))
+      .returning();
+
+    if (!rate) {
+      return NextResponse.json({ error: 'Rate not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: 'Rate deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting employee rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete employee rate' },
+      { status: 500 }
+    );
+  }
+}
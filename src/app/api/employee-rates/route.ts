@@ -0,0 +1,141 @@
+// ====================================
+// app/api/employee-rates/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { EmployeeRates, UserTable } from '@/drizzle/schema';
+import { findEmployeeRates } from '@/data/employee-rate';
+import { findOverlappingPeriod, isDateKey, previousDateKey, supersedeOpenPeriod } from '@/lib/costing';
+
+// GET - List cost rates (Admin only), optionally for one employee
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const employeeId = searchParams.get('employeeId') || undefined;
+
+    const rates = await findEmployeeRates(employeeId);
+
+    // Employees are returned alongside so the rate form can offer a picker
+    const employees = await db
+      .select({
+        id: UserTable.id,
+        name: UserTable.name,
+        email: UserTable.email,
+      })
+      .from(UserTable)
+      .orderBy(asc(UserTable.name));
+
+    return NextResponse.json({ rates, employees }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching employee rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch employee rates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a new effective-dated rate (Admin only)
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { employeeId, hourlyRate, effectiveFrom, effectiveTo } = body;
+
+    if (!employeeId || hourlyRate == null || !effectiveFrom) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (isNaN(parseFloat(hourlyRate)) || parseFloat(hourlyRate) < 0) {
+      return NextResponse.json({ error: 'Hourly rate must be a positive number' }, { status: 400 });
+    }
+
+    if (!isDateKey(effectiveFrom) || (effectiveTo && !isDateKey(effectiveTo))) {
+      return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (effectiveTo && effectiveTo < effectiveFrom) {
+      return NextResponse.json({ error: 'Effective to cannot be before effective from' }, { status: 400 });
+    }
+
+    const existingRates = await db
+      .select()
+      .from(EmployeeRates)
+      .where(eq(EmployeeRates.employeeId, employeeId));
+
+    // A new rate starting after the current open-ended one supersedes it
+    const { openPeriod: openRate, periods: ratesAfterClosing } = supersedeOpenPeriod(
+      existingRates,
+      effectiveFrom
+    );
+
+    const overlapping = findOverlappingPeriod(
+      ratesAfterClosing,
+      effectiveFrom,
+      effectiveTo || null
+    );
+    if (overlapping) {
+      return NextResponse.json(
+        {
+          error: `Rate period overlaps an existing rate starting ${overlapping.effectiveFrom}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const rate = await db.transaction(async (tx) => {
+      if (openRate) {
+        await tx
+          .update(EmployeeRates)
+          .set({
+            effectiveTo: previousDateKey(effectiveFrom),
+            updatedAt: new Date(),
+          })
+          .where(
+            and(eq(EmployeeRates.id, openRate.id), isNull(EmployeeRates.effectiveTo))
+          );
+      }
+
+      const [created] = await tx
+        .insert(EmployeeRates)
+        .values({
+          employeeId,
+          hourlyRate: parseFloat(hourlyRate).toString(),
+          effectiveFrom,
+          effectiveTo: effectiveTo || null,
+          createdBy: session.user.id!,
+        })
+        .returning();
+
+      return created;
+    });
+
+    return NextResponse.json({ rate }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating employee rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to create employee rate' },
+      { status: 500 }
+    );
+  }
+}
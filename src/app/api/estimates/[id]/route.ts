@@ -0,0 +1,156 @@
+// ====================================
+// app/api/estimates/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, notInArray } from 'drizzle-orm';
+import { EstimateLineItems, ProjectEstimates } from '@/drizzle/schema';
+import { findEstimateById, findLineItemsForEstimates } from '@/data/estimate';
+import { parseLineItems } from '@/lib/estimate';
+
+// PUT - Edit a draft estimate and its line items (Admin only)
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingEstimate = await findEstimateById(params.id);
+    if (!existingEstimate) {
+      return NextResponse.json({ error: 'Estimate not found' }, { status: 404 });
+    }
+
+    if (existingEstimate.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only draft estimates can be edited' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { title, notes } = body;
+
+    if (title !== undefined && !title?.trim()) {
+      return NextResponse.json({ error: 'Estimate title is required' }, { status: 400 });
+    }
+
+    const parsed = body.lineItems !== undefined ? parseLineItems(body.lineItems) : undefined;
+    if (parsed && 'error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Keep existing rows (and any tasks mapped to them) by updating in place
+    const existingIds = new Set(
+      (await findLineItemsForEstimates([params.id])).map((item) => item.id)
+    );
+    const keptIds = (parsed?.items ?? [])
+      .map((item) => item.id)
+      .filter((id): id is string => !!id && existingIds.has(id));
+
+    const estimate = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(ProjectEstimates)
+        .set({
+          title: title?.trim(),
+          notes: notes === undefined ? undefined : notes?.trim() || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(ProjectEstimates.id, params.id))
+        .returning();
+
+      if (parsed) {
+        await tx
+          .delete(EstimateLineItems)
+          .where(
+            and(
+              eq(EstimateLineItems.estimateId, params.id),
+              keptIds.length > 0 ? notInArray(EstimateLineItems.id, keptIds) : undefined
+            )
+          );
+
+        for (const [index, item] of parsed.items.entries()) {
+          const values = {
+            workPackage: item.workPackage,
+            role: item.role,
+            estimatedHours: item.estimatedHours.toString(),
+            hourlyRate: item.hourlyRate.toString(),
+            contingencyPercent: item.contingencyPercent.toString(),
+            hsnSac: item.hsnSac,
+            sortOrder: index,
+          };
+
+          if (item.id && keptIds.includes(item.id)) {
+            await tx
+              .update(EstimateLineItems)
+              .set({ ...values, updatedAt: new Date() })
+              .where(and(eq(EstimateLineItems.id, item.id), eq(EstimateLineItems.estimateId, params.id)));
+          } else {
+            await tx.insert(EstimateLineItems).values({ ...values, estimateId: params.id });
+          }
+        }
+      }
+
+      return updated;
+    });
+
+    return NextResponse.json({ estimate }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating estimate:', error);
+    return NextResponse.json(
+      { error: 'Failed to update estimate' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a draft estimate (Admin only)
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingEstimate = await findEstimateById(params.id);
+    if (!existingEstimate) {
+      return NextResponse.json({ error: 'Estimate not found' }, { status: 404 });
+    }
+
+    if (existingEstimate.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only draft estimates can be deleted' },
+        { status: 400 }
+      );
+    }
+
+    await db.delete(ProjectEstimates).where(eq(ProjectEstimates.id, params.id));
+
+    return NextResponse.json(
+      { message: 'Estimate deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting estimate:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete estimate' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+// ====================================
+// app/api/estimates/[id]/status/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { ProjectEstimates } from '@/drizzle/schema';
+import { findEstimateById, findLineItemsForEstimates } from '@/data/estimate';
+import { canTransitionEstimate, EstimateStatus } from '@/lib/estimate';
+
+// PUT - Move an estimate through draft → submitted → approved (Admin only)
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const status = body.status as EstimateStatus;
+
+    if (!['draft', 'submitted', 'approved'].includes(status)) {
+      return NextResponse.json({ error: 'Invalid status value' }, { status: 400 });
+    }
+
+    const existingEstimate = await findEstimateById(params.id);
+    if (!existingEstimate) {
+      return NextResponse.json({ error: 'Estimate not found' }, { status: 404 });
+    }
+
+    if (!canTransitionEstimate(existingEstimate.status, status)) {
+      return NextResponse.json(
+        { error: `Cannot move an estimate from ${existingEstimate.status} to ${status}` },
+        { status: 400 }
+      );
+    }
+
+    if (status === 'submitted') {
+      const lineItems = await findLineItemsForEstimates([params.id]);
+      if (lineItems.length === 0) {
+        return NextResponse.json(
+          { error: 'Add at least one line item before submitting' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updateData: any = { status, updatedAt: new Date() };
+
+    if (status === 'submitted') {
+      updateData.submittedAt = new Date();
+    } else if (status === 'approved') {
+      updateData.approvedBy = session.user.id;
+      updateData.approvedAt = new Date();
+    } else if (status === 'draft') {
+      // Sent back for rework
+      updateData.submittedAt = null;
+    }
+
+    // Guard on the current status so two admins cannot both transition it
+    const [estimate] = await db
+      .update(ProjectEstimates)
+      .set(updateData)
+      .where(
+        and(
+          eq(ProjectEstimates.id, params.id),
+          eq(ProjectEstimates.status, existingEstimate.status)
+        )
+      )
+      .returning();
+
+    if (!estimate) {
+      return NextResponse.json(
+        { error: 'Estimate was changed by someone else, please refresh' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ estimate }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating estimate status:', error);
+    return NextResponse.json(
+      { error: 'Failed to update estimate status' },
+      { status: 500 }
+    );
+  }
+}
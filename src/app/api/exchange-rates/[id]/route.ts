@@ -0,0 +1,94 @@
+// ====================================
+// app/api/exchange-rates/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { ExchangeRates } from '@/drizzle/schema';
+import { findExchangeRateById } from '@/data/exchange-rate';
+
+// PUT - Correct a rate (Admin only)
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingRate = await findExchangeRateById(params.id);
+    if (!existingRate) {
+      return NextResponse.json({ error: 'Exchange rate not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const { rate } = body;
+
+    if (rate == null || isNaN(parseFloat(rate)) || parseFloat(rate) <= 0) {
+      return NextResponse.json({ error: 'Rate must be greater than zero' }, { status: 400 });
+    }
+
+    const [exchangeRate] = await db
+      .update(ExchangeRates)
+      .set({
+        rate: parseFloat(rate).toString(),
+        source: 'manual',
+        updatedAt: new Date(),
+      })
+      .where(eq(ExchangeRates.id, params.id))
+      .returning();
+
+    return NextResponse.json({ rate: exchangeRate }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating exchange rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to update exchange rate' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a rate (Admin only)
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [rate] = await db
+      .delete(ExchangeRates)
+      .where(eq(ExchangeRates.id, params.id))
+      .returning();
+
+    if (!rate) {
+      return NextResponse.json({ error: 'Exchange rate not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: 'Exchange rate deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete exchange rate' },
+      { status: 500 }
+    );
+  }
+}
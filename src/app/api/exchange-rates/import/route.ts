@@ -0,0 +1,66 @@
+// ====================================
+// app/api/exchange-rates/import/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { sql } from 'drizzle-orm';
+import { ExchangeRates } from '@/drizzle/schema';
+import { parseExchangeRateCsv } from '@/lib/currency';
+
+// POST - Import rates from CSV text (Admin only). A row for a pair and date
+// that already exists replaces the stored rate, so a feed can be re-imported.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    if (typeof body.csv !== 'string') {
+      return NextResponse.json({ error: 'CSV content is required' }, { status: 400 });
+    }
+
+    const parsed = parseExchangeRateCsv(body.csv);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const now = new Date();
+    const imported = await db
+      .insert(ExchangeRates)
+      .values(
+        parsed.rates.map((rate) => ({
+          baseCurrency: rate.baseCurrency,
+          quoteCurrency: rate.quoteCurrency,
+          rate: rate.rate.toString(),
+          effectiveDate: rate.effectiveDate,
+          source: 'csv',
+          createdBy: session.user.id!,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [ExchangeRates.baseCurrency, ExchangeRates.quoteCurrency, ExchangeRates.effectiveDate],
+        set: {
+          rate: sql`excluded.rate`,
+          source: 'csv',
+          updatedAt: now,
+        },
+      })
+      .returning({ id: ExchangeRates.id });
+
+    return NextResponse.json({ imported: imported.length }, { status: 200 });
+  } catch (error) {
+    console.error('Error importing exchange rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to import exchange rates' },
+      { status: 500 }
+    );
+  }
+}
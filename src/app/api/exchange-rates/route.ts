@@ -0,0 +1,114 @@
+// ====================================
+// app/api/exchange-rates/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, or } from 'drizzle-orm';
+import { ExchangeRates } from '@/drizzle/schema';
+import { findExchangeRates } from '@/data/exchange-rate';
+import { isDateKey } from '@/lib/costing';
+import { isSupportedCurrency } from '@/lib/currency';
+
+// GET - List exchange rates, optionally for one currency (Admin only)
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const currency = searchParams.get('currency') || undefined;
+
+    const rates = await findExchangeRates(currency);
+
+    return NextResponse.json({ rates }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch exchange rates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add the rate for a currency pair from a given date (Admin only)
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { baseCurrency, quoteCurrency, rate, effectiveDate } = body;
+
+    if (!isSupportedCurrency(baseCurrency) || !isSupportedCurrency(quoteCurrency)) {
+      return NextResponse.json({ error: 'Unsupported currency' }, { status: 400 });
+    }
+
+    if (baseCurrency === quoteCurrency) {
+      return NextResponse.json({ error: 'Base and quote currency must differ' }, { status: 400 });
+    }
+
+    if (rate == null || isNaN(parseFloat(rate)) || parseFloat(rate) <= 0) {
+      return NextResponse.json({ error: 'Rate must be greater than zero' }, { status: 400 });
+    }
+
+    if (!effectiveDate || !isDateKey(effectiveDate)) {
+      return NextResponse.json({ error: 'Effective date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    // A rate for the pair in either direction on the same day would be ambiguous
+    const [existing] = await db
+      .select({ id: ExchangeRates.id })
+      .from(ExchangeRates)
+      .where(
+        and(
+          eq(ExchangeRates.effectiveDate, effectiveDate),
+          or(
+            and(eq(ExchangeRates.baseCurrency, baseCurrency), eq(ExchangeRates.quoteCurrency, quoteCurrency)),
+            and(eq(ExchangeRates.baseCurrency, quoteCurrency), eq(ExchangeRates.quoteCurrency, baseCurrency))
+          )
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `A ${baseCurrency}/${quoteCurrency} rate already exists for ${effectiveDate}` },
+        { status: 409 }
+      );
+    }
+
+    const [exchangeRate] = await db
+      .insert(ExchangeRates)
+      .values({
+        baseCurrency,
+        quoteCurrency,
+        rate: parseFloat(rate).toString(),
+        effectiveDate,
+        source: 'manual',
+        createdBy: session.user.id!,
+      })
+      .returning();
+
+    return NextResponse.json({ rate: exchangeRate }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating exchange rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to create exchange rate' },
+      { status: 500 }
+    );
+  }
+}
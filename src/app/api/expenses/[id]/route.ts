@@ -0,0 +1,193 @@
+// ====================================
+// app/api/expenses/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, isNull } from 'drizzle-orm';
+import { ProjectExpenses } from '@/drizzle/schema';
+import { findExpenseById, findUnusedReceiptUpload } from '@/data/expense';
+import { ExpenseStatus, parseExpenseInput } from '@/lib/expense';
+import { checkProjectBudget } from '@/lib/budget-alerts';
+import { deleteUploadedFile } from '@/server/uploadthing';
+
+const EXPENSE_STATUSES: ExpenseStatus[] = ['pending', 'approved', 'rejected'];
+
+// PUT - Review an expense by sending `status` (Admin only), or correct a
+// pending expense (its submitter or an admin)
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const isAdmin = session.user.role === 'platform_admin';
+    const existingExpense = await findExpenseById(params.id);
+    if (!existingExpense) {
+      return NextResponse.json({ error: 'Expense not found' }, { status: 404 });
+    }
+
+    if (existingExpense.submittedBy !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Rebilled expenses stay as they are until their invoice is voided
+    if (existingExpense.invoiceId) {
+      return NextResponse.json(
+        { error: 'This expense has been invoiced. Void the invoice before changing it.' },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+
+    if (body.status !== undefined) {
+      if (!isAdmin) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+
+      if (!EXPENSE_STATUSES.includes(body.status)) {
+        return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+      }
+
+      const rejectionReason = typeof body.rejectionReason === 'string' ? body.rejectionReason.trim() : '';
+      if (body.status === 'rejected' && !rejectionReason) {
+        return NextResponse.json({ error: 'Give a reason for rejecting the expense' }, { status: 400 });
+      }
+
+      // Only apply the review if nobody reviewed or invoiced the expense in the meantime
+      const [expense] = await db
+        .update(ProjectExpenses)
+        .set({
+          status: body.status,
+          approvedBy: body.status === 'pending' ? null : session.user.id,
+          approvedAt: body.status === 'pending' ? null : new Date(),
+          rejectionReason: body.status === 'rejected' ? rejectionReason : null,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(ProjectExpenses.id, params.id),
+            eq(ProjectExpenses.status, existingExpense.status),
+            isNull(ProjectExpenses.invoiceId)
+          )
+        )
+        .returning();
+
+      if (!expense) {
+        return NextResponse.json(
+          { error: 'This expense was changed in the meantime; reload and try again' },
+          { status: 409 }
+        );
+      }
+
+      // Approved expenses are project cost, so they burn budget
+      if (expense.status !== existingExpense.status) {
+        await checkProjectBudget(expense.projectId);
+      }
+
+      return NextResponse.json({ expense }, { status: 200 });
+    }
+
+    if (existingExpense.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Only pending expenses can be edited' },
+        { status: 403 }
+      );
+    }
+
+    const parsed = parseExpenseInput(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // A new receipt must be a file this user uploaded and no other expense uses
+    let receipt = { receiptUrl: existingExpense.receiptUrl, receiptName: existingExpense.receiptName };
+    if (parsed.expense.receiptKey !== existingExpense.receiptKey) {
+      const upload = await findUnusedReceiptUpload(parsed.expense.receiptKey, session.user.id!, existingExpense.id);
+      if (!upload) {
+        return NextResponse.json({ error: 'Upload a receipt for the expense' }, { status: 400 });
+      }
+      receipt = { receiptUrl: upload.fileUrl, receiptName: upload.fileName };
+    }
+
+    const [expense] = await db
+      .update(ProjectExpenses)
+      .set({ ...parsed.expense, ...receipt, updatedAt: new Date() })
+      .where(and(eq(ProjectExpenses.id, params.id), eq(ProjectExpenses.status, 'pending')))
+      .returning();
+
+    if (!expense) {
+      return NextResponse.json(
+        { error: 'This expense was reviewed in the meantime; reload and try again' },
+        { status: 409 }
+      );
+    }
+
+    if (expense.receiptKey !== existingExpense.receiptKey) {
+      await deleteUploadedFile(existingExpense.receiptKey);
+    }
+
+    return NextResponse.json({ expense }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating expense:', error);
+    return NextResponse.json(
+      { error: 'Failed to update expense' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete an expense and its receipt. Employees can delete their own
+// pending expenses; admins any expense that has not been invoiced.
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const isAdmin = session.user.role === 'platform_admin';
+    const existingExpense = await findExpenseById(params.id);
+    if (!existingExpense) {
+      return NextResponse.json({ error: 'Expense not found' }, { status: 404 });
+    }
+
+    if (!isAdmin && (existingExpense.submittedBy !== session.user.id || existingExpense.status !== 'pending')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (existingExpense.invoiceId) {
+      return NextResponse.json(
+        { error: 'This expense has been invoiced. Void the invoice before deleting it.' },
+        { status: 409 }
+      );
+    }
+
+    await db.delete(ProjectExpenses).where(eq(ProjectExpenses.id, params.id));
+    await deleteUploadedFile(existingExpense.receiptKey);
+
+    if (existingExpense.status === 'approved') {
+      await checkProjectBudget(existingExpense.projectId);
+    }
+
+    return NextResponse.json(
+      { message: 'Expense deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting expense:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete expense' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+// ====================================
+// app/api/holidays/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { Holidays } from '@/drizzle/schema';
+import { findHolidayById } from '@/data/rate-rule';
+
+// DELETE - Remove a holiday from its calendar (Admin only)
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingHoliday = await findHolidayById(params.id);
+    if (!existingHoliday) {
+      return NextResponse.json({ error: 'Holiday not found' }, { status: 404 });
+    }
+
+    await db.delete(Holidays).where(eq(Holidays.id, params.id));
+
+    return NextResponse.json(
+      { message: 'Holiday deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting holiday:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete holiday' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+// ====================================
+// app/api/holidays/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { Country, State } from 'country-state-city';
+import { Holidays } from '@/drizzle/schema';
+import { findHolidayOnDate, findHolidays } from '@/data/rate-rule';
+import { isDateKey } from '@/lib/costing';
+
+// GET - Holidays of a country's calendar: the countrywide ones, plus those
+// of one state when `stateCode` is given (Admin only)
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const countryCode = searchParams.get('countryCode')?.toUpperCase();
+    if (!countryCode) {
+      return NextResponse.json({ error: 'Choose a country' }, { status: 400 });
+    }
+
+    const holidays = await findHolidays([countryCode], searchParams.get('stateCode') || null);
+
+    return NextResponse.json({ holidays }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching holidays:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch holidays' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a holiday to a country's calendar, or to one state's (Admin only)
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const countryCode = typeof body.countryCode === 'string' ? body.countryCode.toUpperCase() : '';
+    const stateCode = typeof body.stateCode === 'string' && body.stateCode ? body.stateCode : null;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const { holidayDate } = body;
+
+    if (!countryCode || !name || !holidayDate) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (!isDateKey(holidayDate)) {
+      return NextResponse.json({ error: 'Holiday date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (!Country.getCountryByCode(countryCode)) {
+      return NextResponse.json({ error: 'Unknown country' }, { status: 400 });
+    }
+
+    if (stateCode && !State.getStateByCodeAndCountry(stateCode, countryCode)) {
+      return NextResponse.json({ error: 'Unknown state for the selected country' }, { status: 400 });
+    }
+
+    if (await findHolidayOnDate(countryCode, stateCode, holidayDate)) {
+      return NextResponse.json(
+        { error: 'This calendar already has a holiday on that date' },
+        { status: 409 }
+      );
+    }
+
+    const [holiday] = await db
+      .insert(Holidays)
+      .values({
+        countryCode,
+        stateCode,
+        holidayDate,
+        name,
+        createdBy: session.user.id!,
+      })
+      .returning();
+
+    return NextResponse.json({ holiday }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating holiday:', error);
+    return NextResponse.json(
+      { error: 'Failed to create holiday' },
+      { status: 500 }
+    );
+  }
+}
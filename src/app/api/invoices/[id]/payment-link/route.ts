@@ -0,0 +1,111 @@
+// ====================================
+// app/api/invoices/[id]/payment-link/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, isNull } from 'drizzle-orm';
+import { Invoices, Projects } from '@/drizzle/schema';
+import { findInvoiceById } from '@/data/invoice';
+import { findClientForProject } from '@/data/client';
+import { PAYABLE_INVOICE_STATUSES, toSubunits } from '@/lib/invoice';
+import { getRazorpay } from '@/utils/razorpay';
+
+// POST - Create a Razorpay payment link for the outstanding amount of an issued
+// invoice (Admin only). Returns the existing link if one was already created.
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const invoice = await findInvoiceById(params.id);
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    if (!PAYABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      return NextResponse.json(
+        { error: 'Payment links can only be created for issued invoices' },
+        { status: 400 }
+      );
+    }
+
+    if (invoice.paymentLinkId) {
+      return NextResponse.json(
+        { paymentLink: { id: invoice.paymentLinkId, url: invoice.paymentLinkUrl } },
+        { status: 200 }
+      );
+    }
+
+    const outstanding = parseFloat(invoice.total) - parseFloat(invoice.amountPaid);
+    if (outstanding <= 0) {
+      return NextResponse.json({ error: 'Nothing is outstanding on this invoice' }, { status: 400 });
+    }
+
+    const [project] = await db
+      .select({ projectName: Projects.projectName })
+      .from(Projects)
+      .where(eq(Projects.id, invoice.projectId))
+      .limit(1);
+    const client = await findClientForProject(invoice.projectId);
+
+    let link: { id: string; short_url: string };
+    try {
+      link = await getRazorpay().paymentLink.create({
+        amount: toSubunits(outstanding, invoice.currency),
+        currency: invoice.currency,
+        accept_partial: true,
+        reference_id: invoice.invoiceNumber,
+        description: `Invoice ${invoice.invoiceNumber}`,
+        customer: {
+          name: client?.contactName || client?.legalName || project?.projectName || invoice.invoiceNumber,
+          email: client?.contactEmail || undefined,
+          contact: client?.contactPhone || undefined,
+        },
+        notes: { invoiceId: invoice.id },
+      });
+    } catch (error: any) {
+      // The SDK rejects with { statusCode, error: { description } }
+      console.error('Error creating Razorpay payment link:', error);
+      return NextResponse.json(
+        { error: `Razorpay: ${error?.error?.description || error?.message || 'request failed'}` },
+        { status: 502 }
+      );
+    }
+
+    // Only store the link if no other request stored one first
+    const [updated] = await db
+      .update(Invoices)
+      .set({ paymentLinkId: link.id, paymentLinkUrl: link.short_url, updatedAt: new Date() })
+      .where(and(eq(Invoices.id, params.id), isNull(Invoices.paymentLinkId)))
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'A payment link was created for this invoice in the meantime' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { paymentLink: { id: updated.paymentLinkId, url: updated.paymentLinkUrl } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating payment link:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payment link' },
+      { status: 500 }
+    );
+  }
+}
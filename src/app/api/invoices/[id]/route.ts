@@ -0,0 +1,201 @@
+// ====================================
+// app/api/invoices/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { InvoiceLineItems, Invoices } from '@/drizzle/schema';
+import { findInvoiceById, findInvoiceWithLines } from '@/data/invoice';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { isDateKey } from '@/lib/costing';
+import { calculateInvoiceTotals, isValidTaxRate } from '@/lib/invoice';
+import { isValidHsnSac, SupplyType } from '@/lib/gst';
+
+// GET - Invoice with its line items and the supplier's name and address (Admin only)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const invoice = await findInvoiceWithLines(params.id);
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const settings = await findOrganisationSettings();
+
+    return NextResponse.json(
+      { invoice: { ...invoice, supplierName: settings.legalName, supplierAddress: settings.address } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invoice' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Change the tax rate, due date, notes or line HSN/SAC codes of a draft
+// invoice (Admin only)
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingInvoice = await findInvoiceWithLines(params.id);
+    if (!existingInvoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    if (existingInvoice.status !== 'draft') {
+      return NextResponse.json({ error: 'Only draft invoices can be edited' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const { dueDate, notes } = body;
+    const taxRate = body.taxRate ?? existingInvoice.taxRate;
+
+    if (!isValidTaxRate(taxRate)) {
+      return NextResponse.json({ error: 'Tax rate must be between 0 and 100%' }, { status: 400 });
+    }
+
+    if (dueDate && !isDateKey(dueDate)) {
+      return NextResponse.json({ error: 'Due date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    // Only the HSN/SAC code of a line can change; hours and rates come from the tasks
+    const hsnSacUpdates: { id: string; hsnSac: string | null }[] = Array.isArray(body.lineItems)
+      ? body.lineItems.map((line: any) => ({ id: line?.id, hsnSac: line?.hsnSac || null }))
+      : [];
+    const lineIds = new Set(existingInvoice.lineItems.map((line) => line.id));
+
+    for (const update of hsnSacUpdates) {
+      if (!lineIds.has(update.id)) {
+        return NextResponse.json({ error: 'Line item does not belong to this invoice' }, { status: 400 });
+      }
+      if (update.hsnSac !== null && !isValidHsnSac(update.hsnSac)) {
+        return NextResponse.json({ error: 'HSN/SAC code must be 4, 6 or 8 digits' }, { status: 400 });
+      }
+    }
+
+    const totals = calculateInvoiceTotals(
+      existingInvoice.lineItems,
+      taxRate,
+      existingInvoice.supplyType as SupplyType | null
+    );
+
+    const invoice = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(Invoices)
+        .set({
+          taxRate: parseFloat(taxRate).toString(),
+          subtotal: totals.subtotal.toFixed(2),
+          taxAmount: totals.taxAmount.toFixed(2),
+          cgstAmount: totals.cgstAmount.toFixed(2),
+          sgstAmount: totals.sgstAmount.toFixed(2),
+          igstAmount: totals.igstAmount.toFixed(2),
+          total: totals.total.toFixed(2),
+          dueDate: dueDate === undefined ? undefined : dueDate || null,
+          notes: notes === undefined ? undefined : notes?.trim() || null,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(Invoices.id, params.id), eq(Invoices.status, 'draft')))
+        .returning();
+
+      if (updated) {
+        for (const update of hsnSacUpdates) {
+          await tx
+            .update(InvoiceLineItems)
+            .set({ hsnSac: update.hsnSac })
+            .where(and(eq(InvoiceLineItems.id, update.id), eq(InvoiceLineItems.invoiceId, params.id)));
+        }
+      }
+
+      return updated;
+    });
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice was issued in the meantime' }, { status: 409 });
+    }
+
+    return NextResponse.json({ invoice }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating invoice:', error);
+    return NextResponse.json(
+      { error: 'Failed to update invoice' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Discard a draft invoice; its tasks become invoiceable again (Admin only)
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingInvoice = await findInvoiceById(params.id);
+    if (!existingInvoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    if (existingInvoice.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only draft invoices can be deleted; void an issued invoice instead' },
+        { status: 400 }
+      );
+    }
+
+    // Tasks.invoiceId and ProjectExpenses.invoiceId are cleared by the foreign key
+    const [invoice] = await db
+      .delete(Invoices)
+      .where(and(eq(Invoices.id, params.id), eq(Invoices.status, 'draft')))
+      .returning();
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice was issued in the meantime' }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { message: 'Invoice deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting invoice:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete invoice' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+// ====================================
+// app/api/invoices/[id]/status/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { Invoices, ProjectExpenses, Tasks } from '@/drizzle/schema';
+import { findInvoiceById } from '@/data/invoice';
+import { findClientForProject } from '@/data/client';
+import { dueDateFromTerms } from '@/lib/client';
+import { canTransitionInvoice, InvoiceStatus } from '@/lib/invoice';
+
+// PUT - Issue, mark paid or void an invoice (Admin only). Voiding releases
+// the invoice's tasks so they can be billed again on a corrected invoice.
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const status = body.status as InvoiceStatus;
+
+    if (!['draft', 'issued', 'paid', 'void'].includes(status)) {
+      return NextResponse.json({ error: 'Invalid status value' }, { status: 400 });
+    }
+
+    const existingInvoice = await findInvoiceById(params.id);
+    if (!existingInvoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    if (!canTransitionInvoice(existingInvoice.status, status)) {
+      return NextResponse.json(
+        { error: `Cannot move an invoice from ${existingInvoice.status} to ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const updateData: any = { status, updatedAt: new Date() };
+
+    if (status === 'issued') {
+      updateData.issuedAt = new Date();
+
+      // Without an explicit due date, the client's payment terms run from issue
+      const client = existingInvoice.dueDate ? null : await findClientForProject(existingInvoice.projectId);
+      if (client) {
+        updateData.dueDate = dueDateFromTerms(updateData.issuedAt, client.paymentTermsDays);
+      }
+    } else if (status === 'paid') {
+      updateData.paidAt = new Date();
+    } else if (status === 'void') {
+      updateData.voidedAt = new Date();
+    }
+
+    const invoice = await db.transaction(async (tx) => {
+      // Guard on the current status so two admins cannot both transition it
+      const [updated] = await tx
+        .update(Invoices)
+        .set(updateData)
+        .where(
+          and(
+            eq(Invoices.id, params.id),
+            eq(Invoices.status, existingInvoice.status)
+          )
+        )
+        .returning();
+
+      if (updated && status === 'void') {
+        await tx
+          .update(Tasks)
+          .set({ invoiceId: null })
+          .where(eq(Tasks.invoiceId, params.id));
+        await tx
+          .update(ProjectExpenses)
+          .set({ invoiceId: null })
+          .where(eq(ProjectExpenses.invoiceId, params.id));
+      }
+
+      return updated;
+    });
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice status changed in the meantime' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ invoice }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating invoice status:', error);
+    return NextResponse.json(
+      { error: 'Failed to update invoice status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+// ====================================
+// app/api/payroll/export/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { isNull } from 'drizzle-orm';
+import { PayPeriods, PayrollAdjustments, PayrollLines } from '@/drizzle/schema';
+import {
+  findApprovedEntriesForPayroll,
+  findLockedPayPeriodOverlapping,
+  findPayPeriodByStart,
+  findPayrollAdjustments,
+  findPayrollLines,
+} from '@/data/payroll';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { findEntryMultipliers } from '@/data/rate-rule';
+import { isDateKey, orgDateKey } from '@/lib/costing';
+import { PayPeriodFrequency, payPeriodFor, summarisePayroll } from '@/lib/payroll';
+import { buildPayrollWorkbook, formatPayrollCsv } from '@/utils/exportUtils';
+
+const EXPORT_FORMATS = ['xlsx', 'csv'];
+
+// POST - Export a pay period's approved hours as an XLSX or CSV payroll sheet
+// (Admin only). The first export locks the period and settles the pending
+// adjustments; exporting a locked period again returns the same sheet.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { periodStart, periodEnd } = body;
+    const format = body.format ?? 'xlsx';
+
+    if (!isDateKey(periodStart) || !isDateKey(periodEnd)) {
+      return NextResponse.json({ error: 'Pay period dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: 'Format must be xlsx or csv' }, { status: 400 });
+    }
+
+    let period = await findPayPeriodByStart(periodStart);
+
+    if (period && period.periodEnd !== periodEnd) {
+      return NextResponse.json({ error: 'Pay period not found' }, { status: 404 });
+    }
+
+    if (!period) {
+      const settings = await findOrganisationSettings();
+      const frequency = settings.payPeriodFrequency as PayPeriodFrequency;
+      const expected = payPeriodFor(periodStart, frequency, settings.payPeriodAnchorDate);
+
+      if (expected.periodStart !== periodStart || expected.periodEnd !== periodEnd) {
+        return NextResponse.json(
+          { error: 'These dates are not a pay period under the current pay period settings' },
+          { status: 400 }
+        );
+      }
+
+      // Exporting locks the period, which would refuse time for its days still to come
+      if (periodEnd >= orgDateKey()) {
+        return NextResponse.json(
+          { error: 'This pay period has not ended yet. Export it once it is over.' },
+          { status: 409 }
+        );
+      }
+
+      if (await findLockedPayPeriodOverlapping(periodStart, periodEnd)) {
+        return NextResponse.json(
+          { error: 'Part of this pay period has already been exported' },
+          { status: 409 }
+        );
+      }
+
+      // Each entry is paid in the period of the day it was worked; overtime is
+      // what the rate rules count as overtime for that day
+      const entries = await findApprovedEntriesForPayroll(periodStart, periodEnd);
+      const multipliers = await findEntryMultipliers(entries);
+      const lines = summarisePayroll(
+        entries.map((entry) => {
+          const hours = parseFloat(entry.hours);
+          const multiplier = multipliers.get(entry.id);
+          return {
+            ...entry,
+            regularHours: multiplier?.regularHours ?? hours,
+            overtimeHours: multiplier?.overtimeHours ?? 0,
+          };
+        })
+      );
+
+      // Lock the period, keep what it paid and settle the pending adjustments together
+      period = await db.transaction(async (tx) => {
+        const [locked] = await tx
+          .insert(PayPeriods)
+          .values({ frequency, periodStart, periodEnd, lockedBy: session.user.id! })
+          .returning();
+
+        if (lines.length > 0) {
+          await tx.insert(PayrollLines).values(
+            lines.map((line) => ({
+              payPeriodId: locked.id,
+              employeeId: line.employeeId,
+              projectId: line.projectId,
+              isBillable: line.isBillable,
+              regularHours: line.regularHours.toFixed(2),
+              overtimeHours: line.overtimeHours.toFixed(2),
+            }))
+          );
+        }
+
+        await tx
+          .update(PayrollAdjustments)
+          .set({ settledPayPeriodId: locked.id })
+          .where(isNull(PayrollAdjustments.settledPayPeriodId));
+
+        return locked;
+      });
+    }
+
+    const payroll = {
+      period,
+      lines: await findPayrollLines(period.id),
+      adjustments: await findPayrollAdjustments(period.id),
+    };
+    const filename = `payroll_${period.periodStart}_to_${period.periodEnd}.${format}`;
+
+    return new NextResponse(format === 'csv' ? formatPayrollCsv(payroll) : buildPayrollWorkbook(payroll), {
+      status: 200,
+      headers: {
+        'Content-Type':
+          format === 'csv'
+            ? 'text/csv; charset=utf-8'
+            : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    // Another admin exported the same period at the same time
+    if ((error as { code?: string })?.code === '23505') {
+      return NextResponse.json(
+        { error: 'This pay period was exported in the meantime. Please try again.' },
+        { status: 409 }
+      );
+    }
+    console.error('Error exporting payroll:', error);
+    return NextResponse.json(
+      { error: 'Failed to export payroll' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+// ====================================
+// app/api/payroll/periods/route.ts
+// ====================================
+
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { findLockedPayPeriods, findPayrollAdjustments } from '@/data/payroll';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { orgDateKey } from '@/lib/costing';
+import { PayPeriodFrequency, recentPayPeriods } from '@/lib/payroll';
+
+const RECENT_PERIOD_COUNT = 12;
+
+// GET - Pay period settings, the current and recent pay periods with whether
+// each has ended and been exported, and the adjustments waiting for the next
+// export (Admin only)
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [settings, lockedPeriods, pendingAdjustments] = await Promise.all([
+      findOrganisationSettings(),
+      findLockedPayPeriods(),
+      findPayrollAdjustments(null),
+    ]);
+
+    const frequency = settings.payPeriodFrequency as PayPeriodFrequency;
+    const today = orgDateKey();
+
+    // Periods under the current settings, plus exported periods from earlier
+    // settings that no longer line up with them
+    const openPeriods = recentPayPeriods(today, frequency, settings.payPeriodAnchorDate, RECENT_PERIOD_COUNT)
+      .filter(
+        (period) =>
+          !lockedPeriods.some(
+            (locked) => locked.periodStart <= period.periodEnd && locked.periodEnd >= period.periodStart
+          )
+      )
+      .map((period) => ({ ...period, frequency, status: 'open' as const, hasEnded: period.periodEnd < today }));
+
+    const periods = [
+      ...openPeriods,
+      ...lockedPeriods.map((period) => ({ ...period, status: 'locked' as const, hasEnded: true })),
+    ].sort((a, b) => b.periodStart.localeCompare(a.periodStart));
+
+    return NextResponse.json(
+      {
+        settings: {
+          payPeriodFrequency: settings.payPeriodFrequency,
+          payPeriodAnchorDate: settings.payPeriodAnchorDate,
+        },
+        periods,
+        pendingAdjustments,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching pay periods:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pay periods' },
+      { status: 500 }
+    );
+  }
+}
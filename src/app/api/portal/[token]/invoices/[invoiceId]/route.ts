@@ -0,0 +1,63 @@
+// ====================================
+// app/api/portal/[token]/invoices/[invoiceId]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { Projects } from '@/drizzle/schema';
+import { findInvoiceWithLines } from '@/data/invoice';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { recordPortalView, resolvePortalLink } from '@/lib/portal';
+
+// GET - An issued invoice with its line items, for printing from the portal.
+// The invoice must belong to the project or client the link shares.
+export async function GET(
+  req: Request,
+  { params }: { params: { token: string; invoiceId: string } }
+) {
+  try {
+    const resolved = await resolvePortalLink(params.token);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { link } = resolved;
+
+    const invoice = await findInvoiceWithLines(params.invoiceId);
+    if (!invoice || invoice.status === 'draft') {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const [project] = await db
+      .select({ clientId: Projects.clientId, isActive: Projects.isActive })
+      .from(Projects)
+      .where(eq(Projects.id, invoice.projectId))
+      .limit(1);
+
+    const inScope = link.projectId
+      ? invoice.projectId === link.projectId
+      : project?.clientId === link.clientId;
+    if (!inScope || !project?.isActive) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const settings = await findOrganisationSettings();
+
+    await recordPortalView(link, req, {
+      page: 'invoice',
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+    });
+
+    return NextResponse.json(
+      { invoice: { ...invoice, supplierName: settings.legalName, supplierAddress: settings.address } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching portal invoice:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invoice' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+// ====================================
+// app/api/portal/[token]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { NextResponse } from 'next/server';
+import { and, eq, inArray, ne } from 'drizzle-orm';
+import { Clients, Invoices, Projects, Tasks } from '@/drizzle/schema';
+import { findRatesForEmployees } from '@/data/employee-rate';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { findApprovedExpensesForProjects } from '@/data/expense';
+import { findRatesBetweenCurrencies } from '@/data/exchange-rate';
+import { findTaskMultipliers } from '@/data/rate-rule';
+import { calculateCost, findRateForDate } from '@/lib/costing';
+import { calculateBudgetBurn, serializeBudgetBurn } from '@/lib/budget';
+import { convertExpense } from '@/lib/expense';
+import { PAYABLE_INVOICE_STATUSES } from '@/lib/invoice';
+import { recordPortalView, resolvePortalLink } from '@/lib/portal';
+
+// GET - Read-only portal for a share link: approved hours, cost to date
+// against budget and the invoices sent, for the linked project or every active
+// project of the linked client. Needs no login; the signed token is the
+// credential and each view is audited.
+export async function GET(
+  req: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const resolved = await resolvePortalLink(params.token);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { link } = resolved;
+
+    const projects = await db
+      .select({
+        id: Projects.id,
+        projectName: Projects.projectName,
+        description: Projects.description,
+        budgetHours: Projects.budgetHours,
+        budgetAmount: Projects.budgetAmount,
+        billingCurrency: Projects.billingCurrency,
+      })
+      .from(Projects)
+      .where(
+        and(
+          link.projectId ? eq(Projects.id, link.projectId) : eq(Projects.clientId, link.clientId!),
+          eq(Projects.isActive, true)
+        )
+      );
+
+    let title = projects[0]?.projectName ?? 'Project';
+    if (link.clientId) {
+      const [client] = await db
+        .select({ legalName: Clients.legalName })
+        .from(Clients)
+        .where(eq(Clients.id, link.clientId))
+        .limit(1);
+      title = client?.legalName ?? 'Client';
+    }
+
+    const projectIds = projects.map((project) => project.id);
+    const approvedTasks = projectIds.length > 0
+      ? await db
+          .select({
+            id: Tasks.id,
+            projectId: Tasks.projectId,
+            employeeId: Tasks.employeeId,
+            actualHours: Tasks.actualHours,
+            workDate: Tasks.workDate,
+            createdAt: Tasks.createdAt,
+          })
+          .from(Tasks)
+          .where(and(inArray(Tasks.projectId, projectIds), eq(Tasks.status, 'approved')))
+      : [];
+
+    // Drafts are internal until issued
+    const invoices = projectIds.length > 0
+      ? await db
+          .select({
+            id: Invoices.id,
+            projectId: Invoices.projectId,
+            invoiceNumber: Invoices.invoiceNumber,
+            status: Invoices.status,
+            periodStart: Invoices.periodStart,
+            periodEnd: Invoices.periodEnd,
+            currency: Invoices.currency,
+            total: Invoices.total,
+            amountPaid: Invoices.amountPaid,
+            paymentLinkUrl: Invoices.paymentLinkUrl,
+            dueDate: Invoices.dueDate,
+            issuedAt: Invoices.issuedAt,
+          })
+          .from(Invoices)
+          .where(and(inArray(Invoices.projectId, projectIds), ne(Invoices.status, 'draft')))
+      : [];
+
+    const employeeIds = Array.from(new Set(approvedTasks.map((task) => task.employeeId)));
+    const rates = await findRatesForEmployees(employeeIds);
+    const multipliers = await findTaskMultipliers(approvedTasks);
+    const settings = await findOrganisationSettings();
+    const approvedExpenses = await findApprovedExpensesForProjects(projectIds);
+    const exchangeRates = await findRatesBetweenCurrencies([
+      settings.costCurrency,
+      ...approvedExpenses.map((expense) => expense.currency),
+    ]);
+
+    const portalProjects = projects.map((project) => {
+      const tasks = approvedTasks.filter((task) => task.projectId === project.id);
+      const approvedHours = tasks.reduce((sum, task) => sum + parseFloat(task.actualHours || '0'), 0);
+
+      // Cost approved hours at the rate in effect on the work date, as the
+      // project dashboard does
+      let costToDate = 0;
+      let uncostedHours = 0;
+      const hoursByMonth: Record<string, number> = {};
+      for (const task of tasks) {
+        const hours = parseFloat(task.actualHours || '0');
+        const rate = findRateForDate(rates, task.employeeId, task.workDate);
+        if (rate) {
+          costToDate += calculateCost(multipliers.get(task.id)?.costedHours ?? hours, rate.hourlyRate);
+        } else {
+          uncostedHours += hours;
+        }
+        const month = task.workDate.slice(0, 7);
+        hoursByMonth[month] = (hoursByMonth[month] || 0) + hours;
+      }
+      for (const expense of approvedExpenses.filter((expense) => expense.projectId === project.id)) {
+        costToDate += convertExpense(expense, exchangeRates, settings.costCurrency) ?? 0;
+      }
+
+      return {
+        id: project.id,
+        projectName: project.projectName,
+        description: project.description,
+        billingCurrency: project.billingCurrency,
+        approvedHours: approvedHours.toFixed(2),
+        costToDate: costToDate.toFixed(2),
+        uncostedHours: uncostedHours.toFixed(2),
+        budget: {
+          hours: serializeBudgetBurn(calculateBudgetBurn(project.budgetHours, approvedHours)),
+          amount: serializeBudgetBurn(calculateBudgetBurn(project.budgetAmount, costToDate)),
+        },
+        hoursByMonth: Object.entries(hoursByMonth)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([month, hours]) => ({ month, hours: hours.toFixed(2) })),
+        invoices: invoices
+          .filter((invoice) => invoice.projectId === project.id)
+          .sort((a, b) => (b.issuedAt?.getTime() ?? 0) - (a.issuedAt?.getTime() ?? 0))
+          .map(({ projectId, paymentLinkUrl, ...invoice }) => ({
+            ...invoice,
+            // Only offer the payment link while something is still owed
+            paymentLinkUrl: PAYABLE_INVOICE_STATUSES.includes(invoice.status) ? paymentLinkUrl : null,
+          })),
+      };
+    });
+
+    await recordPortalView(link, req, { page: 'summary' });
+
+    return NextResponse.json(
+      {
+        portal: {
+          title,
+          scope: link.projectId ? 'project' : 'client',
+          expiresAt: link.expiresAt,
+          costCurrency: settings.costCurrency,
+          supplierName: settings.legalName,
+          projects: portalProjects,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching portal:', error);
+    return NextResponse.json(
+      { error: 'Failed to load portal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+// ====================================
+// app/api/portal/signoffs/[token]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { NextResponse } from 'next/server';
+import { and, eq, inArray } from 'drizzle-orm';
+import { Projects, SignoffLines, SignoffRequests, Tasks } from '@/drizzle/schema';
+import { findSignoffLines } from '@/data/signoff';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { findUserById } from '@/data/user';
+import { recordAuditEvent } from '@/data/audit-trail';
+import { portalVisitor } from '@/lib/portal';
+import {
+  parseSignoffResponses,
+  resolveSignoffRequest,
+  SIGNOFF_RESPONSE_EVENT,
+  SIGNOFF_VIEW_EVENT,
+} from '@/lib/signoff';
+import { sendSignoffResponseEmail } from '@/lib/mail';
+
+// GET - The lines a client contact is asked to sign off. Needs no login; the
+// signed token is the credential and each view is audited.
+export async function GET(
+  req: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const resolved = await resolveSignoffRequest(params.token);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { request } = resolved;
+
+    const [project] = await db
+      .select({ projectName: Projects.projectName })
+      .from(Projects)
+      .where(eq(Projects.id, request.projectId))
+      .limit(1);
+    const settings = await findOrganisationSettings();
+    const lines = await findSignoffLines(request.id);
+
+    await recordAuditEvent(SIGNOFF_VIEW_EVENT, null, {
+      signoffRequestId: request.id,
+      projectId: request.projectId,
+      ...portalVisitor(req),
+    });
+
+    return NextResponse.json(
+      {
+        signoff: {
+          projectName: project?.projectName ?? 'Project',
+          supplierName: settings.legalName,
+          contactName: request.contactName,
+          periodStart: request.periodStart,
+          periodEnd: request.periodEnd,
+          status: request.status,
+          expiresAt: request.expiresAt,
+          respondedAt: request.respondedAt,
+          lines: lines.map((line) => ({
+            id: line.id,
+            taskName: line.taskName,
+            description: line.description,
+            employeeName: line.employeeName,
+            workDate: line.workDate,
+            hours: line.hours,
+            status: line.status,
+            comment: line.comment,
+          })),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching sign-off request:', error);
+    return NextResponse.json(
+      { error: 'Failed to load sign-off request' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Submit the client's answer to every line. Accepted tasks become
+// invoiceable; disputed ones go back to the team with the client's comment.
+// A request can only be answered once.
+export async function POST(
+  req: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const resolved = await resolveSignoffRequest(params.token);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { request } = resolved;
+
+    const lines = await findSignoffLines(request.id);
+    const parsed = parseSignoffResponses(
+      (await req.json()).responses,
+      lines.map((line) => line.id)
+    );
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { responses } = parsed;
+
+    const respondedAt = new Date();
+    const answered = await db.transaction(async (tx) => {
+      const [completed] = await tx
+        .update(SignoffRequests)
+        .set({ status: 'completed', respondedAt, updatedAt: respondedAt })
+        .where(and(eq(SignoffRequests.id, request.id), eq(SignoffRequests.status, 'sent')))
+        .returning();
+
+      if (!completed) return false;
+
+      for (const response of responses) {
+        await tx
+          .update(SignoffLines)
+          .set({ status: response.status, comment: response.comment, respondedAt })
+          .where(eq(SignoffLines.id, response.lineId));
+      }
+
+      // Tasks re-reviewed by an admin since the request was sent have had
+      // their sign-off cleared and keep it cleared
+      for (const status of ['accepted', 'disputed'] as const) {
+        const taskIds = lines
+          .filter((line) => responses.some((response) => response.lineId === line.id && response.status === status))
+          .map((line) => line.taskId);
+        if (taskIds.length === 0) continue;
+
+        await tx
+          .update(Tasks)
+          .set({ clientSignoffStatus: status, updatedAt: respondedAt })
+          .where(
+            and(
+              inArray(Tasks.id, taskIds),
+              eq(Tasks.status, 'approved'),
+              eq(Tasks.clientSignoffStatus, 'pending')
+            )
+          );
+      }
+
+      return true;
+    });
+
+    if (!answered) {
+      return NextResponse.json(
+        { error: 'This sign-off request has already been answered' },
+        { status: 409 }
+      );
+    }
+
+    const disputes = lines.flatMap((line) => {
+      const response = responses.find((candidate) => candidate.lineId === line.id);
+      return response?.status === 'disputed'
+        ? [{ taskName: line.taskName, hours: line.hours, comment: response.comment }]
+        : [];
+    });
+
+    await recordAuditEvent(SIGNOFF_RESPONSE_EVENT, null, {
+      signoffRequestId: request.id,
+      projectId: request.projectId,
+      contactEmail: request.contactEmail,
+      acceptedCount: responses.length - disputes.length,
+      disputedCount: disputes.length,
+      ...portalVisitor(req),
+    });
+
+    const [project] = await db
+      .select({ projectName: Projects.projectName })
+      .from(Projects)
+      .where(eq(Projects.id, request.projectId))
+      .limit(1);
+    const creator = await findUserById(request.createdBy);
+
+    if (creator?.email) {
+      await sendSignoffResponseEmail(creator.email, {
+        contactName: request.contactName,
+        projectName: project?.projectName ?? 'Project',
+        periodStart: request.periodStart,
+        periodEnd: request.periodEnd,
+        acceptedCount: responses.length - disputes.length,
+        disputes,
+      });
+    }
+
+    return NextResponse.json({ message: 'Thank you, your response has been recorded' }, { status: 200 });
+  } catch (error) {
+    console.error('Error submitting sign-off response:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit sign-off response' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,174 @@
+// ====================================
+// app/api/projects/[id]/estimates/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { EstimateLineItems, ProjectEstimates, Projects } from '@/drizzle/schema';
+import { findActualHoursByLineItem, findEstimatesByProject } from '@/data/estimate';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import {
+  calculateEstimateTotals,
+  calculateLineItemTotals,
+  compareEstimateWithActuals,
+  parseLineItems,
+} from '@/lib/estimate';
+import { calculateInvoiceTotals } from '@/lib/invoice';
+import { determineSupplyType, stateCodeFromGstin } from '@/lib/gst';
+
+// GET - List a project's estimates with line items compared against logged hours.
+// Totals carry the GST the estimate would attract when invoiced at the default rate.
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [project] = await db
+      .select({ clientGstin: Projects.clientGstin, placeOfSupply: Projects.placeOfSupply })
+      .from(Projects)
+      .where(eq(Projects.id, params.id))
+      .limit(1);
+
+    const settings = await findOrganisationSettings();
+    const isGstRegistered = !!(settings.gstin && settings.stateCode);
+    const placeOfSupply = project?.placeOfSupply || stateCodeFromGstin(project?.clientGstin);
+    const supplyType =
+      isGstRegistered && placeOfSupply ? determineSupplyType(settings.stateCode!, placeOfSupply) : null;
+    const taxRate = isGstRegistered ? settings.defaultGstRate : '0';
+
+    const estimates = await findEstimatesByProject(params.id);
+    const actualHoursByLineItem = await findActualHoursByLineItem(
+      estimates.flatMap((estimate) => estimate.lineItems.map((item) => item.id))
+    );
+
+    const response = estimates.map((estimate) => {
+      const lineItems = compareEstimateWithActuals(estimate.lineItems, actualHoursByLineItem).map(
+        (item) => {
+          const totals = calculateLineItemTotals(item);
+          return {
+            ...item,
+            contingencyHours: totals.contingencyHours.toFixed(2),
+            totalHours: totals.totalHours.toFixed(2),
+            amount: totals.amount.toFixed(2),
+            actualHours: item.actualHours.toFixed(2),
+            remainingHours: item.remainingHours.toFixed(2),
+            percentUsed: item.percentUsed !== null ? item.percentUsed.toFixed(2) : null,
+          };
+        }
+      );
+      const totals = calculateEstimateTotals(estimate.lineItems);
+      const actualHours = lineItems.reduce((sum, item) => sum + parseFloat(item.actualHours), 0);
+      const tax = calculateInvoiceTotals([{ amount: totals.totalAmount }], taxRate, supplyType);
+
+      return {
+        ...estimate,
+        lineItems,
+        totals: {
+          estimatedHours: totals.estimatedHours.toFixed(2),
+          contingencyHours: totals.contingencyHours.toFixed(2),
+          totalHours: totals.totalHours.toFixed(2),
+          totalAmount: totals.totalAmount.toFixed(2),
+          actualHours: actualHours.toFixed(2),
+          taxRate: parseFloat(taxRate).toFixed(2),
+          supplyType,
+          cgstAmount: tax.cgstAmount.toFixed(2),
+          sgstAmount: tax.sgstAmount.toFixed(2),
+          igstAmount: tax.igstAmount.toFixed(2),
+          taxAmount: tax.taxAmount.toFixed(2),
+          grandTotal: tax.total.toFixed(2),
+        },
+      };
+    });
+
+    return NextResponse.json({ estimates: response }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching estimates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch estimates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a draft estimate (Admin only)
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { title, notes } = body;
+
+    if (!title?.trim()) {
+      return NextResponse.json({ error: 'Estimate title is required' }, { status: 400 });
+    }
+
+    const parsed = parseLineItems(body.lineItems ?? []);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const [project] = await db
+      .select({ id: Projects.id })
+      .from(Projects)
+      .where(eq(Projects.id, params.id))
+      .limit(1);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const estimate = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(ProjectEstimates)
+        .values({
+          projectId: params.id,
+          title: title.trim(),
+          notes: notes?.trim() || null,
+          createdBy: session.user.id!,
+        })
+        .returning();
+
+      if (parsed.items.length > 0) {
+        await tx.insert(EstimateLineItems).values(
+          parsed.items.map((item, index) => ({
+            estimateId: created.id,
+            workPackage: item.workPackage,
+            role: item.role,
+            estimatedHours: item.estimatedHours.toString(),
+            hourlyRate: item.hourlyRate.toString(),
+            contingencyPercent: item.contingencyPercent.toString(),
+            hsnSac: item.hsnSac,
+            sortOrder: index,
+          }))
+        );
+      }
+
+      return created;
+    });
+
+    return NextResponse.json({ estimate }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating estimate:', error);
+    return NextResponse.json(
+      { error: 'Failed to create estimate' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+// ====================================
+// app/api/projects/[id]/expenses/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { ProjectExpenses, Projects } from '@/drizzle/schema';
+import { findExpensesByProject, findUnusedReceiptUpload } from '@/data/expense';
+import { parseExpenseInput } from '@/lib/expense';
+
+// GET - A project's expenses; admins see everyone's, employees only their own
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const isAdmin = session.user.role === 'platform_admin';
+    const expenses = await findExpensesByProject(params.id, isAdmin ? undefined : session.user.id);
+
+    return NextResponse.json({ expenses }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching expenses:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch expenses' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Submit an expense with its uploaded receipt; it counts towards the
+// project only once an admin approves it
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [project] = await db
+      .select({ id: Projects.id, isActive: Projects.isActive })
+      .from(Projects)
+      .where(eq(Projects.id, params.id))
+      .limit(1);
+
+    if (!project || !project.isActive) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const parsed = parseExpenseInput(await req.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // The receipt must be a file this user uploaded for a new expense
+    const receipt = await findUnusedReceiptUpload(parsed.expense.receiptKey, session.user.id!);
+    if (!receipt) {
+      return NextResponse.json({ error: 'Upload a receipt for the expense' }, { status: 400 });
+    }
+
+    const [expense] = await db
+      .insert(ProjectExpenses)
+      .values({
+        ...parsed.expense,
+        receiptUrl: receipt.fileUrl,
+        receiptName: receipt.fileName,
+        projectId: params.id,
+        submittedBy: session.user.id!,
+      })
+      .returning();
+
+    return NextResponse.json({ expense }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating expense:', error);
+    return NextResponse.json(
+      { error: 'Failed to create expense' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,289 @@
+// ====================================
+// app/api/projects/[id]/invoices/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, inArray, isNull, sql, TransactionRollbackError } from 'drizzle-orm';
+import { Clients, InvoiceLineItems, Invoices, ProjectExpenses, Projects, Tasks } from '@/drizzle/schema';
+import { findBillRatesForProjects } from '@/data/bill-rate';
+import { findInvoicesByProject, findLastInvoiceNumber, findUninvoicedApprovedTasks } from '@/data/invoice';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { findUninvoicedApprovedExpenses } from '@/data/expense';
+import { findRatesBetweenCurrencies } from '@/data/exchange-rate';
+import { calculateCost, findBillRateForDate, isDateKey } from '@/lib/costing';
+import { calculateInvoiceTotals, invoiceNumberPrefix, isValidTaxRate, nextInvoiceNumber } from '@/lib/invoice';
+import { determineSupplyType, stateCodeFromGstin } from '@/lib/gst';
+import { convertExpense, expenseCategoryLabel } from '@/lib/expense';
+
+// GET - List a project's invoices (Admin only)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const invoices = await findInvoicesByProject(params.id);
+
+    return NextResponse.json({ invoices }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invoices' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a draft invoice from the approved, not yet invoiced tasks
+// whose work date falls in the period, plus the billable expenses dated in it,
+// which are rebilled at cost (Admin only)
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { periodStart, periodEnd, dueDate, notes } = body;
+
+    if (!isDateKey(periodStart) || !isDateKey(periodEnd)) {
+      return NextResponse.json({ error: 'Period dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (periodEnd < periodStart) {
+      return NextResponse.json({ error: 'Period end cannot be before period start' }, { status: 400 });
+    }
+
+    if (dueDate && !isDateKey(dueDate)) {
+      return NextResponse.json({ error: 'Due date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const [project] = await db
+      .select({
+        id: Projects.id,
+        billingCurrency: Projects.billingCurrency,
+        // The project's own GSTIN wins over the client's, e.g. for a branch office
+        clientGstin: sql<string | null>`coalesce(${Projects.clientGstin}, ${Clients.gstin})`,
+        placeOfSupply: Projects.placeOfSupply,
+        requiresClientSignoff: Projects.requiresClientSignoff,
+      })
+      .from(Projects)
+      .leftJoin(Clients, eq(Projects.clientId, Clients.id))
+      .where(eq(Projects.id, params.id))
+      .limit(1);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // A GST-registered organisation splits the tax by where the supply is made
+    const settings = await findOrganisationSettings();
+    const isGstRegistered = !!(settings.gstin && settings.stateCode);
+    const placeOfSupply = project.placeOfSupply || stateCodeFromGstin(project.clientGstin);
+
+    if (isGstRegistered && !placeOfSupply) {
+      return NextResponse.json(
+        { error: "Set the client's GSTIN or place of supply before invoicing" },
+        { status: 400 }
+      );
+    }
+
+    const supplyType =
+      isGstRegistered && placeOfSupply ? determineSupplyType(settings.stateCode!, placeOfSupply) : null;
+    const taxRate = body.taxRate ?? (isGstRegistered ? settings.defaultGstRate : 0);
+
+    if (!isValidTaxRate(taxRate)) {
+      return NextResponse.json({ error: 'Tax rate must be between 0 and 100%' }, { status: 400 });
+    }
+
+    const tasks = await findUninvoicedApprovedTasks(
+      params.id,
+      periodStart,
+      periodEnd,
+      project.requiresClientSignoff
+    );
+    const expenses = await findUninvoicedApprovedExpenses(params.id, periodStart, periodEnd);
+    if (tasks.length === 0 && expenses.length === 0) {
+      return NextResponse.json(
+        {
+          error: project.requiresClientSignoff
+            ? 'No client-accepted, billable, uninvoiced tasks or expenses in this period'
+            : 'No approved, billable, uninvoiced tasks or expenses in this period',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Each task is billed at the bill rate in effect on its work date
+    const billRates = await findBillRatesForProjects([params.id]);
+    const taskLines = tasks.map((task, index) => {
+      const billRate = findBillRateForDate(billRates, params.id, task.employeeId, task.workDate);
+      return {
+        taskId: task.id as string | null,
+        expenseId: null as string | null,
+        description: `${task.taskName} — ${task.employeeName || 'Unknown'}`,
+        hsnSac: settings.defaultSacCode,
+        workDate: task.workDate,
+        quantity: task.actualHours || '0',
+        unitPrice: billRate?.hourlyRate ?? null,
+        amount: billRate ? calculateCost(task.actualHours, billRate.hourlyRate) : 0,
+        sortOrder: index,
+      };
+    });
+
+    const unpriced = taskLines.filter((line) => line.unitPrice === null);
+    if (unpriced.length > 0) {
+      return NextResponse.json(
+        {
+          error: `${unpriced.length} task${unpriced.length > 1 ? 's have' : ' has'} no bill rate for the work date. Add bill rates before invoicing.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Expenses are converted into the billing currency at the rate for their date
+    const exchangeRates = await findRatesBetweenCurrencies([
+      project.billingCurrency,
+      ...expenses.map((expense) => expense.currency),
+    ]);
+    const expenseLines = expenses.map((expense, index) => {
+      const amount = convertExpense(expense, exchangeRates, project.billingCurrency);
+      return {
+        taskId: null as string | null,
+        expenseId: expense.id as string | null,
+        description: `${expenseCategoryLabel(expense.category)}: ${expense.description}`,
+        hsnSac: settings.defaultSacCode,
+        workDate: expense.expenseDate,
+        quantity: '1',
+        unitPrice: amount !== null ? amount.toFixed(2) : null,
+        amount: amount ?? 0,
+        sortOrder: taskLines.length + index,
+      };
+    });
+
+    const unconverted = expenseLines.filter((line) => line.unitPrice === null);
+    if (unconverted.length > 0) {
+      return NextResponse.json(
+        {
+          error: `${unconverted.length} expense${unconverted.length > 1 ? 's have' : ' has'} no exchange rate into ${project.billingCurrency} for its date. Add exchange rates before invoicing.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const lines = [...taskLines, ...expenseLines];
+    const totals = calculateInvoiceTotals(lines, taxRate, supplyType);
+    const year = new Date().getFullYear();
+    const invoiceNumber = nextInvoiceNumber(await findLastInvoiceNumber(invoiceNumberPrefix(year)), year);
+    const taskIds = tasks.map((task) => task.id);
+    const expenseIds = expenses.map((expense) => expense.id);
+
+    const invoice = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(Invoices)
+        .values({
+          projectId: params.id,
+          invoiceNumber,
+          periodStart,
+          periodEnd,
+          currency: project.billingCurrency,
+          subtotal: totals.subtotal.toFixed(2),
+          taxRate: parseFloat(taxRate).toString(),
+          taxAmount: totals.taxAmount.toFixed(2),
+          total: totals.total.toFixed(2),
+          supplierGstin: isGstRegistered ? settings.gstin : null,
+          customerGstin: project.clientGstin,
+          placeOfSupply,
+          supplyType,
+          cgstAmount: totals.cgstAmount.toFixed(2),
+          sgstAmount: totals.sgstAmount.toFixed(2),
+          igstAmount: totals.igstAmount.toFixed(2),
+          dueDate: dueDate || null,
+          notes: notes?.trim() || null,
+          createdBy: session.user.id!,
+        })
+        .returning();
+
+      await tx.insert(InvoiceLineItems).values(
+        lines.map((line) => ({
+          invoiceId: created.id,
+          taskId: line.taskId,
+          expenseId: line.expenseId,
+          description: line.description,
+          hsnSac: line.hsnSac,
+          workDate: line.workDate,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice!,
+          amount: line.amount.toFixed(2),
+          sortOrder: line.sortOrder,
+        }))
+      );
+
+      // Claim the tasks and expenses only if no other invoice got to them first
+      if (taskIds.length > 0) {
+        const claimed = await tx
+          .update(Tasks)
+          .set({ invoiceId: created.id })
+          .where(and(inArray(Tasks.id, taskIds), isNull(Tasks.invoiceId)))
+          .returning({ id: Tasks.id });
+
+        if (claimed.length !== taskIds.length) {
+          tx.rollback();
+        }
+      }
+
+      if (expenseIds.length > 0) {
+        const claimedExpenses = await tx
+          .update(ProjectExpenses)
+          .set({ invoiceId: created.id })
+          .where(and(inArray(ProjectExpenses.id, expenseIds), isNull(ProjectExpenses.invoiceId)))
+          .returning({ id: ProjectExpenses.id });
+
+        if (claimedExpenses.length !== expenseIds.length) {
+          tx.rollback();
+        }
+      }
+
+      return created;
+    });
+
+    return NextResponse.json({ invoice }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) {
+      return NextResponse.json(
+        { error: 'Some of these tasks or expenses were invoiced in the meantime. Please try again.' },
+        { status: 409 }
+      );
+    }
+    // Another invoice took the same number; the next attempt gets a fresh one
+    if ((error as { code?: string })?.code === '23505') {
+      return NextResponse.json(
+        { error: 'Another invoice was created at the same time. Please try again.' },
+        { status: 409 }
+      );
+    }
+    console.error('Error creating invoice:', error);
+    return NextResponse.json(
+      { error: 'Failed to create invoice' },
+      { status: 500 }
+    );
+  }
+}
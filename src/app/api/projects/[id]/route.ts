@@ -5,10 +5,39 @@
 import { db } from '@/lib/db';
 import { auth } from '@/lib/auth';
 import { NextResponse } from 'next/server';
-import { eq } from 'drizzle-orm';
-import { Projects, Tasks, UserTable } from '@/drizzle/schema';
+import { asc, eq } from 'drizzle-orm';
+import { Clients, ProjectBudgetAlerts, Projects, Tasks, UserTable } from '@/drizzle/schema';
+import { findClientById } from '@/data/client';
+import { findRatesForEmployees } from '@/data/employee-rate';
+import { findBillRatesForProjects } from '@/data/bill-rate';
+import {
+  calculateCost,
+  calculateLoadedCost,
+  calculateMargin,
+  findBillRateForDate,
+  findLoadingForDate,
+  findRateForDate,
+  isDateKey,
+} from '@/lib/costing';
+import { calculateBudgetBurn, parseBudgetThresholds, serializeBudgetBurn } from '@/lib/budget';
+import { checkProjectBudget } from '@/lib/budget-alerts';
+import { combineEstimates } from '@/lib/pert';
+import { calculateForecast } from '@/lib/forecast';
+import { calculateEstimateTotals } from '@/lib/estimate';
+import { findEstimatesByProject } from '@/data/estimate';
+import { findRatesBetweenCurrencies } from '@/data/exchange-rate';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { findApprovedExpensesForProjects } from '@/data/expense';
+import { findTaskMultipliers } from '@/data/rate-rule';
+import { findCostLoadings } from '@/data/cost-loading';
+import { findTimeEntriesForTasks } from '@/data/time-entry';
+import { convertAmount, isSupportedCurrency } from '@/lib/currency';
+import { isValidStateCode, validateGstin } from '@/lib/gst';
+import { Billability, calculateUtilisation, parseBillability } from '@/lib/billable';
+import { convertExpense } from '@/lib/expense';
+import { formatEntryTime, sumEntriesByDay } from '@/lib/time-entries';
 
-// GET single project with tasks and employee details
+// GET single project with tasks, employee details and financials (Admin only)
 export async function GET(
   req: Request,
   { params }: { params: { id: string } }
@@ -19,17 +48,36 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     // Get project
     const project = await db
       .select({
         id: Projects.id,
         projectName: Projects.projectName,
         description: Projects.description,
+        clientId: Projects.clientId,
+        clientName: Clients.legalName,
+        createdBy: Projects.createdBy,
         isActive: Projects.isActive,
+        budgetHours: Projects.budgetHours,
+        budgetAmount: Projects.budgetAmount,
+        budgetAlertThresholds: Projects.budgetAlertThresholds,
+        plannedStartDate: Projects.plannedStartDate,
+        plannedEndDate: Projects.plannedEndDate,
+        billingCurrency: Projects.billingCurrency,
+        clientGstin: Projects.clientGstin,
+        placeOfSupply: Projects.placeOfSupply,
+        requiresClientSignoff: Projects.requiresClientSignoff,
+        defaultBillable: Projects.defaultBillable,
+        defaultNonBillableReason: Projects.defaultNonBillableReason,
         createdAt: Projects.createdAt,
         updatedAt: Projects.updatedAt,
       })
       .from(Projects)
+      .leftJoin(Clients, eq(Projects.clientId, Clients.id))
       .where(eq(Projects.id, params.id))
       .limit(1);
 
@@ -38,16 +86,26 @@ export async function GET(
     }
 
     // Get all tasks for this project with employee details
-    const tasks = await db
+    const taskRows = await db
       .select({
         taskId: Tasks.id,
         taskName: Tasks.taskName,
         description: Tasks.description,
         expectedHours: Tasks.expectedHours,
+        optimisticHours: Tasks.optimisticHours,
+        mostLikelyHours: Tasks.mostLikelyHours,
+        pessimisticHours: Tasks.pessimisticHours,
+        estimateStdDev: Tasks.estimateStdDev,
         actualHours: Tasks.actualHours,
         status: Tasks.status,
         approvedAt: Tasks.approvedAt,
+        workDate: Tasks.workDate,
         createdAt: Tasks.createdAt,
+        estimateLineItemId: Tasks.estimateLineItemId,
+        invoiceId: Tasks.invoiceId,
+        clientSignoffStatus: Tasks.clientSignoffStatus,
+        isBillable: Tasks.isBillable,
+        nonBillableReason: Tasks.nonBillableReason,
         employeeId: UserTable.id,
         employeeName: UserTable.name,
         employeeEmail: UserTable.email,
@@ -56,6 +114,116 @@ export async function GET(
       .leftJoin(UserTable, eq(Tasks.employeeId, UserTable.id))
       .where(eq(Tasks.projectId, params.id));
 
+    const timeEntries = await findTimeEntriesForTasks(taskRows.map((task) => task.taskId));
+
+    // Cost approved hours at the rate in effect on the day the work was logged
+    const employeeIds = Array.from(
+      new Set(taskRows.map((task) => task.employeeId).filter((id): id is string => !!id))
+    );
+    const rates = await findRatesForEmployees(employeeIds);
+    const billRates = await findBillRatesForProjects([params.id]);
+    // Overtime, weekend and holiday hours cost more under the rate rules
+    const multipliers = await findTaskMultipliers(
+      taskRows
+        .filter((task) => task.status === 'approved' && task.employeeId)
+        .map((task) => ({ ...task, id: task.taskId, employeeId: task.employeeId! }))
+    );
+    // Benefits, facilities and non-billable time on top, as loaded on the work date
+    const costLoadings = await findCostLoadings();
+
+    // Costs are in the cost currency and revenue in the project's billing
+    // currency; both are converted to the reporting currency at the rate for
+    // the work date so that margins compare like with like.
+    const settings = await findOrganisationSettings();
+    const currencies = {
+      cost: settings.costCurrency,
+      billing: project[0].billingCurrency,
+      reporting: settings.reportingCurrency,
+    };
+    const approvedExpenses = await findApprovedExpensesForProjects([params.id]);
+    const exchangeRates = await findRatesBetweenCurrencies([
+      ...Object.values(currencies),
+      ...approvedExpenses.map((expense) => expense.currency),
+    ]);
+
+    const tasks = taskRows.map((task) => {
+      const rate = task.employeeId
+        ? findRateForDate(rates, task.employeeId, task.workDate)
+        : null;
+      const billRate = task.employeeId
+        ? findBillRateForDate(billRates, params.id, task.employeeId, task.workDate)
+        : null;
+      const multiplier = multipliers.get(task.taskId) ?? null;
+      const cost =
+        task.status === 'approved' && rate
+          ? calculateCost(multiplier?.costedHours ?? task.actualHours, rate.hourlyRate)
+          : null;
+      const loadedCost =
+        cost !== null
+          ? calculateLoadedCost(cost, task.actualHours, findLoadingForDate(costLoadings, task.workDate))
+          : null;
+      // Non-billable work costs money but earns nothing
+      const revenue =
+        task.status === 'approved' && task.isBillable && billRate
+          ? calculateCost(task.actualHours, billRate.hourlyRate)
+          : null;
+
+      const reportingCost =
+        cost !== null ? convertAmount(cost, exchangeRates, currencies.cost, currencies.reporting, task.workDate) : null;
+      const reportingLoadedCost =
+        loadedCost !== null
+          ? convertAmount(loadedCost, exchangeRates, currencies.cost, currencies.reporting, task.workDate)
+          : null;
+      const reportingRevenue =
+        revenue !== null
+          ? convertAmount(revenue, exchangeRates, currencies.billing, currencies.reporting, task.workDate)
+          : null;
+
+      return {
+        ...task,
+        hourlyRate: rate?.hourlyRate ?? null,
+        rateMultiplier: multiplier?.multiplier ?? null,
+        multiplierReason: multiplier?.reason ?? null,
+        entries: timeEntries
+          .filter((entry) => entry.taskId === task.taskId)
+          .map((entry) => ({
+            ...entry,
+            startTime: formatEntryTime(entry.startTime),
+            endTime: formatEntryTime(entry.endTime),
+          })),
+        cost: cost !== null ? cost.toFixed(2) : null,
+        loadedCost: loadedCost !== null ? loadedCost.toFixed(2) : null,
+        billRate: billRate?.hourlyRate ?? null,
+        revenue: revenue !== null ? revenue.toFixed(2) : null,
+        reportingCost: reportingCost !== null ? reportingCost.toFixed(2) : null,
+        reportingLoadedCost: reportingLoadedCost !== null ? reportingLoadedCost.toFixed(2) : null,
+        reportingRevenue: reportingRevenue !== null ? reportingRevenue.toFixed(2) : null,
+        // Costed or billed, but no exchange rate covers the work date
+        isUnconverted: (cost !== null && reportingCost === null) || (revenue !== null && reportingRevenue === null),
+      };
+    });
+
+    // Approved expenses are project cost; billable ones are rebilled at cost,
+    // so they add the same amount to revenue and nothing to margin
+    const expenses = approvedExpenses.map((expense) => {
+      const cost = convertExpense(expense, exchangeRates, currencies.cost);
+      const revenue = expense.isBillable ? convertExpense(expense, exchangeRates, currencies.billing) : null;
+      const reportingCost = convertExpense(expense, exchangeRates, currencies.reporting);
+      const reportingRevenue = expense.isBillable ? reportingCost : null;
+
+      return {
+        ...expense,
+        cost: cost !== null ? cost.toFixed(2) : null,
+        revenue: revenue !== null ? revenue.toFixed(2) : null,
+        reportingCost: reportingCost !== null ? reportingCost.toFixed(2) : null,
+        reportingRevenue: reportingRevenue !== null ? reportingRevenue.toFixed(2) : null,
+        isUnconverted: cost === null || reportingCost === null || (expense.isBillable && revenue === null),
+      };
+    });
+    const sumExpenses = (field: 'cost' | 'revenue' | 'reportingCost' | 'reportingRevenue') =>
+      expenses.reduce((sum, expense) => sum + parseFloat(expense[field] || '0'), 0);
+    const expenseCost = sumExpenses('cost');
+
     // Calculate summary
     const totalExpectedHours = tasks.reduce(
       (sum, task) => sum + parseFloat(task.expectedHours || '0'), 
@@ -66,6 +234,119 @@ export async function GET(
       0
     );
     const variance = totalActualHours - totalExpectedHours;
+    const labourCost = tasks.reduce(
+      (sum, task) => sum + parseFloat(task.cost || '0'),
+      0
+    );
+    const totalCost = labourCost + expenseCost;
+    // Expenses are passed through as they are; only labour carries the loading
+    const labourLoadedCost = tasks.reduce(
+      (sum, task) => sum + parseFloat(task.loadedCost || '0'),
+      0
+    );
+    const reportingLoadedCost = tasks.reduce(
+      (sum, task) => sum + parseFloat(task.reportingLoadedCost || '0'),
+      0
+    ) + sumExpenses('reportingCost');
+    // Confidence range over the estimates of all tasks that have not been rejected
+    const estimateRange = combineEstimates(
+      tasks
+        .filter((task) => task.status !== 'rejected' && task.expectedHours !== null)
+        .map((task) => ({
+          mean: parseFloat(task.expectedHours || '0'),
+          stdDev: parseFloat(task.estimateStdDev || '0'),
+          hourlyRate: task.hourlyRate !== null ? parseFloat(task.hourlyRate) : null,
+        }))
+    );
+
+    const totalRevenue = tasks.reduce(
+      (sum, task) => sum + parseFloat(task.revenue || '0'),
+      0
+    ) + sumExpenses('revenue');
+    const reportingCost = tasks.reduce(
+      (sum, task) => sum + parseFloat(task.reportingCost || '0'),
+      0
+    ) + sumExpenses('reportingCost');
+    const reportingRevenue = tasks.reduce(
+      (sum, task) => sum + parseFloat(task.reportingRevenue || '0'),
+      0
+    ) + sumExpenses('reportingRevenue');
+    const projectMargin = calculateMargin(reportingRevenue, reportingCost);
+    const loadedProjectMargin = calculateMargin(reportingRevenue, reportingLoadedCost);
+    // Approved hours and their cost, split by whether the work can be billed
+    const billableSplit = tasks
+      .filter((task) => task.status === 'approved')
+      .reduce(
+        (split, task) => {
+          const key = task.isBillable ? 'billable' : 'nonBillable';
+          split[key].hours += parseFloat(task.actualHours || '0');
+          split[key].cost += parseFloat(task.cost || '0');
+          return split;
+        },
+        { billable: { hours: 0, cost: 0 }, nonBillable: { hours: 0, cost: 0 } }
+      );
+    const nonBillableByReason = tasks
+      .filter((task) => task.status === 'approved' && !task.isBillable)
+      .reduce((acc: Record<string, { hours: number; cost: number }>, task) => {
+        const reason = task.nonBillableReason || 'internal';
+        acc[reason] = acc[reason] || { hours: 0, cost: 0 };
+        acc[reason].hours += parseFloat(task.actualHours || '0');
+        acc[reason].cost += parseFloat(task.cost || '0');
+        return acc;
+      }, {});
+    const projectUtilisation = calculateUtilisation(
+      billableSplit.billable.hours,
+      billableSplit.billable.hours + billableSplit.nonBillable.hours
+    );
+    // Approved hours that could not be costed because no rate covers the work date
+    const uncostedHours = tasks
+      .filter((task) => task.status === 'approved' && task.cost === null)
+      .reduce((sum, task) => sum + parseFloat(task.actualHours || '0'), 0);
+
+    // Budget burn counts approved work only, like the cost totals
+    const approvedHours = tasks
+      .filter((task) => task.status === 'approved')
+      .reduce((sum, task) => sum + parseFloat(task.actualHours || '0'), 0);
+    const hoursBurn = calculateBudgetBurn(project[0].budgetHours, approvedHours);
+    const amountBurn = calculateBudgetBurn(project[0].budgetAmount, totalCost);
+
+    // Forecast against the budget, or the latest approved estimate when no budget is set
+    const approvedEstimate = (await findEstimatesByProject(params.id)).find(
+      (estimate) => estimate.status === 'approved'
+    );
+    const estimateTotals = approvedEstimate ? calculateEstimateTotals(approvedEstimate.lineItems) : null;
+    const baselineHours = hoursBurn.budget ?? estimateTotals?.totalHours ?? null;
+    const baselineCost = amountBurn.budget ?? estimateTotals?.totalAmount ?? null;
+
+    const forecast = calculateForecast({
+      budgetHours: baselineHours,
+      budgetCost: baselineCost,
+      approvedTasks: tasks
+        .filter((task) => task.status === 'approved')
+        .map((task) => ({
+          expectedHours: task.expectedHours !== null ? parseFloat(task.expectedHours) : null,
+          actualHours: parseFloat(task.actualHours || '0'),
+          cost: task.cost !== null ? parseFloat(task.cost) : null,
+          workDate: task.workDate,
+        })),
+      expectedHours: tasks
+        .filter((task) => task.status !== 'rejected')
+        .reduce((sum, task) => sum + parseFloat(task.expectedHours || '0'), 0),
+      expenseCost,
+      plannedStartDate: project[0].plannedStartDate,
+      plannedEndDate: project[0].plannedEndDate,
+    });
+
+    const budgetAlerts = await db
+      .select({
+        budgetType: ProjectBudgetAlerts.budgetType,
+        threshold: ProjectBudgetAlerts.threshold,
+        percentBurned: ProjectBudgetAlerts.percentBurned,
+        crossedAt: ProjectBudgetAlerts.crossedAt,
+      })
+      .from(ProjectBudgetAlerts)
+      .where(eq(ProjectBudgetAlerts.projectId, params.id))
+      .orderBy(asc(ProjectBudgetAlerts.crossedAt));
 
     // Group tasks by employee (with null check)
     const employeeSummary = tasks.reduce((acc: any, task) => {
@@ -78,6 +359,16 @@ export async function GET(
           totalTasks: 0,
           totalExpectedHours: 0,
           totalActualHours: 0,
+          totalCost: 0,
+          totalLoadedCost: 0,
+          totalRevenue: 0,
+          reportingCost: 0,
+          reportingLoadedCost: 0,
+          reportingRevenue: 0,
+          billableHours: 0,
+          nonBillableHours: 0,
+          billableCost: 0,
+          nonBillableCost: 0,
           pendingTasks: 0,
           approvedTasks: 0,
           rejectedTasks: 0,
@@ -86,6 +377,17 @@ export async function GET(
       acc[empId].totalTasks += 1;
       acc[empId].totalExpectedHours += parseFloat(task.expectedHours || '0');
       acc[empId].totalActualHours += parseFloat(task.actualHours || '0');
+      acc[empId].totalCost += parseFloat(task.cost || '0');
+      acc[empId].totalLoadedCost += parseFloat(task.loadedCost || '0');
+      if (task.status === 'approved') {
+        const key = task.isBillable ? 'billable' : 'nonBillable';
+        acc[empId][`${key}Hours`] += parseFloat(task.actualHours || '0');
+        acc[empId][`${key}Cost`] += parseFloat(task.cost || '0');
+      }
+      acc[empId].totalRevenue += parseFloat(task.revenue || '0');
+      acc[empId].reportingCost += parseFloat(task.reportingCost || '0');
+      acc[empId].reportingLoadedCost += parseFloat(task.reportingLoadedCost || '0');
+      acc[empId].reportingRevenue += parseFloat(task.reportingRevenue || '0');
       
       if (task.status === 'pending') acc[empId].pendingTasks += 1;
       if (task.status === 'approved') acc[empId].approvedTasks += 1;
@@ -94,9 +396,26 @@ export async function GET(
       return acc;
     }, {});
 
+    const employees = Object.values(employeeSummary).map((employee: any) => {
+      const margin = calculateMargin(employee.reportingRevenue, employee.reportingCost);
+      const loadedMargin = calculateMargin(employee.reportingRevenue, employee.reportingLoadedCost);
+      return {
+        ...employee,
+        grossMargin: margin.grossMargin,
+        marginPercent: margin.marginPercent,
+        loadedMarginPercent: loadedMargin.marginPercent,
+        utilisationPercent: calculateUtilisation(
+          employee.billableHours,
+          employee.billableHours + employee.nonBillableHours
+        ),
+      };
+    });
+
     return NextResponse.json({
       project: project[0],
+      currencies,
       tasks,
+      expenses,
       summary: {
         totalTasks: tasks.length,
         totalExpectedHours: totalExpectedHours.toFixed(2),
@@ -105,8 +424,79 @@ export async function GET(
         variancePercentage: totalExpectedHours > 0 
           ? ((variance / totalExpectedHours) * 100).toFixed(2) 
           : '0',
+        totalCost: totalCost.toFixed(2),
+        labourCost: labourCost.toFixed(2),
+        // Fully-loaded: labour with benefits, facilities and non-billable time, plus expenses
+        labourLoadedCost: labourLoadedCost.toFixed(2),
+        loadedCost: (labourLoadedCost + expenseCost).toFixed(2),
+        // Approved expenses in the cost currency; the billable part is rebilled
+        expenseCost: expenseCost.toFixed(2),
+        billableExpenseCost: expenses
+          .filter((expense) => expense.isBillable)
+          .reduce((sum, expense) => sum + parseFloat(expense.cost || '0'), 0)
+          .toFixed(2),
+        uncostedHours: uncostedHours.toFixed(2),
+        // Logged and approved hours per day, from the time entries
+        dailyHours: sumEntriesByDay(timeEntries).map((day) => ({
+          date: day.date,
+          hours: day.hours.toFixed(2),
+          approvedHours: day.approvedHours.toFixed(2),
+        })),
+        totalRevenue: totalRevenue.toFixed(2),
+        // Approved work only, like the cost totals
+        billableHours: billableSplit.billable.hours.toFixed(2),
+        nonBillableHours: billableSplit.nonBillable.hours.toFixed(2),
+        billableCost: billableSplit.billable.cost.toFixed(2),
+        nonBillableCost: billableSplit.nonBillable.cost.toFixed(2),
+        nonBillableByReason: Object.entries(nonBillableByReason).map(([reason, totals]) => ({
+          reason,
+          hours: totals.hours.toFixed(2),
+          cost: totals.cost.toFixed(2),
+        })),
+        utilisationPercent: projectUtilisation !== null ? projectUtilisation.toFixed(2) : null,
+        // Margin figures are in the reporting currency
+        reportingCost: reportingCost.toFixed(2),
+        reportingLoadedCost: reportingLoadedCost.toFixed(2),
+        reportingRevenue: reportingRevenue.toFixed(2),
+        unconvertedTasks: tasks.filter((task) => task.isUnconverted).length,
+        unconvertedExpenses: expenses.filter((expense) => expense.isUnconverted).length,
+        grossMargin: projectMargin.grossMargin.toFixed(2),
+        marginPercent:
+          projectMargin.marginPercent !== null ? projectMargin.marginPercent.toFixed(2) : null,
+        loadedMarginPercent:
+          loadedProjectMargin.marginPercent !== null ? loadedProjectMargin.marginPercent.toFixed(2) : null,
+        estimateRange: {
+          hours: {
+            p50: estimateRange.hours.p50.toFixed(2),
+            p80: estimateRange.hours.p80.toFixed(2),
+            p90: estimateRange.hours.p90.toFixed(2),
+          },
+          cost: {
+            p50: estimateRange.cost.p50.toFixed(2),
+            p80: estimateRange.cost.p80.toFixed(2),
+            p90: estimateRange.cost.p90.toFixed(2),
+          },
+          stdDevHours: estimateRange.stdDevHours.toFixed(2),
+        },
+      },
+      budget: {
+        hours: serializeBudgetBurn(hoursBurn),
+        amount: serializeBudgetBurn(amountBurn),
+        alertThresholds: project[0].budgetAlertThresholds,
+        alerts: budgetAlerts,
+      },
+      forecast: {
+        ...forecast,
+        baseline:
+          hoursBurn.budget !== null || amountBurn.budget !== null
+            ? 'budget'
+            : estimateTotals
+              ? 'estimate'
+              : null,
+        baselineHours,
+        baselineCost,
       },
-      employees: Object.values(employeeSummary),
+      employees,
     }, { status: 200 });
 
   } catch (error) {
@@ -134,7 +524,93 @@ export async function PUT(
     }
 
     const body = await req.json();
-    const { projectName, description, isActive } = body;
+    const {
+      projectName,
+      description,
+      isActive,
+      budgetHours,
+      budgetAmount,
+      budgetAlertThresholds,
+      plannedStartDate,
+      plannedEndDate,
+      billingCurrency,
+      placeOfSupply,
+      clientId,
+      requiresClientSignoff,
+    } = body;
+    const { defaultBillable, defaultNonBillableReason } = body;
+    const clientGstin =
+      typeof body.clientGstin === 'string' ? body.clientGstin.trim().toUpperCase() || null : body.clientGstin;
+
+    if (clientGstin) {
+      const gstinError = validateGstin(clientGstin);
+      if (gstinError) {
+        return NextResponse.json({ error: gstinError }, { status: 400 });
+      }
+    }
+
+    if (placeOfSupply && !isValidStateCode(placeOfSupply)) {
+      return NextResponse.json({ error: 'Invalid place of supply' }, { status: 400 });
+    }
+
+    if (billingCurrency !== undefined && !isSupportedCurrency(billingCurrency)) {
+      return NextResponse.json({ error: 'Unsupported billing currency' }, { status: 400 });
+    }
+
+    if (clientId && !(await findClientById(clientId))) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 400 });
+    }
+
+    if (requiresClientSignoff !== undefined && typeof requiresClientSignoff !== 'boolean') {
+      return NextResponse.json({ error: 'requiresClientSignoff must be true or false' }, { status: 400 });
+    }
+
+    // Defaults are checked together so a non-billable default always has a reason
+    let billingDefaults: Billability | undefined;
+    if (defaultBillable !== undefined || defaultNonBillableReason !== undefined) {
+      const [current] = await db
+        .select({ isBillable: Projects.defaultBillable, nonBillableReason: Projects.defaultNonBillableReason })
+        .from(Projects)
+        .where(eq(Projects.id, params.id))
+        .limit(1);
+      if (!current) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+
+      const parsed = parseBillability(
+        { isBillable: defaultBillable, nonBillableReason: defaultNonBillableReason },
+        current
+      );
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      billingDefaults = parsed.billability;
+    }
+
+    for (const budget of [budgetHours, budgetAmount]) {
+      if (budget !== undefined && budget !== null && (isNaN(parseFloat(budget)) || parseFloat(budget) < 0)) {
+        return NextResponse.json({ error: 'Budgets must be positive numbers' }, { status: 400 });
+      }
+    }
+
+    for (const plannedDate of [plannedStartDate, plannedEndDate]) {
+      if (plannedDate && !isDateKey(plannedDate)) {
+        return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+      }
+    }
+
+    if (plannedStartDate && plannedEndDate && plannedEndDate < plannedStartDate) {
+      return NextResponse.json({ error: 'Planned end cannot be before planned start' }, { status: 400 });
+    }
+
+    const thresholds =
+      budgetAlertThresholds !== undefined ? parseBudgetThresholds(budgetAlertThresholds) : undefined;
+    if (thresholds === null) {
+      return NextResponse.json(
+        { error: 'Alert thresholds must be whole percentages between 1 and 1000' },
+        { status: 400 }
+      );
+    }
 
     const [project] = await db
       .update(Projects)
@@ -142,6 +618,18 @@ export async function PUT(
         projectName,
         description,
         isActive,
+        budgetHours: budgetHours === undefined ? undefined : budgetHours?.toString() ?? null,
+        budgetAmount: budgetAmount === undefined ? undefined : budgetAmount?.toString() ?? null,
+        budgetAlertThresholds: thresholds,
+        plannedStartDate: plannedStartDate === undefined ? undefined : plannedStartDate || null,
+        plannedEndDate: plannedEndDate === undefined ? undefined : plannedEndDate || null,
+        billingCurrency,
+        clientId: clientId === undefined ? undefined : clientId || null,
+        clientGstin,
+        placeOfSupply: placeOfSupply === undefined ? undefined : placeOfSupply || null,
+        requiresClientSignoff,
+        defaultBillable: billingDefaults?.isBillable,
+        defaultNonBillableReason: billingDefaults ? billingDefaults.nonBillableReason : undefined,
         updatedAt: new Date(),
       })
       .where(eq(Projects.id, params.id))
@@ -151,6 +639,11 @@ export async function PUT(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
+    // A changed budget can cross thresholds, or re-arm them, without new work
+    if (budgetHours !== undefined || budgetAmount !== undefined || thresholds !== undefined) {
+      await checkProjectBudget(project.id);
+    }
+
     return NextResponse.json({ project }, { status: 200 });
   } catch (error) {
     console.error('Error updating project:', error);
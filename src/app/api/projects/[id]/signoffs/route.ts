@@ -0,0 +1,172 @@
+// ====================================
+// app/api/projects/[id]/signoffs/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, inArray } from 'drizzle-orm';
+import { ClientContacts, Projects, SignoffLines, SignoffRequests, Tasks } from '@/drizzle/schema';
+import { findSignoffRequestsByProject, findTasksAwaitingSignoff } from '@/data/signoff';
+import { isDateKey } from '@/lib/costing';
+import { SIGNOFF_LINK_DAYS } from '@/lib/signoff';
+import { sendSignoffRequestEmail } from '@/lib/mail';
+import { signoffUrl } from '@/utils/portalToken';
+
+// GET - A project's client sign-off requests with how far each was answered (Admin only)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const signoffs = await findSignoffRequestsByProject(params.id);
+
+    return NextResponse.json({ signoffs }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching sign-off requests:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sign-off requests' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Send the approved, uninvoiced tasks of a period to a client contact
+// for sign-off (Admin only). Tasks already accepted or awaiting an answer are
+// left out; disputed tasks are sent again.
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { contactId, periodStart, periodEnd } = await req.json();
+
+    if (!isDateKey(periodStart) || !isDateKey(periodEnd)) {
+      return NextResponse.json({ error: 'Period dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (periodEnd < periodStart) {
+      return NextResponse.json({ error: 'Period end cannot be before period start' }, { status: 400 });
+    }
+
+    const [project] = await db
+      .select({
+        id: Projects.id,
+        projectName: Projects.projectName,
+        clientId: Projects.clientId,
+        requiresClientSignoff: Projects.requiresClientSignoff,
+      })
+      .from(Projects)
+      .where(eq(Projects.id, params.id))
+      .limit(1);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!project.requiresClientSignoff) {
+      return NextResponse.json({ error: 'This project does not require client sign-off' }, { status: 400 });
+    }
+
+    if (!project.clientId) {
+      return NextResponse.json({ error: 'Assign the project to a client first' }, { status: 400 });
+    }
+
+    const [contact] = contactId
+      ? await db
+          .select()
+          .from(ClientContacts)
+          .where(and(eq(ClientContacts.id, contactId), eq(ClientContacts.clientId, project.clientId)))
+          .limit(1)
+      : [];
+
+    if (!contact) {
+      return NextResponse.json({ error: "Choose one of the client's contacts" }, { status: 400 });
+    }
+
+    if (!contact.email) {
+      return NextResponse.json({ error: 'This contact has no email address' }, { status: 400 });
+    }
+
+    const tasks = await findTasksAwaitingSignoff(params.id, periodStart, periodEnd);
+    if (tasks.length === 0) {
+      return NextResponse.json(
+        { error: 'No approved tasks awaiting client sign-off in this period' },
+        { status: 400 }
+      );
+    }
+
+    const expiresAt = new Date(Date.now() + SIGNOFF_LINK_DAYS * 24 * 60 * 60 * 1000);
+
+    const request = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(SignoffRequests)
+        .values({
+          projectId: params.id,
+          contactId: contact.id,
+          contactName: contact.name,
+          contactEmail: contact.email!,
+          periodStart,
+          periodEnd,
+          expiresAt,
+          createdBy: session.user.id!,
+        })
+        .returning();
+
+      await tx.insert(SignoffLines).values(
+        tasks.map((task) => ({
+          requestId: created.id,
+          taskId: task.id,
+          hours: task.actualHours || '0',
+        }))
+      );
+
+      await tx
+        .update(Tasks)
+        .set({ clientSignoffStatus: 'pending', updatedAt: new Date() })
+        .where(inArray(Tasks.id, tasks.map((task) => task.id)));
+
+      return created;
+    });
+
+    const url = signoffUrl(request.id);
+    const totalHours = tasks.reduce((sum, task) => sum + parseFloat(task.actualHours || '0'), 0);
+
+    await sendSignoffRequestEmail(contact.email, {
+      contactName: contact.name,
+      projectName: project.projectName,
+      periodStart,
+      periodEnd,
+      lineCount: tasks.length,
+      totalHours: totalHours.toFixed(2),
+      url,
+      expiresAt: expiresAt.toISOString().split('T')[0],
+    });
+
+    return NextResponse.json({ signoff: { ...request, url } }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating sign-off request:', error);
+    return NextResponse.json(
+      { error: 'Failed to create sign-off request' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,10 +3,27 @@ import { db } from '@/lib/db'; // Your Drizzle DB instance
 
 import { auth } from '@/lib/auth'; // Your auth function
 import { NextResponse } from 'next/server';
-import { eq, desc } from 'drizzle-orm';
-import { Projects } from '@/drizzle/schema';
+import { and, eq, desc, getTableColumns, isNull } from 'drizzle-orm';
+import { Clients, Projects } from '@/drizzle/schema';
+import { findClientById } from '@/data/client';
+import { DEFAULT_BUDGET_ALERT_THRESHOLDS, parseBudgetThresholds } from '@/lib/budget';
+import { DEFAULT_CURRENCY, isSupportedCurrency } from '@/lib/currency';
+import { parseBillability } from '@/lib/billable';
 
-// GET all projects
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// What employees see of a project; budgets, billing and client tax details
+// are for admins only
+const employeeProjectColumns = {
+  id: Projects.id,
+  projectName: Projects.projectName,
+  description: Projects.description,
+  createdAt: Projects.createdAt,
+};
+
+// GET all projects with their client's name. ?clientId= narrows the list to
+// one client's projects, or to projects without a client when it is "none".
+// Budgets and billing details are returned to admins only.
 export async function GET(req: Request) {
   try {
     const session = await auth();
@@ -14,10 +31,24 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const clientId = new URL(req.url).searchParams.get('clientId');
+
+    if (clientId && clientId !== 'none' && !UUID_PATTERN.test(clientId)) {
+      return NextResponse.json({ error: 'Client must be "none" or a client id' }, { status: 400 });
+    }
+
+    const columns = session.user.role === 'platform_admin' ? getTableColumns(Projects) : employeeProjectColumns;
+
     const projects = await db
-      .select()
+      .select({ ...columns, clientName: Clients.legalName })
       .from(Projects)
-      .where(eq(Projects.isActive, true))
+      .leftJoin(Clients, eq(Projects.clientId, Clients.id))
+      .where(
+        and(
+          eq(Projects.isActive, true),
+          clientId === 'none' ? isNull(Projects.clientId) : clientId ? eq(Projects.clientId, clientId) : undefined
+        )
+      )
       .orderBy(desc(Projects.createdAt));
 
     return NextResponse.json({ projects }, { status: 200 });
@@ -44,7 +75,7 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json();
-    const { projectName, description } = body;
+    const { projectName, description, budgetHours, budgetAmount, budgetAlertThresholds, billingCurrency, clientId } = body;
 
     if (!projectName) {
       return NextResponse.json(
@@ -53,6 +84,41 @@ export async function POST(req: Request) {
       );
     }
 
+    for (const budget of [budgetHours, budgetAmount]) {
+      if (budget != null && (isNaN(parseFloat(budget)) || parseFloat(budget) < 0)) {
+        return NextResponse.json({ error: 'Budgets must be positive numbers' }, { status: 400 });
+      }
+    }
+
+    if (billingCurrency != null && !isSupportedCurrency(billingCurrency)) {
+      return NextResponse.json({ error: 'Unsupported billing currency' }, { status: 400 });
+    }
+
+    // A new project bills in its client's currency unless told otherwise
+    const client = clientId ? await findClientById(clientId) : null;
+    if (clientId && !client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 400 });
+    }
+
+    const defaults = parseBillability(
+      { isBillable: body.defaultBillable, nonBillableReason: body.defaultNonBillableReason },
+      { isBillable: true, nonBillableReason: null }
+    );
+    if ('error' in defaults) {
+      return NextResponse.json({ error: defaults.error }, { status: 400 });
+    }
+
+    const thresholds =
+      budgetAlertThresholds != null
+        ? parseBudgetThresholds(budgetAlertThresholds)
+        : DEFAULT_BUDGET_ALERT_THRESHOLDS;
+    if (!thresholds) {
+      return NextResponse.json(
+        { error: 'Alert thresholds must be whole percentages between 1 and 1000' },
+        { status: 400 }
+      );
+    }
+
     // const [project] = await db
     //   .insert(Projects)
     //   .values({
@@ -67,7 +133,14 @@ export async function POST(req: Request) {
         .values({
           projectName,
           description: description ?? null,
+          clientId: client?.id ?? null,
           createdBy: session.user.id!,
+          budgetHours: budgetHours != null ? budgetHours.toString() : null,
+          budgetAmount: budgetAmount != null ? budgetAmount.toString() : null,
+          budgetAlertThresholds: thresholds,
+          billingCurrency: billingCurrency ?? client?.defaultCurrency ?? DEFAULT_CURRENCY,
+          defaultBillable: defaults.billability.isBillable,
+          defaultNonBillableReason: defaults.billability.nonBillableReason,
         })
         .returning();
 
@@ -0,0 +1,61 @@
+// ====================================
+// app/api/rate-rules/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { RateRuleVersions } from '@/drizzle/schema';
+import { findLatestRateRuleVersion, findRateRuleVersionById } from '@/data/rate-rule';
+import { orgDateKey, previousDateKey } from '@/lib/costing';
+
+// DELETE - Withdraw the latest rule version before it takes effect (Admin
+// only). The version before it is back in force with no end date.
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingVersion = await findRateRuleVersionById(params.id);
+    if (!existingVersion) {
+      return NextResponse.json({ error: 'Rule version not found' }, { status: 404 });
+    }
+
+    const latest = await findLatestRateRuleVersion();
+    if (latest?.id !== existingVersion.id || existingVersion.effectiveFrom <= orgDateKey()) {
+      return NextResponse.json(
+        { error: 'Only the latest version can be withdrawn, and only before it takes effect' },
+        { status: 409 }
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(RateRuleVersions).where(eq(RateRuleVersions.id, existingVersion.id));
+      await tx
+        .update(RateRuleVersions)
+        .set({ effectiveTo: null })
+        .where(eq(RateRuleVersions.effectiveTo, previousDateKey(existingVersion.effectiveFrom)));
+    });
+
+    return NextResponse.json(
+      { message: 'Rule version withdrawn' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting rate rule version:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete rate rule version' },
+      { status: 500 }
+    );
+  }
+}
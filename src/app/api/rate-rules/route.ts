@@ -0,0 +1,114 @@
+// ====================================
+// app/api/rate-rules/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, isNull } from 'drizzle-orm';
+import { Country, State } from 'country-state-city';
+import { RateRuleVersions } from '@/drizzle/schema';
+import { findLatestRateRuleVersion, findRateRuleVersions } from '@/data/rate-rule';
+import { previousDateKey } from '@/lib/costing';
+import { parseRateRuleInput } from '@/lib/rate-rules';
+
+// GET - Rate rule versions, oldest first (Admin only)
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const versions = await findRateRuleVersions();
+
+    return NextResponse.json({ versions }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching rate rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rate rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a rule version (Admin only). It supersedes the current version
+// from its effective date; earlier work keeps the rules it was costed under.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = parseRateRuleInput(await req.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { rule } = parsed;
+
+    if (rule.holidayCountryCode && !Country.getCountryByCode(rule.holidayCountryCode)) {
+      return NextResponse.json({ error: 'Unknown country for the holiday calendar' }, { status: 400 });
+    }
+
+    if (
+      rule.holidayStateCode &&
+      !State.getStateByCodeAndCountry(rule.holidayStateCode, rule.holidayCountryCode!)
+    ) {
+      return NextResponse.json({ error: 'Unknown state for the holiday calendar' }, { status: 400 });
+    }
+
+    // Versions follow one another, so a new one must start after the latest
+    const latest = await findLatestRateRuleVersion();
+    if (latest && rule.effectiveFrom <= latest.effectiveFrom) {
+      return NextResponse.json(
+        { error: `A new version must take effect after version ${latest.version} (${latest.effectiveFrom})` },
+        { status: 400 }
+      );
+    }
+
+    const version = await db.transaction(async (tx) => {
+      if (latest) {
+        await tx
+          .update(RateRuleVersions)
+          .set({ effectiveTo: previousDateKey(rule.effectiveFrom) })
+          .where(and(eq(RateRuleVersions.id, latest.id), isNull(RateRuleVersions.effectiveTo)));
+      }
+
+      const [created] = await tx
+        .insert(RateRuleVersions)
+        .values({
+          ...rule,
+          version: (latest?.version ?? 0) + 1,
+          effectiveTo: null,
+          createdBy: session.user.id!,
+        })
+        .returning();
+
+      return created;
+    });
+
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (error) {
+    // Another admin added a version at the same time
+    if ((error as { code?: string })?.code === '23505') {
+      return NextResponse.json(
+        { error: 'Another rule version was added at the same time. Please try again.' },
+        { status: 409 }
+      );
+    }
+    console.error('Error creating rate rule version:', error);
+    return NextResponse.json(
+      { error: 'Failed to create rate rule version' },
+      { status: 500 }
+    );
+  }
+}
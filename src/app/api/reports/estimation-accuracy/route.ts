@@ -0,0 +1,95 @@
+// ====================================
+// app/api/reports/estimation-accuracy/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, gte, isNotNull, lte } from 'drizzle-orm';
+import { Projects, Tasks, UserTable } from '@/drizzle/schema';
+import { isDateKey } from '@/lib/costing';
+import { AccuracyPeriod, buildScorecard, describeBias } from '@/lib/estimation-accuracy';
+
+// GET - Estimation accuracy per employee and period, optionally for one project
+// or one client's projects (Admin only)
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const projectId = searchParams.get('projectId');
+    const clientId = searchParams.get('clientId');
+    const period = (searchParams.get('period') || 'month') as AccuracyPeriod;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!['month', 'quarter'].includes(period)) {
+      return NextResponse.json({ error: 'Period must be month or quarter' }, { status: 400 });
+    }
+
+    if ((from && !isDateKey(from)) || (to && !isDateKey(to))) {
+      return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    // Approved work is the only reliable record of how long something took
+    const rows = await db
+      .select({
+        employeeId: Tasks.employeeId,
+        employeeName: UserTable.name,
+        employeeEmail: UserTable.email,
+        expectedHours: Tasks.expectedHours,
+        actualHours: Tasks.actualHours,
+        workDate: Tasks.workDate,
+      })
+      .from(Tasks)
+      .innerJoin(UserTable, eq(Tasks.employeeId, UserTable.id))
+      .innerJoin(Projects, eq(Tasks.projectId, Projects.id))
+      .where(
+        and(
+          eq(Tasks.status, 'approved'),
+          isNotNull(Tasks.expectedHours),
+          isNotNull(Tasks.actualHours),
+          projectId ? eq(Tasks.projectId, projectId) : undefined,
+          clientId ? eq(Projects.clientId, clientId) : undefined,
+          from ? gte(Tasks.workDate, from) : undefined,
+          to ? lte(Tasks.workDate, to) : undefined
+        )
+      );
+
+    const employees = new Map(
+      rows.map((row) => [row.employeeId, { employeeName: row.employeeName, employeeEmail: row.employeeEmail }])
+    );
+
+    const scorecard = buildScorecard(
+      rows.map((row) => ({
+        employeeId: row.employeeId,
+        expectedHours: parseFloat(row.expectedHours || '0'),
+        actualHours: parseFloat(row.actualHours || '0'),
+        workDate: row.workDate,
+      })),
+      period
+    )
+      .filter((row) => row.overall.taskCount > 0)
+      .map((row) => ({
+        ...employees.get(row.employeeId),
+        ...row,
+        biasLabel: describeBias(row.overall.bias),
+      }))
+      .sort((a, b) => (a.employeeName || '').localeCompare(b.employeeName || ''));
+
+    return NextResponse.json({ period, scorecard }, { status: 200 });
+  } catch (error) {
+    console.error('Error building estimation accuracy scorecard:', error);
+    return NextResponse.json(
+      { error: 'Failed to build estimation accuracy scorecard' },
+      { status: 500 }
+    );
+  }
+}
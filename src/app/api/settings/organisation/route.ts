@@ -0,0 +1,138 @@
+// ====================================
+// app/api/settings/organisation/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { OrganisationSettings } from '@/drizzle/schema';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { isDateKey } from '@/lib/costing';
+import { isSupportedCurrency } from '@/lib/currency';
+import { isValidHsnSac, isValidStateCode, stateCodeFromGstin, validateGstin } from '@/lib/gst';
+import { isValidTaxRate } from '@/lib/invoice';
+import { isPayPeriodFrequency } from '@/lib/payroll';
+import { isValidTimerLimit } from '@/lib/timers';
+
+// GET - Organisation settings
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const settings = await findOrganisationSettings();
+
+    return NextResponse.json({ settings }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching organisation settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch organisation settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update organisation settings (Admin only)
+export async function PUT(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const {
+      costCurrency,
+      reportingCurrency,
+      legalName,
+      address,
+      defaultSacCode,
+      defaultGstRate,
+      payPeriodFrequency,
+      payPeriodAnchorDate,
+      timerLimitHours,
+    } = body;
+
+    for (const currency of [costCurrency, reportingCurrency]) {
+      if (currency !== undefined && !isSupportedCurrency(currency)) {
+        return NextResponse.json({ error: 'Unsupported currency' }, { status: 400 });
+      }
+    }
+
+    const existing = await findOrganisationSettings();
+
+    const gstin = typeof body.gstin === 'string' ? body.gstin.trim().toUpperCase() || null : body.gstin;
+    if (gstin) {
+      const gstinError = validateGstin(gstin);
+      if (gstinError) {
+        return NextResponse.json({ error: gstinError }, { status: 400 });
+      }
+    }
+
+    // A registered organisation's state is the one in its GSTIN
+    const effectiveGstin = gstin === undefined ? existing.gstin : gstin;
+    const stateCode = effectiveGstin ? stateCodeFromGstin(effectiveGstin) : body.stateCode;
+    if (stateCode && !isValidStateCode(stateCode)) {
+      return NextResponse.json({ error: 'Invalid GST state code' }, { status: 400 });
+    }
+
+    if (defaultSacCode !== undefined && !isValidHsnSac(defaultSacCode)) {
+      return NextResponse.json({ error: 'HSN/SAC code must be 4, 6 or 8 digits' }, { status: 400 });
+    }
+
+    if (defaultGstRate !== undefined && !isValidTaxRate(defaultGstRate)) {
+      return NextResponse.json({ error: 'GST rate must be between 0 and 100%' }, { status: 400 });
+    }
+
+    if (payPeriodFrequency !== undefined && !isPayPeriodFrequency(payPeriodFrequency)) {
+      return NextResponse.json({ error: 'Pay periods must be weekly, every two weeks or monthly' }, { status: 400 });
+    }
+
+    if (payPeriodAnchorDate !== undefined && !isDateKey(payPeriodAnchorDate)) {
+      return NextResponse.json({ error: 'Pay period start date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    if (timerLimitHours !== undefined && !isValidTimerLimit(timerLimitHours)) {
+      return NextResponse.json({ error: 'Timer limit must be a whole number of hours from 1 to 24' }, { status: 400 });
+    }
+
+    const values = {
+      costCurrency: costCurrency ?? existing.costCurrency,
+      reportingCurrency: reportingCurrency ?? existing.reportingCurrency,
+      legalName: legalName === undefined ? existing.legalName : legalName?.trim() || null,
+      address: address === undefined ? existing.address : address?.trim() || null,
+      gstin: gstin === undefined ? existing.gstin : gstin,
+      stateCode: stateCode === undefined ? existing.stateCode : stateCode || null,
+      defaultSacCode: defaultSacCode ?? existing.defaultSacCode,
+      defaultGstRate: defaultGstRate !== undefined ? parseFloat(defaultGstRate).toString() : existing.defaultGstRate,
+      payPeriodFrequency: payPeriodFrequency ?? existing.payPeriodFrequency,
+      payPeriodAnchorDate: payPeriodAnchorDate ?? existing.payPeriodAnchorDate,
+      timerLimitHours: timerLimitHours !== undefined ? Number(timerLimitHours) : existing.timerLimitHours,
+      updatedBy: session.user.id!,
+      updatedAt: new Date(),
+    };
+
+    const [settings] = existing.id
+      ? await db
+          .update(OrganisationSettings)
+          .set(values)
+          .where(eq(OrganisationSettings.id, existing.id))
+          .returning()
+      : await db.insert(OrganisationSettings).values(values).returning();
+
+    return NextResponse.json({ settings }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating organisation settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update organisation settings' },
+      { status: 500 }
+    );
+  }
+}
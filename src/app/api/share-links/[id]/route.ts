@@ -0,0 +1,95 @@
+// ====================================
+// app/api/share-links/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, isNull } from 'drizzle-orm';
+import { ShareLinks } from '@/drizzle/schema';
+import { findShareLinkById } from '@/data/share-link';
+import { findAuditTrailsByDetail } from '@/data/audit-trail';
+import { PORTAL_VIEW_EVENT } from '@/lib/portal';
+
+// GET - The latest recorded views of a share link (Admin only)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const link = await findShareLinkById(params.id);
+    if (!link) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    const trails = await findAuditTrailsByDetail(PORTAL_VIEW_EVENT, 'shareLinkId', params.id);
+    const views = trails.map((trail) => {
+      const details = trail.details as Record<string, any>;
+      return {
+        id: trail.id,
+        viewedAt: trail.createdAt,
+        page: details.page ?? null,
+        invoiceNumber: details.invoiceNumber ?? null,
+        ip: details.ip ?? null,
+        userAgent: details.userAgent ?? null,
+      };
+    });
+
+    return NextResponse.json({ views }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching share link views:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch share link views' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Revoke a share link; the portal stops working at once (Admin only)
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const link = await findShareLinkById(params.id);
+    if (!link) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    const [revoked] = await db
+      .update(ShareLinks)
+      .set({ revokedAt: new Date(), revokedBy: session.user.id! })
+      .where(and(eq(ShareLinks.id, params.id), isNull(ShareLinks.revokedAt)))
+      .returning();
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'This link is already revoked' }, { status: 409 });
+    }
+
+    return NextResponse.json({ message: 'Share link revoked' }, { status: 200 });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
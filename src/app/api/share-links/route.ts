@@ -0,0 +1,121 @@
+// ====================================
+// app/api/share-links/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { Projects, ShareLinks } from '@/drizzle/schema';
+import { findShareLinks } from '@/data/share-link';
+import { findClientById } from '@/data/client';
+import { shareLinkExpiry, shareLinkStatus, MAX_SHARE_LINK_DAYS } from '@/lib/portal';
+import { shareLinkUrl } from '@/utils/portalToken';
+
+// GET - Share links with their status and URL, optionally for one project
+// (?projectId=) or client (?clientId=) (Admin only)
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const links = await findShareLinks({
+      projectId: searchParams.get('projectId') || undefined,
+      clientId: searchParams.get('clientId') || undefined,
+    });
+
+    return NextResponse.json(
+      {
+        shareLinks: links.map((link) => {
+          const status = shareLinkStatus(link);
+          return { ...link, status, url: status === 'active' ? shareLinkUrl(link.id) : null };
+        }),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch share links' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a portal link for a project or for all of a client's projects
+// (Admin only)
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { projectId, clientId, expiresInDays } = body;
+    const label = typeof body.label === 'string' ? body.label.trim() || null : null;
+
+    if (!projectId === !clientId) {
+      return NextResponse.json(
+        { error: 'Share either a project or a client' },
+        { status: 400 }
+      );
+    }
+
+    if (projectId) {
+      const [project] = await db
+        .select({ id: Projects.id })
+        .from(Projects)
+        .where(and(eq(Projects.id, projectId), eq(Projects.isActive, true)))
+        .limit(1);
+      if (!project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 400 });
+      }
+    }
+
+    if (clientId && !(await findClientById(clientId))) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 400 });
+    }
+
+    const expiresAt = shareLinkExpiry(expiresInDays);
+    if (!expiresAt) {
+      return NextResponse.json(
+        { error: `Links can be valid for 1 to ${MAX_SHARE_LINK_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const [link] = await db
+      .insert(ShareLinks)
+      .values({
+        projectId: projectId || null,
+        clientId: clientId || null,
+        label,
+        expiresAt,
+        createdBy: session.user.id!,
+      })
+      .returning();
+
+    return NextResponse.json(
+      { shareLink: { ...link, status: 'active', url: shareLinkUrl(link.id) } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+// ====================================
+// app/api/signoffs/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, inArray } from 'drizzle-orm';
+import { SignoffLines, SignoffRequests, Tasks } from '@/drizzle/schema';
+import { findSignoffLines, findSignoffRequestById } from '@/data/signoff';
+import { signoffUrl } from '@/utils/portalToken';
+
+// GET - A sign-off request with its lines and the client's answers (Admin only)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const request = await findSignoffRequestById(params.id);
+    if (!request) {
+      return NextResponse.json({ error: 'Sign-off request not found' }, { status: 404 });
+    }
+
+    const lines = await findSignoffLines(params.id);
+
+    return NextResponse.json(
+      {
+        signoff: {
+          ...request,
+          url: request.status === 'sent' ? signoffUrl(request.id) : null,
+          lines,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching sign-off request:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sign-off request' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Withdraw an unanswered sign-off request (Admin only). Its tasks can
+// then be sent again.
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existingRequest = await findSignoffRequestById(params.id);
+    if (!existingRequest) {
+      return NextResponse.json({ error: 'Sign-off request not found' }, { status: 404 });
+    }
+
+    const cancelled = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(SignoffRequests)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(eq(SignoffRequests.id, params.id), eq(SignoffRequests.status, 'sent')))
+        .returning();
+
+      if (!updated) return null;
+
+      const lines = await tx
+        .select({ taskId: SignoffLines.taskId })
+        .from(SignoffLines)
+        .where(eq(SignoffLines.requestId, params.id));
+
+      if (lines.length > 0) {
+        await tx
+          .update(Tasks)
+          .set({ clientSignoffStatus: null, updatedAt: new Date() })
+          .where(
+            and(
+              inArray(Tasks.id, lines.map((line) => line.taskId)),
+              eq(Tasks.clientSignoffStatus, 'pending')
+            )
+          );
+      }
+
+      return updated;
+    });
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Only requests the client has not answered can be withdrawn' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ signoff: cancelled }, { status: 200 });
+  } catch (error) {
+    console.error('Error cancelling sign-off request:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel sign-off request' },
+      { status: 500 }
+    );
+  }
+}
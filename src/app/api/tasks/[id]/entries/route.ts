@@ -0,0 +1,158 @@
+// ====================================
+// app/api/tasks/[id]/entries/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { Tasks, TimeEntries } from '@/drizzle/schema';
+import { changeTimeEntries, findTimeEntriesForTasks } from '@/data/time-entry';
+import { checkProjectBudget } from '@/lib/budget-alerts';
+import { paidWork } from '@/lib/payroll';
+import { checkPayrollLock, rejectLockedWorkDate } from '@/lib/payroll-lock';
+import { checkPeriodLock, recordPeriodAdjustment, taskSnapshot } from '@/lib/period-lock';
+import { rejectSubmittedWeek } from '@/lib/timesheet-lock';
+import { APPROVED_TASK_ERROR, formatEntryTime, parseTimeEntryInput, rollUpEntries } from '@/lib/time-entries';
+
+async function findTask(id: string) {
+  const [task] = await db.select().from(Tasks).where(eq(Tasks.id, id)).limit(1);
+  return task || null;
+}
+
+// GET - A task's time entries (the task's employee or an admin)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const task = await findTask(params.id);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (task.employeeId !== session.user.id && session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const entries = (await findTimeEntriesForTasks([task.id])).map((entry) => ({
+      ...entry,
+      startTime: formatEntryTime(entry.startTime),
+      endTime: formatEntryTime(entry.endTime),
+    }));
+
+    return NextResponse.json({ entries }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching time entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch time entries' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Log more time on a task (the task's employee or an admin). The new
+// entry waits for approval, so an approved task would go back to pending:
+// employees log further time on a new task instead.
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const task = await findTask(params.id);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const isAdmin = session.user.role === 'platform_admin';
+    if (task.employeeId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (task.invoiceId) {
+      return NextResponse.json(
+        { error: 'This task has been invoiced. Void the invoice before logging more time on it.' },
+        { status: 409 }
+      );
+    }
+
+    if (task.status === 'approved' && !isAdmin) {
+      return NextResponse.json({ error: APPROVED_TASK_ERROR }, { status: 409 });
+    }
+
+    const body = await req.json();
+    const parsed = parseTimeEntryInput(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { entry } = parsed;
+
+    const lockedResponse = await rejectLockedWorkDate(entry.entryDate);
+    if (lockedResponse) {
+      return lockedResponse;
+    }
+
+    if (!isAdmin) {
+      const submittedResponse = await rejectSubmittedWeek(task.employeeId, [entry.entryDate]);
+      if (submittedResponse) {
+        return submittedResponse;
+      }
+    }
+
+    const periodLock = await checkPeriodLock([entry.entryDate], isAdmin, body.adjustmentReason);
+    if ('response' in periodLock) {
+      return periodLock.response;
+    }
+
+    const entries = await findTimeEntriesForTasks([task.id]);
+    const entriesAfter = [...entries, { ...entry, status: 'pending' as const }];
+    const rollup = rollUpEntries(entriesAfter);
+
+    const payrollLock = await checkPayrollLock(
+      paidWork(task, entries),
+      paidWork({ ...task, status: rollup.status }, entriesAfter),
+      isAdmin,
+      body.adjustmentReason
+    );
+    if ('response' in payrollLock) {
+      return payrollLock.response;
+    }
+
+    const updatedTask = await changeTimeEntries(
+      task,
+      session.user.id!,
+      payrollLock,
+      (tx) => tx.insert(TimeEntries).values({ ...entry, taskId: task.id }),
+      (tx, updated) =>
+        recordPeriodAdjustment(tx, periodLock, session.user.id!, {
+          action: 'create_entry',
+          taskId: task.id,
+          taskName: task.taskName,
+          before: taskSnapshot(task),
+          after: taskSnapshot(updated),
+        })
+    );
+
+    if (updatedTask.status !== task.status) {
+      await checkProjectBudget(task.projectId);
+    }
+
+    return NextResponse.json({ task: updatedTask }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating time entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to create time entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,7 +8,18 @@ import { db } from '@/lib/db';
 import { auth } from '@/lib/auth';
 import { NextResponse } from 'next/server';
 import { and, eq } from 'drizzle-orm';
-import { Tasks, Projects, UserTable } from '@/drizzle/schema';
+import { Tasks, Projects, UserTable, TimeEntries } from '@/drizzle/schema';
+import { checkProjectBudget } from '@/lib/budget-alerts';
+import { findLineItemWithProject } from '@/data/estimate';
+import { findTimeEntriesForTasks, recordPayrollAdjustments, syncTaskWithEntries } from '@/data/time-entry';
+import { calculatePert, parseThreePointEstimate } from '@/lib/pert';
+import { calculateUtilisation, parseBillability } from '@/lib/billable';
+import { paidWork } from '@/lib/payroll';
+import { checkPayrollLock, rejectLockedWorkDate } from '@/lib/payroll-lock';
+import { checkPeriodLock, recordPeriodAdjustment, taskSnapshot } from '@/lib/period-lock';
+import { rejectSubmittedWeek } from '@/lib/timesheet-lock';
+import { rollUpEntries } from '@/lib/time-entries';
+import { parseWorkDate } from '@/lib/work-date';
 
 // GET single task
 // export async function GET(
@@ -142,6 +153,9 @@ export async function GET(
         projectName: Projects.projectName,
         description: Projects.description,
         isActive: Projects.isActive,
+        billingCurrency: Projects.billingCurrency,
+        defaultBillable: Projects.defaultBillable,
+        defaultNonBillableReason: Projects.defaultNonBillableReason,
         createdAt: Projects.createdAt,
         updatedAt: Projects.updatedAt,
       })
@@ -163,7 +177,11 @@ export async function GET(
         actualHours: Tasks.actualHours,
         status: Tasks.status,
         approvedAt: Tasks.approvedAt,
+        workDate: Tasks.workDate,
         createdAt: Tasks.createdAt,
+        isBillable: Tasks.isBillable,
+        nonBillableReason: Tasks.nonBillableReason,
+        invoiceId: Tasks.invoiceId,
         employeeId: UserTable.id,
         employeeName: UserTable.name,
         employeeEmail: UserTable.email,
@@ -199,6 +217,8 @@ export async function GET(
           totalTasks: 0,
           totalExpectedHours: 0,
           totalActualHours: 0,
+          billableHours: 0,
+          nonBillableHours: 0,
           pendingTasks: 0,
           approvedTasks: 0,
           rejectedTasks: 0,
@@ -207,6 +227,9 @@ export async function GET(
       acc[empId].totalTasks += 1;
       acc[empId].totalExpectedHours += parseFloat(task.expectedHours || '0');
       acc[empId].totalActualHours += parseFloat(task.actualHours || '0');
+      if (task.status === 'approved') {
+        acc[empId][task.isBillable ? 'billableHours' : 'nonBillableHours'] += parseFloat(task.actualHours || '0');
+      }
       
       if (task.status === 'pending') acc[empId].pendingTasks += 1;
       if (task.status === 'approved') acc[empId].approvedTasks += 1;
@@ -227,7 +250,13 @@ export async function GET(
           ? ((variance / totalExpectedHours) * 100).toFixed(2) 
           : '0',
       },
-      employees: Object.values(employeeSummary),
+      employees: Object.values(employeeSummary).map((employee: any) => ({
+        ...employee,
+        utilisationPercent: calculateUtilisation(
+          employee.billableHours,
+          employee.billableHours + employee.nonBillableHours
+        ),
+      })),
     }, { status: 200 });
 
   } catch (error) {
@@ -314,7 +343,7 @@ export async function PUT(
     }
 
     const body = await req.json();
-    const { taskName, description, expectedHours, status } = body;
+    const { taskName, description, expectedHours, status, estimateLineItemId } = body;
 
     // Validate required fields
     if (!taskName?.trim()) {
@@ -364,14 +393,146 @@ export async function PUT(
       );
     }
 
+    // Invoiced work stays approved until its invoice is voided
+    if (existingTask.invoiceId && status !== undefined && status !== 'approved') {
+      return NextResponse.json(
+        { error: 'This task has been invoiced. Void the invoice before changing its status.' },
+        { status: 409 }
+      );
+    }
+
+    const billable = parseBillability(body, existingTask);
+    if ('error' in billable) {
+      return NextResponse.json({ error: billable.error }, { status: 400 });
+    }
+
+    // Invoiced work has been billed; it cannot become non-billable after the fact
+    if (existingTask.invoiceId && !billable.billability.isBillable) {
+      return NextResponse.json(
+        { error: 'This task has been invoiced. Void the invoice before marking it non-billable.' },
+        { status: 409 }
+      );
+    }
+
+    const threePoint = parseThreePointEstimate(body);
+    if ('error' in threePoint) {
+      return NextResponse.json({ error: threePoint.error }, { status: 400 });
+    }
+
+    let workDate = existingTask.workDate;
+    if (body.workDate !== undefined) {
+      const parsedDate = parseWorkDate(body.workDate);
+      if ('error' in parsedDate) {
+        return NextResponse.json({ error: parsedDate.error }, { status: 400 });
+      }
+      workDate = parsedDate.workDate;
+    }
+    const movesWorkDate = workDate !== existingTask.workDate;
+    const entries = await findTimeEntriesForTasks([existingTask.id]);
+
+    if (movesWorkDate) {
+      // The invoice billed the work for the period its date falls in
+      if (existingTask.invoiceId) {
+        return NextResponse.json(
+          { error: 'This task has been invoiced. Void the invoice before changing its work date.' },
+          { status: 409 }
+        );
+      }
+
+      // The work date is the date of the task's time; with several entries
+      // each one is re-dated on its own
+      if (entries.length > 1) {
+        return NextResponse.json(
+          { error: 'This task has several time entries. Change the dates of its entries instead.' },
+          { status: 400 }
+        );
+      }
+
+      const lockedResponse = await rejectLockedWorkDate(workDate);
+      if (lockedResponse) {
+        return lockedResponse;
+      }
+
+      if (!isAdmin) {
+        const submittedResponse = await rejectSubmittedWeek(existingTask.employeeId, [existingTask.workDate, workDate]);
+        if (submittedResponse) {
+          return submittedResponse;
+        }
+      }
+    }
+
+    // A task with time in a closed or locked period, or moving into one, only
+    // changes through a logged admin adjustment
+    const periodLock = await checkPeriodLock(
+      [...entries.map((entry) => entry.entryDate), workDate],
+      isAdmin,
+      body.adjustmentReason
+    );
+    if ('response' in periodLock) {
+      return periodLock.response;
+    }
+
+    // Approving or rejecting a task does the same to each of its time entries.
+    // Approving, un-approving or reclassifying approved work changes what payroll
+    // paid, and so does moving it out of its pay period.
+    const entriesAfter = entries.map((entry) => ({
+      ...entry,
+      entryDate: movesWorkDate ? workDate : entry.entryDate,
+      status: isAdmin && status !== undefined ? status : entry.status,
+    }));
+    const rollup = rollUpEntries(entriesAfter);
+
+    const payrollLock = await checkPayrollLock(
+      paidWork(existingTask, entries),
+      paidWork({ status: rollup.status, isBillable: billable.billability.isBillable }, entriesAfter),
+      isAdmin,
+      body.adjustmentReason
+    );
+    if ('response' in payrollLock) {
+      return payrollLock.response;
+    }
+
+    // Tasks can only be mapped to line items of an approved estimate for the same project
+    if (estimateLineItemId) {
+      const lineItem = await findLineItemWithProject(estimateLineItemId);
+      if (!lineItem || lineItem.projectId !== existingTask.projectId || lineItem.estimateStatus !== 'approved') {
+        return NextResponse.json(
+          { error: 'Estimate line item must belong to an approved estimate for this project' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Prepare update object
     const updateData: any = {
       taskName: taskName.trim(),
       description: description?.trim() ,
       expectedHours: expectedHours?.toString(),
+      estimateLineItemId: estimateLineItemId === undefined ? undefined : estimateLineItemId || null,
+      isBillable: billable.billability.isBillable,
+      nonBillableReason: billable.billability.nonBillableReason,
+      workDate,
       updatedAt: new Date(),
     };
 
+    if (threePoint.estimate) {
+      const pert = calculatePert(threePoint.estimate);
+      updateData.expectedHours = pert.mean.toString();
+      updateData.optimisticHours = threePoint.estimate.optimisticHours.toString();
+      updateData.mostLikelyHours = threePoint.estimate.mostLikelyHours.toString();
+      updateData.pessimisticHours = threePoint.estimate.pessimisticHours.toString();
+      updateData.estimateStdDev = pert.stdDev.toString();
+    } else if (
+      expectedHours !== undefined &&
+      parseFloat(expectedHours) !== parseFloat(existingTask.expectedHours || '0')
+    ) {
+      // A hand-edited single figure no longer matches the three-point inputs
+      updateData.optimisticHours = null;
+      updateData.mostLikelyHours = null;
+      updateData.pessimisticHours = null;
+      updateData.estimateStdDev = null;
+    }
+
     // Admin can update status
     if (isAdmin && status !== undefined) {
       updateData.status = status;
@@ -392,13 +553,67 @@ export async function PUT(
         updateData.approvedAt = null;
         updateData.rejectionReason = null;
       }
+
+      // A client's acceptance covers approved work only; re-approved work is
+      // sent for sign-off again
+      if (status !== 'approved') {
+        updateData.clientSignoffStatus = null;
+      }
     }
 
-    const [task] = await db
-      .update(Tasks)
-      .set(updateData)
-      .where(eq(Tasks.id, params.id))
-      .returning();
+    const task = await db.transaction(async (tx) => {
+      await tx.update(Tasks).set(updateData).where(eq(Tasks.id, params.id));
+
+      if (isAdmin && status !== undefined) {
+        await tx
+          .update(TimeEntries)
+          .set({
+            status,
+            approvedBy: status === 'pending' ? null : session.user.id!,
+            approvedAt: status === 'pending' ? null : new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(TimeEntries.taskId, params.id));
+      }
+
+      if (movesWorkDate) {
+        await tx
+          .update(TimeEntries)
+          .set({ entryDate: workDate, updatedAt: new Date() })
+          .where(eq(TimeEntries.taskId, params.id));
+      }
+
+      const updated = await syncTaskWithEntries(tx, params.id, session.user.id!);
+
+      await recordPayrollAdjustments(
+        tx,
+        payrollLock,
+        {
+          taskId: existingTask.id,
+          taskName: updated.taskName,
+          employeeId: existingTask.employeeId,
+          projectId: existingTask.projectId,
+          previousBillable: existingTask.isBillable,
+          isBillable: updated.isBillable,
+        },
+        session.user.id!
+      );
+
+      await recordPeriodAdjustment(tx, periodLock, session.user.id!, {
+        action: 'update',
+        taskId: updated.id,
+        taskName: updated.taskName,
+        before: taskSnapshot(existingTask),
+        after: taskSnapshot(updated),
+      });
+
+      return updated;
+    });
+
+    // Approving (or un-approving) work changes how much budget is burned
+    if (updateData.status !== undefined && updateData.status !== existingTask.status) {
+      await checkProjectBudget(task.projectId);
+    }
 
     return NextResponse.json({ task }, { status: 200 });
   } catch (error) {
@@ -439,7 +654,65 @@ export async function DELETE(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    await db.delete(Tasks).where(eq(Tasks.id, params.id));
+    if (existingTask.invoiceId) {
+      return NextResponse.json(
+        { error: 'This task has been invoiced. Void the invoice before deleting it.' },
+        { status: 409 }
+      );
+    }
+
+    const isAdmin = session.user.role === 'platform_admin';
+    const adjustmentReason = new URL(req.url).searchParams.get('adjustmentReason');
+    const entries = await findTimeEntriesForTasks([existingTask.id]);
+    const entryDates = entries.map((entry) => entry.entryDate);
+
+    if (!isAdmin) {
+      const submittedResponse = await rejectSubmittedWeek(existingTask.employeeId, entryDates);
+      if (submittedResponse) {
+        return submittedResponse;
+      }
+    }
+
+    const periodLock = await checkPeriodLock(entryDates, isAdmin, adjustmentReason);
+    if ('response' in periodLock) {
+      return periodLock.response;
+    }
+
+    // Deleting approved work in an exported pay period recovers what was paid
+    const payrollLock = await checkPayrollLock(
+      paidWork(existingTask, entries),
+      paidWork(existingTask, []),
+      isAdmin,
+      adjustmentReason
+    );
+    if ('response' in payrollLock) {
+      return payrollLock.response;
+    }
+
+    await db.transaction(async (tx) => {
+      await recordPayrollAdjustments(
+        tx,
+        payrollLock,
+        {
+          taskId: null,
+          taskName: existingTask.taskName,
+          employeeId: existingTask.employeeId,
+          projectId: existingTask.projectId,
+          previousBillable: existingTask.isBillable,
+          isBillable: existingTask.isBillable,
+        },
+        session.user.id!
+      );
+
+      await tx.delete(Tasks).where(eq(Tasks.id, params.id));
+
+      await recordPeriodAdjustment(tx, periodLock, session.user.id!, {
+        action: 'delete',
+        taskId: existingTask.id,
+        taskName: existingTask.taskName,
+        before: taskSnapshot(existingTask),
+      });
+    });
 
     return NextResponse.json(
       { message: 'Task deleted successfully' },
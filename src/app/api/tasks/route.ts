@@ -2,7 +2,15 @@ import { NextResponse } from 'next/server';
 import { pgTable, uuid, varchar, text, decimal, timestamp, index } from 'drizzle-orm/pg-core'; // your ORM imports
 import { db } from '@/lib/db'; // your database connection
 import { auth } from '@/lib/auth'; // your auth function
-import { Tasks } from '@/drizzle/schema';
+import { eq } from 'drizzle-orm';
+import { Projects, Tasks, TimeEntries } from '@/drizzle/schema';
+import { findLineItemWithProject } from '@/data/estimate';
+import { calculatePert, parseThreePointEstimate } from '@/lib/pert';
+import { parseBillability } from '@/lib/billable';
+import { rejectLockedWorkDate } from '@/lib/payroll-lock';
+import { checkPeriodLock, recordPeriodAdjustment } from '@/lib/period-lock';
+import { rejectSubmittedWeek } from '@/lib/timesheet-lock';
+import { parseTimeEntryInput } from '@/lib/time-entries';
 
 export async function POST(req: Request) {
   try {
@@ -12,25 +20,116 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json();
-    const { projectId, taskName, description, expectedHours, actualHours } = body;
+    const { projectId, taskName, description, expectedHours, actualHours, estimateLineItemId } = body;
 
     // Basic validation
     if (!projectId || !taskName ||  actualHours == null) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
+    // The hours are the task's first time entry, on its work date
+    const parsedEntry = parseTimeEntryInput({
+      entryDate: body.workDate,
+      hours: actualHours,
+      startTime: body.startTime,
+      endTime: body.endTime,
+      note: body.entryNote,
+    });
+    if ('error' in parsedEntry) {
+      return NextResponse.json({ error: parsedEntry.error }, { status: 400 });
+    }
+    const { entry } = parsedEntry;
+
+    // An exported pay period takes no new hours
+    const lockedResponse = await rejectLockedWorkDate(entry.entryDate);
+    if (lockedResponse) {
+      return lockedResponse;
+    }
+
+    // Nor does a week whose timesheet is waiting on or past approval
+    if (session.user.role !== 'platform_admin') {
+      const submittedResponse = await rejectSubmittedWeek(session.user.id!, [entry.entryDate]);
+      if (submittedResponse) {
+        return submittedResponse;
+      }
+    }
+
+    // Nor, short of a logged admin adjustment, does a closed or locked period
+    const periodLock = await checkPeriodLock(
+      [entry.entryDate],
+      session.user.role === 'platform_admin',
+      body.adjustmentReason
+    );
+    if ('response' in periodLock) {
+      return periodLock.response;
+    }
+
+    const threePoint = parseThreePointEstimate(body);
+    if ('error' in threePoint) {
+      return NextResponse.json({ error: threePoint.error }, { status: 400 });
+    }
+
+    // A three-point estimate replaces the single expected hours figure with its PERT mean
+    const pert = threePoint.estimate ? calculatePert(threePoint.estimate) : null;
+
+    // Billable unless the task or its project says otherwise
+    const [project] = await db
+      .select({ isBillable: Projects.defaultBillable, nonBillableReason: Projects.defaultNonBillableReason })
+      .from(Projects)
+      .where(eq(Projects.id, projectId))
+      .limit(1);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const billable = parseBillability(body, project);
+    if ('error' in billable) {
+      return NextResponse.json({ error: billable.error }, { status: 400 });
+    }
+
+    if (estimateLineItemId) {
+      const lineItem = await findLineItemWithProject(estimateLineItemId);
+      if (!lineItem || lineItem.projectId !== projectId || lineItem.estimateStatus !== 'approved') {
+        return NextResponse.json(
+          { error: 'Estimate line item must belong to an approved estimate for this project' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Insert new task into DB
-    const [newTask] = await db.insert(Tasks).values({
-      projectId,
-      employeeId: session.user.id!, // assigning task to logged-in user
-      taskName,
-      description: description || null,
-      expectedHours: expectedHours || null,
-      actualHours,
-      status: 'pending',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }).returning();
+    const newTask = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(Tasks).values({
+        projectId,
+        employeeId: session.user.id!, // assigning task to logged-in user
+        taskName,
+        description: description || null,
+        expectedHours: pert ? pert.mean.toString() : expectedHours || null,
+        optimisticHours: threePoint.estimate?.optimisticHours.toString() ?? null,
+        mostLikelyHours: threePoint.estimate?.mostLikelyHours.toString() ?? null,
+        pessimisticHours: threePoint.estimate?.pessimisticHours.toString() ?? null,
+        estimateStdDev: pert ? pert.stdDev.toString() : null,
+        actualHours: entry.hours,
+        estimateLineItemId: estimateLineItemId || null,
+        isBillable: billable.billability.isBillable,
+        nonBillableReason: billable.billability.nonBillableReason,
+        status: 'pending',
+        workDate: entry.entryDate,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }).returning();
+
+      await tx.insert(TimeEntries).values({ ...entry, taskId: created.id });
+
+      await recordPeriodAdjustment(tx, periodLock, session.user.id!, {
+        action: 'create',
+        taskId: created.id,
+        taskName: created.taskName,
+        after: { hours: entry.hours, workDate: entry.entryDate },
+      });
+
+      return created;
+    });
 
     return NextResponse.json({ task: newTask }, { status: 201 });
 
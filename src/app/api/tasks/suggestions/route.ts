@@ -0,0 +1,107 @@
+// ====================================
+// app/api/tasks/suggestions/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, desc, eq, ilike, or, isNotNull } from 'drizzle-orm';
+import { Tasks } from '@/drizzle/schema';
+import { scoreSimilarity, summarizeHours, tokenize } from '@/lib/task-suggestions';
+
+// Candidates are pre-filtered in SQL, then ranked here; only this many are scored
+const CANDIDATE_LIMIT = 200;
+const MATCH_LIMIT = 10;
+const MIN_SCORE = 0.2;
+
+// GET - Suggest expected hours from similar approved tasks
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const projectId = searchParams.get('projectId');
+    const taskName = searchParams.get('taskName') || '';
+    const description = searchParams.get('description') || '';
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'Project ID is required' }, { status: 400 });
+    }
+
+    const nameTokens = tokenize(taskName).slice(0, 8);
+    if (nameTokens.length === 0) {
+      return NextResponse.json({ suggestion: null, similarTasks: [] }, { status: 200 });
+    }
+
+    const employeeId = session.user.id!;
+
+    // Approved work on the same project or by the same employee that shares a word with the name
+    const candidates = await db
+      .select({
+        taskId: Tasks.id,
+        taskName: Tasks.taskName,
+        description: Tasks.description,
+        projectId: Tasks.projectId,
+        employeeId: Tasks.employeeId,
+        actualHours: Tasks.actualHours,
+      })
+      .from(Tasks)
+      .where(
+        and(
+          eq(Tasks.status, 'approved'),
+          isNotNull(Tasks.actualHours),
+          or(eq(Tasks.projectId, projectId), eq(Tasks.employeeId, employeeId)),
+          or(
+            ...nameTokens.flatMap((token) => [
+              ilike(Tasks.taskName, `%${token}%`),
+              ilike(Tasks.description, `%${token}%`),
+            ])
+          )
+        )
+      )
+      .orderBy(desc(Tasks.createdAt))
+      .limit(CANDIDATE_LIMIT);
+
+    const context = {
+      nameTokens,
+      descriptionTokens: tokenize(description).slice(0, 20),
+      projectId,
+      employeeId,
+    };
+
+    const matches = candidates
+      .map((task) => ({ ...task, score: scoreSimilarity(context, task) }))
+      .filter((task) => task.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MATCH_LIMIT);
+
+    const summary = summarizeHours(matches.map((task) => parseFloat(task.actualHours || '0')));
+
+    return NextResponse.json({
+      suggestion: summary && {
+        sampleSize: summary.sampleSize,
+        suggestedHours: summary.median.toFixed(2),
+        p10: summary.p10.toFixed(2),
+        p90: summary.p90.toFixed(2),
+        min: summary.min.toFixed(2),
+        max: summary.max.toFixed(2),
+      },
+      similarTasks: matches.slice(0, 5).map((task) => ({
+        taskId: task.taskId,
+        taskName: task.taskName,
+        actualHours: task.actualHours,
+        sameProject: task.projectId === projectId,
+        score: task.score.toFixed(2),
+      })),
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Error suggesting task estimate:', error);
+    return NextResponse.json(
+      { error: 'Failed to suggest estimate' },
+      { status: 500 }
+    );
+  }
+}
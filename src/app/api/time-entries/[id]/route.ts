@@ -0,0 +1,248 @@
+// ====================================
+// app/api/time-entries/[id]/route.ts
+// ====================================
+
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { TimeEntries } from '@/drizzle/schema';
+import { changeTimeEntries, findTimeEntriesForTasks, findTimeEntryById } from '@/data/time-entry';
+import { checkProjectBudget } from '@/lib/budget-alerts';
+import { paidWork } from '@/lib/payroll';
+import { checkPayrollLock, rejectLockedWorkDate } from '@/lib/payroll-lock';
+import { checkPeriodLock, recordPeriodAdjustment, taskSnapshot } from '@/lib/period-lock';
+import { rejectSubmittedWeek } from '@/lib/timesheet-lock';
+import { EntryStatus, formatEntryTime, parseTimeEntryInput, rollUpEntries } from '@/lib/time-entries';
+
+const ENTRY_STATUSES: EntryStatus[] = ['pending', 'approved', 'rejected'];
+
+// PUT - Edit a time entry, or approve or reject it on its own (status is
+// Admin only). Employees can edit their entries until they are approved.
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await findTimeEntryById(params.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Time entry not found' }, { status: 404 });
+    }
+    const { entry, task } = existing;
+
+    const isAdmin = session.user.role === 'platform_admin';
+    if (task.employeeId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { status } = body;
+
+    if (status !== undefined && !ENTRY_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status value' }, { status: 400 });
+    }
+
+    if (status !== undefined && !isAdmin) {
+      return NextResponse.json({ error: 'Only admins can approve or reject time entries' }, { status: 403 });
+    }
+
+    if (entry.status !== 'pending' && !isAdmin) {
+      return NextResponse.json({ error: 'Cannot edit approved/rejected time entries' }, { status: 403 });
+    }
+
+    if (task.invoiceId) {
+      return NextResponse.json(
+        { error: 'This task has been invoiced. Void the invoice before changing its time entries.' },
+        { status: 409 }
+      );
+    }
+
+    const parsed = parseTimeEntryInput(body, {
+      entryDate: entry.entryDate,
+      hours: entry.hours,
+      startTime: formatEntryTime(entry.startTime),
+      endTime: formatEntryTime(entry.endTime),
+      note: entry.note,
+    });
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const changes = parsed.entry;
+
+    if (changes.entryDate !== entry.entryDate) {
+      const lockedResponse = await rejectLockedWorkDate(changes.entryDate);
+      if (lockedResponse) {
+        return lockedResponse;
+      }
+    }
+
+    if (!isAdmin) {
+      const submittedResponse = await rejectSubmittedWeek(task.employeeId, [entry.entryDate, changes.entryDate]);
+      if (submittedResponse) {
+        return submittedResponse;
+      }
+    }
+
+    const periodLock = await checkPeriodLock([entry.entryDate, changes.entryDate], isAdmin, body.adjustmentReason);
+    if ('response' in periodLock) {
+      return periodLock.response;
+    }
+
+    const entries = await findTimeEntriesForTasks([task.id]);
+    const entriesAfter = entries.map((other) =>
+      other.id === entry.id ? { ...changes, status: status ?? entry.status } : other
+    );
+    const rollup = rollUpEntries(entriesAfter);
+
+    const payrollLock = await checkPayrollLock(
+      paidWork(task, entries),
+      paidWork({ ...task, status: rollup.status }, entriesAfter),
+      isAdmin,
+      body.adjustmentReason
+    );
+    if ('response' in payrollLock) {
+      return payrollLock.response;
+    }
+
+    const updatedTask = await changeTimeEntries(
+      task,
+      session.user.id!,
+      payrollLock,
+      (tx) =>
+        tx
+          .update(TimeEntries)
+          .set({
+            ...changes,
+            ...(status !== undefined && {
+              status,
+              approvedBy: status === 'pending' ? null : session.user.id!,
+              approvedAt: status === 'pending' ? null : new Date(),
+            }),
+            updatedAt: new Date(),
+          })
+          .where(eq(TimeEntries.id, entry.id)),
+      (tx, updated) =>
+        recordPeriodAdjustment(tx, periodLock, session.user.id!, {
+          action: 'update_entry',
+          taskId: task.id,
+          taskName: task.taskName,
+          before: taskSnapshot(task),
+          after: taskSnapshot(updated),
+        })
+    );
+
+    // Approved hours are what budgets burn
+    if (updatedTask.status !== task.status || (task.status === 'approved' && updatedTask.actualHours !== task.actualHours)) {
+      await checkProjectBudget(task.projectId);
+    }
+
+    return NextResponse.json({ task: updatedTask }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating time entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to update time entry' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a time entry. A task keeps at least one; delete the task
+// to remove its last entry.
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await findTimeEntryById(params.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Time entry not found' }, { status: 404 });
+    }
+    const { entry, task } = existing;
+
+    const isAdmin = session.user.role === 'platform_admin';
+    if (task.employeeId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (entry.status !== 'pending' && !isAdmin) {
+      return NextResponse.json({ error: 'Cannot delete approved/rejected time entries' }, { status: 403 });
+    }
+
+    if (task.invoiceId) {
+      return NextResponse.json(
+        { error: 'This task has been invoiced. Void the invoice before changing its time entries.' },
+        { status: 409 }
+      );
+    }
+
+    if (!isAdmin) {
+      const submittedResponse = await rejectSubmittedWeek(task.employeeId, [entry.entryDate]);
+      if (submittedResponse) {
+        return submittedResponse;
+      }
+    }
+
+    const adjustmentReason = new URL(req.url).searchParams.get('adjustmentReason');
+    const periodLock = await checkPeriodLock([entry.entryDate], isAdmin, adjustmentReason);
+    if ('response' in periodLock) {
+      return periodLock.response;
+    }
+
+    const entries = await findTimeEntriesForTasks([task.id]);
+    const remaining = entries.filter((other) => other.id !== entry.id);
+    if (remaining.length === 0) {
+      return NextResponse.json(
+        { error: 'This is the task\'s only time entry. Delete the task instead.' },
+        { status: 400 }
+      );
+    }
+
+    const rollup = rollUpEntries(remaining);
+
+    const payrollLock = await checkPayrollLock(
+      paidWork(task, entries),
+      paidWork({ ...task, status: rollup.status }, remaining),
+      isAdmin,
+      adjustmentReason
+    );
+    if ('response' in payrollLock) {
+      return payrollLock.response;
+    }
+
+    const updatedTask = await changeTimeEntries(
+      task,
+      session.user.id!,
+      payrollLock,
+      (tx) => tx.delete(TimeEntries).where(eq(TimeEntries.id, entry.id)),
+      (tx, updated) =>
+        recordPeriodAdjustment(tx, periodLock, session.user.id!, {
+          action: 'delete_entry',
+          taskId: task.id,
+          taskName: task.taskName,
+          before: taskSnapshot(task),
+          after: taskSnapshot(updated),
+        })
+    );
+
+    if (updatedTask.status !== task.status || (task.status === 'approved' && updatedTask.actualHours !== task.actualHours)) {
+      await checkProjectBudget(task.projectId);
+    }
+
+    return NextResponse.json({ task: updatedTask }, { status: 200 });
+  } catch (error) {
+    console.error('Error deleting time entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete time entry' },
+      { status: 500 }
+    );
+  }
+}
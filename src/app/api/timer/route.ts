@@ -0,0 +1,159 @@
+// ====================================
+// app/api/timer/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { RunningTimers, Tasks } from '@/drizzle/schema';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { findTimesheetTasks } from '@/data/timesheet';
+import { findRunningTimer } from '@/data/timer';
+import { orgDateKey } from '@/lib/costing';
+import { rejectLockedWorkDate } from '@/lib/payroll-lock';
+import { checkPeriodLock } from '@/lib/period-lock';
+import { stopExpiredTimers } from '@/lib/timer-stop';
+import { APPROVED_TASK_ERROR } from '@/lib/time-entries';
+import { rejectSubmittedWeek } from '@/lib/timesheet-lock';
+
+// GET - The current user's running timer, the tasks a timer can be started
+// on and the limit after which a timer stops by itself. The user's timer is
+// stopped first if it ran past the limit and listed in `autoStopped`; other
+// users' timers are left to the scheduled stop (api/cron/timers).
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const stopped = await stopExpiredTimers(session.user.id!);
+
+    const [timer, tasks, settings] = await Promise.all([
+      findRunningTimer(session.user.id!),
+      findTimesheetTasks(session.user.id!),
+      findOrganisationSettings(),
+    ]);
+
+    return NextResponse.json(
+      {
+        timer,
+        tasks,
+        limitHours: settings.timerLimitHours,
+        autoStopped: stopped,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching timer:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timer' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Start a timer on one of the current user's tasks. Only one timer
+// runs at a time.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { taskId } = body;
+    const note = (typeof body.note === 'string' && body.note.trim()) || null;
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'Task is required' }, { status: 400 });
+    }
+
+    if (note && note.length > 1000) {
+      return NextResponse.json({ error: 'Note must be less than 1000 characters' }, { status: 400 });
+    }
+
+    const [task] = await db.select().from(Tasks).where(eq(Tasks.id, taskId)).limit(1);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (task.employeeId !== session.user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (task.invoiceId) {
+      return NextResponse.json(
+        { error: 'This task has been invoiced. Void the invoice before logging more time on it.' },
+        { status: 409 }
+      );
+    }
+
+    if (task.status === 'approved') {
+      return NextResponse.json({ error: APPROVED_TASK_ERROR }, { status: 409 });
+    }
+
+    // The time will be dated today, so today must still take new hours
+    const today = orgDateKey();
+    const blockedResponse =
+      (await rejectLockedWorkDate(today)) ?? (await rejectSubmittedWeek(session.user.id!, [today]));
+    if (blockedResponse) {
+      return blockedResponse;
+    }
+
+    const periodLock = await checkPeriodLock([today], false, null);
+    if ('response' in periodLock) {
+      return periodLock.response;
+    }
+
+    // A timer left past the limit does not keep a new one from starting
+    await stopExpiredTimers(session.user.id!);
+
+    await db.insert(RunningTimers).values({ employeeId: session.user.id!, taskId: task.id, note });
+
+    const timer = await findRunningTimer(session.user.id!);
+
+    return NextResponse.json({ timer }, { status: 201 });
+  } catch (error) {
+    if ((error as { code?: string })?.code === '23505') {
+      return NextResponse.json(
+        { error: 'A timer is already running. Stop it before starting another.' },
+        { status: 409 }
+      );
+    }
+    console.error('Error starting timer:', error);
+    return NextResponse.json(
+      { error: 'Failed to start timer' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Discard the current user's running timer without logging its time
+export async function DELETE() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [discarded] = await db
+      .delete(RunningTimers)
+      .where(eq(RunningTimers.employeeId, session.user.id!))
+      .returning();
+
+    if (!discarded) {
+      return NextResponse.json({ error: 'No timer is running' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Timer discarded' }, { status: 200 });
+  } catch (error) {
+    console.error('Error discarding timer:', error);
+    return NextResponse.json(
+      { error: 'Failed to discard timer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+// ====================================
+// app/api/timer/stop/route.ts
+// ====================================
+
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { TransactionRollbackError } from 'drizzle-orm';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { findRunningTimer } from '@/data/timer';
+import { stopTimer } from '@/lib/timer-stop';
+
+// POST - Stop the current user's running timer and log its time as an entry
+// dated the day it started. A timer that ran past the limit logs the limit.
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const timer = await findRunningTimer(session.user.id!);
+    if (!timer) {
+      return NextResponse.json({ error: 'No timer is running' }, { status: 404 });
+    }
+
+    const { timerLimitHours } = await findOrganisationSettings();
+    const result = await stopTimer(timer, new Date(), timerLimitHours);
+    if ('response' in result) {
+      return result.response;
+    }
+
+    return NextResponse.json({ task: result.task, hours: result.hours }, { status: 200 });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) {
+      return NextResponse.json(
+        { error: 'This timer was stopped in the meantime. Please reload.' },
+        { status: 409 }
+      );
+    }
+    console.error('Error stopping timer:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop timer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,240 @@
+// ====================================
+// app/api/timesheets/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq, inArray, TransactionRollbackError } from 'drizzle-orm';
+import { Tasks, TimeEntries, Timesheets, UserTable } from '@/drizzle/schema';
+import { findTimesheetById, findTimesheetWeek, findWeekEntries } from '@/data/timesheet';
+import { findTimeEntriesForTasks, settleEntryChange } from '@/data/time-entry';
+import { checkProjectBudget } from '@/lib/budget-alerts';
+import { paidWork } from '@/lib/payroll';
+import { checkPayrollLock, PayrollLock } from '@/lib/payroll-lock';
+import { checkPeriodLock, recordPeriodAdjustment } from '@/lib/period-lock';
+import { rollUpEntries } from '@/lib/time-entries';
+
+// GET - A timesheet with its employee and the week's grid rows (Admin only)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const timesheet = await findTimesheetById(params.id);
+    if (!timesheet) {
+      return NextResponse.json({ error: 'Timesheet not found' }, { status: 404 });
+    }
+
+    const [[employee], week] = await Promise.all([
+      db
+        .select({ name: UserTable.name, email: UserTable.email })
+        .from(UserTable)
+        .where(eq(UserTable.id, timesheet.employeeId))
+        .limit(1),
+      findTimesheetWeek(timesheet.employeeId, timesheet.weekStart),
+    ]);
+
+    return NextResponse.json(
+      {
+        ...week,
+        employeeName: employee?.name ?? null,
+        employeeEmail: employee?.email ?? null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching timesheet:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timesheet' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Approve or reject a submitted timesheet as a whole (Admin only).
+// Approving approves every pending time entry of the week; rejecting sends the
+// week back to the employee with a reason and leaves the entries as they are.
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { status } = body;
+
+    if (status !== 'approved' && status !== 'rejected') {
+      return NextResponse.json({ error: 'Status must be approved or rejected' }, { status: 400 });
+    }
+
+    const timesheet = await findTimesheetById(params.id);
+    if (!timesheet) {
+      return NextResponse.json({ error: 'Timesheet not found' }, { status: 404 });
+    }
+
+    if (timesheet.status !== 'submitted') {
+      return NextResponse.json(
+        { error: 'Only submitted timesheets can be approved or rejected' },
+        { status: 409 }
+      );
+    }
+
+    const reviewedWhere = and(eq(Timesheets.id, timesheet.id), eq(Timesheets.status, 'submitted'));
+
+    if (status === 'rejected') {
+      const rejectionReason = typeof body.rejectionReason === 'string' ? body.rejectionReason.trim() : '';
+      if (!rejectionReason) {
+        return NextResponse.json({ error: 'A reason is required to reject a timesheet' }, { status: 400 });
+      }
+      if (rejectionReason.length > 1000) {
+        return NextResponse.json({ error: 'Reason must be less than 1000 characters' }, { status: 400 });
+      }
+
+      const [rejected] = await db
+        .update(Timesheets)
+        .set({
+          status: 'rejected',
+          rejectionReason,
+          reviewedBy: session.user.id!,
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(reviewedWhere)
+        .returning();
+
+      if (!rejected) {
+        return NextResponse.json(
+          { error: 'This timesheet was reviewed in the meantime. Please reload it.' },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({ timesheet: rejected }, { status: 200 });
+    }
+
+    // Approving pending work in an exported pay period pays it through an
+    // adjustment, as approving the task would
+    const pendingEntries = (await findWeekEntries(timesheet.employeeId, timesheet.weekStart))
+      .filter((entry) => entry.status === 'pending');
+    const pendingIds = pendingEntries.map((entry) => entry.id);
+    const taskIds = Array.from(new Set(pendingEntries.map((entry) => entry.taskId)));
+
+    // So does approving time in a locked period
+    const periodLock = await checkPeriodLock(
+      pendingEntries.map((entry) => entry.entryDate),
+      true,
+      body.adjustmentReason
+    );
+    if ('response' in periodLock) {
+      return periodLock.response;
+    }
+
+    const entries = await findTimeEntriesForTasks(taskIds);
+    const tasks = taskIds.length > 0
+      ? await db.select().from(Tasks).where(inArray(Tasks.id, taskIds))
+      : [];
+
+    const settlements: { task: typeof Tasks.$inferSelect; payroll: PayrollLock }[] = [];
+    for (const task of tasks) {
+      const taskEntries = entries.filter((entry) => entry.taskId === task.id);
+      const entriesAfter = taskEntries.map((entry) =>
+        pendingIds.includes(entry.id) ? { ...entry, status: 'approved' as const } : entry
+      );
+      const rollup = rollUpEntries(entriesAfter);
+
+      const payrollLock = await checkPayrollLock(
+        paidWork(task, taskEntries),
+        paidWork({ ...task, status: rollup.status }, entriesAfter),
+        true,
+        body.adjustmentReason
+      );
+      if ('response' in payrollLock) {
+        return payrollLock.response;
+      }
+
+      settlements.push({ task, payroll: payrollLock });
+    }
+
+    const { approved, updatedTasks } = await db.transaction(async (tx) => {
+      const [reviewed] = await tx
+        .update(Timesheets)
+        .set({
+          status: 'approved',
+          rejectionReason: null,
+          reviewedBy: session.user.id!,
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(reviewedWhere)
+        .returning();
+
+      if (!reviewed) {
+        tx.rollback();
+      }
+
+      if (pendingIds.length > 0) {
+        await tx
+          .update(TimeEntries)
+          .set({ status: 'approved', approvedBy: session.user.id!, approvedAt: new Date(), updatedAt: new Date() })
+          .where(and(inArray(TimeEntries.id, pendingIds), eq(TimeEntries.status, 'pending')));
+      }
+
+      const updated: (typeof Tasks.$inferSelect)[] = [];
+      for (const settlement of settlements) {
+        updated.push(await settleEntryChange(tx, settlement.task, session.user.id!, settlement.payroll));
+      }
+
+      await recordPeriodAdjustment(tx, periodLock, session.user.id!, {
+        action: 'approve_timesheet',
+        timesheetId: timesheet.id,
+        employeeId: timesheet.employeeId,
+        weekStart: timesheet.weekStart,
+        hours: pendingEntries.reduce((sum, entry) => sum + parseFloat(entry.hours), 0).toFixed(2),
+      });
+
+      return { approved: reviewed, updatedTasks: updated };
+    });
+
+    // Approved hours are what budgets burn
+    const changedProjects = new Set(
+      updatedTasks
+        .filter((task) => tasks.find((before) => before.id === task.id)?.status !== task.status)
+        .map((task) => task.projectId)
+    );
+    for (const projectId of Array.from(changedProjects)) {
+      await checkProjectBudget(projectId);
+    }
+
+    return NextResponse.json({ timesheet: approved }, { status: 200 });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) {
+      return NextResponse.json(
+        { error: 'This timesheet was reviewed in the meantime. Please reload it.' },
+        { status: 409 }
+      );
+    }
+    console.error('Error reviewing timesheet:', error);
+    return NextResponse.json(
+      { error: 'Failed to review timesheet' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,283 @@
+// ====================================
+// app/api/timesheets/mine/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { eq, inArray, TransactionRollbackError } from 'drizzle-orm';
+import { Tasks, TimeEntries, Timesheets } from '@/drizzle/schema';
+import { findTimesheet, findTimesheetTasks, findTimesheetWeek, findWeekEntries } from '@/data/timesheet';
+import { findTimeEntriesForTasks, syncTaskWithEntries } from '@/data/time-entry';
+import { checkProjectBudget } from '@/lib/budget-alerts';
+import { orgDateKey } from '@/lib/costing';
+import { paidWork } from '@/lib/payroll';
+import { checkPayrollLock, rejectLockedWorkDate } from '@/lib/payroll-lock';
+import { checkPeriodLock } from '@/lib/period-lock';
+import { weekStartKey } from '@/lib/rate-rules';
+import { rollUpEntries } from '@/lib/time-entries';
+import { isTimesheetEditable, parseTimesheetCells, parseWeekStart, TimesheetCell } from '@/lib/timesheets';
+
+// Hours counted on a task's day: its entries that were not rejected
+const dayHours = (entries: { taskId: string; entryDate: string; hours: string; status: string }[], taskId: string, day: string) =>
+  entries
+    .filter((entry) => entry.taskId === taskId && entry.entryDate === day && entry.status !== 'rejected')
+    .reduce((sum, entry) => sum + parseFloat(entry.hours), 0)
+    .toFixed(2);
+
+// GET - The current user's timesheet for a week (this week by default), as
+// grid rows, with the tasks that can be added to it
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const week = parseWeekStart(
+      new URL(req.url).searchParams.get('weekStart') ?? weekStartKey(orgDateKey())
+    );
+    if ('error' in week) {
+      return NextResponse.json({ error: week.error }, { status: 400 });
+    }
+
+    const [timesheetWeek, tasks] = await Promise.all([
+      findTimesheetWeek(session.user.id!, week.weekStart),
+      findTimesheetTasks(session.user.id!),
+    ]);
+
+    return NextResponse.json({ ...timesheetWeek, tasks }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching timesheet:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timesheet' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Save the current user's grid for a week, and with `submit` send the
+// week for approval. A changed day replaces the day's pending time with one
+// entry of the new hours; days with approved hours cannot be changed.
+export async function PUT(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const submit = body.submit === true;
+
+    const week = parseWeekStart(body.weekStart);
+    if ('error' in week) {
+      return NextResponse.json({ error: week.error }, { status: 400 });
+    }
+    const { weekStart } = week;
+
+    const parsed = parseTimesheetCells(body, weekStart);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { cells } = parsed;
+
+    const timesheet = await findTimesheet(session.user.id!, weekStart);
+    if (timesheet && !isTimesheetEditable(timesheet.status)) {
+      return NextResponse.json(
+        { error: `This timesheet has been ${timesheet.status} and can no longer be changed` },
+        { status: 409 }
+      );
+    }
+
+    const taskIds = Array.from(new Set(cells.map((cell) => cell.taskId)));
+    const tasks = taskIds.length > 0
+      ? await db.select().from(Tasks).where(inArray(Tasks.id, taskIds))
+      : [];
+
+    if (tasks.length !== taskIds.length) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (tasks.some((task) => task.employeeId !== session.user.id)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const entries = await findTimeEntriesForTasks(taskIds);
+    const changes: { task: typeof Tasks.$inferSelect; cells: TimesheetCell[] }[] = [];
+
+    for (const task of tasks) {
+      const changed = cells.filter(
+        (cell) => cell.taskId === task.id && dayHours(entries, task.id, cell.entryDate) !== cell.hours
+      );
+      if (changed.length === 0) continue;
+
+      if (task.invoiceId) {
+        return NextResponse.json(
+          { error: `"${task.taskName}" has been invoiced. Void the invoice before changing its hours.` },
+          { status: 409 }
+        );
+      }
+
+      // New pending time would take the task's approved hours back to pending
+      if (task.status === 'approved') {
+        return NextResponse.json(
+          { error: `"${task.taskName}" has been approved. Log further time on a new task.` },
+          { status: 409 }
+        );
+      }
+
+      for (const cell of changed) {
+        const approved = entries.some(
+          (entry) => entry.taskId === task.id && entry.entryDate === cell.entryDate && entry.status === 'approved'
+        );
+        if (approved) {
+          return NextResponse.json(
+            { error: `The hours of "${task.taskName}" on ${cell.entryDate} have been approved and cannot be changed` },
+            { status: 400 }
+          );
+        }
+
+        const lockedResponse = await rejectLockedWorkDate(cell.entryDate);
+        if (lockedResponse) {
+          return lockedResponse;
+        }
+      }
+
+      const changedDays = changed.map((cell) => cell.entryDate);
+      const periodLock = await checkPeriodLock(changedDays, false, null);
+      if ('response' in periodLock) {
+        return periodLock.response;
+      }
+
+      const taskEntries = entries.filter((entry) => entry.taskId === task.id);
+      const after = [
+        ...taskEntries.filter(
+          (entry) =>
+            !(changedDays.includes(entry.entryDate) && entry.status === 'pending')
+        ),
+        ...changed
+          .filter((cell) => parseFloat(cell.hours) > 0)
+          .map((cell) => ({ entryDate: cell.entryDate, hours: cell.hours, status: 'pending' as const })),
+      ];
+
+      // Like the last time entry, a task's last hours go with the task
+      if (after.length === 0) {
+        return NextResponse.json(
+          { error: `This would leave "${task.taskName}" without any time. Delete the task instead.` },
+          { status: 400 }
+        );
+      }
+
+      // New pending time takes an approved task out of what payroll pays
+      const rollup = rollUpEntries(after);
+      const payrollLock = await checkPayrollLock(
+        paidWork(task, taskEntries),
+        paidWork({ ...task, status: rollup.status }, after),
+        false,
+        null
+      );
+      if ('response' in payrollLock) {
+        return payrollLock.response;
+      }
+
+      changes.push({ task, cells: changed });
+    }
+
+    if (submit) {
+      const otherHours = (await findWeekEntries(session.user.id!, weekStart))
+        .filter((entry) => !taskIds.includes(entry.taskId) && entry.status !== 'rejected')
+        .reduce((sum, entry) => sum + parseFloat(entry.hours), 0);
+      const gridHours = cells.reduce((sum, cell) => sum + parseFloat(cell.hours), 0);
+
+      if (otherHours + gridHours === 0) {
+        return NextResponse.json({ error: 'Add some hours before submitting the timesheet' }, { status: 400 });
+      }
+    }
+
+    const updatedTasks = await db.transaction(async (tx) => {
+      const updated: (typeof Tasks.$inferSelect)[] = [];
+
+      for (const change of changes) {
+        for (const cell of change.cells) {
+          const pending = entries.filter(
+            (entry) =>
+              entry.taskId === change.task.id && entry.entryDate === cell.entryDate && entry.status === 'pending'
+          );
+
+          // A single sitting keeps its note; the times no longer match the hours
+          if (pending.length === 1 && parseFloat(cell.hours) > 0) {
+            await tx
+              .update(TimeEntries)
+              .set({ hours: cell.hours, startTime: null, endTime: null, updatedAt: new Date() })
+              .where(eq(TimeEntries.id, pending[0].id));
+            continue;
+          }
+
+          if (pending.length > 0) {
+            await tx.delete(TimeEntries).where(inArray(TimeEntries.id, pending.map((entry) => entry.id)));
+          }
+          if (parseFloat(cell.hours) > 0) {
+            await tx.insert(TimeEntries).values({ taskId: change.task.id, entryDate: cell.entryDate, hours: cell.hours });
+          }
+        }
+
+        updated.push(await syncTaskWithEntries(tx, change.task.id, session.user.id!));
+      }
+
+      // Saving a week sent back makes it a draft again; the reason it was sent
+      // back stays until it is submitted again
+      const values = {
+        status: submit ? ('submitted' as const) : ('draft' as const),
+        submittedAt: submit ? new Date() : null,
+        ...(submit && { rejectionReason: null }),
+        updatedAt: new Date(),
+      };
+
+      // Unless it was submitted from elsewhere in the meantime
+      const [saved] = await tx
+        .insert(Timesheets)
+        .values({ employeeId: session.user.id!, weekStart, ...values })
+        .onConflictDoUpdate({
+          target: [Timesheets.employeeId, Timesheets.weekStart],
+          set: values,
+          where: inArray(Timesheets.status, ['draft', 'rejected']),
+        })
+        .returning();
+
+      if (!saved) {
+        tx.rollback();
+      }
+
+      return updated;
+    });
+
+    // Approved hours are what budgets burn
+    const changedProjects = new Set(
+      updatedTasks
+        .filter((task) => changes.find((change) => change.task.id === task.id)?.task.status !== task.status)
+        .map((task) => task.projectId)
+    );
+    for (const projectId of Array.from(changedProjects)) {
+      await checkProjectBudget(projectId);
+    }
+
+    const [timesheetWeek, availableTasks] = await Promise.all([
+      findTimesheetWeek(session.user.id!, weekStart),
+      findTimesheetTasks(session.user.id!),
+    ]);
+
+    return NextResponse.json({ ...timesheetWeek, tasks: availableTasks }, { status: 200 });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) {
+      return NextResponse.json(
+        { error: 'This timesheet was submitted in the meantime. Please reload it.' },
+        { status: 409 }
+      );
+    }
+    console.error('Error saving timesheet:', error);
+    return NextResponse.json(
+      { error: 'Failed to save timesheet' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+// ====================================
+// app/api/timesheets/periods/[id]/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { TimesheetPeriods } from '@/drizzle/schema';
+import { findAuditTrailsByDetail, recordAuditEvent } from '@/data/audit-trail';
+import { findTimesheetPeriodById } from '@/data/timesheet-period';
+import { isPeriodStatus, isReopening, PERIOD_ADJUSTMENT_EVENT, PERIOD_STATUS_EVENT } from '@/lib/periods';
+
+// GET - A period's history: its status changes and the adjustments made
+// while it was locked, latest first (Admin only)
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const period = await findTimesheetPeriodById(params.id);
+    if (!period) {
+      return NextResponse.json({ error: 'Period not found' }, { status: 404 });
+    }
+
+    const [statusTrails, adjustmentTrails] = await Promise.all([
+      findAuditTrailsByDetail(PERIOD_STATUS_EVENT, 'periodId', period.id),
+      findAuditTrailsByDetail(PERIOD_ADJUSTMENT_EVENT, 'periodId', period.id),
+    ]);
+
+    const history = [
+      ...statusTrails.map((trail) => {
+        const details = trail.details as Record<string, any>;
+        return {
+          id: trail.id,
+          type: 'status' as const,
+          createdAt: trail.createdAt,
+          userName: trail.userName,
+          from: details.from ?? null,
+          to: details.to ?? null,
+          reason: details.reason ?? null,
+        };
+      }),
+      ...adjustmentTrails.map((trail) => {
+        const details = trail.details as Record<string, any>;
+        return {
+          id: trail.id,
+          type: 'adjustment' as const,
+          createdAt: trail.createdAt,
+          userName: trail.userName,
+          action: details.action ?? null,
+          taskName: details.taskName ?? null,
+          reason: details.reason ?? null,
+        };
+      }),
+    ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    return NextResponse.json({ period, history }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching timesheet period:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timesheet period' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Close, lock or reopen a period (Admin only). Reopening (moving back
+// towards open) needs a reason; every change is audited.
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { status } = body;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!isPeriodStatus(status)) {
+      return NextResponse.json({ error: 'Status must be open, closed or locked' }, { status: 400 });
+    }
+
+    const period = await findTimesheetPeriodById(params.id);
+    if (!period) {
+      return NextResponse.json({ error: 'Period not found' }, { status: 404 });
+    }
+
+    if (period.status === status) {
+      return NextResponse.json({ error: `This period is already ${status}` }, { status: 400 });
+    }
+
+    if (isReopening(period.status, status) && !reason) {
+      return NextResponse.json({ error: 'A reason is required to reopen a period' }, { status: 400 });
+    }
+
+    if (reason.length > 1000) {
+      return NextResponse.json({ error: 'Reason must be less than 1000 characters' }, { status: 400 });
+    }
+
+    // Unless another admin changed it in the meantime
+    const [updated] = await db
+      .update(TimesheetPeriods)
+      .set({
+        status,
+        statusChangedBy: session.user.id!,
+        statusChangedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(TimesheetPeriods.id, period.id), eq(TimesheetPeriods.status, period.status)))
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'This period was changed in the meantime. Please reload it.' },
+        { status: 409 }
+      );
+    }
+
+    await recordAuditEvent(PERIOD_STATUS_EVENT, session.user.id!, {
+      periodId: period.id,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      from: period.status,
+      to: status,
+      reason: reason || null,
+    });
+
+    return NextResponse.json({ period: updated }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating timesheet period:', error);
+    return NextResponse.json(
+      { error: 'Failed to update timesheet period' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a period that has never been closed (Admin only)
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const period = await findTimesheetPeriodById(params.id);
+    if (!period) {
+      return NextResponse.json({ error: 'Period not found' }, { status: 404 });
+    }
+
+    // A period with a history keeps it
+    if (period.status !== 'open' || period.statusChangedAt) {
+      return NextResponse.json(
+        { error: 'Only periods that have never been closed can be removed' },
+        { status: 409 }
+      );
+    }
+
+    await db
+      .delete(TimesheetPeriods)
+      .where(and(eq(TimesheetPeriods.id, period.id), eq(TimesheetPeriods.status, 'open')));
+
+    return NextResponse.json({ message: 'Period removed' }, { status: 200 });
+  } catch (error) {
+    console.error('Error deleting timesheet period:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete timesheet period' },
+      { status: 500 }
+    );
+  }
+}
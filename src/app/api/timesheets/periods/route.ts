@@ -0,0 +1,82 @@
+// ====================================
+// app/api/timesheets/periods/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { TimesheetPeriods } from '@/drizzle/schema';
+import { findOverlappingTimesheetPeriods, findTimesheetPeriods } from '@/data/timesheet-period';
+import { parsePeriodInput } from '@/lib/periods';
+
+// GET - Timesheet periods, latest first (Admin only)
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const periods = await findTimesheetPeriods();
+
+    return NextResponse.json({ periods }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching timesheet periods:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timesheet periods' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Define a period, open to start with (Admin only)
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const parsed = parsePeriodInput(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const [overlapping] = await findOverlappingTimesheetPeriods(parsed.periodStart, parsed.periodEnd);
+    if (overlapping) {
+      return NextResponse.json(
+        { error: `This overlaps the period ${overlapping.periodStart} to ${overlapping.periodEnd}` },
+        { status: 409 }
+      );
+    }
+
+    const [period] = await db
+      .insert(TimesheetPeriods)
+      .values({ ...parsed, createdBy: session.user.id! })
+      .returning();
+
+    return NextResponse.json({ period }, { status: 201 });
+  } catch (error) {
+    // Another admin defined a period starting the same day at the same time
+    if ((error as { code?: string })?.code === '23505') {
+      return NextResponse.json(
+        { error: 'A period starting on this date already exists' },
+        { status: 409 }
+      );
+    }
+    console.error('Error creating timesheet period:', error);
+    return NextResponse.json(
+      { error: 'Failed to create timesheet period' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+// ====================================
+// app/api/timesheets/route.ts
+// ====================================
+
+import { auth } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { findTimesheets } from '@/data/timesheet';
+import { TimesheetStatus } from '@/lib/timesheets';
+
+const REVIEWABLE_STATUSES: TimesheetStatus[] = ['submitted', 'approved', 'rejected'];
+
+// GET - Timesheets sent for approval, optionally narrowed to one status with
+// ?status=, newest week first (Admin only)
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'platform_admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const status = new URL(req.url).searchParams.get('status');
+    if (status !== null && !REVIEWABLE_STATUSES.includes(status as TimesheetStatus)) {
+      return NextResponse.json({ error: 'Invalid status value' }, { status: 400 });
+    }
+
+    const timesheets = await findTimesheets(status ? (status as TimesheetStatus) : undefined);
+
+    return NextResponse.json({ timesheets }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching timesheets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timesheets' },
+      { status: 500 }
+    );
+  }
+}
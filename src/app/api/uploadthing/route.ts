@@ -0,0 +1,13 @@
+// ====================================
+// app/api/uploadthing/route.ts
+// ====================================
+
+import { createRouteHandler } from 'uploadthing/next';
+import { uploadRouter } from '@/server/uploadthing';
+
+// UploadThing's upload and callback endpoints; uses UPLOADTHING_TOKEN. This
+// path is public, so only expense receipts are served here: they check the
+// session themselves, unlike the unauthenticated videoAndImage route.
+export const { GET, POST } = createRouteHandler({
+  router: { expenseReceipt: uploadRouter.expenseReceipt },
+});
@@ -0,0 +1,112 @@
+// ====================================
+// app/api/webhooks/razorpay/route.ts
+// ====================================
+
+import { db } from '@/lib/db';
+import { NextResponse } from 'next/server';
+import { eq, sql } from 'drizzle-orm';
+import { InvoicePayments, Invoices } from '@/drizzle/schema';
+import { findInvoiceByPaymentLinkId } from '@/data/invoice';
+import { fromSubunits, invoiceStatusForPayment, PAYABLE_INVOICE_STATUSES } from '@/lib/invoice';
+import { verifyRazorpayWebhook } from '@/utils/razorpay';
+
+const HANDLED_EVENTS = ['payment_link.paid', 'payment_link.partially_paid'];
+
+// POST - Razorpay webhook. Public: the request is authenticated by its
+// signature, not a session. Records each payment made through an invoice's
+// payment link and moves the invoice to partially paid or paid.
+// Razorpay retries anything but a 2xx, so events that need no action are
+// acknowledged with 200.
+export async function POST(req: Request) {
+  try {
+    const body = await req.text();
+
+    if (!verifyRazorpayWebhook(body, req.headers.get('x-razorpay-signature'))) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+    }
+
+    let event: any;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+
+    if (!HANDLED_EVENTS.includes(event?.event)) {
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+
+    const link = event.payload?.payment_link?.entity;
+    const payment = event.payload?.payment?.entity;
+
+    if (!link?.id || !payment?.id || typeof payment.amount !== 'number') {
+      return NextResponse.json({ error: 'Missing payment details' }, { status: 400 });
+    }
+
+    const invoice = await findInvoiceByPaymentLinkId(link.id);
+    if (!invoice) {
+      console.warn(`Razorpay webhook for unknown payment link: ${link.id}`);
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+
+    const currency = (payment.currency || invoice.currency).toUpperCase();
+    const paidAt = payment.created_at ? new Date(payment.created_at * 1000) : new Date();
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the invoice so concurrent payments are summed one after the other
+      const [current] = await tx
+        .select({ status: Invoices.status, total: Invoices.total })
+        .from(Invoices)
+        .where(eq(Invoices.id, invoice.id))
+        .for('update');
+
+      const [recorded] = await tx
+        .insert(InvoicePayments)
+        .values({
+          invoiceId: invoice.id,
+          provider: 'razorpay',
+          providerPaymentId: payment.id,
+          amount: fromSubunits(payment.amount, currency).toFixed(2),
+          currency,
+          method: payment.method || null,
+          paidAt,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      // Already recorded from an earlier delivery of the same event
+      if (!recorded) return null;
+
+      const [{ amountPaid }] = await tx
+        .select({ amountPaid: sql<string>`coalesce(sum(${InvoicePayments.amount}), 0)` })
+        .from(InvoicePayments)
+        .where(eq(InvoicePayments.invoiceId, invoice.id));
+
+      const totalPaid = parseFloat(amountPaid);
+      const updateData: any = { amountPaid: totalPaid.toFixed(2), updatedAt: new Date() };
+
+      // A payment on a voided or already settled invoice is still recorded,
+      // but does not change its status
+      if (PAYABLE_INVOICE_STATUSES.includes(current.status)) {
+        updateData.status = invoiceStatusForPayment(current.total, totalPaid);
+        if (updateData.status === 'paid') {
+          updateData.paidAt = paidAt;
+        }
+      } else {
+        console.warn(`Razorpay payment ${payment.id} received for ${current.status} invoice ${invoice.invoiceNumber}`);
+      }
+
+      await tx.update(Invoices).set(updateData).where(eq(Invoices.id, invoice.id));
+
+      return { status: updateData.status ?? current.status, amountPaid: totalPaid.toFixed(2) };
+    });
+
+    return NextResponse.json({ received: true, ...(result ?? { duplicate: true }) }, { status: 200 });
+  } catch (error) {
+    console.error('Error processing Razorpay webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to process webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { FileText, Link2, Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/costing';
+import { InvoiceStatus } from '@/lib/invoice';
+import { downloadInvoicePdf } from '@/utils/invoicePdf';
+
+// ==================== TYPES ====================
+interface BudgetBurn {
+  budget: string | null;
+  consumed: string;
+  remaining: string | null;
+  percentBurned: string | null;
+}
+
+interface PortalInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: InvoiceStatus;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  total: string;
+  amountPaid: string;
+  paymentLinkUrl: string | null;
+  dueDate: string | null;
+  issuedAt: string | null;
+}
+
+interface PortalProject {
+  id: string;
+  projectName: string;
+  description: string | null;
+  billingCurrency: string;
+  approvedHours: string;
+  costToDate: string;
+  uncostedHours: string;
+  budget: { hours: BudgetBurn; amount: BudgetBurn };
+  hoursByMonth: { month: string; hours: string }[];
+  invoices: PortalInvoice[];
+}
+
+interface Portal {
+  title: string;
+  scope: 'project' | 'client';
+  expiresAt: string;
+  costCurrency: string;
+  supplierName: string | null;
+  projects: PortalProject[];
+}
+
+const getInvoiceStatusColor = (status: InvoiceStatus) => {
+  switch (status) {
+    case 'paid': return 'bg-green-100 text-green-700';
+    case 'partially_paid': return 'bg-yellow-100 text-yellow-700';
+    case 'issued': return 'bg-blue-100 text-blue-700';
+    case 'void': return 'bg-red-100 text-red-700';
+    default: return 'bg-gray-100 text-gray-700';
+  }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const BurnBar: React.FC<{ label: string; burn: BudgetBurn; format: (value: string) => string }> = ({ label, burn, format }) => {
+  const percent = burn.percentBurned !== null ? parseFloat(burn.percentBurned) : null;
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-600">{label}</span>
+        <span className="font-medium text-gray-900">
+          {format(burn.consumed)}
+          {burn.budget !== null && <span className="text-gray-500"> of {format(burn.budget)}</span>}
+        </span>
+      </div>
+      {percent !== null ? (
+        <div className="w-full bg-gray-100 rounded-full h-2">
+          <div
+            className={`h-2 rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 75 ? 'bg-amber-500' : 'bg-blue-600'}`}
+            style={{ width: `${Math.min(percent, 100)}%` }}
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No budget set</p>
+      )}
+    </div>
+  );
+};
+
+// ==================== CLIENT PORTAL ====================
+export default function ClientPortalPage({ params }: { params: { token: string } }) {
+  const [portal, setPortal] = useState<Portal | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPortal = async () => {
+      try {
+        const response = await fetch(`/api/portal/${params.token}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load portal');
+        }
+
+        setPortal(data.portal);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load portal');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchPortal();
+  }, [params.token]);
+
+  const handleDownload = async (invoice: PortalInvoice) => {
+    setDownloadingInvoiceId(invoice.id);
+    try {
+      const response = await fetch(`/api/portal/${params.token}/invoices/${invoice.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch invoice');
+      }
+
+      downloadInvoicePdf(data.invoice);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to download invoice');
+    } finally {
+      setDownloadingInvoiceId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error || !portal) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 max-w-md text-center">
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Link unavailable</h1>
+          <p className="text-gray-600">{error || 'This link is not valid'}</p>
+          <p className="text-sm text-gray-500 mt-4">Ask your project contact for a new link.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          {portal.supplierName && (
+            <p className="text-sm font-medium text-blue-600">{portal.supplierName}</p>
+          )}
+          <h1 className="text-3xl font-bold text-gray-900 mt-1">{portal.title}</h1>
+          <p className="text-gray-600 mt-2">
+            Read-only project summary. This link is valid until {formatDate(portal.expiresAt)}.
+          </p>
+        </div>
+
+        {portal.projects.length === 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center text-gray-500">
+            There are no active projects to show.
+          </div>
+        )}
+
+        {portal.projects.map((project) => (
+          <div key={project.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{project.projectName}</h2>
+              {project.description && <p className="text-gray-500 mt-1">{project.description}</p>}
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <BurnBar
+                  label="Approved hours"
+                  burn={project.budget.hours}
+                  format={(value) => `${parseFloat(value).toFixed(1)}h`}
+                />
+                <BurnBar
+                  label="Cost to date"
+                  burn={project.budget.amount}
+                  format={(value) => formatCurrency(value, portal.costCurrency)}
+                />
+                {parseFloat(project.uncostedHours) > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {parseFloat(project.uncostedHours).toFixed(1)}h are not yet costed.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Approved hours by month</h3>
+                {project.hoursByMonth.length === 0 ? (
+                  <p className="text-sm text-gray-500">No approved hours yet.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody className="divide-y divide-gray-100">
+                      {project.hoursByMonth.map((row) => (
+                        <tr key={row.month}>
+                          <td className="py-1 text-gray-600">{formatMonth(row.month)}</td>
+                          <td className="py-1 text-right font-medium text-gray-900">
+                            {parseFloat(row.hours).toFixed(1)}h
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+
+            {/* Invoices */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Invoices</h3>
+              {project.invoices.length === 0 ? (
+                <p className="text-sm text-gray-500">No invoices yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Invoice</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Period</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Due</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Total</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Paid</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Status</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {project.invoices.map((invoice) => (
+                        <tr key={invoice.id}>
+                          <td className="px-4 py-3 font-medium text-gray-900">{invoice.invoiceNumber}</td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {invoice.dueDate ? formatDate(invoice.dueDate) : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-right font-semibold text-gray-900">
+                            {formatCurrency(invoice.total, invoice.currency)}
+                          </td>
+                          <td className="px-4 py-3 text-right text-sm text-gray-600">
+                            {formatCurrency(invoice.amountPaid, invoice.currency)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getInvoiceStatusColor(invoice.status)}`}>
+                              {invoice.status.replace('_', ' ')}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="flex items-center gap-3">
+                              <button
+                                onClick={() => handleDownload(invoice)}
+                                disabled={downloadingInvoiceId === invoice.id}
+                                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                              >
+                                {downloadingInvoiceId === invoice.id
+                                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                                  : <FileText className="w-4 h-4" />}
+                                PDF
+                              </button>
+                              {invoice.paymentLinkUrl && (
+                                <a
+                                  href={invoice.paymentLinkUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center gap-1 text-sm text-green-600 hover:text-green-700"
+                                >
+                                  <Link2 className="w-4 h-4" />
+                                  Pay
+                                </a>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Loader2 } from 'lucide-react';
+
+// ==================== TYPES ====================
+type LineStatus = 'pending' | 'accepted' | 'disputed';
+
+interface SignoffLine {
+  id: string;
+  taskName: string;
+  description: string | null;
+  employeeName: string | null;
+  workDate: string;
+  hours: string;
+  status: LineStatus;
+  comment: string | null;
+}
+
+interface Signoff {
+  projectName: string;
+  supplierName: string | null;
+  contactName: string;
+  periodStart: string;
+  periodEnd: string;
+  status: 'sent' | 'completed';
+  expiresAt: string;
+  respondedAt: string | null;
+  lines: SignoffLine[];
+}
+
+interface Answer {
+  status: 'accepted' | 'disputed' | null;
+  comment: string;
+}
+
+const getLineStatusColor = (status: LineStatus) => {
+  switch (status) {
+    case 'accepted': return 'bg-green-100 text-green-700';
+    case 'disputed': return 'bg-red-100 text-red-700';
+    default: return 'bg-gray-100 text-gray-700';
+  }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// ==================== CLIENT SIGN-OFF ====================
+export default function ClientSignoffPage({ params }: { params: { token: string } }) {
+  const [signoff, setSignoff] = useState<Signoff | null>(null);
+  const [answers, setAnswers] = useState<Record<string, Answer>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const fetchSignoff = async () => {
+    try {
+      const response = await fetch(`/api/portal/signoffs/${params.token}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load sign-off request');
+      }
+
+      setSignoff(data.signoff);
+      setAnswers(
+        Object.fromEntries(
+          data.signoff.lines.map((line: SignoffLine) => [line.id, { status: null, comment: '' }])
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sign-off request');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSignoff();
+  }, [params.token]);
+
+  const setAnswer = (lineId: string, changes: Partial<Answer>) => {
+    setAnswers(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  const handleAcceptAll = () => {
+    setAnswers(prev =>
+      Object.fromEntries(Object.entries(prev).map(([lineId, answer]) => [lineId, { ...answer, status: 'accepted' }]))
+    );
+  };
+
+  const handleSubmit = async () => {
+    setSubmitError(null);
+
+    const unanswered = Object.values(answers).filter((answer) => !answer.status).length;
+    if (unanswered > 0) {
+      setSubmitError(`Accept or dispute the remaining ${unanswered} line${unanswered === 1 ? '' : 's'}`);
+      return;
+    }
+    if (Object.values(answers).some((answer) => answer.status === 'disputed' && !answer.comment.trim())) {
+      setSubmitError('Add a comment explaining each disputed line');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/portal/signoffs/${params.token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          responses: Object.entries(answers).map(([lineId, answer]) => ({
+            lineId,
+            status: answer.status,
+            comment: answer.comment,
+          })),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit response');
+      }
+
+      await fetchSignoff();
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to submit response');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error || !signoff) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 max-w-md text-center">
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Link unavailable</h1>
+          <p className="text-gray-600">{error || 'This link is not valid'}</p>
+          <p className="text-sm text-gray-500 mt-4">Ask your project contact for a new link.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = signoff.status === 'sent';
+  const totalHours = signoff.lines.reduce((sum, line) => sum + parseFloat(line.hours), 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          {signoff.supplierName && (
+            <p className="text-sm font-medium text-blue-600">{signoff.supplierName}</p>
+          )}
+          <h1 className="text-3xl font-bold text-gray-900 mt-1">{signoff.projectName}</h1>
+          <p className="text-gray-600 mt-2">
+            Hours for {formatDate(signoff.periodStart)} – {formatDate(signoff.periodEnd)}, sent to {signoff.contactName}.
+            {' '}
+            {isOpen
+              ? `Accept or dispute each line. This link is valid until ${formatDate(signoff.expiresAt)}.`
+              : null}
+          </p>
+        </div>
+
+        {!isOpen && (
+          <div className="flex items-center gap-3 bg-green-50 border border-green-200 rounded-lg p-4 text-green-800">
+            <CheckCircle className="w-5 h-5" />
+            <span>
+              Your response was recorded{signoff.respondedAt ? ` on ${formatDate(signoff.respondedAt)}` : ''}. Thank you.
+            </span>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {signoff.lines.length} lines · {totalHours.toFixed(2)}h
+            </h2>
+            {isOpen && (
+              <button
+                onClick={handleAcceptAll}
+                disabled={isSubmitting}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+              >
+                Accept all
+              </button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Task</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Team member</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Hours</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Response</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {signoff.lines.map((line) => (
+                  <tr key={line.id} className="align-top">
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatDate(line.workDate)}</td>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{line.taskName}</p>
+                      {line.description && <p className="text-sm text-gray-500">{line.description}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{line.employeeName || '—'}</td>
+                    <td className="px-4 py-3 text-right font-medium text-gray-900">{parseFloat(line.hours).toFixed(2)}</td>
+                    <td className="px-4 py-3 w-80">
+                      {isOpen ? (
+                        <div className="space-y-2">
+                          <div className="flex items-center gap-4 text-sm">
+                            <label className="flex items-center gap-1">
+                              <input
+                                type="radio"
+                                name={`answer-${line.id}`}
+                                checked={answers[line.id]?.status === 'accepted'}
+                                onChange={() => setAnswer(line.id, { status: 'accepted' })}
+                                disabled={isSubmitting}
+                              />
+                              Accept
+                            </label>
+                            <label className="flex items-center gap-1">
+                              <input
+                                type="radio"
+                                name={`answer-${line.id}`}
+                                checked={answers[line.id]?.status === 'disputed'}
+                                onChange={() => setAnswer(line.id, { status: 'disputed' })}
+                                disabled={isSubmitting}
+                              />
+                              Dispute
+                            </label>
+                          </div>
+                          {answers[line.id]?.status === 'disputed' && (
+                            <textarea
+                              value={answers[line.id].comment}
+                              onChange={(e) => setAnswer(line.id, { comment: e.target.value })}
+                              disabled={isSubmitting}
+                              rows={2}
+                              maxLength={1000}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                              placeholder="What is wrong with this line?"
+                            />
+                          )}
+                        </div>
+                      ) : (
+                        <div>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getLineStatusColor(line.status)}`}>
+                            {line.status}
+                          </span>
+                          {line.comment && <p className="text-sm text-gray-600 mt-1">{line.comment}</p>}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {isOpen && (
+            <div className="flex items-center justify-end gap-4">
+              {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting}
+                className="flex items-center gap-2 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Submit response
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
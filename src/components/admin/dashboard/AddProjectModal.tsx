@@ -1,28 +1,50 @@
 'use client';
 import { Loader2, X } from "lucide-react";
 import { useState } from "react";
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from "@/lib/currency";
+
+interface Client {
+  id: string;
+  legalName: string;
+  defaultCurrency: string;
+}
 
 interface FormData {
   projectName: string;
+  clientId: string;
   description: string;
+  budgetHours: string;
+  budgetAmount: string;
+  billingCurrency: string;
 }
 
 interface FormErrors {
   projectName?: string;
+  clientId?: string;
   description?: string;
+  budgetHours?: string;
+  budgetAmount?: string;
+  billingCurrency?: string;
   submit?: string;
 }
 
+const emptyForm: FormData = {
+  projectName: '',
+  clientId: '',
+  description: '',
+  budgetHours: '',
+  budgetAmount: '',
+  billingCurrency: DEFAULT_CURRENCY,
+};
+
 
 export const AddProjectModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-}> = ({ isOpen, onClose, onSuccess }) => {
-  const [formData, setFormData] = useState<FormData>({
-    projectName: '',
-    description: '',
-  });
+  clients?: Client[];
+}> = ({ isOpen, onClose, onSuccess, clients = [] }) => {
+  const [formData, setFormData] = useState<FormData>(emptyForm);
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -41,6 +63,14 @@ export const AddProjectModal: React.FC<{
       newErrors.description = 'Description must be less than 1000 characters';
     }
 
+    if (formData.budgetHours && (isNaN(parseFloat(formData.budgetHours)) || parseFloat(formData.budgetHours) <= 0)) {
+      newErrors.budgetHours = 'Hours budget must be greater than 0';
+    }
+
+    if (formData.budgetAmount && (isNaN(parseFloat(formData.budgetAmount)) || parseFloat(formData.budgetAmount) <= 0)) {
+      newErrors.budgetAmount = 'Cost budget must be greater than 0';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -60,6 +90,10 @@ export const AddProjectModal: React.FC<{
         body: JSON.stringify({
           projectName: formData.projectName.trim(),
           description: formData.description.trim() || null,
+          clientId: formData.clientId || null,
+          budgetHours: formData.budgetHours ? parseFloat(formData.budgetHours) : null,
+          budgetAmount: formData.budgetAmount ? parseFloat(formData.budgetAmount) : null,
+          billingCurrency: formData.billingCurrency,
         }),
       });
 
@@ -69,7 +103,7 @@ export const AddProjectModal: React.FC<{
         throw new Error(data.error || 'Failed to create project');
       }
 
-      setFormData({ projectName: '', description: '' });
+      setFormData(emptyForm);
       onSuccess();
       onClose();
     } catch (error) {
@@ -88,6 +122,16 @@ export const AddProjectModal: React.FC<{
     }
   };
 
+  // Projects bill in their client's currency unless changed here
+  const handleClientChange = (clientId: string) => {
+    const client = clients.find(c => c.id === clientId);
+    setFormData(prev => ({
+      ...prev,
+      clientId,
+      billingCurrency: client?.defaultCurrency || prev.billingCurrency,
+    }));
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -125,6 +169,24 @@ export const AddProjectModal: React.FC<{
             )}
           </div>
 
+          <div>
+            <label htmlFor="clientId" className="block text-sm font-medium text-gray-700 mb-2">
+              Client
+            </label>
+            <select
+              id="clientId"
+              value={formData.clientId}
+              onChange={(e) => handleClientChange(e.target.value)}
+              disabled={isSubmitting}
+              className={`w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all ${isSubmitting ? 'bg-gray-50 cursor-not-allowed' : ''}`}
+            >
+              <option value="">No client</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>{client.legalName}</option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
               Description
@@ -144,6 +206,67 @@ export const AddProjectModal: React.FC<{
             )}
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="budgetHours" className="block text-sm font-medium text-gray-700 mb-2">
+                Hours Budget
+              </label>
+              <input
+                type="number"
+                id="budgetHours"
+                min="0"
+                step="0.5"
+                value={formData.budgetHours}
+                onChange={(e) => handleChange('budgetHours', e.target.value)}
+                disabled={isSubmitting}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all ${errors.budgetHours ? 'border-red-500' : 'border-gray-300'
+                  } ${isSubmitting ? 'bg-gray-50 cursor-not-allowed' : ''}`}
+                placeholder="Optional"
+              />
+              {errors.budgetHours && (
+                <p className="mt-1 text-sm text-red-600">{errors.budgetHours}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="budgetAmount" className="block text-sm font-medium text-gray-700 mb-2">
+                Cost Budget
+              </label>
+              <input
+                type="number"
+                id="budgetAmount"
+                min="0"
+                step="0.01"
+                value={formData.budgetAmount}
+                onChange={(e) => handleChange('budgetAmount', e.target.value)}
+                disabled={isSubmitting}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all ${errors.budgetAmount ? 'border-red-500' : 'border-gray-300'
+                  } ${isSubmitting ? 'bg-gray-50 cursor-not-allowed' : ''}`}
+                placeholder="Optional"
+              />
+              {errors.budgetAmount && (
+                <p className="mt-1 text-sm text-red-600">{errors.budgetAmount}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="billingCurrency" className="block text-sm font-medium text-gray-700 mb-2">
+              Billing Currency
+            </label>
+            <select
+              id="billingCurrency"
+              value={formData.billingCurrency}
+              onChange={(e) => handleChange('billingCurrency', e.target.value)}
+              disabled={isSubmitting}
+              className={`w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all ${isSubmitting ? 'bg-gray-50 cursor-not-allowed' : ''}`}
+            >
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+          </div>
+
           {errors.submit && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
               {errors.submit}
@@ -0,0 +1,258 @@
+'use client';
+import { useState } from "react";
+import { AlertTriangle, Edit2, Loader2, TrendingDown, TrendingUp, X } from "lucide-react";
+import { formatCurrency } from "@/lib/costing";
+
+interface BudgetBurn {
+  budget: string | null;
+  consumed: string;
+  remaining: string | null;
+  percentBurned: string | null;
+}
+
+export interface ProjectBudget {
+  hours: BudgetBurn;
+  amount: BudgetBurn;
+  alertThresholds: number[];
+  alerts: {
+    budgetType: 'hours' | 'amount';
+    threshold: number;
+    percentBurned: string;
+    crossedAt: string;
+  }[];
+}
+
+const getBurnColor = (percent: number) => {
+  if (percent >= 100) return 'bg-red-500';
+  if (percent >= 75) return 'bg-amber-500';
+  return 'bg-emerald-500';
+};
+
+const BurnCard: React.FC<{
+  label: string;
+  burn: BudgetBurn;
+  format: (value: string) => string;
+}> = ({ label, burn, format }) => {
+  if (burn.budget === null) {
+    return (
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <p className="text-sm text-gray-500 mb-1">{label}</p>
+        <p className="text-gray-400">No budget set</p>
+        <p className="text-xs text-gray-500 mt-2">Consumed: {format(burn.consumed)}</p>
+      </div>
+    );
+  }
+
+  const percent = parseFloat(burn.percentBurned || '0');
+
+  return (
+    <div className="bg-white p-6 rounded-lg border border-gray-200">
+      <div className="flex justify-between items-baseline mb-1">
+        <p className="text-sm text-gray-500">{label}</p>
+        <p className={`text-sm font-semibold ${percent >= 100 ? 'text-red-600' : 'text-gray-700'}`}>
+          {percent.toFixed(1)}% burned
+        </p>
+      </div>
+      <p className="text-2xl font-bold text-gray-900">
+        {format(burn.consumed)} <span className="text-base font-normal text-gray-500">of {format(burn.budget)}</span>
+      </p>
+      <div className="w-full h-2 bg-gray-100 rounded-full mt-3 overflow-hidden">
+        <div
+          className={`h-full ${getBurnColor(percent)}`}
+          style={{ width: `${Math.min(percent, 100)}%` }}
+        />
+      </div>
+      <p className={`text-xs mt-2 ${parseFloat(burn.remaining || '0') < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+        Remaining: {format(burn.remaining || '0')}
+      </p>
+    </div>
+  );
+};
+
+export const BudgetPanel: React.FC<{
+  projectId: string;
+  budget: ProjectBudget;
+  variance: string;
+  variancePercentage: string;
+  plannedStartDate: string | null;
+  plannedEndDate: string | null;
+  currency: string;
+  onUpdated?: () => void;
+}> = ({ projectId, budget, variance, variancePercentage, plannedStartDate, plannedEndDate, currency, onUpdated }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [budgetHours, setBudgetHours] = useState(budget.hours.budget || '');
+  const [budgetAmount, setBudgetAmount] = useState(budget.amount.budget || '');
+  const [thresholds, setThresholds] = useState(budget.alertThresholds.join(', '));
+  const [plannedStart, setPlannedStart] = useState(plannedStartDate || '');
+  const [plannedEnd, setPlannedEnd] = useState(plannedEndDate || '');
+
+  const varianceNum = parseFloat(variance);
+  const isOverEstimate = varianceNum > 0;
+
+  const handleSave = async () => {
+    const parsedThresholds = thresholds
+      .split(',')
+      .map(t => t.trim())
+      .filter(Boolean)
+      .map(Number);
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          budgetHours: budgetHours === '' ? null : parseFloat(budgetHours),
+          budgetAmount: budgetAmount === '' ? null : parseFloat(budgetAmount),
+          budgetAlertThresholds: parsedThresholds,
+          plannedStartDate: plannedStart || null,
+          plannedEndDate: plannedEnd || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update budget');
+      }
+
+      setIsEditing(false);
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-900">Budget</h3>
+        {!isEditing ? (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+          >
+            <Edit2 className="w-4 h-4" />
+            Edit Budget
+          </button>
+        ) : (
+          <button
+            onClick={() => setIsEditing(false)}
+            disabled={isSaving}
+            className="text-gray-600 hover:text-gray-700"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hours Budget</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={budgetHours}
+              onChange={(e) => setBudgetHours(e.target.value)}
+              disabled={isSaving}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cost Budget ({currency})</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={budgetAmount}
+              onChange={(e) => setBudgetAmount(e.target.value)}
+              disabled={isSaving}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Alert Thresholds (%)</label>
+            <input
+              type="text"
+              value={thresholds}
+              onChange={(e) => setThresholds(e.target.value)}
+              disabled={isSaving}
+              placeholder="75, 90, 100"
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Planned Start</label>
+            <input
+              type="date"
+              value={plannedStart}
+              onChange={(e) => setPlannedStart(e.target.value)}
+              disabled={isSaving}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Planned End</label>
+            <input
+              type="date"
+              value={plannedEnd}
+              onChange={(e) => setPlannedEnd(e.target.value)}
+              disabled={isSaving}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500 mb-1">Variance (Actual vs Expected)</p>
+          <p className={`text-2xl font-bold flex items-center gap-2 ${isOverEstimate ? 'text-red-600' : 'text-green-600'}`}>
+            {isOverEstimate ? <TrendingUp className="w-5 h-5" /> : <TrendingDown className="w-5 h-5" />}
+            {varianceNum > 0 ? '+' : ''}{varianceNum.toFixed(1)}h
+          </p>
+          <p className="text-xs text-gray-500 mt-2">{variancePercentage}% of expected hours</p>
+        </div>
+
+        <BurnCard
+          label="Hours Budget"
+          burn={budget.hours}
+          format={(value) => `${parseFloat(value).toFixed(1)}h`}
+        />
+
+        <BurnCard
+          label="Cost Budget"
+          burn={budget.amount}
+          format={(value) => formatCurrency(value, currency)}
+        />
+      </div>
+
+      {budget.alerts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {budget.alerts.map((alert) => (
+            <span
+              key={`${alert.budgetType}-${alert.threshold}`}
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {alert.budgetType === 'hours' ? 'Hours' : 'Cost'} passed {alert.threshold}% on{' '}
+              {new Date(alert.crossedAt).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+'use client';
+
+// Hours logged on a day across the project's time entries; rejected entries
+// are left out
+export interface DailyHours {
+  date: string;
+  hours: string;
+  approvedHours: string;
+}
+
+const formatDay = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { weekday: 'short', day: '2-digit', month: 'short', year: 'numeric' });
+
+// Logged and approved hours per day, newest day first, with a bar scaled to
+// the busiest day
+export const DailyHoursPanel: React.FC<{ dailyHours: DailyHours[] }> = ({ dailyHours }) => {
+  const busiestDay = Math.max(0, ...dailyHours.map((day) => parseFloat(day.hours)));
+  const days = [...dailyHours].reverse();
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Hours by Day</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Time entries summed by the day the work was done. The darker bar is the approved part.
+        </p>
+      </div>
+
+      {days.length === 0 ? (
+        <p className="text-sm text-gray-500">No time logged yet.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Day</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Logged</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Approved</th>
+                <th className="px-4 py-2 w-1/2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {days.map((day) => {
+                const hours = parseFloat(day.hours);
+                const approvedHours = parseFloat(day.approvedHours);
+                return (
+                  <tr key={day.date}>
+                    <td className="px-4 py-2 text-sm text-gray-700">{formatDay(day.date)}</td>
+                    <td className="px-4 py-2 text-right text-sm font-semibold text-gray-900">{hours.toFixed(1)}h</td>
+                    <td className="px-4 py-2 text-right text-sm text-gray-700">{approvedHours.toFixed(1)}h</td>
+                    <td className="px-4 py-2">
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-purple-200 rounded-full"
+                          style={{ width: `${busiestDay > 0 ? (hours / busiestDay) * 100 : 0}%` }}
+                        >
+                          <div
+                            className="h-full bg-purple-600 rounded-full"
+                            style={{ width: `${hours > 0 ? (approvedHours / hours) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
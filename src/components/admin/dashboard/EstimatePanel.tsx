@@ -0,0 +1,550 @@
+'use client';
+import { useEffect, useState } from "react";
+import { CheckCircle2, Download, Loader2, Plus, Send, Trash2, Undo2 } from "lucide-react";
+import { formatCurrency } from "@/lib/costing";
+import { calculateEstimateTotals, calculateLineItemTotals, EstimateStatus } from "@/lib/estimate";
+import { exportEstimateToExcel } from "@/utils/exportUtils";
+
+export interface EstimateLineItem {
+  id: string;
+  workPackage: string;
+  role: string;
+  estimatedHours: string;
+  hourlyRate: string;
+  contingencyPercent: string;
+  hsnSac: string | null;
+  contingencyHours: string;
+  totalHours: string;
+  amount: string;
+  actualHours: string;
+  remainingHours: string;
+  percentUsed: string | null;
+}
+
+export interface ProjectEstimate {
+  id: string;
+  title: string;
+  notes: string | null;
+  status: EstimateStatus;
+  createdByName: string | null;
+  submittedAt: string | null;
+  approvedAt: string | null;
+  createdAt: string;
+  lineItems: EstimateLineItem[];
+  totals: {
+    estimatedHours: string;
+    contingencyHours: string;
+    totalHours: string;
+    totalAmount: string;
+    actualHours: string;
+    taxRate: string;
+    supplyType: 'intra_state' | 'inter_state' | null;
+    cgstAmount: string;
+    sgstAmount: string;
+    igstAmount: string;
+    taxAmount: string;
+    grandTotal: string;
+  };
+}
+
+interface DraftLineItem {
+  id?: string;
+  workPackage: string;
+  role: string;
+  estimatedHours: string;
+  hourlyRate: string;
+  contingencyPercent: string;
+  hsnSac: string;
+}
+
+const emptyLineItem: DraftLineItem = {
+  workPackage: '',
+  role: '',
+  estimatedHours: '',
+  hourlyRate: '',
+  contingencyPercent: '0',
+  hsnSac: '',
+};
+
+const getEstimateStatusColor = (status: EstimateStatus) => {
+  switch (status) {
+    case 'approved': return 'bg-green-100 text-green-700';
+    case 'submitted': return 'bg-blue-100 text-blue-700';
+    default: return 'bg-gray-100 text-gray-700';
+  }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+export const EstimatePanel: React.FC<{
+  projectId: string;
+  estimates: ProjectEstimate[];
+  onChanged: () => void;
+}> = ({ projectId, estimates, onChanged }) => {
+  const [selectedEstimateId, setSelectedEstimateId] = useState<string | null>(null);
+  const [draftItems, setDraftItems] = useState<DraftLineItem[]>([]);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [newTitle, setNewTitle] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedEstimate =
+    estimates.find((estimate) => estimate.id === selectedEstimateId) ||
+    estimates.find((estimate) => estimate.status === 'approved') ||
+    estimates[0] ||
+    null;
+
+  // Reset the editable copy whenever a different (or refreshed) estimate is shown
+  useEffect(() => {
+    if (!selectedEstimate) return;
+    setDraftTitle(selectedEstimate.title);
+    setDraftItems(
+      selectedEstimate.lineItems.map((item) => ({
+        id: item.id,
+        workPackage: item.workPackage,
+        role: item.role,
+        estimatedHours: item.estimatedHours,
+        hourlyRate: item.hourlyRate,
+        contingencyPercent: item.contingencyPercent,
+        hsnSac: item.hsnSac || '',
+      }))
+    );
+  }, [selectedEstimate]);
+
+  const isDraft = selectedEstimate?.status === 'draft';
+  const isApproved = selectedEstimate?.status === 'approved';
+  const draftTotals = calculateEstimateTotals(draftItems);
+
+  const request = async (url: string, method: string, body?: object) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update estimate');
+      }
+
+      return data;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update estimate');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newTitle.trim()) {
+      alert('Please enter a title for the estimate');
+      return;
+    }
+
+    const data = await request(`/api/projects/${projectId}/estimates`, 'POST', {
+      title: newTitle.trim(),
+      lineItems: [],
+    });
+    if (data) {
+      setNewTitle('');
+      setIsCreating(false);
+      setSelectedEstimateId(data.estimate.id);
+      onChanged();
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!selectedEstimate) return;
+    const data = await request(`/api/estimates/${selectedEstimate.id}`, 'PUT', {
+      title: draftTitle,
+      lineItems: draftItems,
+    });
+    if (data) onChanged();
+    return data;
+  };
+
+  const handleStatusChange = async (status: EstimateStatus) => {
+    if (!selectedEstimate) return;
+
+    // Submitting saves pending edits first so the submitted version is what was on screen
+    if (status === 'submitted' && !(await handleSaveDraft())) return;
+
+    if (status === 'approved' && !confirm('Approve this estimate? Approved estimates can no longer be edited.')) {
+      return;
+    }
+
+    const data = await request(`/api/estimates/${selectedEstimate.id}/status`, 'PUT', { status });
+    if (data) onChanged();
+  };
+
+  const handleDelete = async () => {
+    if (!selectedEstimate || !confirm('Delete this draft estimate?')) return;
+
+    const data = await request(`/api/estimates/${selectedEstimate.id}`, 'DELETE');
+    if (data) {
+      setSelectedEstimateId(null);
+      onChanged();
+    }
+  };
+
+  const updateDraftItem = (index: number, field: keyof DraftLineItem, value: string) => {
+    setDraftItems(prev => prev.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-900">Estimates</h3>
+        {!isCreating ? (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            New Estimate
+          </button>
+        ) : (
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              placeholder="Estimate title"
+              disabled={isSaving}
+              className="px-3 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={isSaving}
+              className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Create
+            </button>
+            <button
+              onClick={() => setIsCreating(false)}
+              disabled={isSaving}
+              className="text-gray-600 hover:text-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+      </div>
+
+      {estimates.length === 0 ? (
+        <p className="text-sm text-gray-500">No estimates yet. Create one to plan the work before it starts.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {estimates.map((estimate) => (
+              <button
+                key={estimate.id}
+                onClick={() => setSelectedEstimateId(estimate.id)}
+                className={`px-3 py-1 rounded-lg border text-sm flex items-center gap-2 ${
+                  selectedEstimate?.id === estimate.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                {estimate.title}
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getEstimateStatusColor(estimate.status)}`}>
+                  {estimate.status}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {selectedEstimate && (
+            <div className="space-y-4">
+              <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                {isDraft ? (
+                  <input
+                    type="text"
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    disabled={isSaving}
+                    className="px-3 py-2 border border-gray-300 rounded font-semibold focus:ring-2 focus:ring-blue-500"
+                  />
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    Created {formatDate(selectedEstimate.createdAt)}
+                    {selectedEstimate.createdByName ? ` by ${selectedEstimate.createdByName}` : ''}
+                    {selectedEstimate.approvedAt && ` · Approved ${formatDate(selectedEstimate.approvedAt)}`}
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => exportEstimateToExcel(selectedEstimate)}
+                    className="flex items-center gap-1 border border-gray-300 px-3 py-2 rounded hover:bg-gray-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    Excel
+                  </button>
+                  {isDraft && (
+                    <>
+                      <button
+                        onClick={handleSaveDraft}
+                        disabled={isSaving}
+                        className="flex items-center gap-1 border border-gray-300 px-3 py-2 rounded hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Save
+                      </button>
+                      <button
+                        onClick={() => handleStatusChange('submitted')}
+                        disabled={isSaving}
+                        className="flex items-center gap-1 bg-blue-600 text-white px-3 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Send className="w-4 h-4" />
+                        Submit
+                      </button>
+                      <button
+                        onClick={handleDelete}
+                        disabled={isSaving}
+                        className="text-red-600 hover:text-red-700 px-2 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  {selectedEstimate.status === 'submitted' && (
+                    <>
+                      <button
+                        onClick={() => handleStatusChange('draft')}
+                        disabled={isSaving}
+                        className="flex items-center gap-1 border border-gray-300 px-3 py-2 rounded hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                        Return to Draft
+                      </button>
+                      <button
+                        onClick={() => handleStatusChange('approved')}
+                        disabled={isSaving}
+                        className="flex items-center gap-1 bg-green-600 text-white px-3 py-2 rounded hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckCircle2 className="w-4 h-4" />
+                        Approve
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Work Package</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Role</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">HSN/SAC</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Hours</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Rate</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Contingency</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Total Hours</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Amount</th>
+                      {isApproved && (
+                        <>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Actual</th>
+                          <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Remaining</th>
+                        </>
+                      )}
+                      {isDraft && <th className="px-4 py-3" />}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {isDraft
+                      ? draftItems.map((item, index) => {
+                          const totals = calculateLineItemTotals(item);
+                          return (
+                            <tr key={item.id || `new-${index}`}>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="text"
+                                  value={item.workPackage}
+                                  onChange={(e) => updateDraftItem(index, 'workPackage', e.target.value)}
+                                  disabled={isSaving}
+                                  className="w-full px-2 py-1 border border-gray-300 rounded"
+                                />
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="text"
+                                  value={item.role}
+                                  onChange={(e) => updateDraftItem(index, 'role', e.target.value)}
+                                  disabled={isSaving}
+                                  className="w-full px-2 py-1 border border-gray-300 rounded"
+                                />
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="text"
+                                  inputMode="numeric"
+                                  maxLength={8}
+                                  value={item.hsnSac}
+                                  onChange={(e) => updateDraftItem(index, 'hsnSac', e.target.value)}
+                                  disabled={isSaving}
+                                  placeholder="998314"
+                                  className="w-24 px-2 py-1 border border-gray-300 rounded"
+                                />
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.5"
+                                  value={item.estimatedHours}
+                                  onChange={(e) => updateDraftItem(index, 'estimatedHours', e.target.value)}
+                                  disabled={isSaving}
+                                  className="w-24 px-2 py-1 border border-gray-300 rounded"
+                                />
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={item.hourlyRate}
+                                  onChange={(e) => updateDraftItem(index, 'hourlyRate', e.target.value)}
+                                  disabled={isSaving}
+                                  className="w-28 px-2 py-1 border border-gray-300 rounded"
+                                />
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="1"
+                                  value={item.contingencyPercent}
+                                  onChange={(e) => updateDraftItem(index, 'contingencyPercent', e.target.value)}
+                                  disabled={isSaving}
+                                  className="w-20 px-2 py-1 border border-gray-300 rounded"
+                                />
+                              </td>
+                              <td className="px-4 py-2 text-sm text-gray-700">{totals.totalHours.toFixed(1)}h</td>
+                              <td className="px-4 py-2 text-sm text-gray-700">{formatCurrency(totals.amount)}</td>
+                              <td className="px-4 py-2">
+                                <button
+                                  onClick={() => setDraftItems(prev => prev.filter((_, i) => i !== index))}
+                                  disabled={isSaving}
+                                  className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </td>
+                            </tr>
+                          );
+                        })
+                      : selectedEstimate.lineItems.map((item) => (
+                          <tr key={item.id}>
+                            <td className="px-4 py-3 font-medium text-gray-900">{item.workPackage}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{item.role}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{item.hsnSac || '—'}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{parseFloat(item.estimatedHours).toFixed(1)}h</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{formatCurrency(item.hourlyRate)}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{parseFloat(item.contingencyPercent).toFixed(0)}%</td>
+                            <td className="px-4 py-3 text-sm font-semibold text-gray-900">{parseFloat(item.totalHours).toFixed(1)}h</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{formatCurrency(item.amount)}</td>
+                            {isApproved && (
+                              <>
+                                <td className="px-4 py-3 text-sm text-gray-700">
+                                  {parseFloat(item.actualHours).toFixed(1)}h
+                                  {item.percentUsed !== null && (
+                                    <span className="text-xs text-gray-500"> ({parseFloat(item.percentUsed).toFixed(0)}%)</span>
+                                  )}
+                                </td>
+                                <td className={`px-4 py-3 text-sm font-semibold ${parseFloat(item.remainingHours) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                  {parseFloat(item.remainingHours).toFixed(1)}h
+                                </td>
+                              </>
+                            )}
+                          </tr>
+                        ))}
+                  </tbody>
+                  <tfoot className="bg-gray-50">
+                    <tr>
+                      <td className="px-4 py-3 font-semibold text-gray-900" colSpan={6}>Total</td>
+                      <td className="px-4 py-3 font-semibold text-gray-900">
+                        {(isDraft ? draftTotals.totalHours : parseFloat(selectedEstimate.totals.totalHours)).toFixed(1)}h
+                      </td>
+                      <td className="px-4 py-3 font-semibold text-gray-900">
+                        {formatCurrency(isDraft ? draftTotals.totalAmount : selectedEstimate.totals.totalAmount)}
+                      </td>
+                      {isApproved && (
+                        <>
+                          <td className="px-4 py-3 font-semibold text-gray-900">
+                            {parseFloat(selectedEstimate.totals.actualHours).toFixed(1)}h
+                          </td>
+                          <td className="px-4 py-3 font-semibold text-gray-900">
+                            {(parseFloat(selectedEstimate.totals.totalHours) - parseFloat(selectedEstimate.totals.actualHours)).toFixed(1)}h
+                          </td>
+                        </>
+                      )}
+                      {isDraft && <td />}
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+
+              {parseFloat(selectedEstimate.totals.taxAmount) > 0 && (
+                <div className="ml-auto max-w-sm space-y-1 text-sm">
+                  {selectedEstimate.totals.supplyType === 'intra_state' && (
+                    <>
+                      <div className="flex justify-between text-gray-600">
+                        <span>CGST ({parseFloat(selectedEstimate.totals.taxRate) / 2}%)</span>
+                        <span>{formatCurrency(selectedEstimate.totals.cgstAmount)}</span>
+                      </div>
+                      <div className="flex justify-between text-gray-600">
+                        <span>SGST ({parseFloat(selectedEstimate.totals.taxRate) / 2}%)</span>
+                        <span>{formatCurrency(selectedEstimate.totals.sgstAmount)}</span>
+                      </div>
+                    </>
+                  )}
+                  {selectedEstimate.totals.supplyType === 'inter_state' && (
+                    <div className="flex justify-between text-gray-600">
+                      <span>IGST ({parseFloat(selectedEstimate.totals.taxRate)}%)</span>
+                      <span>{formatCurrency(selectedEstimate.totals.igstAmount)}</span>
+                    </div>
+                  )}
+                  {selectedEstimate.totals.supplyType === null && (
+                    <div className="flex justify-between text-gray-600">
+                      <span>GST ({parseFloat(selectedEstimate.totals.taxRate)}%)</span>
+                      <span>{formatCurrency(selectedEstimate.totals.taxAmount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1">
+                    <span>Total incl. GST</span>
+                    <span>{formatCurrency(selectedEstimate.totals.grandTotal)}</span>
+                  </div>
+                  {isDraft && <p className="text-xs text-gray-500">Tax reflects the last saved version.</p>}
+                  {selectedEstimate.totals.supplyType === null && (
+                    <p className="text-xs text-gray-500">Set the client&apos;s GSTIN or place of supply to split CGST/SGST or IGST.</p>
+                  )}
+                </div>
+              )}
+
+              {isDraft && (
+                <button
+                  onClick={() => setDraftItems(prev => [...prev, { ...emptyLineItem }])}
+                  disabled={isSaving}
+                  className="text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Line Item
+                </button>
+              )}
+
+              {isApproved && (
+                <p className="text-xs text-gray-500">
+                  Actual hours include pending and approved tasks mapped to each line item. Map tasks by editing them below.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+'use client';
+import { formatCurrency } from "@/lib/costing";
+
+interface ConfidenceValues {
+  p50: string;
+  p80: string;
+  p90: string;
+}
+
+export interface EstimateRange {
+  hours: ConfidenceValues;
+  cost: ConfidenceValues;
+  stdDevHours: string;
+}
+
+const LEVELS: { key: keyof ConfidenceValues; label: string; description: string }[] = [
+  { key: 'p50', label: 'P50', description: 'Even odds' },
+  { key: 'p80', label: 'P80', description: '80% confident' },
+  { key: 'p90', label: 'P90', description: '90% confident' },
+];
+
+export const EstimateRangePanel: React.FC<{
+  estimateRange: EstimateRange;
+  currency: string;
+}> = ({ estimateRange, currency }) => {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex justify-between items-baseline">
+        <h3 className="text-lg font-semibold text-gray-900">Estimate Confidence</h3>
+        <p className="text-xs text-gray-500">
+          ±{parseFloat(estimateRange.stdDevHours).toFixed(1)}h standard deviation across three-point task estimates
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {LEVELS.map(({ key, label, description }) => (
+          <div key={key} className="bg-white p-6 rounded-lg border border-gray-200">
+            <p className="text-sm text-gray-500 mb-1">
+              {label} <span className="text-xs">({description})</span>
+            </p>
+            <p className="text-2xl font-bold text-gray-900">
+              {parseFloat(estimateRange.hours[key]).toFixed(1)}h
+            </p>
+            <p className="text-sm text-gray-600 mt-1">{formatCurrency(estimateRange.cost[key], currency)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
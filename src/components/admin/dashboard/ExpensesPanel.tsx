@@ -0,0 +1,403 @@
+'use client';
+import { useEffect, useRef, useState } from "react";
+import { Check, FileText, Loader2, Paperclip, Plus, Trash2, X } from "lucide-react";
+import { formatCurrency, localDateKey } from "@/lib/costing";
+import { SUPPORTED_CURRENCIES } from "@/lib/currency";
+import { EXPENSE_CATEGORIES, ExpenseCategory, ExpenseStatus, expenseCategoryLabel } from "@/lib/expense";
+import { useUploadThing } from "@/utils/uploadthing";
+
+export interface ProjectExpense {
+  id: string;
+  submittedBy: string;
+  submittedByName: string | null;
+  category: ExpenseCategory;
+  description: string;
+  amount: string;
+  currency: string;
+  expenseDate: string;
+  isBillable: boolean;
+  receiptUrl: string;
+  receiptName: string;
+  status: ExpenseStatus;
+  approvedAt: string | null;
+  rejectionReason: string | null;
+  invoiceId: string | null;
+  createdAt: string;
+}
+
+const getExpenseStatusColor = (status: ExpenseStatus) => {
+  switch (status) {
+    case 'approved': return 'bg-green-100 text-green-700';
+    case 'rejected': return 'bg-red-100 text-red-700';
+    default: return 'bg-yellow-100 text-yellow-700';
+  }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Non-labour project costs with their receipts. Employees submit expenses;
+// admins approve or reject them, and approved ones count as project cost.
+export const ExpensesPanel: React.FC<{
+  projectId: string;
+  isAdmin: boolean;
+  currentUserId?: string;
+  defaultCurrency: string;
+  onUpdated?: () => void;
+}> = ({ projectId, isAdmin, currentUserId, defaultCurrency, onUpdated }) => {
+  const emptyForm = {
+    category: 'travel' as ExpenseCategory,
+    description: '',
+    amount: '',
+    currency: defaultCurrency,
+    expenseDate: localDateKey(),
+    isBillable: true,
+  };
+
+  const [expenses, setExpenses] = useState<ProjectExpense[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [busyExpenseId, setBusyExpenseId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { startUpload } = useUploadThing('expenseReceipt');
+
+  useEffect(() => {
+    fetchExpenses();
+  }, [projectId]);
+
+  const fetchExpenses = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/expenses`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch expenses');
+      }
+
+      setExpenses(data.expenses || []);
+    } catch (error) {
+      console.error('Error fetching expenses:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.description.trim() || !formData.amount || !formData.expenseDate) {
+      alert('Description, amount and date are required');
+      return;
+    }
+
+    if (!receipt) {
+      alert('Attach a receipt');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const uploaded = await startUpload([receipt]);
+      if (!uploaded || uploaded.length === 0) {
+        throw new Error('Failed to upload receipt');
+      }
+
+      const response = await fetch(`/api/projects/${projectId}/expenses`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          amount: parseFloat(formData.amount),
+          receiptKey: uploaded[0].key,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit expense');
+      }
+
+      setFormData(emptyForm);
+      setReceipt(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      await fetchExpenses();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to submit expense');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReview = async (expense: ProjectExpense, status: 'approved' | 'rejected') => {
+    let rejectionReason: string | null = null;
+    if (status === 'rejected') {
+      rejectionReason = prompt('Why is this expense rejected?');
+      if (!rejectionReason?.trim()) return;
+    }
+
+    setBusyExpenseId(expense.id);
+    try {
+      const response = await fetch(`/api/expenses/${expense.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, rejectionReason }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update expense');
+      }
+
+      await fetchExpenses();
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update expense');
+    } finally {
+      setBusyExpenseId(null);
+    }
+  };
+
+  const handleDelete = async (expense: ProjectExpense) => {
+    if (!confirm('Delete this expense and its receipt?')) {
+      return;
+    }
+
+    setBusyExpenseId(expense.id);
+    try {
+      const response = await fetch(`/api/expenses/${expense.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete expense');
+      }
+
+      setExpenses(prev => prev.filter(e => e.id !== expense.id));
+      if (expense.status === 'approved') onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete expense');
+    } finally {
+      setBusyExpenseId(null);
+    }
+  };
+
+  const canDelete = (expense: ProjectExpense) =>
+    !expense.invoiceId &&
+    (isAdmin || (expense.submittedBy === currentUserId && expense.status === 'pending'));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Expenses</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Travel, software licences and subcontractors. Approved expenses count as project cost; billable ones are rebilled at cost on the next invoice.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+          <select
+            value={formData.category}
+            onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value as ExpenseCategory }))}
+            disabled={isSubmitting}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            {EXPENSE_CATEGORIES.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            type="text"
+            value={formData.description}
+            onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+            disabled={isSubmitting}
+            maxLength={500}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            placeholder="e.g. Flight to client site"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+          <div className="flex gap-1">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.amount}
+              onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+              disabled={isSubmitting}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={formData.currency}
+              onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
+              disabled={isSubmitting}
+              className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+          <input
+            type="date"
+            value={formData.expenseDate}
+            max={localDateKey()}
+            onChange={(e) => setFormData(prev => ({ ...prev, expenseDate: e.target.value }))}
+            disabled={isSubmitting}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Billable</label>
+          <select
+            value={formData.isBillable ? 'yes' : 'no'}
+            onChange={(e) => setFormData(prev => ({ ...prev, isBillable: e.target.value === 'yes' }))}
+            disabled={isSubmitting}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="yes">Rebill to client</option>
+            <option value="no">Not billable</option>
+          </select>
+        </div>
+        <div className="md:col-span-5">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,application/pdf"
+            onChange={(e) => setReceipt(e.target.files?.[0] ?? null)}
+            disabled={isSubmitting}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSubmitting}
+            className="flex items-center gap-2 text-sm text-gray-700 hover:text-blue-600 disabled:opacity-50"
+          >
+            <Paperclip className="w-4 h-4" />
+            {receipt ? receipt.name : 'Attach receipt (image or PDF, up to 8MB)'}
+          </button>
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Submit
+        </button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : expenses.length === 0 ? (
+        <p className="text-sm text-gray-500">No expenses yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Date</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Expense</th>
+                {isAdmin && <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Submitted By</th>}
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Amount</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Receipt</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {expenses.map((expense) => (
+                <tr key={expense.id}>
+                  <td className="px-4 py-3 text-sm text-gray-600">{formatDate(expense.expenseDate)}</td>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{expense.description}</p>
+                    <p className="text-xs text-gray-500">
+                      {expenseCategoryLabel(expense.category)}
+                      {' · '}
+                      {expense.isBillable ? 'Billable' : 'Not billable'}
+                      {expense.invoiceId && ' · Invoiced'}
+                    </p>
+                  </td>
+                  {isAdmin && (
+                    <td className="px-4 py-3 text-sm text-gray-700">{expense.submittedByName || 'Unknown'}</td>
+                  )}
+                  <td className="px-4 py-3 text-right font-semibold text-gray-900">
+                    {formatCurrency(expense.amount, expense.currency)}
+                  </td>
+                  <td className="px-4 py-3">
+                    <a
+                      href={expense.receiptUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                      title={expense.receiptName}
+                    >
+                      <FileText className="w-4 h-4" />
+                      View
+                    </a>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getExpenseStatusColor(expense.status)}`}>
+                      {expense.status}
+                    </span>
+                    {expense.status === 'rejected' && expense.rejectionReason && (
+                      <p className="text-xs text-red-600 mt-1">{expense.rejectionReason}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-3">
+                      {isAdmin && expense.status === 'pending' && (
+                        <>
+                          <button
+                            onClick={() => handleReview(expense, 'approved')}
+                            disabled={busyExpenseId === expense.id}
+                            className="flex items-center gap-1 text-sm text-green-600 hover:text-green-700 disabled:opacity-50"
+                          >
+                            <Check className="w-4 h-4" />
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleReview(expense, 'rejected')}
+                            disabled={busyExpenseId === expense.id}
+                            className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                          >
+                            <X className="w-4 h-4" />
+                            Reject
+                          </button>
+                        </>
+                      )}
+                      {canDelete(expense) && (
+                        <button
+                          onClick={() => handleDelete(expense)}
+                          disabled={busyExpenseId === expense.id}
+                          className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                          title="Delete expense"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,434 @@
+'use client';
+import { useEffect, useState } from "react";
+import { AlertTriangle, Loader2, Plus, Trash2 } from "lucide-react";
+import { formatCurrency, localDateKey } from "@/lib/costing";
+import { SUPPORTED_CURRENCIES } from "@/lib/currency";
+
+interface BillRate {
+  id: string;
+  employeeId: string | null;
+  employeeName: string | null;
+  hourlyRate: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+export interface EmployeeFinancials {
+  employeeId: string;
+  employeeName: string;
+  employeeEmail: string;
+  totalRevenue: number;
+  totalCost: number;
+  totalLoadedCost: number;
+  reportingRevenue: number;
+  reportingCost: number;
+  reportingLoadedCost: number;
+  grossMargin: number;
+  marginPercent: number | null;
+  loadedMarginPercent: number | null;
+}
+
+// Revenue and cost in their own currencies, plus the reporting-currency
+// figures the margin is calculated from. Loaded cost adds benefits,
+// facilities overhead and non-billable time to the direct labour cost.
+export interface ProjectFinancials {
+  totalRevenue: string;
+  totalCost: string;
+  loadedCost: string;
+  reportingRevenue: string;
+  reportingCost: string;
+  reportingLoadedCost: string;
+  unconvertedTasks: number;
+  // Approved expenses, in the cost currency and already included in the totals
+  expenseCost: string;
+  unconvertedExpenses: number;
+  grossMargin: string;
+  marginPercent: string | null;
+  loadedMarginPercent: string | null;
+}
+
+export interface ProjectCurrencies {
+  cost: string;
+  billing: string;
+  reporting: string;
+}
+
+const emptyForm = {
+  employeeId: '',
+  hourlyRate: '',
+  effectiveFrom: localDateKey(),
+  effectiveTo: '',
+};
+
+const formatPercent = (value: string | number | null) =>
+  value === null ? '—' : `${(typeof value === 'number' ? value : parseFloat(value)).toFixed(1)}%`;
+
+const getMarginColor = (value: string | number) =>
+  (typeof value === 'number' ? value : parseFloat(value)) < 0 ? 'text-red-600' : 'text-green-600';
+
+export const FinancialsPanel: React.FC<{
+  projectId: string;
+  financials: ProjectFinancials;
+  currencies: ProjectCurrencies;
+  employees: EmployeeFinancials[];
+  onUpdated?: () => void;
+}> = ({ projectId, financials, currencies, employees, onUpdated }) => {
+  const [billRates, setBillRates] = useState<BillRate[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isLoadingRates, setIsLoadingRates] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingRateId, setDeletingRateId] = useState<string | null>(null);
+  const [isSavingCurrency, setIsSavingCurrency] = useState(false);
+
+  useEffect(() => {
+    fetchBillRates();
+  }, [projectId]);
+
+  const fetchBillRates = async () => {
+    setIsLoadingRates(true);
+    try {
+      const response = await fetch(`/api/bill-rates?projectId=${projectId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch bill rates');
+      }
+
+      setBillRates(data.rates || []);
+    } catch (error) {
+      console.error('Error fetching bill rates:', error);
+    } finally {
+      setIsLoadingRates(false);
+    }
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.hourlyRate || !formData.effectiveFrom) {
+      alert('Bill rate and effective from are required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/bill-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId,
+          employeeId: formData.employeeId || null,
+          hourlyRate: parseFloat(formData.hourlyRate),
+          effectiveFrom: formData.effectiveFrom,
+          effectiveTo: formData.effectiveTo || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create bill rate');
+      }
+
+      setFormData(emptyForm);
+      await fetchBillRates();
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create bill rate');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteRate = async (rateId: string) => {
+    if (!confirm('Delete this bill rate? Revenue for the period it covered will no longer be calculated.')) {
+      return;
+    }
+
+    setDeletingRateId(rateId);
+    try {
+      const response = await fetch(`/api/bill-rates/${rateId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete bill rate');
+      }
+
+      setBillRates(prev => prev.filter(r => r.id !== rateId));
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete bill rate');
+    } finally {
+      setDeletingRateId(null);
+    }
+  };
+
+  const handleBillingCurrencyChange = async (billingCurrency: string) => {
+    if (!confirm(`Bill this project in ${billingCurrency}? Existing bill rates will be read as ${billingCurrency} amounts.`)) {
+      return;
+    }
+
+    setIsSavingCurrency(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ billingCurrency }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update billing currency');
+      }
+
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update billing currency');
+    } finally {
+      setIsSavingCurrency(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+      <div className="flex justify-between items-baseline">
+        <h3 className="text-lg font-semibold text-gray-900">Financials</h3>
+        <p className="text-xs text-gray-500">Reported in {currencies.reporting}</p>
+      </div>
+
+      {financials.unconvertedTasks > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {financials.unconvertedTasks} approved task{financials.unconvertedTasks > 1 ? 's have' : ' has'} no
+          exchange rate for {financials.unconvertedTasks > 1 ? 'their' : 'its'} work date and {financials.unconvertedTasks > 1 ? 'are' : 'is'} left out of the margin.
+        </div>
+      )}
+
+      {financials.unconvertedExpenses > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {financials.unconvertedExpenses} approved expense{financials.unconvertedExpenses > 1 ? 's have' : ' has'} no
+          exchange rate for {financials.unconvertedExpenses > 1 ? 'their' : 'its'} date and {financials.unconvertedExpenses > 1 ? 'are' : 'is'} left out of the totals.
+        </div>
+      )}
+
+      {/* Project totals */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500 mb-1">Revenue</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(financials.reportingRevenue, currencies.reporting)}</p>
+          {currencies.billing !== currencies.reporting && (
+            <p className="text-xs text-gray-500 mt-1">{formatCurrency(financials.totalRevenue, currencies.billing)} billed</p>
+          )}
+        </div>
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500 mb-1">Cost</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(financials.reportingCost, currencies.reporting)}</p>
+          {currencies.cost !== currencies.reporting && (
+            <p className="text-xs text-gray-500 mt-1">{formatCurrency(financials.totalCost, currencies.cost)} incurred</p>
+          )}
+          {parseFloat(financials.expenseCost) > 0 && (
+            <p className="text-xs text-gray-500 mt-1">incl. {formatCurrency(financials.expenseCost, currencies.cost)} expenses</p>
+          )}
+          {financials.reportingLoadedCost !== financials.reportingCost && (
+            <p className="text-xs text-gray-500 mt-1">{formatCurrency(financials.reportingLoadedCost, currencies.reporting)} fully loaded</p>
+          )}
+        </div>
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500 mb-1">Gross Margin</p>
+          <p className={`text-2xl font-bold ${getMarginColor(financials.grossMargin)}`}>
+            {formatCurrency(financials.grossMargin, currencies.reporting)}
+          </p>
+        </div>
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500 mb-1">Margin %</p>
+          <p className={`text-2xl font-bold ${getMarginColor(financials.marginPercent || '0')}`}>
+            {formatPercent(financials.marginPercent)}
+          </p>
+          {financials.loadedMarginPercent !== financials.marginPercent && (
+            <p className="text-xs text-gray-500 mt-1">{formatPercent(financials.loadedMarginPercent)} fully loaded</p>
+          )}
+        </div>
+      </div>
+
+      {/* Margin per employee */}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Employee</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Revenue</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Cost</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Loaded Cost</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Gross Margin</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Margin %</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {employees.map((employee) => (
+              <tr key={employee.employeeId || 'unknown'}>
+                <td className="px-6 py-3">
+                  <p className="font-medium text-gray-900">{employee.employeeName}</p>
+                  <p className="text-sm text-gray-500">{employee.employeeEmail}</p>
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">
+                  {formatCurrency(employee.reportingRevenue, currencies.reporting)}
+                  {currencies.billing !== currencies.reporting && (
+                    <p className="text-xs text-gray-500">{formatCurrency(employee.totalRevenue, currencies.billing)}</p>
+                  )}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">
+                  {formatCurrency(employee.reportingCost, currencies.reporting)}
+                  {currencies.cost !== currencies.reporting && (
+                    <p className="text-xs text-gray-500">{formatCurrency(employee.totalCost, currencies.cost)}</p>
+                  )}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">
+                  {formatCurrency(employee.reportingLoadedCost, currencies.reporting)}
+                  {currencies.cost !== currencies.reporting && (
+                    <p className="text-xs text-gray-500">{formatCurrency(employee.totalLoadedCost, currencies.cost)}</p>
+                  )}
+                </td>
+                <td className={`px-6 py-3 text-sm font-semibold ${getMarginColor(employee.grossMargin)}`}>
+                  {formatCurrency(employee.grossMargin, currencies.reporting)}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">
+                  {formatPercent(employee.marginPercent)}
+                  {employee.loadedMarginPercent !== employee.marginPercent && (
+                    <p className="text-xs text-gray-500">{formatPercent(employee.loadedMarginPercent)} loaded</p>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Bill rates */}
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h4 className="font-semibold text-gray-900">Bill Rates</h4>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Billing currency
+            <select
+              value={currencies.billing}
+              onChange={(e) => handleBillingCurrencyChange(e.target.value)}
+              disabled={isSavingCurrency}
+              className="px-3 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            >
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <form onSubmit={handleAddRate} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Applies To</label>
+            <select
+              value={formData.employeeId}
+              onChange={(e) => setFormData(prev => ({ ...prev, employeeId: e.target.value }))}
+              disabled={isSubmitting}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Whole project (default)</option>
+              {employees
+                .filter((employee) => employee.employeeId)
+                .map((employee) => (
+                  <option key={employee.employeeId} value={employee.employeeId}>
+                    {employee.employeeName}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Bill Rate / hour ({currencies.billing})</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.hourlyRate}
+              onChange={(e) => setFormData(prev => ({ ...prev, hourlyRate: e.target.value }))}
+              disabled={isSubmitting}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Effective From</label>
+            <input
+              type="date"
+              value={formData.effectiveFrom}
+              onChange={(e) => setFormData(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+              disabled={isSubmitting}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Effective To (optional)</label>
+            <input
+              type="date"
+              value={formData.effectiveTo}
+              onChange={(e) => setFormData(prev => ({ ...prev, effectiveTo: e.target.value }))}
+              disabled={isSubmitting}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add Bill Rate
+          </button>
+        </form>
+
+        {isLoadingRates ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : billRates.length === 0 ? (
+          <p className="text-sm text-gray-500">No bill rates yet. Revenue is only calculated for hours covered by a rate.</p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Applies To</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Rate</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Effective From</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Effective To</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {billRates.map((rate) => (
+                <tr key={rate.id}>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {rate.employeeId ? rate.employeeName || 'Unknown' : 'Whole project'}
+                  </td>
+                  <td className="px-6 py-3 text-sm font-semibold text-gray-900">{formatCurrency(rate.hourlyRate, currencies.billing)}</td>
+                  <td className="px-6 py-3 text-sm text-gray-600">{rate.effectiveFrom}</td>
+                  <td className="px-6 py-3 text-sm text-gray-600">{rate.effectiveTo || 'Current'}</td>
+                  <td className="px-6 py-3">
+                    <button
+                      onClick={() => handleDeleteRate(rate.id)}
+                      disabled={deletingRateId === rate.id}
+                      className="text-red-600 hover:text-red-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                    >
+                      {deletingRateId === rate.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
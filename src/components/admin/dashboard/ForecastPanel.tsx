@@ -0,0 +1,117 @@
+'use client';
+import { AlertTriangle } from "lucide-react";
+import { formatCurrency } from "@/lib/costing";
+
+export interface ProjectForecast {
+  earnedHours: number;
+  actualHours: number;
+  actualCost: number;
+  percentComplete: number | null;
+  cpi: number | null;
+  spi: number | null;
+  eacHours: number | null;
+  etcHours: number | null;
+  eacCost: number | null;
+  etcCost: number | null;
+  velocityHoursPerDay: number | null;
+  expectedFinishDate: string | null;
+  warnings: string[];
+  baseline: 'budget' | 'estimate' | null;
+  baselineHours: number | null;
+  baselineCost: number | null;
+}
+
+// Below 1 means over cost (CPI) or behind schedule (SPI)
+const getIndexColor = (value: number | null) => {
+  if (value === null) return 'text-gray-400';
+  if (value >= 1) return 'text-green-600';
+  if (value >= 0.9) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+const formatHours = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}h`);
+
+export const ForecastPanel: React.FC<{
+  forecast: ProjectForecast;
+  currency: string;
+}> = ({ forecast, currency }) => {
+  if (forecast.baseline === null) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Forecast</h3>
+        <p className="text-sm text-gray-500">
+          Set an hours budget or approve an estimate to forecast the cost and finish date of this project.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex justify-between items-baseline">
+        <h3 className="text-lg font-semibold text-gray-900">Forecast</h3>
+        <p className="text-xs text-gray-500">
+          Against the {forecast.baseline === 'budget' ? 'project budget' : 'approved estimate'}
+          {forecast.percentComplete !== null && ` · ${forecast.percentComplete.toFixed(0)}% complete`}
+        </p>
+      </div>
+
+      {forecast.warnings.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg space-y-1">
+          {forecast.warnings.map((warning) => (
+            <p key={warning} className="flex items-center gap-2 text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500 mb-1">Estimate at Completion</p>
+          <p className="text-2xl font-bold text-gray-900">{formatHours(forecast.eacHours)}</p>
+          <p className="text-sm text-gray-600 mt-1">
+            {forecast.eacCost !== null ? formatCurrency(forecast.eacCost, currency) : '—'}
+          </p>
+          <p className="text-xs text-gray-500 mt-2">Baseline {formatHours(forecast.baselineHours)}</p>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500 mb-1">Estimate to Complete</p>
+          <p className="text-2xl font-bold text-gray-900">{formatHours(forecast.etcHours)}</p>
+          <p className="text-sm text-gray-600 mt-1">
+            {forecast.etcCost !== null ? formatCurrency(forecast.etcCost, currency) : '—'}
+          </p>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500 mb-1">Performance</p>
+          <p className="text-lg font-semibold">
+            <span className={getIndexColor(forecast.cpi)}>CPI {forecast.cpi !== null ? forecast.cpi.toFixed(2) : '—'}</span>
+          </p>
+          <p className="text-lg font-semibold">
+            <span className={getIndexColor(forecast.spi)}>SPI {forecast.spi !== null ? forecast.spi.toFixed(2) : '—'}</span>
+          </p>
+          {forecast.spi === null && (
+            <p className="text-xs text-gray-500 mt-1">Set planned dates to track schedule</p>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500 mb-1">Expected Finish</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {forecast.expectedFinishDate
+              ? new Date(forecast.expectedFinishDate).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+              : '—'}
+          </p>
+          <p className="text-xs text-gray-500 mt-2">
+            {forecast.velocityHoursPerDay !== null
+              ? `At ${forecast.velocityHoursPerDay.toFixed(1)} earned hours/day`
+              : 'No approved work yet'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
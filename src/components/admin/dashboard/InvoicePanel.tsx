@@ -0,0 +1,507 @@
+'use client';
+import { useEffect, useState } from "react";
+import { Ban, CheckCircle2, Download, FileSpreadsheet, FileText, Link2, Loader2, Save, Send, Trash2 } from "lucide-react";
+import { formatCurrency, localDateKey } from "@/lib/costing";
+import { InvoiceStatus, PAYABLE_INVOICE_STATUSES } from "@/lib/invoice";
+import { GST_STATE_CODES, validateGstin } from "@/lib/gst";
+import { downloadInvoicePdf } from "@/utils/invoicePdf";
+import { exportInvoiceToExcel } from "@/utils/exportUtils";
+
+interface ProjectInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: InvoiceStatus;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  subtotal: string;
+  taxRate: string;
+  taxAmount: string;
+  supplyType: 'intra_state' | 'inter_state' | null;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  total: string;
+  amountPaid: string;
+  paymentLinkUrl: string | null;
+  dueDate: string | null;
+  issuedAt: string | null;
+  paidAt: string | null;
+  createdAt: string;
+  lineCount: number;
+}
+
+const getInvoiceStatusColor = (status: InvoiceStatus) => {
+  switch (status) {
+    case 'paid': return 'bg-green-100 text-green-700';
+    case 'partially_paid': return 'bg-yellow-100 text-yellow-700';
+    case 'issued': return 'bg-blue-100 text-blue-700';
+    case 'void': return 'bg-red-100 text-red-700';
+    default: return 'bg-gray-100 text-gray-700';
+  }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const firstOfMonth = () => {
+  const today = new Date();
+  return new Date(Date.UTC(today.getFullYear(), today.getMonth(), 1)).toISOString().split('T')[0];
+};
+
+// How the tax on an invoice was charged, e.g. "CGST 9% + SGST 9%"
+const describeTax = (invoice: ProjectInvoice) => {
+  const rate = parseFloat(invoice.taxRate);
+  if (invoice.supplyType === 'intra_state') return `CGST ${rate / 2}% + SGST ${rate / 2}%`;
+  if (invoice.supplyType === 'inter_state') return `IGST ${rate}%`;
+  return `tax ${rate}%`;
+};
+
+export const InvoicePanel: React.FC<{
+  projectId: string;
+  clientGstin: string | null;
+  placeOfSupply: string | null;
+  requiresClientSignoff?: boolean;
+  onUpdated?: () => void;
+}> = ({ projectId, clientGstin, placeOfSupply, requiresClientSignoff, onUpdated }) => {
+  const [invoices, setInvoices] = useState<ProjectInvoice[]>([]);
+  const [formData, setFormData] = useState({
+    periodStart: firstOfMonth(),
+    periodEnd: localDateKey(),
+    taxRate: '',
+    dueDate: '',
+  });
+  const [gstData, setGstData] = useState({ clientGstin: clientGstin || '', placeOfSupply: placeOfSupply || '' });
+  const [gstError, setGstError] = useState('');
+  const [isSavingGst, setIsSavingGst] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyInvoiceId, setBusyInvoiceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [projectId]);
+
+  useEffect(() => {
+    setGstData({ clientGstin: clientGstin || '', placeOfSupply: placeOfSupply || '' });
+  }, [clientGstin, placeOfSupply]);
+
+  const fetchInvoices = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/invoices`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch invoices');
+      }
+
+      setInvoices(data.invoices || []);
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsCreating(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/invoices`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          periodStart: formData.periodStart,
+          periodEnd: formData.periodEnd,
+          // Left blank, the organisation's default GST rate applies
+          taxRate: formData.taxRate === '' ? undefined : parseFloat(formData.taxRate),
+          dueDate: formData.dueDate || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create invoice');
+      }
+
+      await fetchInvoices();
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create invoice');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSaveGst = async () => {
+    const gstin = gstData.clientGstin.trim().toUpperCase();
+    const error = gstin ? validateGstin(gstin) : null;
+    if (error) {
+      setGstError(error);
+      return;
+    }
+
+    setGstError('');
+    setIsSavingGst(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientGstin: gstin || null, placeOfSupply: gstData.placeOfSupply || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save GST details');
+      }
+
+      onUpdated?.();
+    } catch (error) {
+      setGstError(error instanceof Error ? error.message : 'Failed to save GST details');
+    } finally {
+      setIsSavingGst(false);
+    }
+  };
+
+  const handleStatusChange = async (invoice: ProjectInvoice, status: InvoiceStatus) => {
+    if (status === 'void' && !confirm(`Void ${invoice.invoiceNumber}? Its tasks will become available to invoice again.`)) {
+      return;
+    }
+
+    setBusyInvoiceId(invoice.id);
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}/status`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update invoice');
+      }
+
+      await fetchInvoices();
+      if (status === 'void') onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update invoice');
+    } finally {
+      setBusyInvoiceId(null);
+    }
+  };
+
+  const handlePaymentLink = async (invoice: ProjectInvoice) => {
+    setBusyInvoiceId(invoice.id);
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}/payment-link`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create payment link');
+      }
+
+      setInvoices(prev => prev.map(i => (i.id === invoice.id ? { ...i, paymentLinkUrl: data.paymentLink.url } : i)));
+      await navigator.clipboard?.writeText(data.paymentLink.url).catch(() => undefined);
+      alert(`Payment link copied to clipboard:\n${data.paymentLink.url}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create payment link');
+    } finally {
+      setBusyInvoiceId(null);
+    }
+  };
+
+  const handleDelete = async (invoice: ProjectInvoice) => {
+    if (!confirm(`Delete draft ${invoice.invoiceNumber}?`)) {
+      return;
+    }
+
+    setBusyInvoiceId(invoice.id);
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete invoice');
+      }
+
+      setInvoices(prev => prev.filter(i => i.id !== invoice.id));
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete invoice');
+    } finally {
+      setBusyInvoiceId(null);
+    }
+  };
+
+  const handleDownload = async (invoice: ProjectInvoice, format: 'pdf' | 'excel') => {
+    setBusyInvoiceId(invoice.id);
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch invoice');
+      }
+
+      if (format === 'pdf') {
+        downloadInvoicePdf(data.invoice);
+      } else {
+        exportInvoiceToExcel(data.invoice);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to download invoice');
+    } finally {
+      setBusyInvoiceId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+      <h3 className="text-lg font-semibold text-gray-900">Invoices</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Client GSTIN</label>
+          <input
+            type="text"
+            maxLength={15}
+            value={gstData.clientGstin}
+            onChange={(e) => setGstData(prev => ({ ...prev, clientGstin: e.target.value.toUpperCase() }))}
+            disabled={isSavingGst}
+            placeholder="Unregistered client"
+            className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Place of Supply</label>
+          <select
+            value={gstData.placeOfSupply}
+            onChange={(e) => setGstData(prev => ({ ...prev, placeOfSupply: e.target.value }))}
+            disabled={isSavingGst}
+            className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">From client GSTIN</option>
+            {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+              <option key={code} value={code}>{code} - {name}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleSaveGst}
+          disabled={isSavingGst}
+          className="flex items-center justify-center gap-2 border border-gray-300 px-4 py-2 rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isSavingGst ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save GST Details
+        </button>
+      </div>
+      {gstError && <p className="text-sm text-red-600 -mt-4">{gstError}</p>}
+
+      {requiresClientSignoff && (
+        <p className="text-sm text-gray-500">Only hours the client has accepted are invoiced.</p>
+      )}
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Period Start</label>
+          <input
+            type="date"
+            value={formData.periodStart}
+            onChange={(e) => setFormData(prev => ({ ...prev, periodStart: e.target.value }))}
+            disabled={isCreating}
+            className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Period End</label>
+          <input
+            type="date"
+            value={formData.periodEnd}
+            onChange={(e) => setFormData(prev => ({ ...prev, periodEnd: e.target.value }))}
+            disabled={isCreating}
+            className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tax %</label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            placeholder="Default GST rate"
+            value={formData.taxRate}
+            onChange={(e) => setFormData(prev => ({ ...prev, taxRate: e.target.value }))}
+            disabled={isCreating}
+            className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Due Date (optional)</label>
+          <input
+            type="date"
+            value={formData.dueDate}
+            onChange={(e) => setFormData(prev => ({ ...prev, dueDate: e.target.value }))}
+            disabled={isCreating}
+            className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+          Create Draft
+        </button>
+      </form>
+      <p className="text-xs text-gray-500 -mt-4">
+        Collects approved tasks in the period that are not on another invoice, priced at their bill rates.
+        GST is split into CGST + SGST or IGST by comparing the place of supply with your registered state.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : invoices.length === 0 ? (
+        <p className="text-sm text-gray-500">No invoices yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Invoice</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Period</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Total</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invoices.map((invoice) => {
+                const isBusy = busyInvoiceId === invoice.id;
+                return (
+                  <tr key={invoice.id}>
+                    <td className="px-6 py-3">
+                      <p className="font-medium text-gray-900">{invoice.invoiceNumber}</p>
+                      <p className="text-xs text-gray-500">
+                        {invoice.lineCount} line{invoice.lineCount === 1 ? '' : 's'}
+                        {invoice.dueDate && ` · due ${formatDate(invoice.dueDate)}`}
+                      </p>
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-600">
+                      {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}
+                    </td>
+                    <td className="px-6 py-3 text-sm">
+                      <p className="font-semibold text-gray-900">{formatCurrency(invoice.total, invoice.currency)}</p>
+                      {parseFloat(invoice.taxAmount) > 0 && (
+                        <p className="text-xs text-gray-500">
+                          incl. {formatCurrency(invoice.taxAmount, invoice.currency)} {describeTax(invoice)}
+                        </p>
+                      )}
+                      {parseFloat(invoice.amountPaid) > 0 && (
+                        <p className="text-xs text-green-700">
+                          {formatCurrency(invoice.amountPaid, invoice.currency)} received
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-3">
+                      <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${getInvoiceStatusColor(invoice.status)}`}>
+                        {(invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)).replace('_', ' ')}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className="flex flex-wrap items-center gap-3 text-sm">
+                        <button
+                          onClick={() => handleDownload(invoice, 'pdf')}
+                          disabled={isBusy}
+                          className="text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                        >
+                          {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                          PDF
+                        </button>
+                        <button
+                          onClick={() => handleDownload(invoice, 'excel')}
+                          disabled={isBusy}
+                          className="text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                        >
+                          <FileSpreadsheet className="w-4 h-4" />
+                          Excel
+                        </button>
+                        {invoice.status === 'draft' && (
+                          <button
+                            onClick={() => handleStatusChange(invoice, 'issued')}
+                            disabled={isBusy}
+                            className="text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                          >
+                            <Send className="w-4 h-4" />
+                            Issue
+                          </button>
+                        )}
+                        {PAYABLE_INVOICE_STATUSES.includes(invoice.status) && (
+                          invoice.paymentLinkUrl ? (
+                            <a
+                              href={invoice.paymentLinkUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                            >
+                              <Link2 className="w-4 h-4" />
+                              Payment Link
+                            </a>
+                          ) : (
+                            <button
+                              onClick={() => handlePaymentLink(invoice)}
+                              disabled={isBusy}
+                              className="text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                            >
+                              <Link2 className="w-4 h-4" />
+                              Create Payment Link
+                            </button>
+                          )
+                        )}
+                        {PAYABLE_INVOICE_STATUSES.includes(invoice.status) && (
+                          <button
+                            onClick={() => handleStatusChange(invoice, 'paid')}
+                            disabled={isBusy}
+                            className="text-green-600 hover:text-green-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                          >
+                            <CheckCircle2 className="w-4 h-4" />
+                            Mark Paid
+                          </button>
+                        )}
+                        {(invoice.status === 'draft' || invoice.status === 'issued') && (
+                          <button
+                            onClick={() => handleStatusChange(invoice, 'void')}
+                            disabled={isBusy}
+                            className="text-red-600 hover:text-red-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                          >
+                            <Ban className="w-4 h-4" />
+                            Void
+                          </button>
+                        )}
+                        {invoice.status === 'draft' && (
+                          <button
+                            onClick={() => handleDelete(invoice)}
+                            disabled={isBusy}
+                            className="text-red-600 hover:text-red-700 font-medium flex items-center gap-1 disabled:opacity-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { Calendar, ChevronRight, Trash2 } from "lucide-react";
+import { Building2, Calendar, ChevronRight, Trash2 } from "lucide-react";
 
 interface Project {
   id: string;
@@ -6,6 +6,7 @@ interface Project {
   description: string | null;
   createdBy: string;
   isActive: boolean;
+  clientName?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -22,6 +23,12 @@ export const ProjectCard: React.FC<{
         <h3 className="text-xl font-semibold text-gray-900 group-hover:text-blue-600 transition-colors">
           {project.projectName}
         </h3>
+        {project.clientName && (
+          <p className="flex items-center gap-1 text-sm text-gray-500 mt-1">
+            <Building2 className="w-4 h-4" />
+            {project.clientName}
+          </p>
+        )}
       </div>
       <div className="flex items-center gap-2">
         {isAdmin && (
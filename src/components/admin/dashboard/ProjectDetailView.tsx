@@ -1,10 +1,24 @@
-import { useEffect, useState } from "react";
-import { CheckCircle2, Clock, Edit2, Loader2, TrendingDown, TrendingUp, X, Trash2, CheckSquare, Square, Star, MessageSquare } from "lucide-react";
+import { Fragment, useEffect, useState } from "react";
+import { CheckCircle2, Clock, Edit2, Loader2, TrendingDown, TrendingUp, X, Trash2, CheckSquare, Square, Star, MessageSquare, ListChecks } from "lucide-react";
 import DownloadButton from '@/components/DownloadButton';
 import SearchBox from '@/components/SearchBox';
 import Navigation from "@/components/pages/Navbar";
 import { exportSelectedTasksDetailedToExcel } from '@/utils/exportUtils';
 import { TaskReviewSection } from "./TaskReviewSection";
+import { formatCurrency, localDateKey } from "@/lib/costing";
+import { NON_BILLABLE_REASONS, NonBillableReason, nonBillableReasonLabel } from "@/lib/billable";
+import { BudgetPanel, ProjectBudget } from "./BudgetPanel";
+import { FinancialsPanel, ProjectCurrencies } from "./FinancialsPanel";
+import { InvoicePanel } from "./InvoicePanel";
+import { EstimatePanel, ProjectEstimate } from "./EstimatePanel";
+import { EstimateRange, EstimateRangePanel } from "./EstimateRangePanel";
+import { ForecastPanel, ProjectForecast } from "./ForecastPanel";
+import { ShareLinksPanel } from "./ShareLinksPanel";
+import { SignoffPanel } from "./SignoffPanel";
+import { UtilisationPanel } from "./UtilisationPanel";
+import { ExpensesPanel } from "./ExpensesPanel";
+import { DailyHours, DailyHoursPanel } from "./DailyHoursPanel";
+import { TimeEntriesPanel, TimeEntry } from "./TimeEntriesPanel";
 
 // ==================== TYPES ====================
 interface Project {
@@ -13,22 +27,58 @@ interface Project {
   description: string | null;
   createdBy: string;
   isActive: boolean;
+  plannedStartDate?: string | null;
+  plannedEndDate?: string | null;
+  billingCurrency?: string;
+  clientGstin?: string | null;
+  placeOfSupply?: string | null;
+  clientId?: string | null;
+  clientName?: string | null;
+  requiresClientSignoff?: boolean;
+  defaultBillable?: boolean;
+  defaultNonBillableReason?: NonBillableReason | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface Client {
+  id: string;
+  legalName: string;
+}
+
 interface Task {
   taskId: string;
   taskName: string;
   description: string | null;
   expectedHours: string;
+  optimisticHours: string | null;
+  mostLikelyHours: string | null;
+  pessimisticHours: string | null;
+  estimateStdDev: string | null;
   actualHours: string;
   status: 'pending' | 'approved' | 'rejected';
   approvedAt: string ;
+  workDate: string;
   createdAt: string;
   employeeId: string;
   employeeName: string;
   employeeEmail: string;
+  hourlyRate: string | null;
+  rateMultiplier: number | null;
+  multiplierReason: string | null;
+  cost: string | null;
+  loadedCost: string | null;
+  billRate: string | null;
+  revenue: string | null;
+  reportingCost: string | null;
+  reportingLoadedCost: string | null;
+  reportingRevenue: string | null;
+  estimateLineItemId: string | null;
+  invoiceId: string | null;
+  clientSignoffStatus: 'pending' | 'accepted' | 'disputed' | null;
+  isBillable: boolean;
+  nonBillableReason: NonBillableReason | null;
+  entries: TimeEntry[];
 }
 
 interface Review {
@@ -53,13 +103,28 @@ interface EmployeeSummary {
   totalTasks: number;
   totalExpectedHours: number;
   totalActualHours: number;
+  totalCost: number;
+  totalLoadedCost: number;
+  totalRevenue: number;
+  reportingCost: number;
+  reportingLoadedCost: number;
+  reportingRevenue: number;
+  grossMargin: number;
+  marginPercent: number | null;
+  loadedMarginPercent: number | null;
   pendingTasks: number;
   approvedTasks: number;
   rejectedTasks: number;
+  billableHours: number;
+  nonBillableHours: number;
+  billableCost: number;
+  nonBillableCost: number;
+  utilisationPercent: number | null;
 }
 
 interface ProjectDetails {
   project: Project;
+  currencies: ProjectCurrencies;
   tasks: Task[];
   summary: {
     totalTasks: number;
@@ -67,26 +132,64 @@ interface ProjectDetails {
     totalActualHours: string;
     variance: string;
     variancePercentage: string;
+    totalCost: string;
+    labourCost: string;
+    labourLoadedCost: string;
+    loadedCost: string;
+    expenseCost: string;
+    billableExpenseCost: string;
+    uncostedHours: string;
+    totalRevenue: string;
+    reportingCost: string;
+    reportingLoadedCost: string;
+    reportingRevenue: string;
+    unconvertedTasks: number;
+    unconvertedExpenses: number;
+    grossMargin: string;
+    marginPercent: string | null;
+    loadedMarginPercent: string | null;
+    estimateRange: EstimateRange;
+    billableHours: string;
+    nonBillableHours: string;
+    billableCost: string;
+    nonBillableCost: string;
+    nonBillableByReason: { reason: NonBillableReason; hours: string; cost: string }[];
+    utilisationPercent: string | null;
+    dailyHours: DailyHours[];
   };
+  budget: ProjectBudget;
+  forecast: ProjectForecast;
   employees: EmployeeSummary[];
 }
 
 export const ProjectDetailView: React.FC<{
   projectDetails: ProjectDetails;
   onBack: () => void;
+  onRefresh?: () => void;
   isLoading: boolean;
-}> = ({ projectDetails, onBack, isLoading }) => {
+}> = ({ projectDetails, onBack, onRefresh, isLoading }) => {
 
-  const { project, tasks, summary, employees } = projectDetails;
+  const { project, currencies, tasks, summary, employees } = projectDetails;
 
   // ✅ Local State (tasks copy)
   const [allTasks, setAllTasks] = useState<Task[]>(tasks);
 
+  // Entry changes come back through a refresh of the project
+  useEffect(() => {
+    setAllTasks(tasks);
+  }, [tasks]);
+
+  // The task whose time entries are open below its row
+  const [entriesTaskId, setEntriesTaskId] = useState<string | null>(null);
+
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   const [editedTaskName, setEditedTaskName] = useState('');
   const [editedExpectedHours, setEditedExpectedHours] = useState('');
   const [editedStatus, setEditedStatus] = useState<'pending' | 'approved' | 'rejected'>('pending');
   const [editedDate, setEditedDate] = useState('');
+  const [editedLineItemId, setEditedLineItemId] = useState('');
+  // '' for billable work, otherwise the reason it is not billable
+  const [editedNonBillableReason, setEditedNonBillableReason] = useState<NonBillableReason | ''>('');
   const [isSaving, setIsSaving] = useState(false);
   const [deletingTaskId, setDeletingTaskId] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
@@ -103,6 +206,76 @@ export const ProjectDetailView: React.FC<{
   // ✅ Review State - only selectedTaskForReview needed
   const [selectedTaskForReview, setSelectedTaskForReview] = useState<Task | null>(null);
 
+  // Estimates
+  const [estimates, setEstimates] = useState<ProjectEstimate[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [isSavingClient, setIsSavingClient] = useState(false);
+
+  const fetchEstimates = async () => {
+    try {
+      const response = await fetch(`/api/projects/${project.id}/estimates`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch estimates');
+      }
+
+      setEstimates(data.estimates || []);
+    } catch (error) {
+      console.error('Error fetching estimates:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchEstimates();
+  }, [project.id]);
+
+  useEffect(() => {
+    const fetchClients = async () => {
+      try {
+        const response = await fetch('/api/clients');
+        const data = await response.json();
+        if (response.ok) setClients(data.clients || []);
+      } catch (error) {
+        console.error('Error fetching clients:', error);
+      }
+    };
+    fetchClients();
+  }, []);
+
+  const handleClientChange = async (clientId: string) => {
+    setIsSavingClient(true);
+    try {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientId: clientId || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update client');
+      }
+
+      onRefresh?.();
+    } catch (error) {
+      console.error('Error updating client:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update client');
+    } finally {
+      setIsSavingClient(false);
+    }
+  };
+
+  // Tasks can be mapped to the line items of approved estimates
+  const mappableLineItems = estimates
+    .filter(estimate => estimate.status === 'approved')
+    .flatMap(estimate =>
+      estimate.lineItems.map(item => ({
+        id: item.id,
+        label: `${estimate.title} › ${item.workPackage} (${item.role})`,
+      }))
+    );
+
   
   // Filter tasks based on search
   useEffect(() => {
@@ -196,7 +369,9 @@ export const ProjectDetailView: React.FC<{
     setEditedExpectedHours(task.expectedHours);
     // ✅ Auto-approve if status is pending
     setEditedStatus(task.status === 'pending' ? 'approved' : task.status);
-    setEditedDate(new Date(task.createdAt).toISOString().split('T')[0]);
+    setEditedDate(task.workDate);
+    setEditedLineItemId(task.estimateLineItemId || '');
+    setEditedNonBillableReason(task.isBillable ? '' : task.nonBillableReason || 'internal');
   };
 
   const handleCancelEdit = () => {
@@ -204,6 +379,8 @@ export const ProjectDetailView: React.FC<{
     setEditedTaskName('');
     setEditedExpectedHours('');
     setEditedDate('');
+    setEditedLineItemId('');
+    setEditedNonBillableReason('');
   };
 
   const handleSaveEdit = async (taskId: string) => {
@@ -219,33 +396,50 @@ export const ProjectDetailView: React.FC<{
     }
 
     if (!editedDate) {
-      alert('Please select a date');
+      alert('Please select a work date');
       return;
     }
 
     // ✅ Validate date is not in future
-    const selectedDate = new Date(editedDate);
-    const today = new Date();
-    today.setHours(23, 59, 59, 999);
-    
-    if (selectedDate > today) {
-      alert('Cannot select a future date');
+    if (editedDate > localDateKey()) {
+      alert('Work date cannot be in the future');
       return;
     }
 
     setIsSaving(true);
 
     try {
-      const response = await fetch(`/api/tasks/${taskId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          taskName: editedTaskName.trim(),
-          expectedHours: expectedHoursNum,
-          status: editedStatus,
-          createdAt: editedDate,
-        }),
-      });
+      const saveTask = (adjustmentReason?: string) =>
+        fetch(`/api/tasks/${taskId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            taskName: editedTaskName.trim(),
+            expectedHours: expectedHoursNum,
+            status: editedStatus,
+            workDate: editedDate,
+            estimateLineItemId: editedLineItemId || null,
+            isBillable: editedNonBillableReason === '',
+            nonBillableReason: editedNonBillableReason || null,
+            adjustmentReason,
+          }),
+        });
+
+      let response = await saveTask();
+
+      // Hours already exported to payroll, or in a locked period, change
+      // through an adjustment
+      if (response.status === 409) {
+        const data = await response.json();
+        if (!data.payPeriodLocked && !data.periodLocked) {
+          throw new Error(data.error || 'Failed to update task');
+        }
+        const reason = prompt(`${data.error}\n\nReason for the adjustment:`);
+        if (!reason?.trim()) {
+          return;
+        }
+        response = await saveTask(reason.trim());
+      }
 
       if (!response.ok) {
         const data = await response.json();
@@ -260,7 +454,10 @@ export const ProjectDetailView: React.FC<{
                 taskName: editedTaskName,
                 expectedHours: editedExpectedHours,
                 status: editedStatus,
-                createdAt: editedDate,
+                workDate: editedDate,
+                estimateLineItemId: editedLineItemId || null,
+                isBillable: editedNonBillableReason === '',
+                nonBillableReason: editedNonBillableReason || null,
                 updatedAt: new Date().toISOString(),
               }
             : t
@@ -275,7 +472,10 @@ export const ProjectDetailView: React.FC<{
                 taskName: editedTaskName,
                 expectedHours: editedExpectedHours,
                 status: editedStatus,
-                createdAt: editedDate,
+                workDate: editedDate,
+                estimateLineItemId: editedLineItemId || null,
+                isBillable: editedNonBillableReason === '',
+                nonBillableReason: editedNonBillableReason || null,
                 updatedAt: new Date().toISOString(),
               }
             : t
@@ -287,6 +487,10 @@ export const ProjectDetailView: React.FC<{
       setEditedExpectedHours('');
       setEditedStatus('pending');
       setEditedDate('');
+      setEditedLineItemId('');
+
+      // Mapped hours feed the estimate comparison
+      fetchEstimates();
 
     } catch (error) {
       console.error('Error updating task:', error);
@@ -305,10 +509,24 @@ export const ProjectDetailView: React.FC<{
     setDeletingTaskId(taskId);
 
     try {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      let response = await fetch(`/api/tasks/${taskId}`, {
         method: 'DELETE',
       });
 
+      if (response.status === 409) {
+        const data = await response.json();
+        if (!data.payPeriodLocked && !data.periodLocked) {
+          throw new Error(data.error || 'Failed to delete task');
+        }
+        const reason = prompt(`${data.error}\n\nReason for the adjustment:`);
+        if (!reason?.trim()) {
+          return;
+        }
+        response = await fetch(`/api/tasks/${taskId}?adjustmentReason=${encodeURIComponent(reason.trim())}`, {
+          method: 'DELETE',
+        });
+      }
+
       if (!response.ok) {
         const data = await response.json();
         throw new Error(data.error || 'Failed to delete task');
@@ -411,6 +629,21 @@ export const ProjectDetailView: React.FC<{
               <h2 className="text-2xl font-bold text-gray-900">{project.projectName}</h2>
               <p className="text-gray-500 mt-1">{project.description || 'No description'}</p>
             </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="projectClient" className="text-sm font-medium text-gray-700">Client</label>
+              <select
+                id="projectClient"
+                value={project.clientId || ''}
+                onChange={(e) => handleClientChange(e.target.value)}
+                disabled={isSavingClient}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+              >
+                <option value="">No client</option>
+                {clients.map((client) => (
+                  <option key={client.id} value={client.id}>{client.legalName}</option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
 
@@ -431,9 +664,109 @@ export const ProjectDetailView: React.FC<{
             <p className="text-sm text-gray-500 mb-1">Actual Hours</p>
             <p className="text-3xl font-bold text-purple-600">{parseFloat(summary.totalActualHours).toFixed(1)}</p>
           </div>
+
+          <div className="bg-white p-6 rounded-lg border border-gray-200">
+            <p className="text-sm text-gray-500 mb-1">Approved Cost</p>
+            <p className="text-3xl font-bold text-emerald-600">{formatCurrency(summary.totalCost, currencies.cost)}</p>
+            {summary.loadedCost !== summary.totalCost && (
+              <p className="text-xs text-gray-500 mt-1">{formatCurrency(summary.loadedCost, currencies.cost)} fully loaded</p>
+            )}
+            {parseFloat(summary.uncostedHours) > 0 && (
+              <p className="text-xs text-amber-600 mt-2">
+                {parseFloat(summary.uncostedHours).toFixed(1)}h approved without a rate
+              </p>
+            )}
+          </div>
         </div>
 
 
+        {/* P50/P80/P90 range */}
+        <EstimateRangePanel estimateRange={summary.estimateRange} currency={currencies.cost} />
+
+
+        {/* Budget Burn */}
+        <BudgetPanel
+          projectId={project.id}
+          budget={projectDetails.budget}
+          variance={summary.variance}
+          variancePercentage={summary.variancePercentage}
+          plannedStartDate={project.plannedStartDate ?? null}
+          plannedEndDate={project.plannedEndDate ?? null}
+          currency={currencies.cost}
+          onUpdated={onRefresh}
+        />
+
+
+        {/* EAC / ETC Forecast */}
+        <ForecastPanel forecast={projectDetails.forecast} currency={currencies.cost} />
+
+
+        {/* Revenue, Cost & Margin */}
+        <FinancialsPanel
+          projectId={project.id}
+          financials={summary}
+          currencies={currencies}
+          employees={employees}
+          onUpdated={onRefresh}
+        />
+
+
+        {/* Billable vs Non-billable */}
+        <UtilisationPanel
+          projectId={project.id}
+          utilisation={summary}
+          employees={employees}
+          costCurrency={currencies.cost}
+          defaultBillable={project.defaultBillable ?? true}
+          defaultNonBillableReason={project.defaultNonBillableReason ?? null}
+          onUpdated={onRefresh}
+        />
+
+
+        {/* Logged Hours per Day */}
+        <DailyHoursPanel dailyHours={summary.dailyHours} />
+
+
+        {/* Project Expenses */}
+        <ExpensesPanel
+          projectId={project.id}
+          isAdmin
+          defaultCurrency={currencies.cost}
+          onUpdated={onRefresh}
+        />
+
+
+        {/* Client Sign-off */}
+        <SignoffPanel
+          projectId={project.id}
+          clientId={project.clientId || null}
+          requiresClientSignoff={project.requiresClientSignoff ?? false}
+          onUpdated={onRefresh}
+        />
+
+
+        {/* Invoices */}
+        <InvoicePanel
+          projectId={project.id}
+          clientGstin={project.clientGstin || null}
+          placeOfSupply={project.placeOfSupply || null}
+          requiresClientSignoff={project.requiresClientSignoff ?? false}
+          onUpdated={onRefresh}
+        />
+
+
+        {/* Client Portal */}
+        <ShareLinksPanel projectId={project.id} />
+
+
+        {/* Estimate Builder */}
+        <EstimatePanel
+          projectId={project.id}
+          estimates={estimates}
+          onChanged={fetchEstimates}
+        />
+
+
         {/* TASK TABLE */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           <div className="p-6 border-b border-gray-200">
@@ -463,16 +796,19 @@ export const ProjectDetailView: React.FC<{
                   <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Description</th>
                   <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Expected</th>
                   <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Actual</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Cost</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Revenue</th>
                   <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Status</th>
-                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Date</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Work Date</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Approved</th>
                   <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Actions</th>
                 </tr>
               </thead>
 
               <tbody className="divide-y divide-gray-200">
                 {filteredTasks.map((task) => (
+                  <Fragment key={task.taskId}>
                   <tr 
-                    key={task.taskId} 
                     className={`hover:bg-gray-50 transition-colors ${
                       isTaskSelected(task.taskId) ? 'bg-blue-50' : ''
                     }`}
@@ -506,6 +842,27 @@ export const ProjectDetailView: React.FC<{
                       ) : (
                         <p className="font-medium text-gray-900">{task.taskName}</p>
                       )}
+                      {editingTaskId === task.taskId ? (
+                        mappableLineItems.length > 0 && (
+                          <select
+                            value={editedLineItemId}
+                            onChange={(e) => setEditedLineItemId(e.target.value)}
+                            className="mt-2 w-full px-2 py-1 text-sm border border-blue-300 rounded focus:ring-2 focus:ring-blue-500"
+                            disabled={isSaving}
+                          >
+                            <option value="">Not mapped to estimate</option>
+                            {mappableLineItems.map(item => (
+                              <option key={item.id} value={item.id}>{item.label}</option>
+                            ))}
+                          </select>
+                        )
+                      ) : (
+                        task.estimateLineItemId && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {mappableLineItems.find(item => item.id === task.estimateLineItemId)?.label || 'Mapped to estimate'}
+                          </p>
+                        )
+                      )}
                     </td>
 
                     <td className="px-6 py-4 max-w-md">
@@ -524,14 +881,57 @@ export const ProjectDetailView: React.FC<{
                           disabled={isSaving}
                         />
                       ) : (
-                        <span className="font-semibold text-gray-900">
-                          {parseFloat(task.expectedHours).toFixed(1)}h
-                        </span>
+                        <div>
+                          <span className="font-semibold text-gray-900">
+                            {parseFloat(task.expectedHours).toFixed(1)}h
+                          </span>
+                          {task.estimateStdDev !== null && (
+                            <p className="text-xs text-gray-500" title={`${task.optimisticHours} / ${task.mostLikelyHours} / ${task.pessimisticHours}h`}>
+                              ±{parseFloat(task.estimateStdDev).toFixed(1)}h
+                            </p>
+                          )}
+                        </div>
                       )}
                     </td>
 
                     <td className="px-6 py-4 font-semibold text-gray-900">
                       {parseFloat(task.actualHours).toFixed(1)}h
+                      {task.entries.length > 1 && (
+                        <p className="text-xs font-normal text-gray-500">{task.entries.length} entries</p>
+                      )}
+                    </td>
+
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {task.cost !== null ? formatCurrency(task.cost, currencies.cost) : '—'}
+                      {task.cost !== null && task.multiplierReason && (
+                        <p className="text-xs text-amber-700" title={task.multiplierReason}>
+                          ×{task.rateMultiplier} · {task.multiplierReason}
+                        </p>
+                      )}
+                    </td>
+
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {editingTaskId === task.taskId ? (
+                        <select
+                          value={editedNonBillableReason}
+                          onChange={(e) => setEditedNonBillableReason(e.target.value as NonBillableReason | '')}
+                          className="px-2 py-1 border border-blue-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          disabled={isSaving || !!task.invoiceId}
+                        >
+                          <option value="">Billable</option>
+                          {NON_BILLABLE_REASONS.map((reason) => (
+                            <option key={reason.value} value={reason.value}>Non-billable: {reason.label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <>
+                          {task.revenue !== null ? formatCurrency(task.revenue, currencies.billing) : '—'}
+                          {!task.isBillable && (
+                            <p className="text-xs text-amber-700">Non-billable · {nonBillableReasonLabel(task.nonBillableReason)}</p>
+                          )}
+                        </>
+                      )}
+                      {task.invoiceId && <p className="text-xs text-blue-600">Invoiced</p>}
                     </td>
 
                     <td className="px-6 py-4">
@@ -552,29 +952,33 @@ export const ProjectDetailView: React.FC<{
                           {task.status}
                         </span>
                       )}
+                      {project.requiresClientSignoff && task.clientSignoffStatus && editingTaskId !== task.taskId && (
+                        <p className={`text-xs mt-1 ${task.clientSignoffStatus === 'accepted' ? 'text-green-700' : task.clientSignoffStatus === 'disputed' ? 'text-red-700' : 'text-gray-500'}`}>
+                          client {task.clientSignoffStatus}
+                        </p>
+                      )}
                     </td>
 
-                    {/* <td className="px-6 py-4">
+                    <td className="px-6 py-4">
                       {editingTaskId === task.taskId ? (
                         <input
                           type="date"
                           value={editedDate}
                           onChange={(e) => setEditedDate(e.target.value)}
-                          max={new Date().toISOString().split('T')[0]}
+                          max={localDateKey()}
                           className="px-2 py-1 border border-blue-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                           disabled={isSaving}
                         />
                       ) : (
                         <span className="text-sm text-gray-600">
-                          {new Date(task.createdAt).toLocaleDateString('en-IN', {
+                          {new Date(task.workDate).toLocaleDateString('en-IN', {
                             day: '2-digit',
                             month: 'short',
                             year: 'numeric'
                           })}
                         </span>
                       )}
-
-                    </td> */}
+                    </td>
 
                     <td className="px-6 py-4"> 
                         {new Date(task.approvedAt).toLocaleDateString('en-IN', {
@@ -639,11 +1043,32 @@ export const ProjectDetailView: React.FC<{
                             <Star className="w-4 h-4" />
                             Reviews
                           </button>
+
+                          <button
+                            onClick={() => setEntriesTaskId(entriesTaskId === task.taskId ? null : task.taskId)}
+                            className="text-gray-700 hover:text-gray-900 font-medium flex items-center gap-1"
+                          >
+                            <ListChecks className="w-4 h-4" />
+                            Entries
+                          </button>
                         </div>
                       )}
                     </td>
 
                   </tr>
+                  {entriesTaskId === task.taskId && (
+                    <tr>
+                      <td colSpan={12} className="px-6 py-4 bg-gray-50">
+                        <TimeEntriesPanel
+                          taskId={task.taskId}
+                          isAdmin
+                          isInvoiced={!!task.invoiceId}
+                          onUpdated={onRefresh}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                  </Fragment>
                 ))}
               </tbody>
             </table>
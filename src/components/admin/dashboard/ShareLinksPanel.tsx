@@ -0,0 +1,301 @@
+'use client';
+import { useEffect, useState } from "react";
+import { Ban, Check, ChevronDown, ChevronRight, Copy, Eye, Loader2, Plus } from "lucide-react";
+
+interface ShareLink {
+  id: string;
+  label: string | null;
+  expiresAt: string;
+  revokedAt: string | null;
+  lastViewedAt: string | null;
+  viewCount: number;
+  createdByName: string | null;
+  createdAt: string;
+  status: 'active' | 'expired' | 'revoked';
+  url: string | null;
+}
+
+interface ShareLinkView {
+  id: string;
+  viewedAt: string;
+  page: string | null;
+  invoiceNumber: string | null;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+const getLinkStatusColor = (status: ShareLink['status']) => {
+  switch (status) {
+    case 'active': return 'bg-green-100 text-green-700';
+    case 'revoked': return 'bg-red-100 text-red-700';
+    default: return 'bg-gray-100 text-gray-700';
+  }
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Signed links to the read-only client portal for a project, or for all of a
+// client's projects when `clientId` is given instead.
+export const ShareLinksPanel: React.FC<{
+  projectId?: string;
+  clientId?: string;
+}> = ({ projectId, clientId }) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [formData, setFormData] = useState({ label: '', expiresInDays: '30' });
+  const [expandedLinkId, setExpandedLinkId] = useState<string | null>(null);
+  const [views, setViews] = useState<ShareLinkView[]>([]);
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyLinkId, setBusyLinkId] = useState<string | null>(null);
+
+  const scopeQuery = projectId ? `projectId=${projectId}` : `clientId=${clientId}`;
+
+  useEffect(() => {
+    fetchLinks();
+  }, [projectId, clientId]);
+
+  const fetchLinks = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/share-links?${scopeQuery}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch share links');
+      }
+
+      setLinks(data.shareLinks || []);
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/share-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: projectId || null,
+          clientId: clientId || null,
+          label: formData.label,
+          expiresInDays: parseInt(formData.expiresInDays, 10),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create share link');
+      }
+
+      setFormData(prev => ({ ...prev, label: '' }));
+      fetchLinks();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    if (!link.url) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopiedLinkId(link.id);
+      setTimeout(() => setCopiedLinkId(null), 2000);
+    } catch (error) {
+      prompt('Copy the portal link:', link.url);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? Anyone using it loses access immediately.')) {
+      return;
+    }
+
+    setBusyLinkId(link.id);
+    try {
+      const response = await fetch(`/api/share-links/${link.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to revoke share link');
+      }
+
+      fetchLinks();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to revoke share link');
+    } finally {
+      setBusyLinkId(null);
+    }
+  };
+
+  const handleToggleViews = async (link: ShareLink) => {
+    if (expandedLinkId === link.id) {
+      setExpandedLinkId(null);
+      return;
+    }
+
+    setBusyLinkId(link.id);
+    try {
+      const response = await fetch(`/api/share-links/${link.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch views');
+      }
+
+      setViews(data.views || []);
+      setExpandedLinkId(link.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to fetch views');
+    } finally {
+      setBusyLinkId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Client Portal Links</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Read-only view of approved hours, cost against budget and invoices. No login is needed; every view is recorded.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+          <input
+            type="text"
+            value={formData.label}
+            onChange={(e) => setFormData(prev => ({ ...prev, label: e.target.value }))}
+            disabled={isCreating}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            placeholder="e.g. Sent to finance team"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Valid for (days)</label>
+          <input
+            type="number"
+            min="1"
+            max="365"
+            step="1"
+            value={formData.expiresInDays}
+            onChange={(e) => setFormData(prev => ({ ...prev, expiresInDays: e.target.value }))}
+            disabled={isCreating}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Create Link
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500">No links shared yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {links.map((link) => (
+            <div key={link.id} className="p-4">
+              <div className="flex flex-col md:flex-row md:items-center gap-3">
+                <button
+                  onClick={() => handleToggleViews(link)}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Show views"
+                >
+                  {expandedLinkId === link.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">{link.label || 'Untitled link'}</p>
+                  <p className="text-xs text-gray-500">
+                    Created {formatDateTime(link.createdAt)}
+                    {link.createdByName && ` by ${link.createdByName}`}
+                    {' · '}
+                    {link.status === 'revoked' && link.revokedAt
+                      ? `revoked ${formatDateTime(link.revokedAt)}`
+                      : `${link.status === 'expired' ? 'expired' : 'expires'} ${formatDateTime(link.expiresAt)}`}
+                  </p>
+                </div>
+                <span className="flex items-center gap-1 text-sm text-gray-600" title="Views">
+                  <Eye className="w-4 h-4" />
+                  {link.viewCount}
+                </span>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${getLinkStatusColor(link.status)}`}>
+                  {link.status}
+                </span>
+                {link.status === 'active' && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleCopy(link)}
+                      className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      {copiedLinkId === link.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      {copiedLinkId === link.id ? 'Copied' : 'Copy'}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(link)}
+                      disabled={busyLinkId === link.id}
+                      className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      <Ban className="w-4 h-4" />
+                      Revoke
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {expandedLinkId === link.id && (
+                <div className="mt-3 ml-7">
+                  {views.length === 0 ? (
+                    <p className="text-sm text-gray-500">Not viewed yet.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500 uppercase">
+                          <th className="py-1">Viewed</th>
+                          <th className="py-1">Page</th>
+                          <th className="py-1">IP</th>
+                          <th className="py-1">Browser</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {views.map((view) => (
+                          <tr key={view.id}>
+                            <td className="py-1 text-gray-700">{formatDateTime(view.viewedAt)}</td>
+                            <td className="py-1 text-gray-700">
+                              {view.page === 'invoice' ? `Invoice ${view.invoiceNumber}` : 'Summary'}
+                            </td>
+                            <td className="py-1 text-gray-600">{view.ip || '—'}</td>
+                            <td className="py-1 text-gray-500 truncate max-w-xs" title={view.userAgent || ''}>
+                              {view.userAgent || '—'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,390 @@
+'use client';
+import { useEffect, useState } from "react";
+import { Ban, ChevronDown, ChevronRight, Loader2, Send } from "lucide-react";
+import { localDateKey } from "@/lib/costing";
+
+type SignoffStatus = 'sent' | 'completed' | 'cancelled';
+type LineStatus = 'pending' | 'accepted' | 'disputed';
+
+interface SignoffRequest {
+  id: string;
+  contactName: string;
+  contactEmail: string;
+  periodStart: string;
+  periodEnd: string;
+  status: SignoffStatus;
+  expiresAt: string;
+  respondedAt: string | null;
+  createdAt: string;
+  totalHours: string;
+  lineCount: number;
+  acceptedCount: number;
+  disputedCount: number;
+}
+
+interface SignoffLine {
+  id: string;
+  taskName: string;
+  employeeName: string | null;
+  workDate: string;
+  hours: string;
+  status: LineStatus;
+  comment: string | null;
+}
+
+interface ClientContact {
+  id: string;
+  name: string;
+  email: string | null;
+  isPrimary: boolean;
+}
+
+const getSignoffStatusColor = (status: SignoffStatus | LineStatus) => {
+  switch (status) {
+    case 'completed':
+    case 'accepted': return 'bg-green-100 text-green-700';
+    case 'sent': return 'bg-blue-100 text-blue-700';
+    case 'disputed': return 'bg-red-100 text-red-700';
+    default: return 'bg-gray-100 text-gray-700';
+  }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const firstOfMonth = () => {
+  const today = new Date();
+  return new Date(Date.UTC(today.getFullYear(), today.getMonth(), 1)).toISOString().split('T')[0];
+};
+
+// Client countersigning of approved hours. When a project requires it, only
+// tasks the client accepted can be invoiced.
+export const SignoffPanel: React.FC<{
+  projectId: string;
+  clientId: string | null;
+  requiresClientSignoff: boolean;
+  onUpdated?: () => void;
+}> = ({ projectId, clientId, requiresClientSignoff, onUpdated }) => {
+  const [signoffs, setSignoffs] = useState<SignoffRequest[]>([]);
+  const [contacts, setContacts] = useState<ClientContact[]>([]);
+  const [formData, setFormData] = useState({
+    contactId: '',
+    periodStart: firstOfMonth(),
+    periodEnd: localDateKey(),
+  });
+  const [expandedSignoffId, setExpandedSignoffId] = useState<string | null>(null);
+  const [lines, setLines] = useState<SignoffLine[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isToggling, setIsToggling] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [busySignoffId, setBusySignoffId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSignoffs();
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!clientId) {
+      setContacts([]);
+      return;
+    }
+
+    const fetchContacts = async () => {
+      try {
+        const response = await fetch(`/api/clients/${clientId}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch client contacts');
+        }
+
+        const withEmail: ClientContact[] = (data.client.contacts || []).filter((contact: ClientContact) => contact.email);
+        setContacts(withEmail);
+        setFormData(prev => ({
+          ...prev,
+          contactId: (withEmail.find((contact) => contact.isPrimary) || withEmail[0])?.id || '',
+        }));
+      } catch (error) {
+        console.error('Error fetching client contacts:', error);
+      }
+    };
+    fetchContacts();
+  }, [clientId]);
+
+  const fetchSignoffs = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/signoffs`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch sign-off requests');
+      }
+
+      setSignoffs(data.signoffs || []);
+    } catch (error) {
+      console.error('Error fetching sign-off requests:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleRequired = async () => {
+    setIsToggling(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requiresClientSignoff: !requiresClientSignoff }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update project');
+      }
+
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update project');
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/signoffs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send sign-off request');
+      }
+
+      await fetchSignoffs();
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to send sign-off request');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCancel = async (signoff: SignoffRequest) => {
+    if (!confirm(`Withdraw the request sent to ${signoff.contactName}? Its link stops working.`)) {
+      return;
+    }
+
+    setBusySignoffId(signoff.id);
+    try {
+      const response = await fetch(`/api/signoffs/${signoff.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to withdraw sign-off request');
+      }
+
+      await fetchSignoffs();
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to withdraw sign-off request');
+    } finally {
+      setBusySignoffId(null);
+    }
+  };
+
+  const handleToggleLines = async (signoff: SignoffRequest) => {
+    if (expandedSignoffId === signoff.id) {
+      setExpandedSignoffId(null);
+      return;
+    }
+
+    setBusySignoffId(signoff.id);
+    try {
+      const response = await fetch(`/api/signoffs/${signoff.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch sign-off lines');
+      }
+
+      setLines(data.signoff.lines || []);
+      setExpandedSignoffId(signoff.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to fetch sign-off lines');
+    } finally {
+      setBusySignoffId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Client Sign-off</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            {requiresClientSignoff
+              ? 'The client accepts or disputes approved hours by email. Only accepted hours can be invoiced.'
+              : 'Approved hours can be invoiced without the client countersigning them.'}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={requiresClientSignoff}
+            onChange={handleToggleRequired}
+            disabled={isToggling}
+            className="w-4 h-4"
+          />
+          Require client sign-off
+        </label>
+      </div>
+
+      {requiresClientSignoff && (
+        !clientId ? (
+          <p className="text-sm text-amber-700">Assign the project to a client to send hours for sign-off.</p>
+        ) : contacts.length === 0 ? (
+          <p className="text-sm text-amber-700">Add a client contact with an email address to send hours for sign-off.</p>
+        ) : (
+          <form onSubmit={handleSend} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Send to</label>
+              <select
+                value={formData.contactId}
+                onChange={(e) => setFormData(prev => ({ ...prev, contactId: e.target.value }))}
+                disabled={isSending}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {contacts.map((contact) => (
+                  <option key={contact.id} value={contact.id}>{contact.name} ({contact.email})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                value={formData.periodStart}
+                onChange={(e) => setFormData(prev => ({ ...prev, periodStart: e.target.value }))}
+                disabled={isSending}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="date"
+                value={formData.periodEnd}
+                onChange={(e) => setFormData(prev => ({ ...prev, periodEnd: e.target.value }))}
+                disabled={isSending}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSending || !formData.contactId}
+              className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Send for Sign-off
+            </button>
+          </form>
+        )
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : signoffs.length === 0 ? (
+        requiresClientSignoff && <p className="text-sm text-gray-500">No hours sent for sign-off yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {signoffs.map((signoff) => (
+            <div key={signoff.id} className="p-4">
+              <div className="flex flex-col md:flex-row md:items-center gap-3">
+                <button
+                  onClick={() => handleToggleLines(signoff)}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Show lines"
+                >
+                  {expandedSignoffId === signoff.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">
+                    {formatDate(signoff.periodStart)} – {formatDate(signoff.periodEnd)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Sent to {signoff.contactName} ({signoff.contactEmail}) on {formatDate(signoff.createdAt)}
+                    {signoff.respondedAt && ` · answered ${formatDate(signoff.respondedAt)}`}
+                  </p>
+                </div>
+                <span className="text-sm text-gray-600">
+                  {signoff.lineCount} lines · {parseFloat(signoff.totalHours).toFixed(2)}h
+                </span>
+                {signoff.status === 'completed' && (
+                  <span className="text-sm">
+                    <span className="text-green-700">{signoff.acceptedCount} accepted</span>
+                    {signoff.disputedCount > 0 && <span className="text-red-700"> · {signoff.disputedCount} disputed</span>}
+                  </span>
+                )}
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${getSignoffStatusColor(signoff.status)}`}>
+                  {signoff.status === 'sent' && new Date(signoff.expiresAt) <= new Date() ? 'expired' : signoff.status}
+                </span>
+                {signoff.status === 'sent' && (
+                  <button
+                    onClick={() => handleCancel(signoff)}
+                    disabled={busySignoffId === signoff.id}
+                    className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    <Ban className="w-4 h-4" />
+                    Withdraw
+                  </button>
+                )}
+              </div>
+
+              {expandedSignoffId === signoff.id && (
+                <div className="mt-3 ml-7">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="py-1">Date</th>
+                        <th className="py-1">Task</th>
+                        <th className="py-1">Employee</th>
+                        <th className="py-1 text-right">Hours</th>
+                        <th className="py-1 pl-4">Answer</th>
+                        <th className="py-1">Comment</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {lines.map((line) => (
+                        <tr key={line.id}>
+                          <td className="py-1 text-gray-700">{formatDate(line.workDate)}</td>
+                          <td className="py-1 text-gray-900">{line.taskName}</td>
+                          <td className="py-1 text-gray-700">{line.employeeName || '—'}</td>
+                          <td className="py-1 text-right text-gray-900">{parseFloat(line.hours).toFixed(2)}</td>
+                          <td className="py-1 pl-4">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getSignoffStatusColor(line.status)}`}>
+                              {line.status}
+                            </span>
+                          </td>
+                          <td className="py-1 text-gray-600">{line.comment || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,360 @@
+'use client';
+import { useEffect, useState } from "react";
+import { Moment } from "moment";
+import { Check, Clock, Loader2, Plus, Trash2, X } from "lucide-react";
+import TimeRangePicker from "@/components/shared/TimeRangePicker";
+import { EntryStatus } from "@/lib/time-entries";
+import { localDateKey } from "@/lib/costing";
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  entryDate: string;
+  hours: string;
+  startTime: string | null;
+  endTime: string | null;
+  note: string | null;
+  status: EntryStatus;
+  approvedAt: string | null;
+  createdAt: string;
+}
+
+const getEntryStatusColor = (status: EntryStatus) => {
+  switch (status) {
+    case 'approved': return 'bg-green-100 text-green-700';
+    case 'rejected': return 'bg-red-100 text-red-700';
+    default: return 'bg-yellow-100 text-yellow-700';
+  }
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Sends a time entry change; when it touches hours already exported to
+// payroll or in a locked period, an admin gives the reason for the adjustment
+// and it is sent again
+async function sendEntryChange(send: (adjustmentReason?: string) => Promise<Response>, fallbackError: string) {
+  let response = await send();
+
+  if (response.status === 409) {
+    const data = await response.json();
+    if (!data.payPeriodLocked && !data.periodLocked) {
+      throw new Error(data.error || fallbackError);
+    }
+    const reason = prompt(`${data.error}\n\nReason for the adjustment:`);
+    if (!reason?.trim()) {
+      return false;
+    }
+    response = await send(reason.trim());
+  }
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || fallbackError);
+  }
+
+  return true;
+}
+
+// The time logged on one task, entry by entry. Employees log more time until
+// the task is approved and remove entries still waiting for approval; admins
+// approve or reject each entry on its own.
+export const TimeEntriesPanel: React.FC<{
+  taskId: string;
+  isAdmin: boolean;
+  isInvoiced: boolean;
+  isApproved?: boolean;
+  onUpdated?: () => void;
+}> = ({ taskId, isAdmin, isInvoiced, isApproved = false, onUpdated }) => {
+  const emptyForm = {
+    entryDate: localDateKey(),
+    hours: '',
+    note: '',
+    useTimeRange: false,
+  };
+
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [timeRange, setTimeRange] = useState<{ start: Moment | undefined; end: Moment | undefined }>({
+    start: undefined,
+    end: undefined,
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [busyEntryId, setBusyEntryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [taskId]);
+
+  const fetchEntries = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/entries`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch time entries');
+      }
+
+      setEntries(data.entries || []);
+    } catch (error) {
+      console.error('Error fetching time entries:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.entryDate) {
+      alert('Please select a date');
+      return;
+    }
+
+    if (formData.useTimeRange && (!timeRange.start || !timeRange.end)) {
+      alert('Pick a start and an end time');
+      return;
+    }
+
+    if (!formData.useTimeRange && !(parseFloat(formData.hours) > 0)) {
+      alert('Hours must be greater than 0');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const saved = await sendEntryChange(
+        (adjustmentReason) =>
+          fetch(`/api/tasks/${taskId}/entries`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              entryDate: formData.entryDate,
+              ...(formData.useTimeRange
+                ? { startTime: timeRange.start!.format('HH:mm'), endTime: timeRange.end!.format('HH:mm') }
+                : { hours: parseFloat(formData.hours) }),
+              note: formData.note,
+              adjustmentReason,
+            }),
+          }),
+        'Failed to log time'
+      );
+      if (!saved) return;
+
+      setFormData(emptyForm);
+      setTimeRange({ start: undefined, end: undefined });
+      await fetchEntries();
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to log time');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReview = async (entry: TimeEntry, status: 'approved' | 'rejected') => {
+    setBusyEntryId(entry.id);
+    try {
+      const saved = await sendEntryChange(
+        (adjustmentReason) =>
+          fetch(`/api/time-entries/${entry.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ status, adjustmentReason }),
+          }),
+        'Failed to update time entry'
+      );
+      if (!saved) return;
+
+      await fetchEntries();
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update time entry');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  const handleDelete = async (entry: TimeEntry) => {
+    if (!confirm('Delete this time entry?')) {
+      return;
+    }
+
+    setBusyEntryId(entry.id);
+    try {
+      const saved = await sendEntryChange(
+        (adjustmentReason) =>
+          fetch(
+            `/api/time-entries/${entry.id}${adjustmentReason ? `?adjustmentReason=${encodeURIComponent(adjustmentReason)}` : ''}`,
+            { method: 'DELETE' }
+          ),
+        'Failed to delete time entry'
+      );
+      if (!saved) return;
+
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete time entry');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  // The last entry goes with its task
+  const canDelete = (entry: TimeEntry) =>
+    !isInvoiced && entries.length > 1 && (isAdmin || entry.status === 'pending');
+
+  return (
+    <div className="space-y-4">
+      {!isInvoiced && isApproved && !isAdmin && (
+        <p className="text-sm text-gray-600">This task has been approved. Log further time on a new task.</p>
+      )}
+      {!isInvoiced && (isAdmin || !isApproved) && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+            <input
+              type="date"
+              value={formData.entryDate}
+              max={localDateKey()}
+              onChange={(e) => setFormData(prev => ({ ...prev, entryDate: e.target.value }))}
+              disabled={isSubmitting}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+              <input
+                type="checkbox"
+                checked={formData.useTimeRange}
+                onChange={(e) => setFormData(prev => ({ ...prev, useTimeRange: e.target.checked }))}
+                disabled={isSubmitting}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Start and end time
+            </label>
+            {formData.useTimeRange ? (
+              <TimeRangePicker onTimeChange={setTimeRange} />
+            ) : (
+              <input
+                type="number"
+                min="0"
+                max="24"
+                step="0.25"
+                value={formData.hours}
+                onChange={(e) => setFormData(prev => ({ ...prev, hours: e.target.value }))}
+                disabled={isSubmitting}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                placeholder="Hours"
+              />
+            )}
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+            <input
+              type="text"
+              value={formData.note}
+              onChange={(e) => setFormData(prev => ({ ...prev, note: e.target.value }))}
+              disabled={isSubmitting}
+              maxLength={1000}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              placeholder="What was done"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Log Time
+          </button>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No time entries yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Time</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-gray-600 uppercase">Hours</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Note</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-4 py-2 text-sm text-gray-600">{formatDate(entry.entryDate)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600">
+                    {entry.startTime && entry.endTime ? (
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {entry.startTime}–{entry.endTime}
+                      </span>
+                    ) : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-right font-semibold text-gray-900">
+                    {parseFloat(entry.hours).toFixed(2)}h
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{entry.note || '—'}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getEntryStatusColor(entry.status)}`}>
+                      {entry.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center gap-3">
+                      {isAdmin && !isInvoiced && entry.status !== 'approved' && (
+                        <button
+                          onClick={() => handleReview(entry, 'approved')}
+                          disabled={busyEntryId === entry.id}
+                          className="flex items-center gap-1 text-sm text-green-600 hover:text-green-700 disabled:opacity-50"
+                        >
+                          <Check className="w-4 h-4" />
+                          Approve
+                        </button>
+                      )}
+                      {isAdmin && !isInvoiced && entry.status !== 'rejected' && (
+                        <button
+                          onClick={() => handleReview(entry, 'rejected')}
+                          disabled={busyEntryId === entry.id}
+                          className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          <X className="w-4 h-4" />
+                          Reject
+                        </button>
+                      )}
+                      {canDelete(entry) && (
+                        <button
+                          onClick={() => handleDelete(entry)}
+                          disabled={busyEntryId === entry.id}
+                          className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                          title="Delete time entry"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+'use client';
+import { X } from "lucide-react";
+import { TimesheetRow } from "@/lib/timesheets";
+
+const formatDay = (value: string) => {
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return {
+    weekday: date.toLocaleDateString('en-IN', { weekday: 'short', timeZone: 'UTC' }),
+    day: date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', timeZone: 'UTC' }),
+  };
+};
+
+const formatHours = (hours: number) => (hours === 0 ? '—' : hours.toFixed(2).replace(/\.?0+$/, ''));
+
+// A week of hours with tasks as rows and days as columns, and the totals of
+// both. With `onChange` the open days become inputs; invoiced rows and days
+// with approved hours stay read-only.
+export const TimesheetTable: React.FC<{
+  days: string[];
+  rows: TimesheetRow[];
+  values: Record<string, Record<string, string>>; // taskId → day → hours
+  onChange?: (taskId: string, day: string, value: string) => void;
+  onRemoveRow?: (taskId: string) => void;
+  removableTaskIds?: string[];
+}> = ({ days, rows, values, onChange, onRemoveRow, removableTaskIds = [] }) => {
+  const hoursOf = (taskId: string, day: string) => parseFloat(values[taskId]?.[day] || '0') || 0;
+  const rowTotal = (taskId: string) => days.reduce((sum, day) => sum + hoursOf(taskId, day), 0);
+  const dayTotal = (day: string) => rows.reduce((sum, row) => sum + hoursOf(row.taskId, day), 0);
+  const weekTotal = rows.reduce((sum, row) => sum + rowTotal(row.taskId), 0);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Project / Task</th>
+            {days.map((day) => (
+              <th key={day} className="px-2 py-3 text-center text-xs font-semibold text-gray-600 uppercase">
+                {formatDay(day).weekday}
+                <span className="block font-normal normal-case text-gray-500">{formatDay(day).day}</span>
+              </th>
+            ))}
+            <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Total</th>
+            {onRemoveRow && <th className="px-2 py-3"></th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {rows.map((row) => (
+            <tr key={row.taskId}>
+              <td className="px-4 py-2">
+                <p className="text-xs text-gray-500">{row.projectName || 'Unknown project'}</p>
+                <p className="font-medium text-gray-900">{row.taskName}</p>
+                {row.isInvoiced ? (
+                  <p className="text-xs text-blue-600">Invoiced</p>
+                ) : row.isApproved && (
+                  <p className="text-xs text-green-600">Approved</p>
+                )}
+              </td>
+              {days.map((day) => {
+                const isApproved = row.approvedDays.includes(day);
+                return (
+                  <td key={day} className="px-2 py-2 text-center">
+                    {onChange && !row.isInvoiced && !row.isApproved && !isApproved ? (
+                      <input
+                        type="number"
+                        min="0"
+                        max="24"
+                        step="0.25"
+                        value={values[row.taskId]?.[day] ?? ''}
+                        onChange={(e) => onChange(row.taskId, day, e.target.value)}
+                        className="w-16 px-2 py-1 text-center border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+                      />
+                    ) : (
+                      <span
+                        className={`text-sm ${isApproved ? 'text-green-700 font-medium' : 'text-gray-700'}`}
+                        title={isApproved ? 'Approved' : undefined}
+                      >
+                        {formatHours(hoursOf(row.taskId, day))}
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
+              <td className="px-4 py-2 text-right font-semibold text-gray-900">{formatHours(rowTotal(row.taskId))}</td>
+              {onRemoveRow && (
+                <td className="px-2 py-2">
+                  {removableTaskIds.includes(row.taskId) && (
+                    <button
+                      onClick={() => onRemoveRow(row.taskId)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove row"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="bg-gray-50 border-t border-gray-200">
+          <tr>
+            <td className="px-4 py-3 text-sm font-semibold text-gray-700">Total</td>
+            {days.map((day) => (
+              <td key={day} className="px-2 py-3 text-center text-sm font-semibold text-gray-900">
+                {formatHours(dayTotal(day))}
+              </td>
+            ))}
+            <td className="px-4 py-3 text-right font-bold text-purple-600">{formatHours(weekTotal)}</td>
+            {onRemoveRow && <td></td>}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+'use client';
+import { useEffect, useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import { formatCurrency } from "@/lib/costing";
+import { NON_BILLABLE_REASONS, NonBillableReason, nonBillableReasonLabel } from "@/lib/billable";
+
+export interface EmployeeUtilisation {
+  employeeId: string;
+  employeeName: string;
+  billableHours: number;
+  nonBillableHours: number;
+  billableCost: number;
+  nonBillableCost: number;
+  utilisationPercent: number | null;
+}
+
+// Approved hours and cost split by billability
+export interface ProjectUtilisation {
+  billableHours: string;
+  nonBillableHours: string;
+  billableCost: string;
+  nonBillableCost: string;
+  nonBillableByReason: { reason: NonBillableReason; hours: string; cost: string }[];
+  utilisationPercent: string | null;
+}
+
+const formatPercent = (value: string | number | null) =>
+  value === null ? '—' : `${(typeof value === 'number' ? value : parseFloat(value)).toFixed(1)}%`;
+
+// Billable against non-billable work, utilisation per employee, and the
+// billability new tasks on the project start with.
+export const UtilisationPanel: React.FC<{
+  projectId: string;
+  utilisation: ProjectUtilisation;
+  employees: EmployeeUtilisation[];
+  costCurrency: string;
+  defaultBillable: boolean;
+  defaultNonBillableReason: NonBillableReason | null;
+  onUpdated?: () => void;
+}> = ({ projectId, utilisation, employees, costCurrency, defaultBillable, defaultNonBillableReason, onUpdated }) => {
+  // '' for billable, otherwise the default non-billable reason
+  const [defaultReason, setDefaultReason] = useState<NonBillableReason | ''>(
+    defaultBillable ? '' : defaultNonBillableReason || 'internal'
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDefaultReason(defaultBillable ? '' : defaultNonBillableReason || 'internal');
+  }, [defaultBillable, defaultNonBillableReason]);
+
+  const handleSaveDefault = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          defaultBillable: defaultReason === '',
+          defaultNonBillableReason: defaultReason || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save the billing default');
+      }
+
+      onUpdated?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save the billing default');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const savedDefault = defaultBillable ? '' : defaultNonBillableReason || 'internal';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Billable Work & Utilisation</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Approved hours only. Non-billable work is costed but never invoiced.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">New tasks default to</label>
+            <select
+              value={defaultReason}
+              onChange={(e) => setDefaultReason(e.target.value as NonBillableReason | '')}
+              disabled={isSaving}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Billable</option>
+              {NON_BILLABLE_REASONS.map((reason) => (
+                <option key={reason.value} value={reason.value}>Non-billable: {reason.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={handleSaveDefault}
+            disabled={isSaving || defaultReason === savedDefault}
+            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 rounded-lg bg-gray-50">
+          <p className="text-sm text-gray-500">Billable</p>
+          <p className="text-2xl font-bold text-gray-900">{parseFloat(utilisation.billableHours).toFixed(1)}h</p>
+          <p className="text-sm text-gray-600">{formatCurrency(utilisation.billableCost, costCurrency)}</p>
+        </div>
+        <div className="p-4 rounded-lg bg-gray-50">
+          <p className="text-sm text-gray-500">Non-billable</p>
+          <p className="text-2xl font-bold text-amber-700">{parseFloat(utilisation.nonBillableHours).toFixed(1)}h</p>
+          <p className="text-sm text-gray-600">{formatCurrency(utilisation.nonBillableCost, costCurrency)}</p>
+          {utilisation.nonBillableByReason.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              {utilisation.nonBillableByReason
+                .map((row) => `${nonBillableReasonLabel(row.reason)} ${parseFloat(row.hours).toFixed(1)}h`)
+                .join(' · ')}
+            </p>
+          )}
+        </div>
+        <div className="p-4 rounded-lg bg-gray-50">
+          <p className="text-sm text-gray-500">Utilisation</p>
+          <p className="text-2xl font-bold text-blue-600">{formatPercent(utilisation.utilisationPercent)}</p>
+          <p className="text-sm text-gray-600">of approved hours were billable</p>
+        </div>
+      </div>
+
+      {employees.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Employee</th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Billable</th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Non-billable</th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Billable Cost</th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Non-billable Cost</th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Utilisation</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {employees.map((employee) => (
+                <tr key={employee.employeeId}>
+                  <td className="px-4 py-3 font-medium text-gray-900">{employee.employeeName}</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{employee.billableHours.toFixed(1)}h</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{employee.nonBillableHours.toFixed(1)}h</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(employee.billableCost, costCurrency)}</td>
+                  <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(employee.nonBillableCost, costCurrency)}</td>
+                  <td className="px-4 py-3 text-right font-semibold text-gray-900">{formatPercent(employee.utilisationPercent)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -58,15 +58,17 @@ const TimeRangePicker: React.FC<TimeRangePickerProps> = ({
     }
     setValue2(newValue2.clone());
     const minValidTime = newValue2.clone().subtract(1, "hours");
+    let start = value1;
   
     if (!value1 || !isAfterTime(value1, minValidTime)) {
-      setValue1(minValidTime);
+      start = minValidTime;
     } else if (value1 && isAfterTime(minValidTime, value1)) {
-      setValue1(minValidTime);
+      start = minValidTime;
     }
+    setValue1(start);
   
     if (onTimeChange) {
-      onTimeChange({ start: value1, end: newValue2.clone() });
+      onTimeChange({ start: start?.clone(), end: newValue2.clone() });
     }
   };
 
@@ -1,13 +1,20 @@
 'use client'
-import { useEffect, useState } from "react";
-import { Plus, Loader2, CheckCircle2, Clock, X, Star, StarOff } from "lucide-react";
+import { Fragment, useEffect, useState } from "react";
+import { Plus, Loader2, CheckCircle2, Clock, X, Star, StarOff, ListChecks } from "lucide-react";
 import { UserTaskReviewSection } from "./UserTaskReviewSection";
+import { TaskModal } from "./TaskModal";
+import { ExpensesPanel } from "@/components/admin/dashboard/ExpensesPanel";
+import { TimeEntriesPanel } from "@/components/admin/dashboard/TimeEntriesPanel";
+import { NonBillableReason, nonBillableReasonLabel } from "@/lib/billable";
 
 interface Project {
   id: string;
   projectName: string;
   description: string | null;
   isActive: boolean;
+  billingCurrency: string;
+  defaultBillable: boolean;
+  defaultNonBillableReason: NonBillableReason | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -20,7 +27,11 @@ interface Task {
   actualHours: string;
   status: 'pending' | 'approved' | 'rejected';
   approvedAt: string | null;
+  workDate: string;
   createdAt: string;
+  isBillable: boolean;
+  nonBillableReason: NonBillableReason | null;
+  invoiceId: string | null;
   employeeId: string;
   employeeName: string;
   employeeEmail: string;
@@ -38,6 +49,12 @@ interface ProjectDetails {
     variance: string;
     variancePercentage: string;
   };
+  employees: {
+    employeeId: string;
+    billableHours: number;
+    nonBillableHours: number;
+    utilisationPercent: number | null;
+  }[];
 }
 
 // Dynamic Star Rating Display Component
@@ -74,9 +91,12 @@ export const ProjectTasksView: React.FC<{
   const [totalProjectStars, setTotalProjectStars] = useState(0);
   const [totalReviews, setTotalReviews] = useState(0);
   const [loadingStars, setLoadingStars] = useState(true);
+  // The task whose time entries are open below its row
+  const [entriesTaskId, setEntriesTaskId] = useState<string | null>(null);
 
   const { project, tasks } = projectDetails;
   const myTasks = tasksWithStars.filter(t => t.employeeId === currentUserId);
+  const myUtilisation = (projectDetails.employees || []).find(e => e.employeeId === currentUserId);
 
   // Fetch stars for all tasks
   useEffect(() => {
@@ -218,6 +238,12 @@ export const ProjectTasksView: React.FC<{
           <p className="text-3xl font-bold text-purple-600">
             {myTasks.reduce((sum, t) => sum + parseFloat(t.actualHours), 0).toFixed(1)}
           </p>
+          {myUtilisation && myUtilisation.utilisationPercent !== null && (
+            <p className="text-xs text-gray-500 mt-2">
+              {myUtilisation.utilisationPercent.toFixed(1)}% of approved hours billable
+              ({myUtilisation.nonBillableHours.toFixed(1)}h non-billable)
+            </p>
+          )}
         </div>
 
         {/* Total Stars Card */}
@@ -250,7 +276,7 @@ export const ProjectTasksView: React.FC<{
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Description</th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Actual</th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Status</th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Date</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Work Date</th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Reviews</th>
               </tr>
             </thead>
@@ -262,7 +288,8 @@ export const ProjectTasksView: React.FC<{
                   : 0;
 
                 return (
-                  <tr key={task.taskId} className="hover:bg-gray-50 transition-colors">
+                  <Fragment key={task.taskId}>
+                  <tr className="hover:bg-gray-50 transition-colors">
                     <td className="px-6 py-4">
                       <div>
                         <p className="font-medium text-gray-900">{task.employeeName}</p>
@@ -277,6 +304,20 @@ export const ProjectTasksView: React.FC<{
                     </td>
                     <td className="px-6 py-4 font-semibold text-gray-900">
                       {parseFloat(task.actualHours).toFixed(1)}h
+                      {!task.isBillable && (
+                        <p className="text-xs font-normal text-amber-700">
+                          Non-billable · {nonBillableReasonLabel(task.nonBillableReason)}
+                        </p>
+                      )}
+                      {task.employeeId === currentUserId && (
+                        <button
+                          onClick={() => setEntriesTaskId(entriesTaskId === task.taskId ? null : task.taskId)}
+                          className="flex items-center gap-1 mt-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+                        >
+                          <ListChecks className="w-3 h-3" />
+                          Time entries
+                        </button>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(task.status)}`}>
@@ -285,7 +326,7 @@ export const ProjectTasksView: React.FC<{
                       </span>
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-600">
-                      {new Date(task.createdAt).toLocaleDateString('en-IN', {
+                      {new Date(task.workDate).toLocaleDateString('en-IN', {
                         day: '2-digit',
                         month: 'short',
                         year: 'numeric'
@@ -301,6 +342,20 @@ export const ProjectTasksView: React.FC<{
                       </button>
                     </td>
                   </tr>
+                  {entriesTaskId === task.taskId && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                        <TimeEntriesPanel
+                          taskId={task.taskId}
+                          isAdmin={false}
+                          isInvoiced={!!task.invoiceId}
+                          isApproved={task.status === 'approved'}
+                          onUpdated={onRefresh}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                  </Fragment>
                 );
               })}
             </tbody>
@@ -315,6 +370,24 @@ export const ProjectTasksView: React.FC<{
         </div>
       </div>
 
+      {/* My Expenses */}
+      <ExpensesPanel
+        projectId={project.id}
+        isAdmin={false}
+        currentUserId={currentUserId}
+        defaultCurrency={project.billingCurrency}
+      />
+
+      {/* Add Task Modal */}
+      <TaskModal
+        isOpen={showTaskModal}
+        onClose={() => setShowTaskModal(false)}
+        onSuccess={onRefresh}
+        projectId={project.id}
+        defaultBillable={project.defaultBillable}
+        defaultNonBillableReason={project.defaultNonBillableReason}
+      />
+
       {/* Review Modal */}
       {selectedTaskForReview && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
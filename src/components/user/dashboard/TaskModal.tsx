@@ -1,43 +1,121 @@
 'use client';
-import { Loader2, X } from "lucide-react";
+import { Lightbulb, Loader2, X } from "lucide-react";
 import { useEffect, useState } from "react";
+import { calculatePert } from "@/lib/pert";
+import { NON_BILLABLE_REASONS, NonBillableReason } from "@/lib/billable";
+import { localDateKey } from "@/lib/costing";
 
 interface TaskFormData {
   taskName: string;
   description: string;
   expectedHours: string;
+  optimisticHours: string;
+  mostLikelyHours: string;
+  pessimisticHours: string;
   actualHours: string;
+  workDate: string; // YYYY-MM-DD
+  // '' for billable work, otherwise the reason it is not billable
+  nonBillableReason: NonBillableReason | '';
 }
 interface TaskFormErrors {
   taskName?: string;
   description?: string;
   expectedHours?: string;
+  estimate?: string;
   actualHours?: string;
+  workDate?: string;
   submit?: string;
 }
 
+interface EstimateSuggestion {
+  sampleSize: number;
+  suggestedHours: string;
+  p10: string;
+  p90: string;
+  min: string;
+  max: string;
+}
+
+const emptyForm: TaskFormData = {
+  taskName: '',
+  description: '',
+  expectedHours: '',
+  optimisticHours: '',
+  mostLikelyHours: '',
+  pessimisticHours: '',
+  actualHours: '',
+  workDate: '',
+  nonBillableReason: '',
+};
+
+
 export const TaskModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
   projectId: string;
-}> = ({ isOpen, onClose, onSuccess, projectId }) => {
-  const [formData, setFormData] = useState<TaskFormData>({
-    taskName: '',
-    description: '',
-    expectedHours: '',
-    actualHours: '',
-  });
+  defaultBillable?: boolean;
+  defaultNonBillableReason?: NonBillableReason | null;
+}> = ({ isOpen, onClose, onSuccess, projectId, defaultBillable = true, defaultNonBillableReason = null }) => {
+  const [formData, setFormData] = useState<TaskFormData>(emptyForm);
   const [errors, setErrors] = useState<TaskFormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [suggestion, setSuggestion] = useState<EstimateSuggestion | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
-      setFormData({ taskName: '', description: '', expectedHours: '', actualHours: '' });
+      // New tasks start with the project's billability
+      setFormData({
+        ...emptyForm,
+        workDate: localDateKey(),
+        nonBillableReason: defaultBillable ? '' : defaultNonBillableReason || 'internal',
+      });
       setErrors({});
       setIsSubmitting(false);
+      setSuggestion(null);
     }
-  }, [isOpen]);
+  }, [isOpen, defaultBillable, defaultNonBillableReason]);
+
+  // Look up similar past tasks once the employee pauses typing
+  useEffect(() => {
+    if (!isOpen || formData.taskName.trim().length < 3) {
+      setSuggestion(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setIsSuggesting(true);
+      try {
+        const params = new URLSearchParams({
+          projectId,
+          taskName: formData.taskName.trim(),
+          description: formData.description.trim(),
+        });
+        const response = await fetch(`/api/tasks/suggestions?${params}`);
+        const data = await response.json();
+        setSuggestion(response.ok ? data.suggestion : null);
+      } catch (error) {
+        console.error('Error fetching estimate suggestion:', error);
+        setSuggestion(null);
+      } finally {
+        setIsSuggesting(false);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [isOpen, projectId, formData.taskName, formData.description]);
+
+  const handleUseSuggestion = () => {
+    if (!suggestion) return;
+    setFormData(prev => ({
+      ...prev,
+      optimisticHours: parseFloat(suggestion.p10).toString(),
+      mostLikelyHours: parseFloat(suggestion.suggestedHours).toString(),
+      pessimisticHours: parseFloat(suggestion.p90).toString(),
+    }));
+    setErrors(prev => ({ ...prev, estimate: undefined }));
+  };
 
   const validate = (): boolean => {
     const newErrors: TaskFormErrors = {};
@@ -50,18 +128,44 @@ export const TaskModal: React.FC<{
     // const expectedHours = parseFloat(formData.expectedHours);
     // if (!formData.expectedHours || isNaN(expectedHours) || expectedHours <= 0) newErrors.expectedHours = 'Expected hours must be greater than 0';
 
+    // The three-point estimate is optional, but all three values go together
+    const estimateFields = [formData.optimisticHours, formData.mostLikelyHours, formData.pessimisticHours];
+    const filledEstimateFields = estimateFields.filter(Boolean);
+    if (filledEstimateFields.length > 0) {
+      const [optimistic, mostLikely, pessimistic] = estimateFields.map(parseFloat);
+      if (filledEstimateFields.length < 3) newErrors.estimate = 'Enter optimistic, most likely and pessimistic hours';
+      else if ([optimistic, mostLikely, pessimistic].some(h => isNaN(h) || h < 0)) newErrors.estimate = 'Estimate hours must be positive numbers';
+      else if (mostLikely <= 0) newErrors.estimate = 'Most likely hours must be greater than 0';
+      else if (optimistic > mostLikely || mostLikely > pessimistic) newErrors.estimate = 'Hours must be ordered optimistic ≤ most likely ≤ pessimistic';
+    }
+
     const actualHours = parseFloat(formData.actualHours);
     if (!formData.actualHours || isNaN(actualHours) || actualHours <= 0) newErrors.actualHours = 'Actual hours must be greater than 0';
 
+    if (!formData.workDate) newErrors.workDate = 'Work date is required';
+    else if (formData.workDate > localDateKey()) newErrors.workDate = 'Work date cannot be in the future';
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleChange = (field: keyof TaskFormData, value: string) => {
+  const handleChange = (field: Exclude<keyof TaskFormData, 'nonBillableReason'>, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
-    if (errors[field]) setErrors(prev => ({ ...prev, [field]: undefined }));
+    const errorField: keyof TaskFormErrors =
+      field === 'optimisticHours' || field === 'mostLikelyHours' || field === 'pessimisticHours' ? 'estimate' : field;
+    if (errors[errorField]) setErrors(prev => ({ ...prev, [errorField]: undefined }));
   };
 
+  const hasThreePointEstimate =
+    !!formData.optimisticHours && !!formData.mostLikelyHours && !!formData.pessimisticHours;
+  const pertPreview = hasThreePointEstimate
+    ? calculatePert({
+        optimisticHours: parseFloat(formData.optimisticHours),
+        mostLikelyHours: parseFloat(formData.mostLikelyHours),
+        pessimisticHours: parseFloat(formData.pessimisticHours),
+      })
+    : null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!validate()) return;
@@ -77,13 +181,21 @@ export const TaskModal: React.FC<{
           taskName: formData.taskName.trim(),
           description: formData.description.trim() || null,
           // expectedHours: parseFloat(formData.expectedHours),
+          ...(hasThreePointEstimate && {
+            optimisticHours: parseFloat(formData.optimisticHours),
+            mostLikelyHours: parseFloat(formData.mostLikelyHours),
+            pessimisticHours: parseFloat(formData.pessimisticHours),
+          }),
           actualHours: parseFloat(formData.actualHours),
+          workDate: formData.workDate,
+          isBillable: formData.nonBillableReason === '',
+          nonBillableReason: formData.nonBillableReason || null,
         }),
       });
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || 'Failed to create task');
 
-      setFormData({ taskName: '', description: '', expectedHours: '', actualHours: '' });
+      setFormData(emptyForm);
       onSuccess();
       onClose();
     } catch (error: any) {
@@ -126,6 +238,37 @@ export const TaskModal: React.FC<{
               placeholder="Enter task name"
             />
             {errors.taskName && <p className="text-red-600 text-sm mt-1">{errors.taskName}</p>}
+            {isSuggesting && (
+              <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Looking for similar tasks...
+              </p>
+            )}
+            {!isSuggesting && suggestion && (
+              <div className="mt-2 bg-blue-50 border border-blue-200 rounded px-3 py-2 text-sm text-blue-900 flex items-start justify-between gap-2">
+                <div className="flex items-start gap-2">
+                  <Lightbulb className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p>
+                      Similar tasks took <span className="font-semibold">{parseFloat(suggestion.suggestedHours).toFixed(1)}h</span> (median)
+                    </p>
+                    <p className="text-xs text-blue-700">
+                      Based on {suggestion.sampleSize} approved {suggestion.sampleSize === 1 ? 'task' : 'tasks'} ·
+                      usually {parseFloat(suggestion.p10).toFixed(1)}–{parseFloat(suggestion.p90).toFixed(1)}h
+                      (range {parseFloat(suggestion.min).toFixed(1)}–{parseFloat(suggestion.max).toFixed(1)}h)
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleUseSuggestion}
+                  disabled={isSubmitting}
+                  className="text-blue-700 hover:text-blue-800 font-medium whitespace-nowrap"
+                >
+                  Use
+                </button>
+              </div>
+            )}
           </div>
 
           <div>
@@ -166,6 +309,61 @@ export const TaskModal: React.FC<{
             {errors.expectedHours && <p className="text-red-600 text-sm mt-1">{errors.expectedHours}</p>}
           </div> */}
 
+          <div>
+            <label className="block mb-1 font-medium text-gray-700">
+              Estimate (hours)
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['optimisticHours', 'Optimistic'],
+                ['mostLikelyHours', 'Most likely'],
+                ['pessimisticHours', 'Pessimistic'],
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <input
+                    id={field}
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    value={formData[field]}
+                    onChange={(e) => handleChange(field, e.target.value)}
+                    disabled={isSubmitting}
+                    className={`w-full px-3 py-2 border rounded focus:outline-none focus:ring-2 ${
+                      errors.estimate ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+                    }`}
+                    placeholder={label}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{label}</p>
+                </div>
+              ))}
+            </div>
+            {errors.estimate ? (
+              <p className="text-red-600 text-sm mt-1">{errors.estimate}</p>
+            ) : pertPreview && !isNaN(pertPreview.mean) && (
+              <p className="text-sm text-gray-600 mt-1">
+                Expected {pertPreview.mean.toFixed(1)}h ± {pertPreview.stdDev.toFixed(1)}h
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="workDate" className="block mb-1 font-medium text-gray-700">
+              Work Date <span className="text-red-600">*</span>
+            </label>
+            <input
+              id="workDate"
+              type="date"
+              max={localDateKey()}
+              value={formData.workDate}
+              onChange={(e) => handleChange('workDate', e.target.value)}
+              disabled={isSubmitting}
+              className={`w-full px-3 py-2 border rounded focus:outline-none focus:ring-2 ${
+                errors.workDate ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+              }`}
+            />
+            {errors.workDate && <p className="text-red-600 text-sm mt-1">{errors.workDate}</p>}
+          </div>
+
           <div>
             <label htmlFor="actualHours" className="block mb-1 font-medium text-gray-700">
               Actual Hours <span className="text-red-600">*</span>
@@ -186,6 +384,24 @@ export const TaskModal: React.FC<{
             {errors.actualHours && <p className="text-red-600 text-sm mt-1">{errors.actualHours}</p>}
           </div>
 
+          <div>
+            <label htmlFor="nonBillableReason" className="block mb-1 font-medium text-gray-700">
+              Billable
+            </label>
+            <select
+              id="nonBillableReason"
+              value={formData.nonBillableReason}
+              onChange={(e) => setFormData(prev => ({ ...prev, nonBillableReason: e.target.value as NonBillableReason | '' }))}
+              disabled={isSubmitting}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Billable to the client</option>
+              {NON_BILLABLE_REASONS.map((reason) => (
+                <option key={reason.value} value={reason.value}>Non-billable: {reason.label}</option>
+              ))}
+            </select>
+          </div>
+
           {errors.submit && (
             <p className="bg-red-50 border border-red-400 text-red-700 px-4 py-2 rounded">{errors.submit}</p>
           )}
@@ -0,0 +1,271 @@
+'use client';
+import { useEffect, useState } from "react";
+import { Loader2, Play, Square, Trash2 } from "lucide-react";
+import { formatElapsed } from "@/lib/timers";
+
+interface TimerTask {
+  taskId: string;
+  taskName: string;
+  projectId: string;
+  projectName: string | null;
+}
+
+interface RunningTimer {
+  id: string;
+  taskId: string;
+  taskName: string;
+  projectName: string | null;
+  note: string | null;
+  startedAt: string;
+}
+
+interface AutoStoppedTimer {
+  taskName: string;
+  hours: string;
+  error: string | null;
+}
+
+// A timer on one of the employee's tasks. The running timer is kept on the
+// server, so it carries on across reloads and devices; stopping it logs the
+// time as an entry waiting for approval.
+export const TaskTimer: React.FC<{ onStopped?: () => void }> = ({ onStopped }) => {
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+  const [tasks, setTasks] = useState<TimerTask[]>([]);
+  const [limitHours, setLimitHours] = useState(0);
+  const [autoStopped, setAutoStopped] = useState<AutoStoppedTimer[]>([]);
+  const [formData, setFormData] = useState({ taskId: '', note: '' });
+  const [now, setNow] = useState(Date.now());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTimer();
+  }, []);
+
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const fetchTimer = async () => {
+    try {
+      const response = await fetch('/api/timer');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch timer');
+      }
+
+      setTimer(data.timer);
+      setTasks(data.tasks || []);
+      setLimitHours(data.limitHours);
+      setNow(Date.now());
+      if (data.autoStopped?.length > 0) {
+        setAutoStopped(data.autoStopped);
+        onStopped?.();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch timer');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.taskId) {
+      alert('Please select a task');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/timer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start timer');
+      }
+
+      setTimer(data.timer);
+      setNow(Date.now());
+      setFormData({ taskId: '', note: '' });
+      setAutoStopped([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start timer');
+      await fetchTimer();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStop = async () => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/timer/stop', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to stop timer');
+      }
+
+      setMessage(`${parseFloat(data.hours).toFixed(2)}h logged on ${timer?.taskName}`);
+      onStopped?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop timer');
+    } finally {
+      await fetchTimer();
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!confirm('Discard this timer? Its time will not be logged.')) return;
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/timer', { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to discard timer');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard timer');
+    } finally {
+      await fetchTimer();
+      setIsSaving(false);
+    }
+  };
+
+  const elapsed = timer ? now - new Date(timer.startedAt).getTime() : 0;
+  const isPastLimit = limitHours > 0 && elapsed > limitHours * 60 * 60 * 1000;
+  const projectNames = Array.from(new Set(tasks.map(task => task.projectName || 'Unknown project')));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Timer</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Start a timer while you work and stop it when you are done; the time is logged on the task for approval.
+          {limitHours > 0 && ` Timers stop by themselves after ${limitHours} hours.`}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">
+          {message}
+        </div>
+      )}
+
+      {autoStopped.map((stopped, index) => (
+        <div key={index} className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+          Your timer on {stopped.taskName} ran past {limitHours} hours and was stopped.{' '}
+          {stopped.error
+            ? `Its time could not be logged: ${stopped.error}`
+            : `${parseFloat(stopped.hours).toFixed(2)}h were logged; correct the entry if you stopped earlier.`}
+        </div>
+      ))}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : timer ? (
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <p className="text-xs text-gray-500">{timer.projectName || 'Unknown project'}</p>
+            <p className="font-medium text-gray-900">{timer.taskName}</p>
+            {timer.note && <p className="text-sm text-gray-600">{timer.note}</p>}
+            <p className="text-xs text-gray-500 mt-1">
+              Started {new Date(timer.startedAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className={`text-3xl font-mono font-semibold ${isPastLimit ? 'text-red-600' : 'text-gray-900'}`}>
+              {formatElapsed(elapsed)}
+            </span>
+            <button
+              onClick={handleStop}
+              disabled={isSaving}
+              className="flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Square className="w-4 h-4" />}
+              Stop
+            </button>
+            <button
+              onClick={handleDiscard}
+              disabled={isSaving}
+              className="p-2 rounded-lg border border-gray-300 text-gray-500 hover:text-red-600 hover:bg-gray-100 disabled:opacity-50"
+              title="Discard timer"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          {isPastLimit && (
+            <p className="text-sm text-red-600 md:basis-full">
+              This timer has run past {limitHours} hours; only {limitHours} hours will be logged.
+            </p>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleStart} className="flex flex-col md:flex-row gap-3">
+          <select
+            value={formData.taskId}
+            onChange={(e) => setFormData(prev => ({ ...prev, taskId: e.target.value }))}
+            disabled={isSaving || tasks.length === 0}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            <option value="">{tasks.length === 0 ? 'No tasks to time' : 'Select a task'}</option>
+            {projectNames.map(projectName => (
+              <optgroup key={projectName} label={projectName}>
+                {tasks
+                  .filter(task => (task.projectName || 'Unknown project') === projectName)
+                  .map(task => (
+                    <option key={task.taskId} value={task.taskId}>{task.taskName}</option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={formData.note}
+            onChange={(e) => setFormData(prev => ({ ...prev, note: e.target.value }))}
+            placeholder="What are you working on? (optional)"
+            maxLength={1000}
+            disabled={isSaving}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || tasks.length === 0}
+            className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            Start
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+'use client';
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Loader2, Save, Send } from "lucide-react";
+import { TimesheetTable } from "@/components/admin/dashboard/TimesheetTable";
+import { localDateKey, toDateKey } from "@/lib/costing";
+import { weekStartKey } from "@/lib/rate-rules";
+import { isTimesheetEditable, TimesheetRow, TimesheetStatus } from "@/lib/timesheets";
+
+interface TimesheetTask {
+  taskId: string;
+  taskName: string;
+  projectId: string;
+  projectName: string | null;
+}
+
+interface TimesheetWeek {
+  weekStart: string;
+  days: string[];
+  timesheet: {
+    id: string;
+    status: TimesheetStatus;
+    submittedAt: string | null;
+    reviewedAt: string | null;
+    rejectionReason: string | null;
+  } | null;
+  rows: TimesheetRow[];
+  tasks: TimesheetTask[];
+}
+
+const getTimesheetStatusColor = (status: TimesheetStatus) => {
+  switch (status) {
+    case 'approved': return 'bg-green-100 text-green-700';
+    case 'rejected': return 'bg-red-100 text-red-700';
+    case 'submitted': return 'bg-blue-100 text-blue-700';
+    default: return 'bg-gray-100 text-gray-700';
+  }
+};
+
+const shiftWeek = (weekStart: string, weeks: number) => {
+  const date = new Date(`${weekStart}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + weeks * 7);
+  return toDateKey(date);
+};
+
+const formatWeek = (days: string[]) =>
+  `${new Date(`${days[0]}T00:00:00.000Z`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', timeZone: 'UTC' })} – ${new Date(`${days[6]}T00:00:00.000Z`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' })}`;
+
+// Cell values as the inputs hold them, from the saved rows
+const valuesOf = (rows: TimesheetRow[]) =>
+  Object.fromEntries(
+    rows.map((row) => [
+      row.taskId,
+      Object.fromEntries(Object.entries(row.hours).map(([day, hours]) => [day, parseFloat(hours).toString()])),
+    ])
+  );
+
+// A week of the employee's hours to fill in at once: their tasks as rows, the
+// days as columns. The week is saved as a draft and submitted for approval as
+// a whole. Changing `refreshKey` reloads the week, after time was logged
+// elsewhere on the page.
+export const TimesheetGrid: React.FC<{ refreshKey?: number }> = ({ refreshKey }) => {
+  const currentWeek = weekStartKey(localDateKey());
+
+  const [weekStart, setWeekStart] = useState(currentWeek);
+  const [week, setWeek] = useState<TimesheetWeek | null>(null);
+  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const [values, setValues] = useState<Record<string, Record<string, string>>>({});
+  const [addedTaskIds, setAddedTaskIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchWeek();
+  }, [weekStart, refreshKey]);
+
+  const applyWeek = (data: TimesheetWeek) => {
+    setWeek(data);
+    setRows(data.rows);
+    setValues(valuesOf(data.rows));
+    setAddedTaskIds([]);
+  };
+
+  const fetchWeek = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/timesheets/mine?weekStart=${weekStart}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch timesheet');
+      }
+
+      applyWeek(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch timesheet');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChange = (taskId: string, day: string, value: string) => {
+    setValues(prev => ({ ...prev, [taskId]: { ...prev[taskId], [day]: value } }));
+  };
+
+  const handleAddRow = (taskId: string) => {
+    const task = week?.tasks.find(t => t.taskId === taskId);
+    if (!task) return;
+
+    setRows(prev => [
+      ...prev,
+      {
+        taskId: task.taskId,
+        taskName: task.taskName,
+        projectId: task.projectId,
+        projectName: task.projectName,
+        isInvoiced: false,
+        isApproved: false,
+        hours: {},
+        approvedDays: [],
+      },
+    ]);
+    setAddedTaskIds(prev => [...prev, task.taskId]);
+  };
+
+  const handleRemoveRow = (taskId: string) => {
+    setRows(prev => prev.filter(row => row.taskId !== taskId));
+    setAddedTaskIds(prev => prev.filter(id => id !== taskId));
+    setValues(prev => {
+      const next = { ...prev };
+      delete next[taskId];
+      return next;
+    });
+  };
+
+  const handleSave = async (submit: boolean) => {
+    if (!week) return;
+
+    if (submit && !confirm('Submit this week for approval? You will not be able to change it unless it is sent back.')) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/timesheets/mine', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          weekStart: week.weekStart,
+          submit,
+          rows: rows
+            .filter(row => !row.isInvoiced && !row.isApproved)
+            .map(row => ({ taskId: row.taskId, hours: values[row.taskId] || {} })),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save timesheet');
+      }
+
+      applyWeek(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save timesheet');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const status = week?.timesheet?.status ?? 'draft';
+  const isEditable = isTimesheetEditable(status);
+  const addableTasks = (week?.tasks || []).filter(task => !rows.some(row => row.taskId === task.taskId));
+  const addableProjects = Array.from(new Set(addableTasks.map(task => task.projectName || 'Unknown project')));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Weekly Timesheet</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Fill in the week by task and day, then submit it for approval as a whole.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setWeekStart(shiftWeek(weekStart, -1))}
+            disabled={isLoading || isSaving}
+            className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            title="Previous week"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-sm font-medium text-gray-900 min-w-[12rem] text-center">
+            {week ? formatWeek(week.days) : weekStart}
+          </span>
+          <button
+            onClick={() => setWeekStart(shiftWeek(weekStart, 1))}
+            disabled={isLoading || isSaving || weekStart >= currentWeek}
+            className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            title="Next week"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <span className={`px-3 py-1 rounded-full text-xs font-medium ${getTimesheetStatusColor(status)}`}>
+            {status}
+          </span>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {week?.timesheet?.rejectionReason && status !== 'approved' && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+          Sent back: {week.timesheet.rejectionReason}
+        </div>
+      )}
+
+      {isLoading || !week ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : (
+        <>
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No hours this week yet. Add a task to start.</p>
+          ) : (
+            <TimesheetTable
+              days={week.days}
+              rows={rows}
+              values={values}
+              onChange={isEditable ? handleChange : undefined}
+              onRemoveRow={isEditable ? handleRemoveRow : undefined}
+              removableTaskIds={addedTaskIds}
+            />
+          )}
+
+          {isEditable && (
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <select
+                value=""
+                onChange={(e) => e.target.value && handleAddRow(e.target.value)}
+                disabled={isSaving || addableTasks.length === 0}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                <option value="">{addableTasks.length === 0 ? 'No more tasks to add' : '+ Add a task'}</option>
+                {addableProjects.map(projectName => (
+                  <optgroup key={projectName} label={projectName}>
+                    {addableTasks
+                      .filter(task => (task.projectName || 'Unknown project') === projectName)
+                      .map(task => (
+                        <option key={task.taskId} value={task.taskId}>{task.taskName}</option>
+                      ))}
+                  </optgroup>
+                ))}
+              </select>
+
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => handleSave(false)}
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 font-medium disabled:opacity-50"
+                >
+                  {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Save Draft
+                </button>
+                <button
+                  onClick={() => handleSave(true)}
+                  disabled={isSaving || rows.length === 0}
+                  className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  Submit for Approval
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!isEditable && (
+            <p className="text-sm text-gray-500">
+              {status === 'approved'
+                ? 'This week has been approved.'
+                : 'This week is waiting for approval and cannot be changed.'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,20 @@
 import { AuditTrailTable } from "@/drizzle/AuditSchema";
-import { db } from "@/lib/db";
+import { UserTable } from "@/drizzle/schema";
+import { db, Transaction } from "@/lib/db";
+import { findAuditableEventByName, findOrCreateAuditableEvent } from "@/data/auditable-event";
+import { and, desc, eq, sql } from "drizzle-orm";
 
 interface AuditTrailInput {
   eventId: string;
-  userId: string;
+  userId: string | null;
   details: Record<string, any>;
 }
 
-export async function createAuditTrail(data: AuditTrailInput) {
+// Pass `tx` to write the trail in the transaction making the change it records
+export async function createAuditTrail(data: AuditTrailInput, tx: Transaction | typeof db = db) {
   try {
     // console.log(`Creating audit trail for eventId: ${data.eventId}`);
-    const results = await db
+    const results = await tx
       .insert(AuditTrailTable)
       .values({ ...data })
       .returning();
@@ -23,3 +27,39 @@ export async function createAuditTrail(data: AuditTrailInput) {
     throw error;
   }
 }
+
+// Record an event by name, registering the event on first use
+export async function recordAuditEvent(
+  eventName: string,
+  userId: string | null,
+  details: Record<string, any>,
+  priority = 1,
+  tx: Transaction | typeof db = db
+) {
+  const event = await findOrCreateAuditableEvent(eventName, priority);
+  return createAuditTrail({ eventId: event.id, userId, details }, tx);
+}
+
+// Latest trails of an event whose details have the given value for a key
+export async function findAuditTrailsByDetail(eventName: string, key: string, value: string, limit = 50) {
+  try {
+    const event = await findAuditableEventByName(eventName);
+    if (!event) return [];
+
+    return await db
+      .select({
+        id: AuditTrailTable.id,
+        details: AuditTrailTable.details,
+        userName: UserTable.name,
+        createdAt: AuditTrailTable.createdAt,
+      })
+      .from(AuditTrailTable)
+      .leftJoin(UserTable, eq(AuditTrailTable.userId, UserTable.id))
+      .where(and(eq(AuditTrailTable.eventId, event.id), sql`${AuditTrailTable.details} ->> ${key} = ${value}`))
+      .orderBy(desc(AuditTrailTable.createdAt))
+      .limit(limit);
+  } catch (error) {
+    console.error(`Error finding ${eventName} audit trails for ${key}: ${value}`, error);
+    throw error;
+  }
+}
@@ -1,14 +1,36 @@
-// import { db } from "@/lib/db";
-// import { eq } from "drizzle-orm";
+import { AuditableEventTable } from "@/drizzle/AuditSchema";
+import { db } from "@/lib/db";
+import { eq } from "drizzle-orm";
 
-// export async function findAuditableEventByName(name: string) {
-//   try {
-//     // console.log(`Finding auditable event by name: ${name}`);
-//     return await db.query.AuditableEventTable.findFirst({
-//       where: eq(AuditableEventTable.name, name),
-//     });
-//   } catch (err) {
-//     console.error(`Error finding auditable event by name: ${name}`, err);
-//     throw err;
-//   }
-// }
+export async function findAuditableEventByName(name: string) {
+  try {
+    const [event] = await db
+      .select()
+      .from(AuditableEventTable)
+      .where(eq(AuditableEventTable.name, name))
+      .limit(1);
+    return event || null;
+  } catch (err) {
+    console.error(`Error finding auditable event by name: ${name}`, err);
+    throw err;
+  }
+}
+
+// Events are registered the first time they are recorded
+export async function findOrCreateAuditableEvent(name: string, priority: number) {
+  try {
+    await db
+      .insert(AuditableEventTable)
+      .values({ name, priority, updatedAt: new Date() })
+      .onConflictDoNothing({ target: AuditableEventTable.name });
+
+    const event = await findAuditableEventByName(name);
+    if (!event) {
+      throw new Error(`Auditable event ${name} could not be created`);
+    }
+    return event;
+  } catch (err) {
+    console.error(`Error creating auditable event: ${name}`, err);
+    throw err;
+  }
+}
@@ -0,0 +1,81 @@
+import { BillRates, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+
+export async function findBillRatesByProject(projectId: string) {
+  try {
+    return await db
+      .select({
+        id: BillRates.id,
+        projectId: BillRates.projectId,
+        employeeId: BillRates.employeeId,
+        employeeName: UserTable.name,
+        employeeEmail: UserTable.email,
+        hourlyRate: BillRates.hourlyRate,
+        effectiveFrom: BillRates.effectiveFrom,
+        effectiveTo: BillRates.effectiveTo,
+        createdAt: BillRates.createdAt,
+        updatedAt: BillRates.updatedAt,
+      })
+      .from(BillRates)
+      .leftJoin(UserTable, eq(BillRates.employeeId, UserTable.id))
+      .where(eq(BillRates.projectId, projectId))
+      .orderBy(asc(BillRates.employeeId), asc(BillRates.effectiveFrom));
+  } catch (error) {
+    console.error(`Error finding bill rates for project: ${projectId}`, error);
+    throw error;
+  }
+}
+
+export async function findBillRatesForProjects(projectIds: string[]) {
+  if (projectIds.length === 0) return [];
+
+  try {
+    return await db
+      .select({
+        projectId: BillRates.projectId,
+        employeeId: BillRates.employeeId,
+        hourlyRate: BillRates.hourlyRate,
+        effectiveFrom: BillRates.effectiveFrom,
+        effectiveTo: BillRates.effectiveTo,
+      })
+      .from(BillRates)
+      .where(inArray(BillRates.projectId, projectIds))
+      .orderBy(asc(BillRates.effectiveFrom));
+  } catch (error) {
+    console.error(`Error finding bill rates for projects: ${projectIds.join(", ")}`, error);
+    throw error;
+  }
+}
+
+// Rates sharing a scope (same project and same employee, or the project default)
+export async function findBillRatesInScope(projectId: string, employeeId: string | null) {
+  try {
+    return await db
+      .select()
+      .from(BillRates)
+      .where(
+        and(
+          eq(BillRates.projectId, projectId),
+          employeeId ? eq(BillRates.employeeId, employeeId) : isNull(BillRates.employeeId)
+        )
+      );
+  } catch (error) {
+    console.error(`Error finding bill rates for project: ${projectId}, employee: ${employeeId ?? "default"}`, error);
+    throw error;
+  }
+}
+
+export async function findBillRateById(id: string) {
+  try {
+    const [rate] = await db
+      .select()
+      .from(BillRates)
+      .where(eq(BillRates.id, id))
+      .limit(1);
+    return rate || null;
+  } catch (error) {
+    console.error(`Error finding bill rate by id: ${id}`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+import { ClientContacts, Clients, Projects } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+
+// Active clients with the number of active projects for each
+export async function findClients() {
+  try {
+    return await db
+      .select({
+        id: Clients.id,
+        legalName: Clients.legalName,
+        city: Clients.city,
+        stateCode: Clients.stateCode,
+        countryCode: Clients.countryCode,
+        gstin: Clients.gstin,
+        defaultCurrency: Clients.defaultCurrency,
+        paymentTermsDays: Clients.paymentTermsDays,
+        createdAt: Clients.createdAt,
+        projectCount: sql<number>`(select count(*)::int from ${Projects} where ${Projects.clientId} = ${Clients.id} and ${Projects.isActive} = true)`,
+      })
+      .from(Clients)
+      .where(eq(Clients.isActive, true))
+      .orderBy(asc(Clients.legalName));
+  } catch (error) {
+    console.error("Error finding clients", error);
+    throw error;
+  }
+}
+
+export async function findClientById(id: string) {
+  try {
+    const [client] = await db
+      .select()
+      .from(Clients)
+      .where(and(eq(Clients.id, id), eq(Clients.isActive, true)))
+      .limit(1);
+    return client || null;
+  } catch (error) {
+    console.error(`Error finding client by id: ${id}`, error);
+    throw error;
+  }
+}
+
+// The primary contact first, then the rest by name
+export async function findClientContacts(clientId: string) {
+  try {
+    return await db
+      .select()
+      .from(ClientContacts)
+      .where(eq(ClientContacts.clientId, clientId))
+      .orderBy(desc(ClientContacts.isPrimary), asc(ClientContacts.name));
+  } catch (error) {
+    console.error(`Error finding contacts for client: ${clientId}`, error);
+    throw error;
+  }
+}
+
+// The client a project is billed to, with its primary contact, or null
+export async function findClientForProject(projectId: string) {
+  try {
+    const [client] = await db
+      .select({
+        id: Clients.id,
+        legalName: Clients.legalName,
+        gstin: Clients.gstin,
+        defaultCurrency: Clients.defaultCurrency,
+        paymentTermsDays: Clients.paymentTermsDays,
+        contactName: ClientContacts.name,
+        contactEmail: ClientContacts.email,
+        contactPhone: ClientContacts.phone,
+      })
+      .from(Projects)
+      .innerJoin(Clients, eq(Projects.clientId, Clients.id))
+      .leftJoin(
+        ClientContacts,
+        and(eq(ClientContacts.clientId, Clients.id), eq(ClientContacts.isPrimary, true))
+      )
+      .where(eq(Projects.id, projectId))
+      .limit(1);
+    return client || null;
+  } catch (error) {
+    console.error(`Error finding client for project: ${projectId}`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,54 @@
+import { CostLoadings, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { asc, desc, eq } from "drizzle-orm";
+
+// Cost loadings, oldest first, with who created them
+export async function findCostLoadings() {
+  try {
+    return await db
+      .select({
+        id: CostLoadings.id,
+        benefitsPercent: CostLoadings.benefitsPercent,
+        facilitiesOverheadPerHour: CostLoadings.facilitiesOverheadPerHour,
+        nonBillableAllocationPercent: CostLoadings.nonBillableAllocationPercent,
+        effectiveFrom: CostLoadings.effectiveFrom,
+        effectiveTo: CostLoadings.effectiveTo,
+        createdByName: UserTable.name,
+        createdAt: CostLoadings.createdAt,
+      })
+      .from(CostLoadings)
+      .leftJoin(UserTable, eq(CostLoadings.createdBy, UserTable.id))
+      .orderBy(asc(CostLoadings.effectiveFrom));
+  } catch (error) {
+    console.error("Error finding cost loadings", error);
+    throw error;
+  }
+}
+
+export async function findCostLoadingById(id: string) {
+  try {
+    const [loading] = await db
+      .select()
+      .from(CostLoadings)
+      .where(eq(CostLoadings.id, id))
+      .limit(1);
+    return loading || null;
+  } catch (error) {
+    console.error(`Error finding cost loading by id: ${id}`, error);
+    throw error;
+  }
+}
+
+export async function findLatestCostLoading() {
+  try {
+    const [loading] = await db
+      .select()
+      .from(CostLoadings)
+      .orderBy(desc(CostLoadings.effectiveFrom))
+      .limit(1);
+    return loading || null;
+  } catch (error) {
+    console.error("Error finding latest cost loading", error);
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+import { EmployeeRates, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { asc, eq, inArray } from "drizzle-orm";
+
+export async function findEmployeeRates(employeeId?: string) {
+  try {
+    return await db
+      .select({
+        id: EmployeeRates.id,
+        employeeId: EmployeeRates.employeeId,
+        employeeName: UserTable.name,
+        employeeEmail: UserTable.email,
+        hourlyRate: EmployeeRates.hourlyRate,
+        effectiveFrom: EmployeeRates.effectiveFrom,
+        effectiveTo: EmployeeRates.effectiveTo,
+        createdAt: EmployeeRates.createdAt,
+        updatedAt: EmployeeRates.updatedAt,
+      })
+      .from(EmployeeRates)
+      .leftJoin(UserTable, eq(EmployeeRates.employeeId, UserTable.id))
+      .where(employeeId ? eq(EmployeeRates.employeeId, employeeId) : undefined)
+      .orderBy(asc(UserTable.name), asc(EmployeeRates.effectiveFrom));
+  } catch (error) {
+    console.error(`Error finding employee rates for employee: ${employeeId ?? "all"}`, error);
+    throw error;
+  }
+}
+
+export async function findRatesForEmployees(employeeIds: string[]) {
+  if (employeeIds.length === 0) return [];
+
+  try {
+    return await db
+      .select({
+        employeeId: EmployeeRates.employeeId,
+        hourlyRate: EmployeeRates.hourlyRate,
+        effectiveFrom: EmployeeRates.effectiveFrom,
+        effectiveTo: EmployeeRates.effectiveTo,
+      })
+      .from(EmployeeRates)
+      .where(inArray(EmployeeRates.employeeId, employeeIds))
+      .orderBy(asc(EmployeeRates.effectiveFrom));
+  } catch (error) {
+    console.error(`Error finding rates for employees: ${employeeIds.join(", ")}`, error);
+    throw error;
+  }
+}
+
+export async function findEmployeeRateById(id: string) {
+  try {
+    const [rate] = await db
+      .select()
+      .from(EmployeeRates)
+      .where(eq(EmployeeRates.id, id))
+      .limit(1);
+    return rate || null;
+  } catch (error) {
+    console.error(`Error finding employee rate by id: ${id}`, error);
+    throw error;
+  }
+}
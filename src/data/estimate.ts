@@ -0,0 +1,110 @@
+import { EstimateLineItems, ProjectEstimates, Tasks, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { and, asc, desc, eq, inArray, ne, sql } from "drizzle-orm";
+
+export async function findEstimatesByProject(projectId: string) {
+  try {
+    const estimates = await db
+      .select({
+        id: ProjectEstimates.id,
+        projectId: ProjectEstimates.projectId,
+        title: ProjectEstimates.title,
+        notes: ProjectEstimates.notes,
+        status: ProjectEstimates.status,
+        createdBy: ProjectEstimates.createdBy,
+        createdByName: UserTable.name,
+        submittedAt: ProjectEstimates.submittedAt,
+        approvedAt: ProjectEstimates.approvedAt,
+        createdAt: ProjectEstimates.createdAt,
+        updatedAt: ProjectEstimates.updatedAt,
+      })
+      .from(ProjectEstimates)
+      .leftJoin(UserTable, eq(ProjectEstimates.createdBy, UserTable.id))
+      .where(eq(ProjectEstimates.projectId, projectId))
+      .orderBy(desc(ProjectEstimates.createdAt));
+
+    const lineItems = await findLineItemsForEstimates(estimates.map((estimate) => estimate.id));
+
+    return estimates.map((estimate) => ({
+      ...estimate,
+      lineItems: lineItems.filter((item) => item.estimateId === estimate.id),
+    }));
+  } catch (error) {
+    console.error(`Error finding estimates for project: ${projectId}`, error);
+    throw error;
+  }
+}
+
+export async function findEstimateById(id: string) {
+  try {
+    const [estimate] = await db
+      .select()
+      .from(ProjectEstimates)
+      .where(eq(ProjectEstimates.id, id))
+      .limit(1);
+    return estimate || null;
+  } catch (error) {
+    console.error(`Error finding estimate by id: ${id}`, error);
+    throw error;
+  }
+}
+
+export async function findLineItemsForEstimates(estimateIds: string[]) {
+  if (estimateIds.length === 0) return [];
+
+  try {
+    return await db
+      .select()
+      .from(EstimateLineItems)
+      .where(inArray(EstimateLineItems.estimateId, estimateIds))
+      .orderBy(asc(EstimateLineItems.sortOrder));
+  } catch (error) {
+    console.error(`Error finding line items for estimates: ${estimateIds.join(", ")}`, error);
+    throw error;
+  }
+}
+
+// The line item with the project it belongs to, used to validate task mappings
+export async function findLineItemWithProject(lineItemId: string) {
+  try {
+    const [lineItem] = await db
+      .select({
+        id: EstimateLineItems.id,
+        estimateId: EstimateLineItems.estimateId,
+        projectId: ProjectEstimates.projectId,
+        estimateStatus: ProjectEstimates.status,
+      })
+      .from(EstimateLineItems)
+      .innerJoin(ProjectEstimates, eq(EstimateLineItems.estimateId, ProjectEstimates.id))
+      .where(eq(EstimateLineItems.id, lineItemId))
+      .limit(1);
+    return lineItem || null;
+  } catch (error) {
+    console.error(`Error finding line item: ${lineItemId}`, error);
+    throw error;
+  }
+}
+
+// Actual hours logged against each line item, ignoring rejected tasks
+export async function findActualHoursByLineItem(lineItemIds: string[]) {
+  if (lineItemIds.length === 0) return {};
+
+  try {
+    const rows = await db
+      .select({
+        lineItemId: Tasks.estimateLineItemId,
+        actualHours: sql<string>`coalesce(sum(${Tasks.actualHours}), 0)`,
+      })
+      .from(Tasks)
+      .where(and(inArray(Tasks.estimateLineItemId, lineItemIds), ne(Tasks.status, "rejected")))
+      .groupBy(Tasks.estimateLineItemId);
+
+    return rows.reduce((acc: Record<string, number>, row) => {
+      if (row.lineItemId) acc[row.lineItemId] = parseFloat(row.actualHours);
+      return acc;
+    }, {});
+  } catch (error) {
+    console.error(`Error finding actual hours for line items: ${lineItemIds.join(", ")}`, error);
+    throw error;
+  }
+}
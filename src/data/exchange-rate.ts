@@ -0,0 +1,66 @@
+import { ExchangeRates, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { and, desc, eq, inArray, or } from "drizzle-orm";
+
+export async function findExchangeRates(currency?: string) {
+  try {
+    return await db
+      .select({
+        id: ExchangeRates.id,
+        baseCurrency: ExchangeRates.baseCurrency,
+        quoteCurrency: ExchangeRates.quoteCurrency,
+        rate: ExchangeRates.rate,
+        effectiveDate: ExchangeRates.effectiveDate,
+        source: ExchangeRates.source,
+        createdByName: UserTable.name,
+        createdAt: ExchangeRates.createdAt,
+        updatedAt: ExchangeRates.updatedAt,
+      })
+      .from(ExchangeRates)
+      .leftJoin(UserTable, eq(ExchangeRates.createdBy, UserTable.id))
+      .where(
+        currency
+          ? or(eq(ExchangeRates.baseCurrency, currency), eq(ExchangeRates.quoteCurrency, currency))
+          : undefined
+      )
+      .orderBy(desc(ExchangeRates.effectiveDate), ExchangeRates.baseCurrency, ExchangeRates.quoteCurrency);
+  } catch (error) {
+    console.error(`Error finding exchange rates for currency: ${currency ?? "all"}`, error);
+    throw error;
+  }
+}
+
+// Every rate between any two of the given currencies, for converting in memory
+export async function findRatesBetweenCurrencies(currencies: string[]) {
+  const unique = Array.from(new Set(currencies));
+  if (unique.length < 2) return [];
+
+  try {
+    return await db
+      .select({
+        baseCurrency: ExchangeRates.baseCurrency,
+        quoteCurrency: ExchangeRates.quoteCurrency,
+        rate: ExchangeRates.rate,
+        effectiveDate: ExchangeRates.effectiveDate,
+      })
+      .from(ExchangeRates)
+      .where(and(inArray(ExchangeRates.baseCurrency, unique), inArray(ExchangeRates.quoteCurrency, unique)));
+  } catch (error) {
+    console.error(`Error finding exchange rates between: ${unique.join(", ")}`, error);
+    throw error;
+  }
+}
+
+export async function findExchangeRateById(id: string) {
+  try {
+    const [rate] = await db
+      .select()
+      .from(ExchangeRates)
+      .where(eq(ExchangeRates.id, id))
+      .limit(1);
+    return rate || null;
+  } catch (error) {
+    console.error(`Error finding exchange rate by id: ${id}`, error);
+    throw error;
+  }
+}
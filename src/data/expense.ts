@@ -0,0 +1,126 @@
+import { ProjectExpenses, ReceiptUploads, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { and, desc, eq, gte, inArray, isNull, lte, ne } from "drizzle-orm";
+
+// Expenses of a project, newest first, optionally only those one employee submitted
+export async function findExpensesByProject(projectId: string, submittedBy?: string) {
+  try {
+    return await db
+      .select({
+        id: ProjectExpenses.id,
+        projectId: ProjectExpenses.projectId,
+        submittedBy: ProjectExpenses.submittedBy,
+        submittedByName: UserTable.name,
+        category: ProjectExpenses.category,
+        description: ProjectExpenses.description,
+        amount: ProjectExpenses.amount,
+        currency: ProjectExpenses.currency,
+        expenseDate: ProjectExpenses.expenseDate,
+        isBillable: ProjectExpenses.isBillable,
+        receiptUrl: ProjectExpenses.receiptUrl,
+        receiptName: ProjectExpenses.receiptName,
+        status: ProjectExpenses.status,
+        approvedAt: ProjectExpenses.approvedAt,
+        rejectionReason: ProjectExpenses.rejectionReason,
+        invoiceId: ProjectExpenses.invoiceId,
+        createdAt: ProjectExpenses.createdAt,
+      })
+      .from(ProjectExpenses)
+      .leftJoin(UserTable, eq(ProjectExpenses.submittedBy, UserTable.id))
+      .where(
+        and(
+          eq(ProjectExpenses.projectId, projectId),
+          submittedBy ? eq(ProjectExpenses.submittedBy, submittedBy) : undefined
+        )
+      )
+      .orderBy(desc(ProjectExpenses.expenseDate), desc(ProjectExpenses.createdAt));
+  } catch (error) {
+    console.error(`Error finding expenses for project: ${projectId}`, error);
+    throw error;
+  }
+}
+
+export async function findExpenseById(id: string) {
+  try {
+    const [expense] = await db
+      .select()
+      .from(ProjectExpenses)
+      .where(eq(ProjectExpenses.id, id))
+      .limit(1);
+    return expense || null;
+  } catch (error) {
+    console.error(`Error finding expense by id: ${id}`, error);
+    throw error;
+  }
+}
+
+// A receipt the user uploaded that no expense uses yet, other than
+// `expenseId` (the expense being edited)
+export async function findUnusedReceiptUpload(fileKey: string, uploadedBy: string, expenseId?: string) {
+  try {
+    const [upload] = await db
+      .select()
+      .from(ReceiptUploads)
+      .where(and(eq(ReceiptUploads.fileKey, fileKey), eq(ReceiptUploads.uploadedBy, uploadedBy)))
+      .limit(1);
+    if (!upload) return null;
+
+    const [usedBy] = await db
+      .select({ id: ProjectExpenses.id })
+      .from(ProjectExpenses)
+      .where(and(eq(ProjectExpenses.receiptKey, fileKey), expenseId ? ne(ProjectExpenses.id, expenseId) : undefined))
+      .limit(1);
+    return usedBy ? null : upload;
+  } catch (error) {
+    console.error(`Error finding receipt upload: ${fileKey}`, error);
+    throw error;
+  }
+}
+
+// Approved expenses of the given projects; these are what count as project cost
+export async function findApprovedExpensesForProjects(projectIds: string[]) {
+  if (projectIds.length === 0) return [];
+
+  try {
+    return await db
+      .select({
+        id: ProjectExpenses.id,
+        projectId: ProjectExpenses.projectId,
+        category: ProjectExpenses.category,
+        description: ProjectExpenses.description,
+        amount: ProjectExpenses.amount,
+        currency: ProjectExpenses.currency,
+        expenseDate: ProjectExpenses.expenseDate,
+        isBillable: ProjectExpenses.isBillable,
+        invoiceId: ProjectExpenses.invoiceId,
+      })
+      .from(ProjectExpenses)
+      .where(and(inArray(ProjectExpenses.projectId, projectIds), eq(ProjectExpenses.status, "approved")));
+  } catch (error) {
+    console.error("Error finding approved expenses for projects", error);
+    throw error;
+  }
+}
+
+// Approved billable expenses dated within the period that no invoice has claimed yet
+export async function findUninvoicedApprovedExpenses(projectId: string, periodStart: string, periodEnd: string) {
+  try {
+    return await db
+      .select()
+      .from(ProjectExpenses)
+      .where(
+        and(
+          eq(ProjectExpenses.projectId, projectId),
+          eq(ProjectExpenses.status, "approved"),
+          eq(ProjectExpenses.isBillable, true),
+          isNull(ProjectExpenses.invoiceId),
+          gte(ProjectExpenses.expenseDate, periodStart),
+          lte(ProjectExpenses.expenseDate, periodEnd)
+        )
+      )
+      .orderBy(ProjectExpenses.expenseDate);
+  } catch (error) {
+    console.error(`Error finding uninvoiced expenses for project: ${projectId}`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,165 @@
+import { Clients, InvoiceLineItems, InvoicePayments, Invoices, Projects, Tasks, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { and, asc, desc, eq, gte, isNull, like, lte, sql } from "drizzle-orm";
+
+export async function findInvoicesByProject(projectId: string) {
+  try {
+    return await db
+      .select({
+        id: Invoices.id,
+        projectId: Invoices.projectId,
+        invoiceNumber: Invoices.invoiceNumber,
+        status: Invoices.status,
+        periodStart: Invoices.periodStart,
+        periodEnd: Invoices.periodEnd,
+        currency: Invoices.currency,
+        subtotal: Invoices.subtotal,
+        taxRate: Invoices.taxRate,
+        taxAmount: Invoices.taxAmount,
+        supplyType: Invoices.supplyType,
+        cgstAmount: Invoices.cgstAmount,
+        sgstAmount: Invoices.sgstAmount,
+        igstAmount: Invoices.igstAmount,
+        total: Invoices.total,
+        amountPaid: Invoices.amountPaid,
+        paymentLinkUrl: Invoices.paymentLinkUrl,
+        dueDate: Invoices.dueDate,
+        issuedAt: Invoices.issuedAt,
+        paidAt: Invoices.paidAt,
+        voidedAt: Invoices.voidedAt,
+        createdAt: Invoices.createdAt,
+        lineCount: sql<number>`(select count(*)::int from ${InvoiceLineItems} where ${InvoiceLineItems.invoiceId} = ${Invoices.id})`,
+      })
+      .from(Invoices)
+      .where(eq(Invoices.projectId, projectId))
+      .orderBy(desc(Invoices.createdAt));
+  } catch (error) {
+    console.error(`Error finding invoices for project: ${projectId}`, error);
+    throw error;
+  }
+}
+
+export async function findInvoiceById(id: string) {
+  try {
+    const [invoice] = await db
+      .select()
+      .from(Invoices)
+      .where(eq(Invoices.id, id))
+      .limit(1);
+    return invoice || null;
+  } catch (error) {
+    console.error(`Error finding invoice by id: ${id}`, error);
+    throw error;
+  }
+}
+
+export async function findInvoiceByPaymentLinkId(paymentLinkId: string) {
+  try {
+    const [invoice] = await db
+      .select()
+      .from(Invoices)
+      .where(eq(Invoices.paymentLinkId, paymentLinkId))
+      .limit(1);
+    return invoice || null;
+  } catch (error) {
+    console.error(`Error finding invoice by payment link: ${paymentLinkId}`, error);
+    throw error;
+  }
+}
+
+export async function findPaymentsByInvoice(invoiceId: string) {
+  try {
+    return await db
+      .select()
+      .from(InvoicePayments)
+      .where(eq(InvoicePayments.invoiceId, invoiceId))
+      .orderBy(asc(InvoicePayments.paidAt));
+  } catch (error) {
+    console.error(`Error finding payments for invoice: ${invoiceId}`, error);
+    throw error;
+  }
+}
+
+// The invoice with its project and client names and line items, as shown and printed
+export async function findInvoiceWithLines(id: string) {
+  try {
+    const [invoice] = await db
+      .select({
+        invoice: Invoices,
+        projectName: Projects.projectName,
+        clientName: Clients.legalName,
+      })
+      .from(Invoices)
+      .innerJoin(Projects, eq(Invoices.projectId, Projects.id))
+      .leftJoin(Clients, eq(Projects.clientId, Clients.id))
+      .where(eq(Invoices.id, id))
+      .limit(1);
+
+    if (!invoice) return null;
+
+    const lineItems = await db
+      .select()
+      .from(InvoiceLineItems)
+      .where(eq(InvoiceLineItems.invoiceId, id))
+      .orderBy(asc(InvoiceLineItems.sortOrder));
+
+    return { ...invoice.invoice, projectName: invoice.projectName, clientName: invoice.clientName, lineItems };
+  } catch (error) {
+    console.error(`Error finding invoice with lines: ${id}`, error);
+    throw error;
+  }
+}
+
+// The highest invoice number issued with the given prefix, e.g. "INV-2025-"
+export async function findLastInvoiceNumber(prefix: string) {
+  try {
+    const [last] = await db
+      .select({ invoiceNumber: Invoices.invoiceNumber })
+      .from(Invoices)
+      .where(like(Invoices.invoiceNumber, `${prefix}%`))
+      .orderBy(desc(Invoices.invoiceNumber))
+      .limit(1);
+    return last?.invoiceNumber || null;
+  } catch (error) {
+    console.error(`Error finding last invoice number for prefix: ${prefix}`, error);
+    throw error;
+  }
+}
+
+// Approved, billable tasks of a project in [from, to] that are not on any invoice yet.
+// With `clientAcceptedOnly`, tasks must also have been accepted by the client.
+export async function findUninvoicedApprovedTasks(
+  projectId: string,
+  from: string,
+  to: string,
+  clientAcceptedOnly = false
+) {
+  try {
+    return await db
+      .select({
+        id: Tasks.id,
+        taskName: Tasks.taskName,
+        actualHours: Tasks.actualHours,
+        workDate: Tasks.workDate,
+        employeeId: Tasks.employeeId,
+        employeeName: UserTable.name,
+      })
+      .from(Tasks)
+      .leftJoin(UserTable, eq(Tasks.employeeId, UserTable.id))
+      .where(
+        and(
+          eq(Tasks.projectId, projectId),
+          eq(Tasks.status, "approved"),
+          eq(Tasks.isBillable, true),
+          isNull(Tasks.invoiceId),
+          clientAcceptedOnly ? eq(Tasks.clientSignoffStatus, "accepted") : undefined,
+          gte(Tasks.workDate, from),
+          lte(Tasks.workDate, to)
+        )
+      )
+      .orderBy(asc(Tasks.workDate), asc(Tasks.createdAt));
+  } catch (error) {
+    console.error(`Error finding uninvoiced tasks for project: ${projectId}`, error);
+    throw error;
+  }
+}
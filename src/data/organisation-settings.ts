@@ -0,0 +1,39 @@
+import { OrganisationSettings } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { DEFAULT_GST_RATE, DEFAULT_SAC_CODE } from "@/lib/gst";
+import { DEFAULT_PAY_PERIOD_ANCHOR_DATE, DEFAULT_PAY_PERIOD_FREQUENCY } from "@/lib/payroll";
+import { DEFAULT_TIMER_LIMIT_HOURS } from "@/lib/timers";
+import { asc } from "drizzle-orm";
+
+// The settings row, or the defaults when an admin has never saved any
+export async function findOrganisationSettings() {
+  try {
+    const [settings] = await db
+      .select()
+      .from(OrganisationSettings)
+      .orderBy(asc(OrganisationSettings.createdAt))
+      .limit(1);
+
+    return settings || {
+      id: null,
+      costCurrency: DEFAULT_CURRENCY,
+      reportingCurrency: DEFAULT_CURRENCY,
+      legalName: null,
+      address: null,
+      gstin: null,
+      stateCode: null,
+      defaultSacCode: DEFAULT_SAC_CODE,
+      defaultGstRate: DEFAULT_GST_RATE,
+      payPeriodFrequency: DEFAULT_PAY_PERIOD_FREQUENCY,
+      payPeriodAnchorDate: DEFAULT_PAY_PERIOD_ANCHOR_DATE,
+      timerLimitHours: DEFAULT_TIMER_LIMIT_HOURS,
+      updatedBy: null,
+      createdAt: null,
+      updatedAt: null,
+    };
+  } catch (error) {
+    console.error("Error finding organisation settings", error);
+    throw error;
+  }
+}
@@ -0,0 +1,171 @@
+import { PayPeriods, PayrollAdjustments, PayrollLines, Projects, Tasks, TimeEntries, UserTable } from "@/drizzle/schema";
+import { toDateKey } from "@/lib/costing";
+import { db } from "@/lib/db";
+import { and, asc, desc, eq, gte, isNull, lte, or, sql } from "drizzle-orm";
+
+// Exported (locked) pay periods, newest first, with the hours they paid
+export async function findLockedPayPeriods() {
+  try {
+    return await db
+      .select({
+        id: PayPeriods.id,
+        frequency: PayPeriods.frequency,
+        periodStart: PayPeriods.periodStart,
+        periodEnd: PayPeriods.periodEnd,
+        lockedAt: PayPeriods.lockedAt,
+        lockedByName: UserTable.name,
+        totalHours: sql<string>`(select coalesce(sum(${PayrollLines.regularHours} + ${PayrollLines.overtimeHours}), 0) from ${PayrollLines} where ${PayrollLines.payPeriodId} = ${PayPeriods.id})`,
+        overtimeHours: sql<string>`(select coalesce(sum(${PayrollLines.overtimeHours}), 0) from ${PayrollLines} where ${PayrollLines.payPeriodId} = ${PayPeriods.id})`,
+      })
+      .from(PayPeriods)
+      .leftJoin(UserTable, eq(PayPeriods.lockedBy, UserTable.id))
+      .orderBy(desc(PayPeriods.periodStart));
+  } catch (error) {
+    console.error("Error finding locked pay periods", error);
+    throw error;
+  }
+}
+
+export async function findPayPeriodByStart(periodStart: string) {
+  try {
+    const [period] = await db
+      .select()
+      .from(PayPeriods)
+      .where(eq(PayPeriods.periodStart, periodStart))
+      .limit(1);
+    return period || null;
+  } catch (error) {
+    console.error(`Error finding pay period starting: ${periodStart}`, error);
+    throw error;
+  }
+}
+
+// The locked pay period overlapping the given range, if any
+export async function findLockedPayPeriodOverlapping(from: string, to: string) {
+  try {
+    const [period] = await db
+      .select()
+      .from(PayPeriods)
+      .where(and(lte(PayPeriods.periodStart, to), gte(PayPeriods.periodEnd, from)))
+      .limit(1);
+    return period || null;
+  } catch (error) {
+    console.error(`Error finding locked pay period between: ${from} and ${to}`, error);
+    throw error;
+  }
+}
+
+// The locked pay period a work date falls in, if any
+export async function findLockedPayPeriodForDate(workDate: Date | string) {
+  const dateKey = toDateKey(workDate);
+  return findLockedPayPeriodOverlapping(dateKey, dateKey);
+}
+
+// Locked pay periods covering any of the given dates
+export async function findLockedPayPeriodsForDates(dates: string[]) {
+  if (dates.length === 0) return [];
+
+  try {
+    return await db
+      .select()
+      .from(PayPeriods)
+      .where(
+        or(...dates.map((date) => and(lte(PayPeriods.periodStart, date), gte(PayPeriods.periodEnd, date))))
+      )
+      .orderBy(asc(PayPeriods.periodStart));
+  } catch (error) {
+    console.error("Error finding locked pay periods for dates", error);
+    throw error;
+  }
+}
+
+// Approved time entries of approved tasks worked in the range, as payroll
+// sees them
+export async function findApprovedEntriesForPayroll(from: string, to: string) {
+  try {
+    return await db
+      .select({
+        id: TimeEntries.id,
+        employeeId: Tasks.employeeId,
+        projectId: Tasks.projectId,
+        isBillable: Tasks.isBillable,
+        entryDate: TimeEntries.entryDate,
+        hours: TimeEntries.hours,
+        createdAt: TimeEntries.createdAt,
+      })
+      .from(TimeEntries)
+      .innerJoin(Tasks, eq(TimeEntries.taskId, Tasks.id))
+      .where(
+        and(
+          eq(Tasks.status, "approved"),
+          eq(TimeEntries.status, "approved"),
+          gte(TimeEntries.entryDate, from),
+          lte(TimeEntries.entryDate, to)
+        )
+      )
+      .orderBy(asc(TimeEntries.entryDate), asc(TimeEntries.createdAt));
+  } catch (error) {
+    console.error(`Error finding approved time entries between: ${from} and ${to}`, error);
+    throw error;
+  }
+}
+
+// The hours a locked period paid, by employee and project
+export async function findPayrollLines(payPeriodId: string) {
+  try {
+    return await db
+      .select({
+        employeeId: PayrollLines.employeeId,
+        employeeName: UserTable.name,
+        employeeEmail: UserTable.email,
+        projectName: Projects.projectName,
+        isBillable: PayrollLines.isBillable,
+        regularHours: PayrollLines.regularHours,
+        overtimeHours: PayrollLines.overtimeHours,
+      })
+      .from(PayrollLines)
+      .leftJoin(UserTable, eq(PayrollLines.employeeId, UserTable.id))
+      .leftJoin(Projects, eq(PayrollLines.projectId, Projects.id))
+      .where(eq(PayrollLines.payPeriodId, payPeriodId))
+      .orderBy(asc(UserTable.name), asc(Projects.projectName), desc(PayrollLines.isBillable));
+  } catch (error) {
+    console.error(`Error finding payroll lines for pay period: ${payPeriodId}`, error);
+    throw error;
+  }
+}
+
+// Adjustments settled by the given export, or those still waiting for the
+// next export when `settledPayPeriodId` is null
+export async function findPayrollAdjustments(settledPayPeriodId: string | null) {
+  try {
+    return await db
+      .select({
+        id: PayrollAdjustments.id,
+        taskName: PayrollAdjustments.taskName,
+        employeeName: UserTable.name,
+        employeeEmail: UserTable.email,
+        projectName: Projects.projectName,
+        periodStart: PayPeriods.periodStart,
+        periodEnd: PayPeriods.periodEnd,
+        previousHours: PayrollAdjustments.previousHours,
+        previousBillable: PayrollAdjustments.previousBillable,
+        hours: PayrollAdjustments.hours,
+        isBillable: PayrollAdjustments.isBillable,
+        reason: PayrollAdjustments.reason,
+        createdAt: PayrollAdjustments.createdAt,
+      })
+      .from(PayrollAdjustments)
+      .leftJoin(UserTable, eq(PayrollAdjustments.employeeId, UserTable.id))
+      .leftJoin(Projects, eq(PayrollAdjustments.projectId, Projects.id))
+      .leftJoin(PayPeriods, eq(PayrollAdjustments.payPeriodId, PayPeriods.id))
+      .where(
+        settledPayPeriodId
+          ? eq(PayrollAdjustments.settledPayPeriodId, settledPayPeriodId)
+          : isNull(PayrollAdjustments.settledPayPeriodId)
+      )
+      .orderBy(asc(UserTable.name), asc(PayrollAdjustments.createdAt));
+  } catch (error) {
+    console.error("Error finding payroll adjustments", error);
+    throw error;
+  }
+}
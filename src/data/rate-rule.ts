@@ -0,0 +1,208 @@
+import { Holidays, RateRuleVersions, Tasks, TimeEntries, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { applyRateRules, combineMultipliers, TaskMultiplier, weekStartKey } from "@/lib/rate-rules";
+import { and, asc, desc, eq, gte, inArray, isNull, lte, SQL } from "drizzle-orm";
+
+// Rule versions, oldest first, with who created them
+export async function findRateRuleVersions() {
+  try {
+    return await db
+      .select({
+        id: RateRuleVersions.id,
+        version: RateRuleVersions.version,
+        effectiveFrom: RateRuleVersions.effectiveFrom,
+        effectiveTo: RateRuleVersions.effectiveTo,
+        dailyThresholdHours: RateRuleVersions.dailyThresholdHours,
+        weeklyThresholdHours: RateRuleVersions.weeklyThresholdHours,
+        overtimeMultiplier: RateRuleVersions.overtimeMultiplier,
+        weekendMultiplier: RateRuleVersions.weekendMultiplier,
+        holidayMultiplier: RateRuleVersions.holidayMultiplier,
+        holidayCountryCode: RateRuleVersions.holidayCountryCode,
+        holidayStateCode: RateRuleVersions.holidayStateCode,
+        createdByName: UserTable.name,
+        createdAt: RateRuleVersions.createdAt,
+      })
+      .from(RateRuleVersions)
+      .leftJoin(UserTable, eq(RateRuleVersions.createdBy, UserTable.id))
+      .orderBy(asc(RateRuleVersions.effectiveFrom));
+  } catch (error) {
+    console.error("Error finding rate rule versions", error);
+    throw error;
+  }
+}
+
+export async function findRateRuleVersionById(id: string) {
+  try {
+    const [version] = await db
+      .select()
+      .from(RateRuleVersions)
+      .where(eq(RateRuleVersions.id, id))
+      .limit(1);
+    return version || null;
+  } catch (error) {
+    console.error(`Error finding rate rule version by id: ${id}`, error);
+    throw error;
+  }
+}
+
+export async function findLatestRateRuleVersion() {
+  try {
+    const [version] = await db
+      .select()
+      .from(RateRuleVersions)
+      .orderBy(desc(RateRuleVersions.version))
+      .limit(1);
+    return version || null;
+  } catch (error) {
+    console.error("Error finding latest rate rule version", error);
+    throw error;
+  }
+}
+
+// Holidays of a country, optionally narrowed to the countrywide ones and
+// those of one state
+export async function findHolidays(countryCodes: string[], stateCode?: string | null) {
+  if (countryCodes.length === 0) return [];
+
+  try {
+    const holidays = await db
+      .select()
+      .from(Holidays)
+      .where(inArray(Holidays.countryCode, countryCodes))
+      .orderBy(asc(Holidays.holidayDate));
+
+    return stateCode === undefined
+      ? holidays
+      : holidays.filter((holiday) => holiday.stateCode === null || holiday.stateCode === stateCode);
+  } catch (error) {
+    console.error(`Error finding holidays for: ${countryCodes.join(", ")}`, error);
+    throw error;
+  }
+}
+
+export async function findHolidayById(id: string) {
+  try {
+    const [holiday] = await db
+      .select()
+      .from(Holidays)
+      .where(eq(Holidays.id, id))
+      .limit(1);
+    return holiday || null;
+  } catch (error) {
+    console.error(`Error finding holiday by id: ${id}`, error);
+    throw error;
+  }
+}
+
+export async function findHolidayOnDate(countryCode: string, stateCode: string | null, holidayDate: string) {
+  try {
+    const [holiday] = await db
+      .select()
+      .from(Holidays)
+      .where(
+        and(
+          eq(Holidays.countryCode, countryCode),
+          stateCode ? eq(Holidays.stateCode, stateCode) : isNull(Holidays.stateCode),
+          eq(Holidays.holidayDate, holidayDate)
+        )
+      )
+      .limit(1);
+    return holiday || null;
+  } catch (error) {
+    console.error(`Error finding holiday on: ${holidayDate}`, error);
+    throw error;
+  }
+}
+
+// Approved time entries of approved tasks, which is the work the rules cost
+function findApprovedEntries(where: SQL | undefined) {
+  return db
+    .select({
+      id: TimeEntries.id,
+      taskId: TimeEntries.taskId,
+      employeeId: Tasks.employeeId,
+      entryDate: TimeEntries.entryDate,
+      hours: TimeEntries.hours,
+      createdAt: TimeEntries.createdAt,
+    })
+    .from(TimeEntries)
+    .innerJoin(Tasks, eq(TimeEntries.taskId, Tasks.id))
+    .where(and(eq(Tasks.status, "approved"), eq(TimeEntries.status, "approved"), where));
+}
+
+// How each approved time entry is costed under the rules, on its own date.
+// Thresholds count all of an employee's approved work, on every project, so
+// the employees' other approved entries in the same weeks are loaded alongside.
+export async function findEntryMultipliers(
+  entries: { id: string; employeeId: string; entryDate: string; createdAt: Date; hours: string }[]
+): Promise<Map<string, TaskMultiplier>> {
+  if (entries.length === 0) return new Map();
+
+  try {
+    const rules = await findRateRuleVersions();
+    const dateKeys = entries.map((entry) => entry.entryDate).sort();
+    const from = weekStartKey(dateKeys[0]);
+    const to = dateKeys[dateKeys.length - 1];
+
+    const sameWeekEntries = rules.length > 0
+      ? await findApprovedEntries(
+          and(
+            inArray(Tasks.employeeId, Array.from(new Set(entries.map((entry) => entry.employeeId)))),
+            gte(TimeEntries.entryDate, from),
+            lte(TimeEntries.entryDate, to)
+          )
+        )
+      : [];
+
+    const allEntries = new Map([...sameWeekEntries, ...entries].map((entry) => [entry.id, entry]));
+    const holidays = await findHolidays(
+      Array.from(new Set(rules.map((rule) => rule.holidayCountryCode).filter((code): code is string => !!code)))
+    );
+
+    return applyRateRules(
+      Array.from(allEntries.values()).map((entry) => ({
+        id: entry.id,
+        employeeId: entry.employeeId,
+        workDate: entry.entryDate,
+        loggedAt: entry.createdAt,
+        hours: parseFloat(entry.hours),
+      })),
+      rules,
+      holidays
+    );
+  } catch (error) {
+    console.error("Error finding time entry rate multipliers", error);
+    throw error;
+  }
+}
+
+// How each approved task is costed under the rules: its approved entries,
+// each costed on the day it was worked, added up
+export async function findTaskMultipliers(
+  tasks: { id: string; employeeId: string }[]
+): Promise<Map<string, TaskMultiplier>> {
+  if (tasks.length === 0) return new Map();
+
+  try {
+    const entries = await findApprovedEntries(inArray(TimeEntries.taskId, tasks.map((task) => task.id)));
+    const entryMultipliers = await findEntryMultipliers(entries);
+
+    return new Map(
+      tasks.map((task) => [
+        task.id,
+        combineMultipliers(
+          entries
+            .filter((entry) => entry.taskId === task.id)
+            .map((entry) => ({
+              entryDate: entry.entryDate,
+              hours: parseFloat(entry.hours),
+              multiplier: entryMultipliers.get(entry.id)!,
+            }))
+        ),
+      ])
+    );
+  } catch (error) {
+    console.error("Error finding task rate multipliers", error);
+    throw error;
+  }
+}
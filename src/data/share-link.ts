@@ -0,0 +1,65 @@
+import { Clients, Projects, ShareLinks, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { desc, eq, sql } from "drizzle-orm";
+
+export async function findShareLinkById(id: string) {
+  try {
+    const [link] = await db
+      .select()
+      .from(ShareLinks)
+      .where(eq(ShareLinks.id, id))
+      .limit(1);
+    return link || null;
+  } catch (error) {
+    console.error(`Error finding share link by id: ${id}`, error);
+    throw error;
+  }
+}
+
+// Share links, newest first, optionally for one project or client
+export async function findShareLinks(filter: { projectId?: string; clientId?: string } = {}) {
+  try {
+    return await db
+      .select({
+        id: ShareLinks.id,
+        projectId: ShareLinks.projectId,
+        projectName: Projects.projectName,
+        clientId: ShareLinks.clientId,
+        clientName: Clients.legalName,
+        label: ShareLinks.label,
+        expiresAt: ShareLinks.expiresAt,
+        revokedAt: ShareLinks.revokedAt,
+        lastViewedAt: ShareLinks.lastViewedAt,
+        viewCount: ShareLinks.viewCount,
+        createdByName: UserTable.name,
+        createdAt: ShareLinks.createdAt,
+      })
+      .from(ShareLinks)
+      .leftJoin(Projects, eq(ShareLinks.projectId, Projects.id))
+      .leftJoin(Clients, eq(ShareLinks.clientId, Clients.id))
+      .leftJoin(UserTable, eq(ShareLinks.createdBy, UserTable.id))
+      .where(
+        filter.projectId
+          ? eq(ShareLinks.projectId, filter.projectId)
+          : filter.clientId
+            ? eq(ShareLinks.clientId, filter.clientId)
+            : undefined
+      )
+      .orderBy(desc(ShareLinks.createdAt));
+  } catch (error) {
+    console.error("Error finding share links", error);
+    throw error;
+  }
+}
+
+export async function recordShareLinkView(id: string) {
+  try {
+    await db
+      .update(ShareLinks)
+      .set({ viewCount: sql`${ShareLinks.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(eq(ShareLinks.id, id));
+  } catch (error) {
+    console.error(`Error recording view of share link: ${id}`, error);
+    throw error;
+  }
+}
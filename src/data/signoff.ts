@@ -0,0 +1,100 @@
+import { SignoffLines, SignoffRequests, Tasks, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { and, asc, desc, eq, gte, isNull, lte, or, sql } from "drizzle-orm";
+
+// Sign-off requests of a project, newest first, with how each line was answered
+export async function findSignoffRequestsByProject(projectId: string) {
+  try {
+    return await db
+      .select({
+        id: SignoffRequests.id,
+        contactName: SignoffRequests.contactName,
+        contactEmail: SignoffRequests.contactEmail,
+        periodStart: SignoffRequests.periodStart,
+        periodEnd: SignoffRequests.periodEnd,
+        status: SignoffRequests.status,
+        expiresAt: SignoffRequests.expiresAt,
+        respondedAt: SignoffRequests.respondedAt,
+        createdAt: SignoffRequests.createdAt,
+        totalHours: sql<string>`(select coalesce(sum(${SignoffLines.hours}), 0) from ${SignoffLines} where ${SignoffLines.requestId} = ${SignoffRequests.id})`,
+        lineCount: sql<number>`(select count(*)::int from ${SignoffLines} where ${SignoffLines.requestId} = ${SignoffRequests.id})`,
+        acceptedCount: sql<number>`(select count(*)::int from ${SignoffLines} where ${SignoffLines.requestId} = ${SignoffRequests.id} and ${SignoffLines.status} = 'accepted')`,
+        disputedCount: sql<number>`(select count(*)::int from ${SignoffLines} where ${SignoffLines.requestId} = ${SignoffRequests.id} and ${SignoffLines.status} = 'disputed')`,
+      })
+      .from(SignoffRequests)
+      .where(eq(SignoffRequests.projectId, projectId))
+      .orderBy(desc(SignoffRequests.createdAt));
+  } catch (error) {
+    console.error(`Error finding sign-off requests for project: ${projectId}`, error);
+    throw error;
+  }
+}
+
+export async function findSignoffRequestById(id: string) {
+  try {
+    const [request] = await db
+      .select()
+      .from(SignoffRequests)
+      .where(eq(SignoffRequests.id, id))
+      .limit(1);
+    return request || null;
+  } catch (error) {
+    console.error(`Error finding sign-off request by id: ${id}`, error);
+    throw error;
+  }
+}
+
+// The lines of a request with the task and employee they are for, by work date
+export async function findSignoffLines(requestId: string) {
+  try {
+    return await db
+      .select({
+        id: SignoffLines.id,
+        taskId: SignoffLines.taskId,
+        taskName: Tasks.taskName,
+        description: Tasks.description,
+        employeeName: UserTable.name,
+        workDate: Tasks.workDate,
+        hours: SignoffLines.hours,
+        status: SignoffLines.status,
+        comment: SignoffLines.comment,
+        respondedAt: SignoffLines.respondedAt,
+      })
+      .from(SignoffLines)
+      .innerJoin(Tasks, eq(SignoffLines.taskId, Tasks.id))
+      .leftJoin(UserTable, eq(Tasks.employeeId, UserTable.id))
+      .where(eq(SignoffLines.requestId, requestId))
+      .orderBy(asc(Tasks.workDate), asc(Tasks.createdAt));
+  } catch (error) {
+    console.error(`Error finding lines of sign-off request: ${requestId}`, error);
+    throw error;
+  }
+}
+
+// Approved, billable, uninvoiced tasks in [from, to] that the client has not accepted
+// and is not currently asked about. Disputed tasks can be sent again.
+export async function findTasksAwaitingSignoff(projectId: string, from: string, to: string) {
+  try {
+    return await db
+      .select({
+        id: Tasks.id,
+        actualHours: Tasks.actualHours,
+      })
+      .from(Tasks)
+      .where(
+        and(
+          eq(Tasks.projectId, projectId),
+          eq(Tasks.status, "approved"),
+          eq(Tasks.isBillable, true),
+          isNull(Tasks.invoiceId),
+          or(isNull(Tasks.clientSignoffStatus), eq(Tasks.clientSignoffStatus, "disputed")),
+          gte(Tasks.workDate, from),
+          lte(Tasks.workDate, to)
+        )
+      )
+      .orderBy(asc(Tasks.workDate), asc(Tasks.createdAt));
+  } catch (error) {
+    console.error(`Error finding tasks awaiting sign-off for project: ${projectId}`, error);
+    throw error;
+  }
+}
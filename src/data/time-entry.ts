@@ -0,0 +1,150 @@
+import { PayrollAdjustments, Tasks, TimeEntries } from "@/drizzle/schema";
+import { db, Transaction } from "@/lib/db";
+import { PayrollLock } from "@/lib/payroll-lock";
+import { rollUpEntries } from "@/lib/time-entries";
+import { asc, eq, inArray } from "drizzle-orm";
+
+// Entries of the given tasks, by date and then in the order they were logged
+export async function findTimeEntriesForTasks(taskIds: string[]) {
+  if (taskIds.length === 0) return [];
+
+  try {
+    return await db
+      .select()
+      .from(TimeEntries)
+      .where(inArray(TimeEntries.taskId, taskIds))
+      .orderBy(asc(TimeEntries.entryDate), asc(TimeEntries.startTime), asc(TimeEntries.createdAt));
+  } catch (error) {
+    console.error("Error finding time entries for tasks", error);
+    throw error;
+  }
+}
+
+// An entry with the task it belongs to
+export async function findTimeEntryById(id: string) {
+  try {
+    const [row] = await db
+      .select({ entry: TimeEntries, task: Tasks })
+      .from(TimeEntries)
+      .innerJoin(Tasks, eq(TimeEntries.taskId, Tasks.id))
+      .where(eq(TimeEntries.id, id))
+      .limit(1);
+    return row || null;
+  } catch (error) {
+    console.error(`Error finding time entry by id: ${id}`, error);
+    throw error;
+  }
+}
+
+// Bring a task's hours, work date and status in line with its entries, inside
+// the transaction that changed them. A task that becomes approved or rejected
+// records `actorId` as the approver. The client signed off on the hours and
+// date they were shown, so a task that leaves approval, or whose hours or date
+// change, loses its client sign-off.
+export async function syncTaskWithEntries(tx: Transaction, taskId: string, actorId: string) {
+  const entries = await tx
+    .select({ entryDate: TimeEntries.entryDate, hours: TimeEntries.hours, status: TimeEntries.status })
+    .from(TimeEntries)
+    .where(eq(TimeEntries.taskId, taskId));
+  const [task] = await tx.select().from(Tasks).where(eq(Tasks.id, taskId)).limit(1);
+  const rollup = rollUpEntries(entries);
+
+  const updateData: Partial<typeof Tasks.$inferInsert> = {
+    actualHours: rollup.actualHours,
+    workDate: rollup.workDate ?? task.workDate,
+    status: rollup.status,
+    updatedAt: new Date(),
+  };
+
+  if (rollup.status !== task.status) {
+    updateData.approvedBy = rollup.status === "pending" ? null : actorId;
+    updateData.approvedAt = rollup.status === "pending" ? null : new Date();
+  }
+
+  if (
+    rollup.status !== "approved" ||
+    parseFloat(rollup.actualHours) !== parseFloat(task.actualHours || "0") ||
+    updateData.workDate !== task.workDate
+  ) {
+    updateData.clientSignoffStatus = null;
+  }
+
+  const [updated] = await tx.update(Tasks).set(updateData).where(eq(Tasks.id, taskId)).returning();
+  return updated;
+}
+
+// Record what a change took out of, or added to, each exported pay period it
+// reached into, for the next payroll export to settle
+export async function recordPayrollAdjustments(
+  tx: Transaction,
+  payroll: PayrollLock,
+  task: {
+    taskId: string | null;
+    taskName: string;
+    employeeId: string;
+    projectId: string;
+    previousBillable: boolean;
+    isBillable: boolean;
+  },
+  actorId: string
+) {
+  for (const adjustment of payroll.adjustments) {
+    await tx.insert(PayrollAdjustments).values({
+      payPeriodId: adjustment.period.id,
+      ...task,
+      previousHours: adjustment.previousHours.toFixed(2),
+      hours: adjustment.hours.toFixed(2),
+      reason: payroll.reason,
+      createdBy: actorId,
+    });
+  }
+}
+
+// Roll a task's changed entries up into the task, inside the transaction that
+// changed them, and record the payroll adjustments the change makes
+export async function settleEntryChange(
+  tx: Transaction,
+  task: typeof Tasks.$inferSelect,
+  actorId: string,
+  payroll: PayrollLock
+) {
+  const updated = await syncTaskWithEntries(tx, task.id, actorId);
+
+  await recordPayrollAdjustments(
+    tx,
+    payroll,
+    {
+      taskId: task.id,
+      taskName: task.taskName,
+      employeeId: task.employeeId,
+      projectId: task.projectId,
+      previousBillable: task.isBillable,
+      isBillable: updated.isBillable,
+    },
+    actorId
+  );
+
+  return updated;
+}
+
+// Change a task's entries and settle the result in one transaction. `audit`
+// runs last in the same transaction, with the settled task.
+export async function changeTimeEntries(
+  task: typeof Tasks.$inferSelect,
+  actorId: string,
+  payroll: PayrollLock,
+  change: (tx: Transaction) => Promise<unknown>,
+  audit?: (tx: Transaction, updated: typeof Tasks.$inferSelect) => Promise<unknown>
+) {
+  try {
+    return await db.transaction(async (tx) => {
+      await change(tx);
+      const updated = await settleEntryChange(tx, task, actorId, payroll);
+      await audit?.(tx, updated);
+      return updated;
+    });
+  } catch (error) {
+    console.error(`Error changing time entries of task: ${task.id}`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,54 @@
+import { Projects, RunningTimers, Tasks, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { and, asc, eq, lt } from "drizzle-orm";
+
+const timerFields = {
+  id: RunningTimers.id,
+  employeeId: RunningTimers.employeeId,
+  taskId: RunningTimers.taskId,
+  note: RunningTimers.note,
+  startedAt: RunningTimers.startedAt,
+  taskName: Tasks.taskName,
+  projectId: Tasks.projectId,
+  projectName: Projects.projectName,
+};
+
+// The employee's running timer with the task it runs on, or null
+export async function findRunningTimer(employeeId: string) {
+  try {
+    const [timer] = await db
+      .select(timerFields)
+      .from(RunningTimers)
+      .innerJoin(Tasks, eq(RunningTimers.taskId, Tasks.id))
+      .leftJoin(Projects, eq(Tasks.projectId, Projects.id))
+      .where(eq(RunningTimers.employeeId, employeeId))
+      .limit(1);
+    return timer || null;
+  } catch (error) {
+    console.error(`Error finding running timer for employee: ${employeeId}`, error);
+    throw error;
+  }
+}
+
+// Timers started before `cutoff`, oldest first, with who to notify. Only the
+// employee's own timer when `employeeId` is given.
+export async function findTimersStartedBefore(cutoff: Date, employeeId?: string) {
+  try {
+    return await db
+      .select({ ...timerFields, employeeEmail: UserTable.email })
+      .from(RunningTimers)
+      .innerJoin(Tasks, eq(RunningTimers.taskId, Tasks.id))
+      .leftJoin(Projects, eq(Tasks.projectId, Projects.id))
+      .leftJoin(UserTable, eq(RunningTimers.employeeId, UserTable.id))
+      .where(
+        and(
+          lt(RunningTimers.startedAt, cutoff),
+          employeeId ? eq(RunningTimers.employeeId, employeeId) : undefined
+        )
+      )
+      .orderBy(asc(RunningTimers.startedAt));
+  } catch (error) {
+    console.error("Error finding expired timers", error);
+    throw error;
+  }
+}
@@ -0,0 +1,75 @@
+import { TimesheetPeriods, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { and, desc, eq, gte, lte, ne, or } from "drizzle-orm";
+
+// Every period, latest first, with who last changed its status
+export async function findTimesheetPeriods() {
+  try {
+    return await db
+      .select({
+        id: TimesheetPeriods.id,
+        periodStart: TimesheetPeriods.periodStart,
+        periodEnd: TimesheetPeriods.periodEnd,
+        status: TimesheetPeriods.status,
+        statusChangedAt: TimesheetPeriods.statusChangedAt,
+        statusChangedByName: UserTable.name,
+      })
+      .from(TimesheetPeriods)
+      .leftJoin(UserTable, eq(TimesheetPeriods.statusChangedBy, UserTable.id))
+      .orderBy(desc(TimesheetPeriods.periodStart));
+  } catch (error) {
+    console.error("Error finding timesheet periods", error);
+    throw error;
+  }
+}
+
+export async function findTimesheetPeriodById(id: string) {
+  try {
+    const [period] = await db
+      .select()
+      .from(TimesheetPeriods)
+      .where(eq(TimesheetPeriods.id, id))
+      .limit(1);
+    return period || null;
+  } catch (error) {
+    console.error(`Error finding timesheet period by id: ${id}`, error);
+    throw error;
+  }
+}
+
+// Periods sharing any day with the given range
+export async function findOverlappingTimesheetPeriods(periodStart: string, periodEnd: string) {
+  try {
+    return await db
+      .select()
+      .from(TimesheetPeriods)
+      .where(and(lte(TimesheetPeriods.periodStart, periodEnd), gte(TimesheetPeriods.periodEnd, periodStart)));
+  } catch (error) {
+    console.error(`Error finding timesheet periods overlapping ${periodStart} to ${periodEnd}`, error);
+    throw error;
+  }
+}
+
+// Closed and locked periods covering any of the given dates
+export async function findClosedPeriodsForDates(dates: string[]) {
+  if (dates.length === 0) return [];
+
+  try {
+    return await db
+      .select()
+      .from(TimesheetPeriods)
+      .where(
+        and(
+          ne(TimesheetPeriods.status, "open"),
+          or(
+            ...dates.map((date) =>
+              and(lte(TimesheetPeriods.periodStart, date), gte(TimesheetPeriods.periodEnd, date))
+            )
+          )
+        )
+      );
+  } catch (error) {
+    console.error("Error finding closed timesheet periods for dates", error);
+    throw error;
+  }
+}
@@ -0,0 +1,138 @@
+import { Projects, Tasks, TimeEntries, Timesheets, UserTable } from "@/drizzle/schema";
+import { db } from "@/lib/db";
+import { buildTimesheetRows, weekDays } from "@/lib/timesheets";
+import { and, asc, desc, eq, gte, isNull, lte, ne, sql } from "drizzle-orm";
+
+export async function findTimesheet(employeeId: string, weekStart: string) {
+  try {
+    const [timesheet] = await db
+      .select()
+      .from(Timesheets)
+      .where(and(eq(Timesheets.employeeId, employeeId), eq(Timesheets.weekStart, weekStart)))
+      .limit(1);
+    return timesheet || null;
+  } catch (error) {
+    console.error(`Error finding timesheet for week: ${weekStart}`, error);
+    throw error;
+  }
+}
+
+export async function findTimesheetById(id: string) {
+  try {
+    const [timesheet] = await db
+      .select()
+      .from(Timesheets)
+      .where(eq(Timesheets.id, id))
+      .limit(1);
+    return timesheet || null;
+  } catch (error) {
+    console.error(`Error finding timesheet by id: ${id}`, error);
+    throw error;
+  }
+}
+
+// The time entries of an employee's tasks dated in the week, with their tasks
+export async function findWeekEntries(employeeId: string, weekStart: string) {
+  const days = weekDays(weekStart);
+
+  try {
+    return await db
+      .select({
+        id: TimeEntries.id,
+        taskId: TimeEntries.taskId,
+        entryDate: TimeEntries.entryDate,
+        hours: TimeEntries.hours,
+        status: TimeEntries.status,
+        taskName: Tasks.taskName,
+        projectId: Tasks.projectId,
+        projectName: Projects.projectName,
+        invoiceId: Tasks.invoiceId,
+        taskStatus: Tasks.status,
+      })
+      .from(TimeEntries)
+      .innerJoin(Tasks, eq(TimeEntries.taskId, Tasks.id))
+      .leftJoin(Projects, eq(Tasks.projectId, Projects.id))
+      .where(
+        and(
+          eq(Tasks.employeeId, employeeId),
+          gte(TimeEntries.entryDate, days[0]),
+          lte(TimeEntries.entryDate, days[6])
+        )
+      )
+      .orderBy(asc(TimeEntries.entryDate), asc(TimeEntries.createdAt));
+  } catch (error) {
+    console.error(`Error finding time entries for week: ${weekStart}`, error);
+    throw error;
+  }
+}
+
+// An employee's week as the grid shows it: the timesheet (null until the
+// week is first saved) and a row per task with hours in the week
+export async function findTimesheetWeek(employeeId: string, weekStart: string) {
+  const [timesheet, entries] = await Promise.all([
+    findTimesheet(employeeId, weekStart),
+    findWeekEntries(employeeId, weekStart),
+  ]);
+
+  return {
+    weekStart,
+    days: weekDays(weekStart),
+    timesheet,
+    rows: buildTimesheetRows(entries),
+  };
+}
+
+// Tasks the employee can add time to, from a timesheet or a timer: their
+// tasks on active projects that have been neither approved nor invoiced
+export async function findTimesheetTasks(employeeId: string) {
+  try {
+    return await db
+      .select({
+        taskId: Tasks.id,
+        taskName: Tasks.taskName,
+        projectId: Tasks.projectId,
+        projectName: Projects.projectName,
+      })
+      .from(Tasks)
+      .innerJoin(Projects, eq(Tasks.projectId, Projects.id))
+      .where(
+        and(
+          eq(Tasks.employeeId, employeeId),
+          eq(Projects.isActive, true),
+          ne(Tasks.status, "approved"),
+          isNull(Tasks.invoiceId)
+        )
+      )
+      .orderBy(asc(Projects.projectName), asc(Tasks.taskName));
+  } catch (error) {
+    console.error(`Error finding timesheet tasks for employee: ${employeeId}`, error);
+    throw error;
+  }
+}
+
+// Timesheets, optionally of one status, newest week first, with the hours
+// logged in each week
+export async function findTimesheets(status?: typeof Timesheets.$inferSelect.status) {
+  try {
+    return await db
+      .select({
+        id: Timesheets.id,
+        employeeId: Timesheets.employeeId,
+        employeeName: UserTable.name,
+        employeeEmail: UserTable.email,
+        weekStart: Timesheets.weekStart,
+        status: Timesheets.status,
+        submittedAt: Timesheets.submittedAt,
+        reviewedAt: Timesheets.reviewedAt,
+        rejectionReason: Timesheets.rejectionReason,
+        totalHours: sql<string>`(select coalesce(sum(${TimeEntries.hours}), 0) from ${TimeEntries} inner join ${Tasks} on ${Tasks.id} = ${TimeEntries.taskId} where ${Tasks.employeeId} = ${Timesheets.employeeId} and ${TimeEntries.entryDate} between ${Timesheets.weekStart} and ${Timesheets.weekStart} + 6 and ${TimeEntries.status} <> 'rejected')`,
+      })
+      .from(Timesheets)
+      .leftJoin(UserTable, eq(Timesheets.employeeId, UserTable.id))
+      .where(status ? eq(Timesheets.status, status) : ne(Timesheets.status, "draft"))
+      .orderBy(desc(Timesheets.weekStart), asc(UserTable.name));
+  } catch (error) {
+    console.error("Error finding timesheets", error);
+    throw error;
+  }
+}
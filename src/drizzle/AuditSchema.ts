@@ -54,7 +54,8 @@ export const AuditTrailTable = pgTable(
     id: uuid("id").defaultRandom().primaryKey().notNull(),
     details: jsonb("details").notNull(),
     eventId: uuid("event_id").notNull(),
-    userId: uuid("user_id").notNull(),
+    // Null for events without a signed-in user, such as client portal views
+    userId: uuid("user_id"),
     createdAt: timestamp("created_at", { precision: 3, mode: "date" })
       .default(sql`CURRENT_TIMESTAMP`)
       .notNull(),
@@ -0,0 +1,61 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."reviewer_type" AS ENUM('employee', 'admin');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "employee_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"employee_id" uuid NOT NULL,
+	"hourly_rate" numeric(12, 2) NOT NULL,
+	"effective_from" date NOT NULL,
+	"effective_to" date,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "task_reviews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"task_id" uuid NOT NULL,
+	"reviewer_id" uuid NOT NULL,
+	"reviewer_type" "reviewer_type" NOT NULL,
+	"rating" integer NOT NULL,
+	"feedback" text,
+	"reply" text,
+	"replied_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "employee_rates" ADD CONSTRAINT "employee_rates_employee_id_users_id_fk" FOREIGN KEY ("employee_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "employee_rates" ADD CONSTRAINT "employee_rates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "task_reviews" ADD CONSTRAINT "task_reviews_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "task_reviews" ADD CONSTRAINT "task_reviews_reviewer_id_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "employee_rate_employee_idx" ON "employee_rates" USING btree ("employee_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_employee_rate_from" ON "employee_rates" USING btree ("employee_id","effective_from");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "review_task_idx" ON "task_reviews" USING btree ("task_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "review_reviewer_idx" ON "task_reviews" USING btree ("reviewer_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "review_reviewer_type_idx" ON "task_reviews" USING btree ("reviewer_type");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "review_rating_idx" ON "task_reviews" USING btree ("rating");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_task_reviewer" ON "task_reviews" USING btree ("task_id","reviewer_id");
\ No newline at end of file
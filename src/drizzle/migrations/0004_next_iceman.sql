@@ -0,0 +1,27 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."budget_type" AS ENUM('hours', 'amount');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "project_budget_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"budget_type" "budget_type" NOT NULL,
+	"threshold" integer NOT NULL,
+	"percent_burned" numeric(7, 2) NOT NULL,
+	"crossed_at" timestamp DEFAULT now() NOT NULL,
+	"notified_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "budget_hours" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "budget_amount" numeric(14, 2);--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "budget_alert_thresholds" jsonb DEFAULT '[75,90,100]'::jsonb NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_budget_alerts" ADD CONSTRAINT "project_budget_alerts_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "budget_alert_project_idx" ON "project_budget_alerts" USING btree ("project_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_project_budget_threshold" ON "project_budget_alerts" USING btree ("project_id","budget_type","threshold");
\ No newline at end of file
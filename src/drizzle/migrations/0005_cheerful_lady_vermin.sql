@@ -0,0 +1,32 @@
+CREATE TABLE IF NOT EXISTS "bill_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"employee_id" uuid,
+	"hourly_rate" numeric(12, 2) NOT NULL,
+	"effective_from" date NOT NULL,
+	"effective_to" date,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bill_rates" ADD CONSTRAINT "bill_rates_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bill_rates" ADD CONSTRAINT "bill_rates_employee_id_users_id_fk" FOREIGN KEY ("employee_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bill_rates" ADD CONSTRAINT "bill_rates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bill_rate_project_idx" ON "bill_rates" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bill_rate_employee_idx" ON "bill_rates" USING btree ("employee_id");
\ No newline at end of file
@@ -0,0 +1,68 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."estimate_status" AS ENUM('draft', 'submitted', 'approved');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "estimate_line_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"estimate_id" uuid NOT NULL,
+	"work_package" varchar(255) NOT NULL,
+	"role" varchar(100) NOT NULL,
+	"estimated_hours" numeric(10, 2) NOT NULL,
+	"hourly_rate" numeric(12, 2) NOT NULL,
+	"contingency_percent" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "project_estimates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"notes" text,
+	"status" "estimate_status" DEFAULT 'draft' NOT NULL,
+	"created_by" uuid NOT NULL,
+	"submitted_at" timestamp,
+	"approved_by" uuid,
+	"approved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "estimate_line_item_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "estimate_line_items" ADD CONSTRAINT "estimate_line_items_estimate_id_project_estimates_id_fk" FOREIGN KEY ("estimate_id") REFERENCES "public"."project_estimates"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_estimates" ADD CONSTRAINT "project_estimates_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_estimates" ADD CONSTRAINT "project_estimates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_estimates" ADD CONSTRAINT "project_estimates_approved_by_users_id_fk" FOREIGN KEY ("approved_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "estimate_line_item_estimate_idx" ON "estimate_line_items" USING btree ("estimate_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "estimate_project_idx" ON "project_estimates" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "estimate_status_idx" ON "project_estimates" USING btree ("status");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tasks" ADD CONSTRAINT "tasks_estimate_line_item_id_estimate_line_items_id_fk" FOREIGN KEY ("estimate_line_item_id") REFERENCES "public"."estimate_line_items"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_estimate_line_item_idx" ON "tasks" USING btree ("estimate_line_item_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "tasks" ADD COLUMN "optimistic_hours" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "most_likely_hours" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "pessimistic_hours" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "estimate_std_dev" numeric(10, 2);
\ No newline at end of file
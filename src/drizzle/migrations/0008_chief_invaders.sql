@@ -0,0 +1,2 @@
+ALTER TABLE "projects" ADD COLUMN "planned_start_date" date;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "planned_end_date" date;
\ No newline at end of file
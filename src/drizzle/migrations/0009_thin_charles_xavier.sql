@@ -0,0 +1,36 @@
+CREATE TABLE IF NOT EXISTS "exchange_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"base_currency" varchar(3) NOT NULL,
+	"quote_currency" varchar(3) NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"effective_date" date NOT NULL,
+	"source" varchar(20) DEFAULT 'manual' NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "organisation_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"cost_currency" varchar(3) DEFAULT 'INR' NOT NULL,
+	"reporting_currency" varchar(3) DEFAULT 'INR' NOT NULL,
+	"updated_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "billing_currency" varchar(3) DEFAULT 'INR' NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "organisation_settings" ADD CONSTRAINT "organisation_settings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "exchange_rate_pair_idx" ON "exchange_rates" USING btree ("base_currency","quote_currency");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_exchange_rate_pair_date" ON "exchange_rates" USING btree ("base_currency","quote_currency","effective_date");
\ No newline at end of file
@@ -0,0 +1,77 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."invoice_status" AS ENUM('draft', 'issued', 'paid', 'void');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "invoice_line_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"task_id" uuid,
+	"description" text NOT NULL,
+	"work_date" date NOT NULL,
+	"quantity" numeric(10, 2) NOT NULL,
+	"unit_price" numeric(12, 2) NOT NULL,
+	"amount" numeric(14, 2) NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "invoices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"invoice_number" varchar(50) NOT NULL,
+	"status" "invoice_status" DEFAULT 'draft' NOT NULL,
+	"period_start" date NOT NULL,
+	"period_end" date NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"subtotal" numeric(14, 2) NOT NULL,
+	"tax_rate" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"tax_amount" numeric(14, 2) NOT NULL,
+	"total" numeric(14, 2) NOT NULL,
+	"due_date" date,
+	"notes" text,
+	"created_by" uuid NOT NULL,
+	"issued_at" timestamp,
+	"paid_at" timestamp,
+	"voided_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "invoice_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "invoice_line_items" ADD CONSTRAINT "invoice_line_items_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "invoice_line_items" ADD CONSTRAINT "invoice_line_items_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "invoices" ADD CONSTRAINT "invoices_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "invoices" ADD CONSTRAINT "invoices_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invoice_line_item_invoice_idx" ON "invoice_line_items" USING btree ("invoice_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invoice_line_item_task_idx" ON "invoice_line_items" USING btree ("task_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invoice_project_idx" ON "invoices" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invoice_status_idx" ON "invoices" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_invoice_number" ON "invoices" USING btree ("invoice_number");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tasks" ADD CONSTRAINT "tasks_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_invoice_idx" ON "tasks" USING btree ("invoice_id");
\ No newline at end of file
@@ -0,0 +1,17 @@
+ALTER TABLE "estimate_line_items" ADD COLUMN "hsn_sac" varchar(8);--> statement-breakpoint
+ALTER TABLE "invoice_line_items" ADD COLUMN "hsn_sac" varchar(8);--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "supplier_gstin" varchar(15);--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "customer_gstin" varchar(15);--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "place_of_supply" varchar(2);--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "supply_type" varchar(20);--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "cgst_amount" numeric(14, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "sgst_amount" numeric(14, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "igst_amount" numeric(14, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "legal_name" varchar(255);--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "address" text;--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "gstin" varchar(15);--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "state_code" varchar(2);--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "default_sac_code" varchar(8) DEFAULT '998314' NOT NULL;--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "default_gst_rate" numeric(5, 2) DEFAULT '18' NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "client_gstin" varchar(15);--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "place_of_supply" varchar(2);
\ No newline at end of file
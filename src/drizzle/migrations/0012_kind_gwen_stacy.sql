@@ -0,0 +1,25 @@
+ALTER TYPE "invoice_status" ADD VALUE 'partially_paid';--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "invoice_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"provider" varchar(20) NOT NULL,
+	"provider_payment_id" varchar(64) NOT NULL,
+	"amount" numeric(14, 2) NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"method" varchar(30),
+	"paid_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "amount_paid" numeric(14, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "payment_link_id" varchar(64);--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "payment_link_url" text;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "invoice_payments" ADD CONSTRAINT "invoice_payments_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invoice_payment_invoice_idx" ON "invoice_payments" USING btree ("invoice_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_provider_payment" ON "invoice_payments" USING btree ("provider","provider_payment_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "invoice_payment_link_idx" ON "invoices" USING btree ("payment_link_id");
\ No newline at end of file
@@ -0,0 +1,51 @@
+CREATE TABLE IF NOT EXISTS "client_contacts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"email" varchar(255),
+	"phone" varchar(30),
+	"designation" varchar(100),
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "clients" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"legal_name" varchar(255) NOT NULL,
+	"address_line1" varchar(255),
+	"address_line2" varchar(255),
+	"city" varchar(100),
+	"state_code" varchar(10),
+	"country_code" varchar(2),
+	"postal_code" varchar(20),
+	"gstin" varchar(15),
+	"default_currency" varchar(3) DEFAULT 'INR' NOT NULL,
+	"payment_terms_days" integer DEFAULT 30 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "client_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "client_contacts" ADD CONSTRAINT "client_contacts_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "clients" ADD CONSTRAINT "clients_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "client_contact_client_idx" ON "client_contacts" USING btree ("client_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "client_legal_name_idx" ON "clients" USING btree ("legal_name");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "projects" ADD CONSTRAINT "projects_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "project_client_idx" ON "projects" USING btree ("client_id");
\ No newline at end of file
@@ -0,0 +1,74 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."client_signoff_status" AS ENUM('pending', 'accepted', 'disputed');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "public"."signoff_request_status" AS ENUM('sent', 'completed', 'cancelled');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "signoff_lines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"request_id" uuid NOT NULL,
+	"task_id" uuid NOT NULL,
+	"hours" numeric(10, 2) NOT NULL,
+	"status" "client_signoff_status" DEFAULT 'pending' NOT NULL,
+	"comment" text,
+	"responded_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "signoff_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"contact_id" uuid,
+	"contact_name" varchar(255) NOT NULL,
+	"contact_email" varchar(255) NOT NULL,
+	"period_start" date NOT NULL,
+	"period_end" date NOT NULL,
+	"status" "signoff_request_status" DEFAULT 'sent' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"responded_at" timestamp,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "requires_client_signoff" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "client_signoff_status" "client_signoff_status";--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "signoff_lines" ADD CONSTRAINT "signoff_lines_request_id_signoff_requests_id_fk" FOREIGN KEY ("request_id") REFERENCES "public"."signoff_requests"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "signoff_lines" ADD CONSTRAINT "signoff_lines_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "signoff_requests" ADD CONSTRAINT "signoff_requests_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "signoff_requests" ADD CONSTRAINT "signoff_requests_contact_id_client_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."client_contacts"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "signoff_requests" ADD CONSTRAINT "signoff_requests_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "signoff_line_request_idx" ON "signoff_lines" USING btree ("request_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "signoff_line_task_idx" ON "signoff_lines" USING btree ("task_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_signoff_request_task" ON "signoff_lines" USING btree ("request_id","task_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "signoff_request_project_idx" ON "signoff_requests" USING btree ("project_id");
\ No newline at end of file
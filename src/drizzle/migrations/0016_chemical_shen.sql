@@ -0,0 +1,10 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."non_billable_reason" AS ENUM('internal', 'rework', 'training', 'pre_sales');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "default_billable" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "default_non_billable_reason" "non_billable_reason";--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "is_billable" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "non_billable_reason" "non_billable_reason";
\ No newline at end of file
@@ -0,0 +1,70 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."expense_category" AS ENUM('travel', 'software_licence', 'subcontractor', 'other');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "public"."expense_status" AS ENUM('pending', 'approved', 'rejected');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "project_expenses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"submitted_by" uuid NOT NULL,
+	"category" "expense_category" NOT NULL,
+	"description" text NOT NULL,
+	"amount" numeric(14, 2) NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"expense_date" date NOT NULL,
+	"is_billable" boolean DEFAULT true NOT NULL,
+	"receipt_url" text NOT NULL,
+	"receipt_key" varchar(255) NOT NULL,
+	"receipt_name" varchar(255) NOT NULL,
+	"status" "expense_status" DEFAULT 'pending' NOT NULL,
+	"approved_by" uuid,
+	"approved_at" timestamp,
+	"rejection_reason" text,
+	"invoice_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "invoice_line_items" ADD COLUMN "expense_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_expenses" ADD CONSTRAINT "project_expenses_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_expenses" ADD CONSTRAINT "project_expenses_submitted_by_users_id_fk" FOREIGN KEY ("submitted_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_expenses" ADD CONSTRAINT "project_expenses_approved_by_users_id_fk" FOREIGN KEY ("approved_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_expenses" ADD CONSTRAINT "project_expenses_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "project_expense_project_idx" ON "project_expenses" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "project_expense_submitted_by_idx" ON "project_expenses" USING btree ("submitted_by");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "project_expense_status_idx" ON "project_expenses" USING btree ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "project_expense_invoice_idx" ON "project_expenses" USING btree ("invoice_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "invoice_line_items" ADD CONSTRAINT "invoice_line_items_expense_id_project_expenses_id_fk" FOREIGN KEY ("expense_id") REFERENCES "public"."project_expenses"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invoice_line_item_expense_idx" ON "invoice_line_items" USING btree ("expense_id");
\ No newline at end of file
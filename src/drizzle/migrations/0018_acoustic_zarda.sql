@@ -0,0 +1,109 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."pay_period_frequency" AS ENUM('weekly', 'biweekly', 'monthly');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "pay_periods" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"frequency" "pay_period_frequency" NOT NULL,
+	"period_start" date NOT NULL,
+	"period_end" date NOT NULL,
+	"locked_by" uuid NOT NULL,
+	"locked_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "payroll_adjustments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pay_period_id" uuid NOT NULL,
+	"task_id" uuid,
+	"task_name" varchar(255) NOT NULL,
+	"employee_id" uuid NOT NULL,
+	"project_id" uuid NOT NULL,
+	"previous_hours" numeric(10, 2) NOT NULL,
+	"previous_billable" boolean NOT NULL,
+	"hours" numeric(10, 2) NOT NULL,
+	"is_billable" boolean NOT NULL,
+	"reason" text NOT NULL,
+	"settled_pay_period_id" uuid,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "payroll_lines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pay_period_id" uuid NOT NULL,
+	"employee_id" uuid NOT NULL,
+	"project_id" uuid NOT NULL,
+	"is_billable" boolean NOT NULL,
+	"regular_hours" numeric(10, 2) NOT NULL,
+	"overtime_hours" numeric(10, 2) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "pay_period_frequency" "pay_period_frequency" DEFAULT 'monthly' NOT NULL;--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "pay_period_anchor_date" date DEFAULT '2024-01-01' NOT NULL;--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "overtime_daily_hours" numeric(4, 2) DEFAULT '8' NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pay_periods" ADD CONSTRAINT "pay_periods_locked_by_users_id_fk" FOREIGN KEY ("locked_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_pay_period_id_pay_periods_id_fk" FOREIGN KEY ("pay_period_id") REFERENCES "public"."pay_periods"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_employee_id_users_id_fk" FOREIGN KEY ("employee_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_settled_pay_period_id_pay_periods_id_fk" FOREIGN KEY ("settled_pay_period_id") REFERENCES "public"."pay_periods"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payroll_lines" ADD CONSTRAINT "payroll_lines_pay_period_id_pay_periods_id_fk" FOREIGN KEY ("pay_period_id") REFERENCES "public"."pay_periods"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payroll_lines" ADD CONSTRAINT "payroll_lines_employee_id_users_id_fk" FOREIGN KEY ("employee_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payroll_lines" ADD CONSTRAINT "payroll_lines_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_pay_period_start" ON "pay_periods" USING btree ("period_start");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "payroll_adjustment_pay_period_idx" ON "payroll_adjustments" USING btree ("pay_period_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "payroll_adjustment_settled_idx" ON "payroll_adjustments" USING btree ("settled_pay_period_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "payroll_line_pay_period_idx" ON "payroll_lines" USING btree ("pay_period_id");
\ No newline at end of file
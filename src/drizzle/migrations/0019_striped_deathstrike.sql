@@ -0,0 +1,42 @@
+CREATE TABLE IF NOT EXISTS "holidays" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"country_code" varchar(2) NOT NULL,
+	"state_code" varchar(10),
+	"holiday_date" date NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "rate_rule_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"version" integer NOT NULL,
+	"effective_from" date NOT NULL,
+	"effective_to" date,
+	"daily_threshold_hours" numeric(4, 2),
+	"weekly_threshold_hours" numeric(5, 2),
+	"overtime_multiplier" numeric(4, 2) DEFAULT '1.5' NOT NULL,
+	"weekend_multiplier" numeric(4, 2) DEFAULT '1' NOT NULL,
+	"holiday_multiplier" numeric(4, 2) DEFAULT '1' NOT NULL,
+	"holiday_country_code" varchar(2),
+	"holiday_state_code" varchar(10),
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "holidays" ADD CONSTRAINT "holidays_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rate_rule_versions" ADD CONSTRAINT "rate_rule_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "holiday_country_date_idx" ON "holidays" USING btree ("country_code","holiday_date");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_rate_rule_version" ON "rate_rule_versions" USING btree ("version");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_rate_rule_from" ON "rate_rule_versions" USING btree ("effective_from");--> statement-breakpoint
+ALTER TABLE "organisation_settings" DROP COLUMN IF EXISTS "overtime_daily_hours";
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "cost_loadings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"benefits_percent" numeric(5, 2) NOT NULL,
+	"facilities_overhead_per_hour" numeric(12, 2) NOT NULL,
+	"non_billable_allocation_percent" numeric(5, 2) NOT NULL,
+	"effective_from" date NOT NULL,
+	"effective_to" date,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "cost_loadings" ADD CONSTRAINT "cost_loadings_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_cost_loading_from" ON "cost_loadings" USING btree ("effective_from");
\ No newline at end of file
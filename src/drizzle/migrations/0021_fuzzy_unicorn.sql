@@ -0,0 +1,4 @@
+ALTER TABLE "tasks" ADD COLUMN "work_date" date;--> statement-breakpoint
+UPDATE "tasks" SET "work_date" = "created_at"::date;--> statement-breakpoint
+ALTER TABLE "tasks" ALTER COLUMN "work_date" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_work_date_idx" ON "tasks" USING btree ("work_date");
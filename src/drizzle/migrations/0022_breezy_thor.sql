@@ -0,0 +1,30 @@
+CREATE TABLE IF NOT EXISTS "time_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"task_id" uuid NOT NULL,
+	"entry_date" date NOT NULL,
+	"hours" numeric(10, 2) NOT NULL,
+	"start_time" time,
+	"end_time" time,
+	"note" text,
+	"status" "task_status" DEFAULT 'pending' NOT NULL,
+	"approved_by" uuid,
+	"approved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_approved_by_users_id_fk" FOREIGN KEY ("approved_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "time_entry_task_idx" ON "time_entries" USING btree ("task_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "time_entry_date_idx" ON "time_entries" USING btree ("entry_date");--> statement-breakpoint
+INSERT INTO "time_entries" ("task_id", "entry_date", "hours", "status", "approved_by", "approved_at", "created_at", "updated_at") SELECT "id", "work_date", coalesce("actual_hours", 0), "status", "approved_by", "approved_at", "created_at", "updated_at" FROM "tasks";
@@ -0,0 +1,33 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."timesheet_status" AS ENUM('draft', 'submitted', 'approved', 'rejected');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "timesheets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"employee_id" uuid NOT NULL,
+	"week_start" date NOT NULL,
+	"status" "timesheet_status" DEFAULT 'draft' NOT NULL,
+	"submitted_at" timestamp,
+	"reviewed_by" uuid,
+	"reviewed_at" timestamp,
+	"rejection_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "timesheets" ADD CONSTRAINT "timesheets_employee_id_users_id_fk" FOREIGN KEY ("employee_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "timesheets" ADD CONSTRAINT "timesheets_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_timesheet_employee_week" ON "timesheets" USING btree ("employee_id","week_start");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "timesheet_status_idx" ON "timesheets" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "running_timers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"employee_id" uuid NOT NULL,
+	"task_id" uuid NOT NULL,
+	"note" text,
+	"started_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "organisation_settings" ADD COLUMN "timer_limit_hours" integer DEFAULT 10 NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "running_timers" ADD CONSTRAINT "running_timers_employee_id_users_id_fk" FOREIGN KEY ("employee_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "running_timers" ADD CONSTRAINT "running_timers_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_running_timer_employee" ON "running_timers" USING btree ("employee_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "running_timer_started_at_idx" ON "running_timers" USING btree ("started_at");
\ No newline at end of file
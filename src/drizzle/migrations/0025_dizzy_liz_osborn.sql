@@ -0,0 +1,32 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."period_status" AS ENUM('open', 'closed', 'locked');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "timesheet_periods" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"period_start" date NOT NULL,
+	"period_end" date NOT NULL,
+	"status" "period_status" DEFAULT 'open' NOT NULL,
+	"status_changed_by" uuid,
+	"status_changed_at" timestamp,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "timesheet_periods" ADD CONSTRAINT "timesheet_periods_status_changed_by_users_id_fk" FOREIGN KEY ("status_changed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "timesheet_periods" ADD CONSTRAINT "timesheet_periods_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_timesheet_period_start" ON "timesheet_periods" USING btree ("period_start");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "timesheet_period_status_idx" ON "timesheet_periods" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "receipt_uploads" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"file_key" varchar(255) NOT NULL,
+	"file_url" text NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"uploaded_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "receipt_uploads" ADD CONSTRAINT "receipt_uploads_uploaded_by_users_id_fk" FOREIGN KEY ("uploaded_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_receipt_upload_file_key" ON "receipt_uploads" USING btree ("file_key");
\ No newline at end of file
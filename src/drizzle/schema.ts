@@ -10,6 +10,7 @@ import {
   pgEnum,
   pgTable,
   text,
+  time,
   timestamp,
   uniqueIndex,
   uuid,
@@ -30,6 +31,17 @@ export const TicketStatusEnum = pgEnum('ticket_status', ['open', 'pending', 'res
 export const MessageDirectionEnum = pgEnum('message_direction', ['user_to_admin', 'admin_to_user']);
 export const TaskStatusEnum = pgEnum('task_status', ['pending', 'approved', 'rejected']);
 export const ReviewerTypeEnum = pgEnum('reviewer_type', ['employee', 'admin']);
+export const BudgetTypeEnum = pgEnum('budget_type', ['hours', 'amount']);
+export const EstimateStatusEnum = pgEnum('estimate_status', ['draft', 'submitted', 'approved']);
+export const InvoiceStatusEnum = pgEnum('invoice_status', ['draft', 'issued', 'partially_paid', 'paid', 'void']);
+export const ClientSignoffStatusEnum = pgEnum('client_signoff_status', ['pending', 'accepted', 'disputed']);
+export const SignoffRequestStatusEnum = pgEnum('signoff_request_status', ['sent', 'completed', 'cancelled']);
+export const NonBillableReasonEnum = pgEnum('non_billable_reason', ['internal', 'rework', 'training', 'pre_sales']);
+export const ExpenseCategoryEnum = pgEnum('expense_category', ['travel', 'software_licence', 'subcontractor', 'other']);
+export const ExpenseStatusEnum = pgEnum('expense_status', ['pending', 'approved', 'rejected']);
+export const PayPeriodFrequencyEnum = pgEnum('pay_period_frequency', ['weekly', 'biweekly', 'monthly']);
+export const TimesheetStatusEnum = pgEnum('timesheet_status', ['draft', 'submitted', 'approved', 'rejected']);
+export const PeriodStatusEnum = pgEnum('period_status', ['open', 'closed', 'locked']);
 
 // =====================
 // Ticket Tables
@@ -106,17 +118,70 @@ export const UserTable = pgTable(
 );
 
 
+// The organisation a project's work is done for. The billing address uses the
+// country-state-city ISO codes served by /api/address.
+export const Clients = pgTable('clients', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  legalName: varchar('legal_name', { length: 255 }).notNull(),
+  addressLine1: varchar('address_line1', { length: 255 }),
+  addressLine2: varchar('address_line2', { length: 255 }),
+  city: varchar('city', { length: 100 }),
+  stateCode: varchar('state_code', { length: 10 }),
+  countryCode: varchar('country_code', { length: 2 }),
+  postalCode: varchar('postal_code', { length: 20 }),
+  gstin: varchar('gstin', { length: 15 }),
+  defaultCurrency: varchar('default_currency', { length: 3 }).default('INR').notNull(),
+  paymentTermsDays: integer('payment_terms_days').default(30).notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  legalNameIdx: index('client_legal_name_idx').on(table.legalName),
+}));
+
+export const ClientContacts = pgTable('client_contacts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  clientId: uuid('client_id').notNull().references(() => Clients.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  email: varchar('email', { length: 255 }),
+  phone: varchar('phone', { length: 30 }),
+  designation: varchar('designation', { length: 100 }),
+  // The primary contact receives invoices and payment links
+  isPrimary: boolean('is_primary').default(false).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index('client_contact_client_idx').on(table.clientId),
+}));
+
 export const Projects = pgTable('projects', {
   id: uuid('id').primaryKey().defaultRandom(),
   projectName: varchar('project_name', { length: 255 }).notNull(),
   description: text('description'),
+  clientId: uuid('client_id').references(() => Clients.id),
   createdBy: uuid('created_by').notNull().references(() => UserTable.id),
   isActive: boolean('is_active').default(true),
+  budgetHours: decimal('budget_hours', { precision: 10, scale: 2 }),
+  budgetAmount: decimal('budget_amount', { precision: 14, scale: 2 }),
+  budgetAlertThresholds: jsonb('budget_alert_thresholds').$type<number[]>().default([75, 90, 100]).notNull(),
+  plannedStartDate: date('planned_start_date'),
+  plannedEndDate: date('planned_end_date'),
+  // Currency bill rates and revenue are in; costs are in the organisation cost currency
+  billingCurrency: varchar('billing_currency', { length: 3 }).default('INR').notNull(),
+  // Client's GST registration; placeOfSupply overrides the state in the GSTIN
+  clientGstin: varchar('client_gstin', { length: 15 }),
+  placeOfSupply: varchar('place_of_supply', { length: 2 }),
+  // Approved tasks also need the client's acceptance before they can be invoiced
+  requiresClientSignoff: boolean('requires_client_signoff').default(false).notNull(),
+  // Billability given to new tasks unless the employee says otherwise
+  defaultBillable: boolean('default_billable').default(true).notNull(),
+  defaultNonBillableReason: NonBillableReasonEnum('default_non_billable_reason'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
   createdByIdx: index('project_created_by_idx').on(table.createdBy),
   projectNameIdx: index('project_name_idx').on(table.projectName),
+  clientIdx: index('project_client_idx').on(table.clientId),
 }));
 
 export const Tasks = pgTable('tasks', {
@@ -126,18 +191,550 @@ export const Tasks = pgTable('tasks', {
   taskName: varchar('task_name', { length: 255 }).notNull(),
   description: text('description'),
   expectedHours: decimal('expected_hours', { precision: 10, scale: 2 }),
+  // Three-point estimate; when present expectedHours holds the PERT mean
+  optimisticHours: decimal('optimistic_hours', { precision: 10, scale: 2 }),
+  mostLikelyHours: decimal('most_likely_hours', { precision: 10, scale: 2 }),
+  pessimisticHours: decimal('pessimistic_hours', { precision: 10, scale: 2 }),
+  estimateStdDev: decimal('estimate_std_dev', { precision: 10, scale: 2 }),
   actualHours: decimal('actual_hours', { precision: 10, scale: 2 }),
   status: TaskStatusEnum('status').default('pending').notNull(),
   approvedBy: uuid('approved_by').references(() => UserTable.id),
   approvedAt: timestamp('approved_at'),
   rejectionReason: text('rejection_reason'),
+  estimateLineItemId: uuid('estimate_line_item_id').references(() => EstimateLineItems.id, { onDelete: 'set null' }),
+  // The invoice the task is billed on; cleared again if that invoice is voided or deleted
+  invoiceId: uuid('invoice_id').references(() => Invoices.id, { onDelete: 'set null' }),
+  // The client's answer on the latest sign-off request the task was sent in;
+  // null if it has not been sent or the request was cancelled
+  clientSignoffStatus: ClientSignoffStatusEnum('client_signoff_status'),
+  // Non-billable work is costed but never invoiced; the reason is set only then
+  isBillable: boolean('is_billable').default(true).notNull(),
+  nonBillableReason: NonBillableReasonEnum('non_billable_reason'),
+  // The day the work was done; rates, rules, periods and reports key off it
+  // rather than off when the task was logged
+  workDate: date('work_date').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
   projectIdx: index('task_project_idx').on(table.projectId),
+  workDateIdx: index('task_work_date_idx').on(table.workDate),
   employeeIdx: index('task_employee_idx').on(table.employeeId),
   statusIdx: index('task_status_idx').on(table.status),
   approvedByIdx: index('task_approved_by_idx').on(table.approvedBy),
+  estimateLineItemIdx: index('task_estimate_line_item_idx').on(table.estimateLineItemId),
+  invoiceIdx: index('task_invoice_idx').on(table.invoiceId),
+}));
+
+// Time logged against a task, one row per sitting. The task's actual hours,
+// work date and status are kept in step with its entries: hours and date from
+// the entries that were not rejected, status from the entries' statuses.
+export const TimeEntries = pgTable('time_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  taskId: uuid('task_id').notNull().references(() => Tasks.id, { onDelete: 'cascade' }),
+  entryDate: date('entry_date').notNull(),
+  hours: decimal('hours', { precision: 10, scale: 2 }).notNull(),
+  // Optional; when both are set the hours are the time between them
+  startTime: time('start_time'),
+  endTime: time('end_time'),
+  note: text('note'),
+  status: TaskStatusEnum('status').default('pending').notNull(),
+  approvedBy: uuid('approved_by').references(() => UserTable.id),
+  approvedAt: timestamp('approved_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  taskIdx: index('time_entry_task_idx').on(table.taskId),
+  entryDateIdx: index('time_entry_date_idx').on(table.entryDate),
+}));
+
+// An employee's week of time entries, submitted and approved as a whole.
+// Weeks run Monday to Sunday; the entries are those of the employee's tasks
+// dated in the week.
+export const Timesheets = pgTable('timesheets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employeeId: uuid('employee_id').notNull().references(() => UserTable.id),
+  weekStart: date('week_start').notNull(),
+  status: TimesheetStatusEnum('status').default('draft').notNull(),
+  submittedAt: timestamp('submitted_at'),
+  reviewedBy: uuid('reviewed_by').references(() => UserTable.id),
+  reviewedAt: timestamp('reviewed_at'),
+  rejectionReason: text('rejection_reason'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueEmployeeWeek: uniqueIndex('unique_timesheet_employee_week').on(table.employeeId, table.weekStart),
+  statusIdx: index('timesheet_status_idx').on(table.status),
+}));
+
+// A reporting period an admin closes once its reports have gone out. Closed
+// periods take no more changes from employees; locked ones take none at all
+// except an admin adjustment with a reason, which is audited. Periods do not
+// overlap.
+export const TimesheetPeriods = pgTable('timesheet_periods', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  periodStart: date('period_start').notNull(),
+  periodEnd: date('period_end').notNull(),
+  status: PeriodStatusEnum('status').default('open').notNull(),
+  statusChangedBy: uuid('status_changed_by').references(() => UserTable.id),
+  statusChangedAt: timestamp('status_changed_at'),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  uniquePeriodStart: uniqueIndex('unique_timesheet_period_start').on(table.periodStart),
+  statusIdx: index('timesheet_period_status_idx').on(table.status),
+}));
+
+// A timer an employee has running on one of their tasks. Stopping it logs the
+// time since it started as a time entry and removes the row; an employee has
+// at most one running at a time.
+export const RunningTimers = pgTable('running_timers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employeeId: uuid('employee_id').notNull().references(() => UserTable.id),
+  taskId: uuid('task_id').notNull().references(() => Tasks.id, { onDelete: 'cascade' }),
+  note: text('note'),
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueEmployee: uniqueIndex('unique_running_timer_employee').on(table.employeeId),
+  startedAtIdx: index('running_timer_started_at_idx').on(table.startedAt),
+}));
+
+// =====================
+// Estimate Tables
+// =====================
+// A pre-work estimate for a project. Only drafts can be edited; once approved
+// the line items become the baseline that logged tasks are compared against.
+export const ProjectEstimates = pgTable('project_estimates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => Projects.id, { onDelete: 'cascade' }),
+  title: varchar('title', { length: 255 }).notNull(),
+  notes: text('notes'),
+  status: EstimateStatusEnum('status').default('draft').notNull(),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  submittedAt: timestamp('submitted_at'),
+  approvedBy: uuid('approved_by').references(() => UserTable.id),
+  approvedAt: timestamp('approved_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  projectIdx: index('estimate_project_idx').on(table.projectId),
+  statusIdx: index('estimate_status_idx').on(table.status),
+}));
+
+export const EstimateLineItems = pgTable('estimate_line_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  estimateId: uuid('estimate_id').notNull().references(() => ProjectEstimates.id, { onDelete: 'cascade' }),
+  workPackage: varchar('work_package', { length: 255 }).notNull(),
+  role: varchar('role', { length: 100 }).notNull(),
+  estimatedHours: decimal('estimated_hours', { precision: 10, scale: 2 }).notNull(),
+  hourlyRate: decimal('hourly_rate', { precision: 12, scale: 2 }).notNull(),
+  contingencyPercent: decimal('contingency_percent', { precision: 5, scale: 2 }).default('0').notNull(),
+  hsnSac: varchar('hsn_sac', { length: 8 }),
+  sortOrder: integer('sort_order').default(0).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  estimateIdx: index('estimate_line_item_estimate_idx').on(table.estimateId),
+}));
+
+// =====================
+// Cost Rate Tables
+// =====================
+// Hourly cost of an employee, effective-dated so that a rate change never
+// rewrites the cost of work already logged. A null effectiveTo marks the
+// rate that is currently in force.
+export const EmployeeRates = pgTable('employee_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  employeeId: uuid('employee_id').notNull().references(() => UserTable.id, { onDelete: 'cascade' }),
+  hourlyRate: decimal('hourly_rate', { precision: 12, scale: 2 }).notNull(),
+  effectiveFrom: date('effective_from').notNull(),
+  effectiveTo: date('effective_to'),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  employeeIdx: index('employee_rate_employee_idx').on(table.employeeId),
+  uniqueEmployeeFrom: uniqueIndex('unique_employee_rate_from').on(table.employeeId, table.effectiveFrom),
+}));
+
+// What an hour costs the organisation beyond its direct cost: employee
+// benefits as a share of direct cost, facilities overhead per hour worked, and
+// an uplift that spreads the cost of non-billable time over the hours worked.
+// Effective-dated like rates, so reports for past periods do not change.
+export const CostLoadings = pgTable('cost_loadings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  benefitsPercent: decimal('benefits_percent', { precision: 5, scale: 2 }).notNull(),
+  facilitiesOverheadPerHour: decimal('facilities_overhead_per_hour', { precision: 12, scale: 2 }).notNull(), // cost currency
+  nonBillableAllocationPercent: decimal('non_billable_allocation_percent', { precision: 5, scale: 2 }).notNull(),
+  effectiveFrom: date('effective_from').notNull(),
+  effectiveTo: date('effective_to'),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueFrom: uniqueIndex('unique_cost_loading_from').on(table.effectiveFrom),
+}));
+
+// A version of the rules that raise the cost of an hour: overtime beyond a
+// daily or weekly threshold, weekend work and work on a holiday of the chosen
+// calendar. Versions are effective-dated like rates and never edited, so the
+// cost of work already logged keeps the rules it was costed under.
+export const RateRuleVersions = pgTable('rate_rule_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  version: integer('version').notNull(),
+  effectiveFrom: date('effective_from').notNull(),
+  effectiveTo: date('effective_to'),
+  dailyThresholdHours: decimal('daily_threshold_hours', { precision: 4, scale: 2 }), // null = no daily overtime
+  weeklyThresholdHours: decimal('weekly_threshold_hours', { precision: 5, scale: 2 }), // null = no weekly overtime
+  overtimeMultiplier: decimal('overtime_multiplier', { precision: 4, scale: 2 }).default('1.5').notNull(),
+  weekendMultiplier: decimal('weekend_multiplier', { precision: 4, scale: 2 }).default('1').notNull(),
+  holidayMultiplier: decimal('holiday_multiplier', { precision: 4, scale: 2 }).default('1').notNull(),
+  // Holiday calendar the version applies (ISO country and state codes, as in /api/address)
+  holidayCountryCode: varchar('holiday_country_code', { length: 2 }),
+  holidayStateCode: varchar('holiday_state_code', { length: 10 }),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueVersion: uniqueIndex('unique_rate_rule_version').on(table.version),
+  uniqueFrom: uniqueIndex('unique_rate_rule_from').on(table.effectiveFrom),
+}));
+
+// Holidays by country, and by state when stateCode is set. Countrywide
+// holidays apply to every state of the country.
+export const Holidays = pgTable('holidays', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  countryCode: varchar('country_code', { length: 2 }).notNull(),
+  stateCode: varchar('state_code', { length: 10 }),
+  holidayDate: date('holiday_date').notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  countryDateIdx: index('holiday_country_date_idx').on(table.countryCode, table.holidayDate),
+}));
+
+// What the client is charged per hour on a project. Rows with a null
+// employeeId are the project-wide default; an employee-specific row wins.
+export const BillRates = pgTable('bill_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => Projects.id, { onDelete: 'cascade' }),
+  employeeId: uuid('employee_id').references(() => UserTable.id, { onDelete: 'cascade' }),
+  hourlyRate: decimal('hourly_rate', { precision: 12, scale: 2 }).notNull(),
+  effectiveFrom: date('effective_from').notNull(),
+  effectiveTo: date('effective_to'),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  projectIdx: index('bill_rate_project_idx').on(table.projectId),
+  employeeIdx: index('bill_rate_employee_idx').on(table.employeeId),
+}));
+
+// =====================
+// Invoice Tables
+// =====================
+// An invoice bills a project's approved tasks for a period. Amounts are in the
+// project's billing currency at the time the invoice was created; line items
+// keep their own copy of hours and rates so later rate changes never alter an
+// invoice that has been sent.
+export const Invoices = pgTable('invoices', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => Projects.id),
+  invoiceNumber: varchar('invoice_number', { length: 50 }).notNull(),
+  status: InvoiceStatusEnum('status').default('draft').notNull(),
+  periodStart: date('period_start').notNull(),
+  periodEnd: date('period_end').notNull(),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  subtotal: decimal('subtotal', { precision: 14, scale: 2 }).notNull(),
+  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).default('0').notNull(), // percent
+  taxAmount: decimal('tax_amount', { precision: 14, scale: 2 }).notNull(),
+  total: decimal('total', { precision: 14, scale: 2 }).notNull(),
+  // GST snapshot; supplyType is null when the organisation is not GST registered
+  supplierGstin: varchar('supplier_gstin', { length: 15 }),
+  customerGstin: varchar('customer_gstin', { length: 15 }),
+  placeOfSupply: varchar('place_of_supply', { length: 2 }),
+  supplyType: varchar('supply_type', { length: 20 }), // 'intra_state' or 'inter_state'
+  cgstAmount: decimal('cgst_amount', { precision: 14, scale: 2 }).default('0').notNull(),
+  sgstAmount: decimal('sgst_amount', { precision: 14, scale: 2 }).default('0').notNull(),
+  igstAmount: decimal('igst_amount', { precision: 14, scale: 2 }).default('0').notNull(),
+  // Sum of recorded payments; the Razorpay payment link collects the remainder
+  amountPaid: decimal('amount_paid', { precision: 14, scale: 2 }).default('0').notNull(),
+  paymentLinkId: varchar('payment_link_id', { length: 64 }),
+  paymentLinkUrl: text('payment_link_url'),
+  dueDate: date('due_date'),
+  notes: text('notes'),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  issuedAt: timestamp('issued_at'),
+  paidAt: timestamp('paid_at'),
+  voidedAt: timestamp('voided_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  projectIdx: index('invoice_project_idx').on(table.projectId),
+  statusIdx: index('invoice_status_idx').on(table.status),
+  uniqueInvoiceNumber: uniqueIndex('unique_invoice_number').on(table.invoiceNumber),
+  paymentLinkIdx: uniqueIndex('invoice_payment_link_idx').on(table.paymentLinkId),
+}));
+
+export const InvoiceLineItems = pgTable('invoice_line_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  invoiceId: uuid('invoice_id').notNull().references(() => Invoices.id, { onDelete: 'cascade' }),
+  taskId: uuid('task_id').references(() => Tasks.id, { onDelete: 'set null' }),
+  // Set instead of taskId for a rebilled expense; quantity is then 1
+  expenseId: uuid('expense_id').references(() => ProjectExpenses.id, { onDelete: 'set null' }),
+  description: text('description').notNull(),
+  hsnSac: varchar('hsn_sac', { length: 8 }),
+  workDate: date('work_date').notNull(),
+  quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull(), // hours
+  unitPrice: decimal('unit_price', { precision: 12, scale: 2 }).notNull(),
+  amount: decimal('amount', { precision: 14, scale: 2 }).notNull(),
+  sortOrder: integer('sort_order').default(0).notNull(),
+}, (table) => ({
+  invoiceIdx: index('invoice_line_item_invoice_idx').on(table.invoiceId),
+  taskIdx: index('invoice_line_item_task_idx').on(table.taskId),
+  expenseIdx: index('invoice_line_item_expense_idx').on(table.expenseId),
+}));
+
+// One row per payment received against an invoice. The provider's payment id
+// is unique so a webhook delivered twice records the payment once.
+export const InvoicePayments = pgTable('invoice_payments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  invoiceId: uuid('invoice_id').notNull().references(() => Invoices.id, { onDelete: 'cascade' }),
+  provider: varchar('provider', { length: 20 }).notNull(), // 'razorpay'
+  providerPaymentId: varchar('provider_payment_id', { length: 64 }).notNull(),
+  amount: decimal('amount', { precision: 14, scale: 2 }).notNull(),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  method: varchar('method', { length: 30 }),
+  paidAt: timestamp('paid_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  invoiceIdx: index('invoice_payment_invoice_idx').on(table.invoiceId),
+  uniqueProviderPayment: uniqueIndex('unique_provider_payment').on(table.provider, table.providerPaymentId),
+}));
+
+// =====================
+// Expense Tables
+// =====================
+// A non-labour cost on a project, entered by an employee with a receipt
+// stored on UploadThing. Only approved expenses count towards project cost;
+// billable ones are rebilled at cost on the next invoice for their date.
+export const ProjectExpenses = pgTable('project_expenses', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => Projects.id, { onDelete: 'cascade' }),
+  submittedBy: uuid('submitted_by').notNull().references(() => UserTable.id),
+  category: ExpenseCategoryEnum('category').notNull(),
+  description: text('description').notNull(),
+  amount: decimal('amount', { precision: 14, scale: 2 }).notNull(),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  expenseDate: date('expense_date').notNull(),
+  isBillable: boolean('is_billable').default(true).notNull(),
+  receiptUrl: text('receipt_url').notNull(),
+  receiptKey: varchar('receipt_key', { length: 255 }).notNull(), // UploadThing file key
+  receiptName: varchar('receipt_name', { length: 255 }).notNull(),
+  status: ExpenseStatusEnum('status').default('pending').notNull(),
+  approvedBy: uuid('approved_by').references(() => UserTable.id),
+  approvedAt: timestamp('approved_at'),
+  rejectionReason: text('rejection_reason'),
+  // The invoice the expense is rebilled on; cleared again if that invoice is voided or deleted
+  invoiceId: uuid('invoice_id').references(() => Invoices.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  projectIdx: index('project_expense_project_idx').on(table.projectId),
+  submittedByIdx: index('project_expense_submitted_by_idx').on(table.submittedBy),
+  statusIdx: index('project_expense_status_idx').on(table.status),
+  invoiceIdx: index('project_expense_invoice_idx').on(table.invoiceId),
+}));
+
+// A receipt file as UploadThing reported it once uploaded. Expenses take
+// their receipt from here, so they can only point at a file their submitter
+// uploaded, and only that file is removed with them.
+export const ReceiptUploads = pgTable('receipt_uploads', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  fileKey: varchar('file_key', { length: 255 }).notNull(),
+  fileUrl: text('file_url').notNull(),
+  fileName: varchar('file_name', { length: 255 }).notNull(),
+  uploadedBy: uuid('uploaded_by').notNull().references(() => UserTable.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueFileKey: uniqueIndex('unique_receipt_upload_file_key').on(table.fileKey),
+}));
+
+// =====================
+// Share Link Table
+// =====================
+// A signed link to the read-only client portal for one project or for all of
+// a client's projects (exactly one of projectId and clientId is set). The URL
+// carries the link id and its signature; expiry and revocation are checked
+// here on every view.
+export const ShareLinks = pgTable('share_links', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').references(() => Projects.id, { onDelete: 'cascade' }),
+  clientId: uuid('client_id').references(() => Clients.id, { onDelete: 'cascade' }),
+  label: varchar('label', { length: 255 }),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  revokedBy: uuid('revoked_by').references(() => UserTable.id),
+  lastViewedAt: timestamp('last_viewed_at'),
+  viewCount: integer('view_count').default(0).notNull(),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  projectIdx: index('share_link_project_idx').on(table.projectId),
+  clientIdx: index('share_link_client_idx').on(table.clientId),
+}));
+
+// =====================
+// Client Sign-off Tables
+// =====================
+// A batch of approved tasks for a period, emailed to a client contact who
+// accepts or disputes each line through a tokenised link. The contact's name
+// and email are copied so the request still shows who it went to if the
+// contact is later removed.
+export const SignoffRequests = pgTable('signoff_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => Projects.id, { onDelete: 'cascade' }),
+  contactId: uuid('contact_id').references(() => ClientContacts.id, { onDelete: 'set null' }),
+  contactName: varchar('contact_name', { length: 255 }).notNull(),
+  contactEmail: varchar('contact_email', { length: 255 }).notNull(),
+  periodStart: date('period_start').notNull(),
+  periodEnd: date('period_end').notNull(),
+  status: SignoffRequestStatusEnum('status').default('sent').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  respondedAt: timestamp('responded_at'),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  projectIdx: index('signoff_request_project_idx').on(table.projectId),
+}));
+
+export const SignoffLines = pgTable('signoff_lines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  requestId: uuid('request_id').notNull().references(() => SignoffRequests.id, { onDelete: 'cascade' }),
+  taskId: uuid('task_id').notNull().references(() => Tasks.id, { onDelete: 'cascade' }),
+  hours: decimal('hours', { precision: 10, scale: 2 }).notNull(), // as sent
+  status: ClientSignoffStatusEnum('status').default('pending').notNull(),
+  comment: text('comment'),
+  respondedAt: timestamp('responded_at'),
+}, (table) => ({
+  requestIdx: index('signoff_line_request_idx').on(table.requestId),
+  taskIdx: index('signoff_line_task_idx').on(table.taskId),
+  uniqueRequestTask: uniqueIndex('unique_signoff_request_task').on(table.requestId, table.taskId),
+}));
+
+// =====================
+// Currency Tables
+// =====================
+// One unit of baseCurrency buys `rate` units of quoteCurrency from
+// effectiveDate until the next rate for the same pair. The inverse pair is
+// derived, so only one direction needs to be stored.
+export const ExchangeRates = pgTable('exchange_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  baseCurrency: varchar('base_currency', { length: 3 }).notNull(),
+  quoteCurrency: varchar('quote_currency', { length: 3 }).notNull(),
+  rate: decimal('rate', { precision: 18, scale: 8 }).notNull(),
+  effectiveDate: date('effective_date').notNull(),
+  source: varchar('source', { length: 20 }).default('manual').notNull(), // 'manual' or 'csv'
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  pairIdx: index('exchange_rate_pair_idx').on(table.baseCurrency, table.quoteCurrency),
+  uniquePairDate: uniqueIndex('unique_exchange_rate_pair_date').on(table.baseCurrency, table.quoteCurrency, table.effectiveDate),
+}));
+
+// Organisation-wide settings; the table holds at most one row.
+export const OrganisationSettings = pgTable('organisation_settings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  costCurrency: varchar('cost_currency', { length: 3 }).default('INR').notNull(), // employee cost rates and budgets
+  reportingCurrency: varchar('reporting_currency', { length: 3 }).default('INR').notNull(),
+  // GST registration printed on invoices; tax is not split into CGST/SGST/IGST without a GSTIN
+  legalName: varchar('legal_name', { length: 255 }),
+  address: text('address'),
+  gstin: varchar('gstin', { length: 15 }),
+  stateCode: varchar('state_code', { length: 2 }),
+  defaultSacCode: varchar('default_sac_code', { length: 8 }).default('998314').notNull(), // IT design and development services
+  defaultGstRate: decimal('default_gst_rate', { precision: 5, scale: 2 }).default('18').notNull(),
+  // Payroll runs per pay period; weekly and biweekly periods count from the anchor date
+  payPeriodFrequency: PayPeriodFrequencyEnum('pay_period_frequency').default('monthly').notNull(),
+  payPeriodAnchorDate: date('pay_period_anchor_date').default('2024-01-01').notNull(),
+  // Running timers are stopped at this many hours
+  timerLimitHours: integer('timer_limit_hours').default(10).notNull(),
+  updatedBy: uuid('updated_by').references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// =====================
+// Payroll Tables
+// =====================
+// A pay period that has been exported to payroll. Exporting locks it: the
+// hours paid are kept in PayrollLines, and approving, un-approving or
+// reclassifying a task dated in the period afterwards needs an adjustment.
+export const PayPeriods = pgTable('pay_periods', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  frequency: PayPeriodFrequencyEnum('frequency').notNull(),
+  periodStart: date('period_start').notNull(),
+  periodEnd: date('period_end').notNull(),
+  lockedBy: uuid('locked_by').notNull().references(() => UserTable.id),
+  lockedAt: timestamp('locked_at').defaultNow().notNull(),
+}, (table) => ({
+  uniquePeriodStart: uniqueIndex('unique_pay_period_start').on(table.periodStart),
+}));
+
+// Approved hours per employee, project and billable status as exported
+export const PayrollLines = pgTable('payroll_lines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  payPeriodId: uuid('pay_period_id').notNull().references(() => PayPeriods.id, { onDelete: 'cascade' }),
+  employeeId: uuid('employee_id').notNull().references(() => UserTable.id),
+  projectId: uuid('project_id').notNull().references(() => Projects.id),
+  isBillable: boolean('is_billable').notNull(),
+  regularHours: decimal('regular_hours', { precision: 10, scale: 2 }).notNull(),
+  overtimeHours: decimal('overtime_hours', { precision: 10, scale: 2 }).notNull(),
+}, (table) => ({
+  payPeriodIdx: index('payroll_line_pay_period_idx').on(table.payPeriodId),
+}));
+
+// A change to paid hours after their pay period was exported. It is paid (or
+// recovered) in the next pay period exported, which settles it.
+export const PayrollAdjustments = pgTable('payroll_adjustments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  payPeriodId: uuid('pay_period_id').notNull().references(() => PayPeriods.id), // period the task falls in
+  taskId: uuid('task_id').references(() => Tasks.id, { onDelete: 'set null' }),
+  taskName: varchar('task_name', { length: 255 }).notNull(),
+  employeeId: uuid('employee_id').notNull().references(() => UserTable.id),
+  projectId: uuid('project_id').notNull().references(() => Projects.id),
+  // Approved hours and billable status before and after the change
+  previousHours: decimal('previous_hours', { precision: 10, scale: 2 }).notNull(),
+  previousBillable: boolean('previous_billable').notNull(),
+  hours: decimal('hours', { precision: 10, scale: 2 }).notNull(),
+  isBillable: boolean('is_billable').notNull(),
+  reason: text('reason').notNull(),
+  settledPayPeriodId: uuid('settled_pay_period_id').references(() => PayPeriods.id),
+  createdBy: uuid('created_by').notNull().references(() => UserTable.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  payPeriodIdx: index('payroll_adjustment_pay_period_idx').on(table.payPeriodId),
+  settledIdx: index('payroll_adjustment_settled_idx').on(table.settledPayPeriodId),
+}));
+
+// =====================
+// Budget Alert Table
+// =====================
+// One row per budget threshold a project has crossed, so each alert is only
+// sent once. Rows are removed again if the burn drops back below the threshold
+// (for example after the budget is raised), re-arming the alert.
+export const ProjectBudgetAlerts = pgTable('project_budget_alerts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => Projects.id, { onDelete: 'cascade' }),
+  budgetType: BudgetTypeEnum('budget_type').notNull(),
+  threshold: integer('threshold').notNull(), // percent of budget, e.g. 90
+  percentBurned: decimal('percent_burned', { precision: 7, scale: 2 }).notNull(),
+  crossedAt: timestamp('crossed_at').defaultNow().notNull(),
+  notifiedAt: timestamp('notified_at'),
+}, (table) => ({
+  projectIdx: index('budget_alert_project_idx').on(table.projectId),
+  uniqueProjectThreshold: uniqueIndex('unique_project_budget_threshold').on(table.projectId, table.budgetType, table.threshold),
 }));
 
 // =====================
@@ -167,12 +764,39 @@ export const TaskReviews = pgTable('task_reviews', {
 // Relations
 // =====================
 
+export const ClientRelations = relations(Clients, ({ one, many }) => ({
+  createdByUser: one(UserTable, {
+    fields: [Clients.createdBy],
+    references: [UserTable.id],
+  }),
+  contacts: many(ClientContacts),
+  projects: many(Projects),
+}));
+
+export const ClientContactRelations = relations(ClientContacts, ({ one }) => ({
+  client: one(Clients, {
+    fields: [ClientContacts.clientId],
+    references: [Clients.id],
+  }),
+}));
+
 export const ProjectRelations = relations(Projects, ({ one, many }) => ({
   creator: one(UserTable, {
     fields: [Projects.createdBy],
     references: [UserTable.id],
   }),
+  client: one(Clients, {
+    fields: [Projects.clientId],
+    references: [Clients.id],
+  }),
   tasks: many(Tasks),
+  budgetAlerts: many(ProjectBudgetAlerts),
+  billRates: many(BillRates),
+  estimates: many(ProjectEstimates),
+  invoices: many(Invoices),
+  shareLinks: many(ShareLinks),
+  signoffRequests: many(SignoffRequests),
+  expenses: many(ProjectExpenses),
 }));
 
 export const TaskRelations = relations(Tasks, ({ one, many }) => ({
@@ -191,6 +815,269 @@ export const TaskRelations = relations(Tasks, ({ one, many }) => ({
     relationName: 'approved_tasks',
   }),
   reviews: many(TaskReviews),
+  timeEntries: many(TimeEntries),
+  estimateLineItem: one(EstimateLineItems, {
+    fields: [Tasks.estimateLineItemId],
+    references: [EstimateLineItems.id],
+  }),
+  invoice: one(Invoices, {
+    fields: [Tasks.invoiceId],
+    references: [Invoices.id],
+  }),
+}));
+
+export const TimeEntryRelations = relations(TimeEntries, ({ one }) => ({
+  task: one(Tasks, {
+    fields: [TimeEntries.taskId],
+    references: [Tasks.id],
+  }),
+}));
+
+export const TimesheetRelations = relations(Timesheets, ({ one }) => ({
+  employee: one(UserTable, {
+    fields: [Timesheets.employeeId],
+    references: [UserTable.id],
+    relationName: 'employee_timesheets',
+  }),
+  reviewer: one(UserTable, {
+    fields: [Timesheets.reviewedBy],
+    references: [UserTable.id],
+    relationName: 'reviewed_timesheets',
+  }),
+}));
+
+export const TimesheetPeriodRelations = relations(TimesheetPeriods, ({ one }) => ({
+  statusChanger: one(UserTable, {
+    fields: [TimesheetPeriods.statusChangedBy],
+    references: [UserTable.id],
+  }),
+  creator: one(UserTable, {
+    fields: [TimesheetPeriods.createdBy],
+    references: [UserTable.id],
+  }),
+}));
+
+export const RunningTimerRelations = relations(RunningTimers, ({ one }) => ({
+  employee: one(UserTable, {
+    fields: [RunningTimers.employeeId],
+    references: [UserTable.id],
+  }),
+  task: one(Tasks, {
+    fields: [RunningTimers.taskId],
+    references: [Tasks.id],
+  }),
+}));
+
+export const ProjectEstimateRelations = relations(ProjectEstimates, ({ one, many }) => ({
+  project: one(Projects, {
+    fields: [ProjectEstimates.projectId],
+    references: [Projects.id],
+  }),
+  lineItems: many(EstimateLineItems),
+}));
+
+export const EstimateLineItemRelations = relations(EstimateLineItems, ({ one, many }) => ({
+  estimate: one(ProjectEstimates, {
+    fields: [EstimateLineItems.estimateId],
+    references: [ProjectEstimates.id],
+  }),
+  tasks: many(Tasks),
+}));
+
+export const BillRateRelations = relations(BillRates, ({ one }) => ({
+  project: one(Projects, {
+    fields: [BillRates.projectId],
+    references: [Projects.id],
+  }),
+  employee: one(UserTable, {
+    fields: [BillRates.employeeId],
+    references: [UserTable.id],
+  }),
+}));
+
+export const InvoiceRelations = relations(Invoices, ({ one, many }) => ({
+  project: one(Projects, {
+    fields: [Invoices.projectId],
+    references: [Projects.id],
+  }),
+  createdByUser: one(UserTable, {
+    fields: [Invoices.createdBy],
+    references: [UserTable.id],
+  }),
+  lineItems: many(InvoiceLineItems),
+  payments: many(InvoicePayments),
+  tasks: many(Tasks),
+  expenses: many(ProjectExpenses),
+}));
+
+export const InvoicePaymentRelations = relations(InvoicePayments, ({ one }) => ({
+  invoice: one(Invoices, {
+    fields: [InvoicePayments.invoiceId],
+    references: [Invoices.id],
+  }),
+}));
+
+export const InvoiceLineItemRelations = relations(InvoiceLineItems, ({ one }) => ({
+  invoice: one(Invoices, {
+    fields: [InvoiceLineItems.invoiceId],
+    references: [Invoices.id],
+  }),
+  task: one(Tasks, {
+    fields: [InvoiceLineItems.taskId],
+    references: [Tasks.id],
+  }),
+  expense: one(ProjectExpenses, {
+    fields: [InvoiceLineItems.expenseId],
+    references: [ProjectExpenses.id],
+  }),
+}));
+
+export const ProjectExpenseRelations = relations(ProjectExpenses, ({ one }) => ({
+  project: one(Projects, {
+    fields: [ProjectExpenses.projectId],
+    references: [Projects.id],
+  }),
+  submitter: one(UserTable, {
+    fields: [ProjectExpenses.submittedBy],
+    references: [UserTable.id],
+    relationName: 'submitted_expenses',
+  }),
+  approver: one(UserTable, {
+    fields: [ProjectExpenses.approvedBy],
+    references: [UserTable.id],
+    relationName: 'approved_expenses',
+  }),
+  invoice: one(Invoices, {
+    fields: [ProjectExpenses.invoiceId],
+    references: [Invoices.id],
+  }),
+}));
+
+export const ReceiptUploadRelations = relations(ReceiptUploads, ({ one }) => ({
+  uploader: one(UserTable, {
+    fields: [ReceiptUploads.uploadedBy],
+    references: [UserTable.id],
+  }),
+}));
+
+export const ExchangeRateRelations = relations(ExchangeRates, ({ one }) => ({
+  createdByUser: one(UserTable, {
+    fields: [ExchangeRates.createdBy],
+    references: [UserTable.id],
+  }),
+}));
+
+export const CostLoadingRelations = relations(CostLoadings, ({ one }) => ({
+  createdByUser: one(UserTable, {
+    fields: [CostLoadings.createdBy],
+    references: [UserTable.id],
+  }),
+}));
+
+export const RateRuleVersionRelations = relations(RateRuleVersions, ({ one }) => ({
+  createdByUser: one(UserTable, {
+    fields: [RateRuleVersions.createdBy],
+    references: [UserTable.id],
+  }),
+}));
+
+export const HolidayRelations = relations(Holidays, ({ one }) => ({
+  createdByUser: one(UserTable, {
+    fields: [Holidays.createdBy],
+    references: [UserTable.id],
+  }),
+}));
+
+export const ProjectBudgetAlertRelations = relations(ProjectBudgetAlerts, ({ one }) => ({
+  project: one(Projects, {
+    fields: [ProjectBudgetAlerts.projectId],
+    references: [Projects.id],
+  }),
+}));
+
+export const EmployeeRateRelations = relations(EmployeeRates, ({ one }) => ({
+  employee: one(UserTable, {
+    fields: [EmployeeRates.employeeId],
+    references: [UserTable.id],
+    relationName: 'employee_rates',
+  }),
+  creator: one(UserTable, {
+    fields: [EmployeeRates.createdBy],
+    references: [UserTable.id],
+    relationName: 'created_rates',
+  }),
+}));
+
+export const ShareLinkRelations = relations(ShareLinks, ({ one }) => ({
+  project: one(Projects, {
+    fields: [ShareLinks.projectId],
+    references: [Projects.id],
+  }),
+  client: one(Clients, {
+    fields: [ShareLinks.clientId],
+    references: [Clients.id],
+  }),
+  creator: one(UserTable, {
+    fields: [ShareLinks.createdBy],
+    references: [UserTable.id],
+  }),
+}));
+
+export const SignoffRequestRelations = relations(SignoffRequests, ({ one, many }) => ({
+  project: one(Projects, {
+    fields: [SignoffRequests.projectId],
+    references: [Projects.id],
+  }),
+  contact: one(ClientContacts, {
+    fields: [SignoffRequests.contactId],
+    references: [ClientContacts.id],
+  }),
+  lines: many(SignoffLines),
+}));
+
+export const SignoffLineRelations = relations(SignoffLines, ({ one }) => ({
+  request: one(SignoffRequests, {
+    fields: [SignoffLines.requestId],
+    references: [SignoffRequests.id],
+  }),
+  task: one(Tasks, {
+    fields: [SignoffLines.taskId],
+    references: [Tasks.id],
+  }),
+}));
+
+export const PayPeriodRelations = relations(PayPeriods, ({ one, many }) => ({
+  lockedByUser: one(UserTable, {
+    fields: [PayPeriods.lockedBy],
+    references: [UserTable.id],
+  }),
+  lines: many(PayrollLines),
+}));
+
+export const PayrollLineRelations = relations(PayrollLines, ({ one }) => ({
+  payPeriod: one(PayPeriods, {
+    fields: [PayrollLines.payPeriodId],
+    references: [PayPeriods.id],
+  }),
+  employee: one(UserTable, {
+    fields: [PayrollLines.employeeId],
+    references: [UserTable.id],
+  }),
+  project: one(Projects, {
+    fields: [PayrollLines.projectId],
+    references: [Projects.id],
+  }),
+}));
+
+export const PayrollAdjustmentRelations = relations(PayrollAdjustments, ({ one }) => ({
+  payPeriod: one(PayPeriods, {
+    fields: [PayrollAdjustments.payPeriodId],
+    references: [PayPeriods.id],
+  }),
+  task: one(Tasks, {
+    fields: [PayrollAdjustments.taskId],
+    references: [Tasks.id],
+  }),
 }));
 
 export const TaskReviewRelations = relations(TaskReviews, ({ one }) => ({
@@ -210,4 +1097,11 @@ export const UserRelations = relations(UserTable, ({ many }) => ({
   employeeTasks: many(Tasks, { relationName: 'employee_tasks' }),
   approvedTasks: many(Tasks, { relationName: 'approved_tasks' }),
   givenReviews: many(TaskReviews),
+  rates: many(EmployeeRates, { relationName: 'employee_rates' }),
+  createdRates: many(EmployeeRates, { relationName: 'created_rates' }),
+  submittedExpenses: many(ProjectExpenses, { relationName: 'submitted_expenses' }),
+  approvedExpenses: many(ProjectExpenses, { relationName: 'approved_expenses' }),
+  timesheets: many(Timesheets, { relationName: 'employee_timesheets' }),
+  reviewedTimesheets: many(Timesheets, { relationName: 'reviewed_timesheets' }),
+  runningTimers: many(RunningTimers),
 }));
\ No newline at end of file
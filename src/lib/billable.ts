@@ -0,0 +1,49 @@
+// Billable and non-billable work: reason categories, the project defaults new
+// tasks take, and the utilisation they add up to.
+
+export type NonBillableReason = 'internal' | 'rework' | 'training' | 'pre_sales';
+
+export const NON_BILLABLE_REASONS: { value: NonBillableReason; label: string }[] = [
+  { value: 'internal', label: 'Internal' },
+  { value: 'rework', label: 'Rework' },
+  { value: 'training', label: 'Training' },
+  { value: 'pre_sales', label: 'Pre-sales' },
+];
+
+export interface Billability {
+  isBillable: boolean;
+  nonBillableReason: NonBillableReason | null;
+}
+
+export function nonBillableReasonLabel(reason: string | null): string {
+  return NON_BILLABLE_REASONS.find((option) => option.value === reason)?.label ?? '';
+}
+
+// Billability from a request body, falling back to `defaults` for whatever is
+// not sent. Non-billable work needs a reason; billable work never has one.
+export function parseBillability(
+  value: any,
+  defaults: Billability
+): { billability: Billability } | { error: string } {
+  const isBillable = value?.isBillable ?? defaults.isBillable;
+  if (typeof isBillable !== 'boolean') {
+    return { error: 'isBillable must be true or false' };
+  }
+
+  if (isBillable) {
+    return { billability: { isBillable, nonBillableReason: null } };
+  }
+
+  const reason =
+    value?.nonBillableReason !== undefined ? value.nonBillableReason : defaults.nonBillableReason;
+  if (!NON_BILLABLE_REASONS.some((option) => option.value === reason)) {
+    return { error: 'Choose why the work is not billable' };
+  }
+
+  return { billability: { isBillable, nonBillableReason: reason } };
+}
+
+// Share of hours that were billable, as a percentage; null when nothing was logged
+export function calculateUtilisation(billableHours: number, totalHours: number): number | null {
+  return totalHours > 0 ? (billableHours / totalHours) * 100 : null;
+}
@@ -0,0 +1,176 @@
+import { ProjectBudgetAlerts, Projects, Tasks, UserTable } from "@/drizzle/schema";
+import { findRatesForEmployees } from "@/data/employee-rate";
+import { findApprovedExpensesForProjects } from "@/data/expense";
+import { findRatesBetweenCurrencies } from "@/data/exchange-rate";
+import { findOrganisationSettings } from "@/data/organisation-settings";
+import { findTaskMultipliers } from "@/data/rate-rule";
+import { calculateBudgetBurn, crossedThresholds, BudgetType, serializeBudgetBurn } from "@/lib/budget";
+import { calculateCost, findRateForDate } from "@/lib/costing";
+import { db } from "@/lib/db";
+import { convertExpense } from "@/lib/expense";
+import { sendBudgetThresholdEmail } from "@/lib/mail";
+import { and, eq, gt } from "drizzle-orm";
+
+interface BudgetedProject {
+  id: string;
+  projectName: string;
+  createdBy: string;
+  budgetHours: string | null;
+  budgetAmount: string | null;
+  budgetAlertThresholds: number[];
+}
+
+interface ProjectUsage {
+  hoursConsumed: number;
+  amountConsumed: number;
+}
+
+// Approved hours and their cost plus approved expenses, which is what counts
+// against a project budget. Expenses with no exchange rate are left out.
+export async function findApprovedProjectUsage(projectId: string): Promise<ProjectUsage> {
+  const approvedTasks = await db
+    .select({
+      id: Tasks.id,
+      employeeId: Tasks.employeeId,
+      actualHours: Tasks.actualHours,
+      workDate: Tasks.workDate,
+      createdAt: Tasks.createdAt,
+    })
+    .from(Tasks)
+    .where(and(eq(Tasks.projectId, projectId), eq(Tasks.status, "approved")));
+
+  const rates = await findRatesForEmployees(
+    Array.from(new Set(approvedTasks.map((task) => task.employeeId)))
+  );
+  const multipliers = await findTaskMultipliers(approvedTasks);
+
+  const usage = approvedTasks.reduce(
+    (usage, task) => {
+      const rate = findRateForDate(rates, task.employeeId, task.workDate);
+      const costedHours = multipliers.get(task.id)?.costedHours ?? task.actualHours;
+      usage.hoursConsumed += parseFloat(task.actualHours || "0");
+      usage.amountConsumed += rate ? calculateCost(costedHours, rate.hourlyRate) : 0;
+      return usage;
+    },
+    { hoursConsumed: 0, amountConsumed: 0 }
+  );
+
+  const expenses = await findApprovedExpensesForProjects([projectId]);
+  if (expenses.length > 0) {
+    const { costCurrency } = await findOrganisationSettings();
+    const exchangeRates = await findRatesBetweenCurrencies([
+      costCurrency,
+      ...expenses.map((expense) => expense.currency),
+    ]);
+    for (const expense of expenses) {
+      usage.amountConsumed += convertExpense(expense, exchangeRates, costCurrency) ?? 0;
+    }
+  }
+
+  return usage;
+}
+
+// Record newly crossed thresholds and email the project creator once per
+// crossing. The unique index on (project, type, threshold) makes the insert
+// the arbiter, so concurrent approvals cannot send the same alert twice.
+export async function checkBudgetThresholds(project: BudgetedProject, usage: ProjectUsage) {
+  const budgets: { budgetType: BudgetType; budget: string | null; consumed: number }[] = [
+    { budgetType: "hours", budget: project.budgetHours, consumed: usage.hoursConsumed },
+    { budgetType: "amount", budget: project.budgetAmount, consumed: usage.amountConsumed },
+  ];
+
+  try {
+    for (const { budgetType, budget, consumed } of budgets) {
+      const burn = calculateBudgetBurn(budget, consumed);
+
+      // Re-arm thresholds the burn has dropped back below (e.g. budget raised)
+      await db
+        .delete(ProjectBudgetAlerts)
+        .where(
+          and(
+            eq(ProjectBudgetAlerts.projectId, project.id),
+            eq(ProjectBudgetAlerts.budgetType, budgetType),
+            burn.percentBurned === null
+              ? undefined
+              : gt(ProjectBudgetAlerts.threshold, Math.floor(burn.percentBurned))
+          )
+        );
+
+      const thresholds = crossedThresholds(project.budgetAlertThresholds, burn.percentBurned);
+      if (thresholds.length === 0) continue;
+
+      const recorded = await db
+        .insert(ProjectBudgetAlerts)
+        .values(
+          thresholds.map((threshold) => ({
+            projectId: project.id,
+            budgetType,
+            threshold,
+            percentBurned: burn.percentBurned!.toFixed(2),
+          }))
+        )
+        .onConflictDoNothing()
+        .returning();
+
+      if (recorded.length === 0) continue;
+
+      const [creator] = await db
+        .select({ email: UserTable.email })
+        .from(UserTable)
+        .where(eq(UserTable.id, project.createdBy))
+        .limit(1);
+      if (!creator) continue;
+
+      // Only the highest newly crossed threshold is worth an email
+      const highest = recorded.reduce((max, alert) => (alert.threshold > max.threshold ? alert : max));
+      const serialized = serializeBudgetBurn(burn);
+
+      await sendBudgetThresholdEmail(creator.email, {
+        projectName: project.projectName,
+        budgetType,
+        threshold: highest.threshold,
+        percentBurned: serialized.percentBurned!,
+        consumed: serialized.consumed,
+        budget: serialized.budget!,
+      });
+
+      await db
+        .update(ProjectBudgetAlerts)
+        .set({ notifiedAt: new Date() })
+        .where(
+          and(
+            eq(ProjectBudgetAlerts.projectId, project.id),
+            eq(ProjectBudgetAlerts.budgetType, budgetType),
+            eq(ProjectBudgetAlerts.threshold, highest.threshold)
+          )
+        );
+    }
+  } catch (error) {
+    // Alerts must never break the request that triggered them
+    console.error(`Error checking budget thresholds for project: ${project.id}`, error);
+  }
+}
+
+export async function checkProjectBudget(projectId: string) {
+  try {
+    const [project] = await db
+      .select({
+        id: Projects.id,
+        projectName: Projects.projectName,
+        createdBy: Projects.createdBy,
+        budgetHours: Projects.budgetHours,
+        budgetAmount: Projects.budgetAmount,
+        budgetAlertThresholds: Projects.budgetAlertThresholds,
+      })
+      .from(Projects)
+      .where(eq(Projects.id, projectId))
+      .limit(1);
+
+    if (!project || (!project.budgetHours && !project.budgetAmount)) return;
+
+    const usage = await findApprovedProjectUsage(projectId);
+    await checkBudgetThresholds(project, usage);
+  } catch (error) {
+    console.error(`Error checking budget for project: ${projectId}`, error);
+  }
+}
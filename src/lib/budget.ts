@@ -0,0 +1,54 @@
+// Budget burn calculations shared by the project APIs and budget alerts.
+
+export type BudgetType = 'hours' | 'amount';
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [75, 90, 100];
+
+export interface BudgetBurn {
+  budget: number | null;
+  consumed: number;
+  remaining: number | null;
+  percentBurned: number | null;
+}
+
+export function calculateBudgetBurn(budget: string | number | null, consumed: number): BudgetBurn {
+  const parsedBudget = typeof budget === 'number' ? budget : budget ? parseFloat(budget) : NaN;
+  if (isNaN(parsedBudget) || parsedBudget <= 0) {
+    return { budget: null, consumed, remaining: null, percentBurned: null };
+  }
+
+  return {
+    budget: parsedBudget,
+    consumed,
+    remaining: parsedBudget - consumed,
+    percentBurned: Math.round((consumed / parsedBudget) * 10000) / 100,
+  };
+}
+
+// Thresholds (in percent) that the current burn has reached, lowest first.
+export function crossedThresholds(thresholds: number[], percentBurned: number | null): number[] {
+  if (percentBurned === null) return [];
+  return thresholds.filter((threshold) => percentBurned >= threshold).sort((a, b) => a - b);
+}
+
+// Validate thresholds sent by the client: whole percentages between 1 and 1000.
+export function parseBudgetThresholds(value: unknown): number[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const thresholds = value.map((threshold) => Number(threshold));
+  if (thresholds.some((threshold) => !Number.isInteger(threshold) || threshold < 1 || threshold > 1000)) {
+    return null;
+  }
+
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
+// Serialise a burn for API responses, matching the string formatting of the hour summary.
+export function serializeBudgetBurn(burn: BudgetBurn) {
+  return {
+    budget: burn.budget !== null ? burn.budget.toFixed(2) : null,
+    consumed: burn.consumed.toFixed(2),
+    remaining: burn.remaining !== null ? burn.remaining.toFixed(2) : null,
+    percentBurned: burn.percentBurned !== null ? burn.percentBurned.toFixed(2) : null,
+  };
+}
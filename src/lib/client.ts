@@ -0,0 +1,125 @@
+// Client details validation and payment terms.
+
+import { Country, State } from 'country-state-city';
+import { isSupportedCurrency } from '@/lib/currency';
+import { validateGstin } from '@/lib/gst';
+
+export interface ClientContactInput {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  designation: string | null;
+  isPrimary: boolean;
+}
+
+export interface ClientInput {
+  legalName: string;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  stateCode: string | null;
+  countryCode: string | null;
+  postalCode: string | null;
+  gstin: string | null;
+  defaultCurrency: string;
+  paymentTermsDays: number;
+  contacts: ClientContactInput[];
+}
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const optionalText = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Validate the client details sent by the form. Returns an error message for the
+// first invalid field, or the cleaned values.
+export function parseClientInput(value: any): { client: ClientInput } | { error: string } {
+  const legalName = optionalText(value?.legalName);
+  if (!legalName) {
+    return { error: 'Legal name is required' };
+  }
+
+  const gstin = optionalText(value?.gstin)?.toUpperCase() ?? null;
+  if (gstin) {
+    const gstinError = validateGstin(gstin);
+    if (gstinError) return { error: gstinError };
+  }
+
+  const defaultCurrency = value?.defaultCurrency ?? 'INR';
+  if (!isSupportedCurrency(defaultCurrency)) {
+    return { error: 'Unsupported currency' };
+  }
+
+  const paymentTermsDays = Number(value?.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS);
+  if (!Number.isInteger(paymentTermsDays) || paymentTermsDays < 0 || paymentTermsDays > 365) {
+    return { error: 'Payment terms must be a whole number of days between 0 and 365' };
+  }
+
+  const stateCode = optionalText(value?.stateCode);
+  const countryCode = optionalText(value?.countryCode)?.toUpperCase() ?? null;
+  if (countryCode && !Country.getCountryByCode(countryCode)) {
+    return { error: 'Unknown country' };
+  }
+  if (stateCode && (!countryCode || !State.getStateByCodeAndCountry(stateCode, countryCode))) {
+    return { error: 'Unknown state for the selected country' };
+  }
+
+  if (value?.contacts !== undefined && !Array.isArray(value.contacts)) {
+    return { error: 'Contacts must be a list' };
+  }
+
+  const contacts: ClientContactInput[] = [];
+  for (const [index, raw] of (value?.contacts ?? []).entries()) {
+    const row = `Contact ${index + 1}`;
+    const name = optionalText(raw?.name);
+    const email = optionalText(raw?.email);
+
+    if (!name) {
+      return { error: `${row}: name is required` };
+    }
+    if (email && !EMAIL_PATTERN.test(email)) {
+      return { error: `${row}: enter a valid email` };
+    }
+
+    contacts.push({
+      name,
+      email,
+      phone: optionalText(raw?.phone),
+      designation: optionalText(raw?.designation),
+      isPrimary: !!raw?.isPrimary,
+    });
+  }
+
+  if (contacts.filter((contact) => contact.isPrimary).length > 1) {
+    return { error: 'Only one contact can be primary' };
+  }
+  // The first contact is primary unless another was chosen
+  if (contacts.length > 0 && !contacts.some((contact) => contact.isPrimary)) {
+    contacts[0].isPrimary = true;
+  }
+
+  return {
+    client: {
+      legalName,
+      addressLine1: optionalText(value?.addressLine1),
+      addressLine2: optionalText(value?.addressLine2),
+      city: optionalText(value?.city),
+      stateCode,
+      countryCode,
+      postalCode: optionalText(value?.postalCode),
+      gstin,
+      defaultCurrency,
+      paymentTermsDays,
+      contacts,
+    },
+  };
+}
+
+// Due date (YYYY-MM-DD) for an invoice issued on `issueDate` under the terms
+export function dueDateFromTerms(issueDate: Date, paymentTermsDays: number): string {
+  const due = new Date(Date.UTC(issueDate.getUTCFullYear(), issueDate.getUTCMonth(), issueDate.getUTCDate()));
+  due.setUTCDate(due.getUTCDate() + paymentTermsDays);
+  return due.toISOString().split('T')[0];
+}
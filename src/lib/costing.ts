@@ -0,0 +1,221 @@
+// Helpers for turning logged hours into money. Kept free of database imports
+// so both API routes and client components can use them.
+
+export interface EffectivePeriod {
+  effectiveFrom: string; // YYYY-MM-DD
+  effectiveTo: string | null; // YYYY-MM-DD, inclusive; null = still in force
+}
+
+export interface RatePeriod extends EffectivePeriod {
+  employeeId: string;
+  hourlyRate: string;
+}
+
+// A bill rate applies to one employee on a project, or to everyone on the
+// project when employeeId is null.
+export interface BillRatePeriod extends EffectivePeriod {
+  projectId: string;
+  employeeId: string | null;
+  hourlyRate: string;
+}
+
+// Organisation-wide cost loading; percentages are 0-100 and the facilities
+// overhead is in the cost currency.
+export interface CostLoadingPeriod extends EffectivePeriod {
+  benefitsPercent: string;
+  facilitiesOverheadPerHour: string;
+  nonBillableAllocationPercent: string;
+}
+
+// Normalise a Date or ISO string to a YYYY-MM-DD key for date-only comparisons.
+export function toDateKey(value: Date | string): string {
+  return new Date(value).toISOString().split('T')[0];
+}
+
+// Whether a value is a YYYY-MM-DD key for a day that exists, so 2024-02-31 is
+// turned away before it reaches the database.
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !isNaN(Date.parse(`${value}T00:00:00.000Z`)) &&
+  toDateKey(`${value}T00:00:00.000Z`) === value;
+
+// The organisation's calendar: "today" and the day a timer ran are dates in
+// this zone, not in UTC or the server's zone.
+export const ORG_TIME_ZONE = process.env.NEXT_PUBLIC_ORG_TIME_ZONE || 'Asia/Kolkata';
+
+// The YYYY-MM-DD key for the organisation's day at the given moment.
+export function orgDateKey(value: Date | string = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: ORG_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(new Date(value));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+// The YYYY-MM-DD key for the browser's own day, for date inputs.
+export function localDateKey(date: Date = new Date()): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Returns the YYYY-MM-DD key for the day before the given date key.
+export function previousDateKey(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return toDateKey(date);
+}
+
+function coversDate(period: EffectivePeriod, dateKey: string): boolean {
+  return period.effectiveFrom <= dateKey && (period.effectiveTo === null || period.effectiveTo >= dateKey);
+}
+
+// Find the rate an employee was on for the given work date.
+export function findRateForDate<T extends RatePeriod>(
+  rates: T[],
+  employeeId: string,
+  workDate: Date | string
+): T | null {
+  const dateKey = toDateKey(workDate);
+  return rates.find((rate) => rate.employeeId === employeeId && coversDate(rate, dateKey)) || null;
+}
+
+// Find what a project charges for an employee's hour on the given work date.
+// An employee-specific rate wins over the project-wide default.
+export function findBillRateForDate<T extends BillRatePeriod>(
+  rates: T[],
+  projectId: string,
+  employeeId: string,
+  workDate: Date | string
+): T | null {
+  const dateKey = toDateKey(workDate);
+  const projectRates = rates.filter((rate) => rate.projectId === projectId && coversDate(rate, dateKey));
+  return (
+    projectRates.find((rate) => rate.employeeId === employeeId) ||
+    projectRates.find((rate) => rate.employeeId === null) ||
+    null
+  );
+}
+
+// Returns the first period that intersects [from, to]. Callers pass the
+// periods of a single scope (one employee, or one project/employee pair).
+export function findOverlappingPeriod<T extends EffectivePeriod>(
+  periods: T[],
+  from: string,
+  to: string | null
+): T | null {
+  return (
+    periods.find(
+      (period) =>
+        (to === null || period.effectiveFrom <= to) &&
+        (period.effectiveTo === null || period.effectiveTo >= from)
+    ) || null
+  );
+}
+
+// A new period starting after the current open-ended one supersedes it: the
+// open period is closed the day before the new one takes effect. Returns the
+// period to close (if any) and the list as it will look after closing it.
+export function supersedeOpenPeriod<T extends EffectivePeriod & { id: string }>(
+  periods: T[],
+  from: string
+): { openPeriod: T | null; periods: T[] } {
+  const openPeriod =
+    periods.find((period) => period.effectiveTo === null && period.effectiveFrom < from) || null;
+
+  return {
+    openPeriod,
+    periods: periods.map((period) =>
+      period.id === openPeriod?.id ? { ...period, effectiveTo: previousDateKey(from) } : period
+    ),
+  };
+}
+
+export function calculateCost(hours: string | number | null, hourlyRate: string | number | null): number {
+  const parsedHours = typeof hours === 'number' ? hours : parseFloat(hours || '0');
+  const parsedRate = typeof hourlyRate === 'number' ? hourlyRate : parseFloat(hourlyRate || '0');
+  if (isNaN(parsedHours) || isNaN(parsedRate)) return 0;
+  return Math.round(parsedHours * parsedRate * 100) / 100;
+}
+
+export function findLoadingForDate<T extends CostLoadingPeriod>(loadings: T[], workDate: Date | string): T | null {
+  const dateKey = toDateKey(workDate);
+  return loadings.find((loading) => coversDate(loading, dateKey)) || null;
+}
+
+// Fully-loaded cost of work: direct cost plus benefits, plus facilities
+// overhead for the hours worked, grossed up so that billed hours also carry
+// the organisation's non-billable time (20% non-billable => ×1.25).
+export function calculateLoadedCost(
+  directCost: number,
+  hours: string | number | null,
+  loading: CostLoadingPeriod | null
+): number {
+  if (!loading) return directCost;
+  const parsedHours = typeof hours === 'number' ? hours : parseFloat(hours || '0');
+  const withBenefits = directCost * (1 + parseFloat(loading.benefitsPercent) / 100);
+  const withOverhead = withBenefits + (isNaN(parsedHours) ? 0 : parsedHours) * parseFloat(loading.facilitiesOverheadPerHour);
+  return Math.round((withOverhead / (1 - parseFloat(loading.nonBillableAllocationPercent) / 100)) * 100) / 100;
+}
+
+// Non-billable time can be spread over at most this share of the hours, or
+// the uplift grows without bound
+const MAX_NON_BILLABLE_ALLOCATION = 90;
+
+// Validate a new cost loading from a request body
+export function parseCostLoadingInput(
+  body: any
+): { loading: Omit<CostLoadingPeriod, 'effectiveTo'> } | { error: string } {
+  const effectiveFrom = body?.effectiveFrom;
+  if (!isDateKey(effectiveFrom)) {
+    return { error: 'Effective from must be in YYYY-MM-DD format' };
+  }
+
+  const benefitsPercent = parseFloat(body.benefitsPercent ?? '0');
+  if (isNaN(benefitsPercent) || benefitsPercent < 0 || benefitsPercent > 500) {
+    return { error: 'Benefits must be between 0% and 500% of direct cost' };
+  }
+
+  const facilitiesOverheadPerHour = parseFloat(body.facilitiesOverheadPerHour ?? '0');
+  if (isNaN(facilitiesOverheadPerHour) || facilitiesOverheadPerHour < 0) {
+    return { error: 'Facilities overhead per hour must be zero or more' };
+  }
+
+  const nonBillableAllocationPercent = parseFloat(body.nonBillableAllocationPercent ?? '0');
+  if (
+    isNaN(nonBillableAllocationPercent) ||
+    nonBillableAllocationPercent < 0 ||
+    nonBillableAllocationPercent > MAX_NON_BILLABLE_ALLOCATION
+  ) {
+    return { error: `Non-billable allocation must be between 0% and ${MAX_NON_BILLABLE_ALLOCATION}%` };
+  }
+
+  return {
+    loading: {
+      effectiveFrom,
+      benefitsPercent: benefitsPercent.toFixed(2),
+      facilitiesOverheadPerHour: facilitiesOverheadPerHour.toFixed(2),
+      nonBillableAllocationPercent: nonBillableAllocationPercent.toFixed(2),
+    },
+  };
+}
+
+export function calculateMargin(revenue: number, cost: number) {
+  const grossMargin = revenue - cost;
+  return {
+    grossMargin,
+    marginPercent: revenue > 0 ? (grossMargin / revenue) * 100 : null,
+  };
+}
+
+export function formatCurrency(amount: string | number, currency: string = 'INR'): string {
+  const value = typeof amount === 'number' ? amount : parseFloat(amount || '0');
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 2,
+  }).format(isNaN(value) ? 0 : value);
+}
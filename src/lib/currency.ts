@@ -0,0 +1,127 @@
+// Exchange rate lookup and conversion between project, cost and reporting
+// currencies. Free of database imports so the CSV parser can run client-side.
+
+import { isDateKey, toDateKey } from '@/lib/costing';
+
+export const SUPPORTED_CURRENCIES = ['INR', 'USD', 'EUR', 'GBP', 'AUD', 'CAD', 'SGD', 'AED', 'JPY'];
+
+export const DEFAULT_CURRENCY = 'INR';
+
+export function isSupportedCurrency(value: unknown): value is string {
+  return typeof value === 'string' && SUPPORTED_CURRENCIES.includes(value);
+}
+
+export interface ExchangeRatePoint {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  effectiveDate: string; // YYYY-MM-DD
+}
+
+// The rate that converts one unit of `from` into `to` on the work date: the
+// latest rate for the pair (in either direction) effective on or before it.
+// Returns null when no rate covers the date.
+export function findExchangeRate(
+  rates: ExchangeRatePoint[],
+  from: string,
+  to: string,
+  workDate: Date | string
+): number | null {
+  if (from === to) return 1;
+
+  const dateKey = toDateKey(workDate);
+  let latest: { effectiveDate: string; rate: number } | null = null;
+
+  for (const point of rates) {
+    if (point.effectiveDate > dateKey) continue;
+    if (latest && point.effectiveDate <= latest.effectiveDate) continue;
+
+    const rate = parseFloat(point.rate);
+    if (!(rate > 0)) continue;
+
+    if (point.baseCurrency === from && point.quoteCurrency === to) {
+      latest = { effectiveDate: point.effectiveDate, rate };
+    } else if (point.baseCurrency === to && point.quoteCurrency === from) {
+      latest = { effectiveDate: point.effectiveDate, rate: 1 / rate };
+    }
+  }
+
+  return latest ? latest.rate : null;
+}
+
+export function convertAmount(
+  amount: number,
+  rates: ExchangeRatePoint[],
+  from: string,
+  to: string,
+  workDate: Date | string
+): number | null {
+  const rate = findExchangeRate(rates, from, to, workDate);
+  return rate === null ? null : Math.round(amount * rate * 100) / 100;
+}
+
+export interface ParsedExchangeRate {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  effectiveDate: string;
+}
+
+const CSV_COLUMNS = ['date', 'base', 'quote', 'rate'];
+
+// Parse a CSV with a header row naming the columns date, base, quote and rate
+// (in any order). Returns an error for the first invalid line, or for a line
+// repeating an earlier line's currency pair and date.
+export function parseExchangeRateCsv(text: string): { rates: ParsedExchangeRate[] } | { error: string } {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  if (lines.length < 2) {
+    return { error: 'The file must have a header row and at least one rate' };
+  }
+
+  const header = lines[0].split(',').map((column) => column.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    return { error: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` };
+  }
+
+  const rates: ParsedExchangeRate[] = [];
+  const seen = new Map<string, string>(); // pair and date -> line
+  for (const [index, line] of lines.slice(1).entries()) {
+    const row = `Line ${index + 2}`;
+    const cells = line.split(',').map((cell) => cell.trim());
+    const value = (column: string) => cells[header.indexOf(column)] || '';
+
+    const effectiveDate = value('date');
+    const baseCurrency = value('base').toUpperCase();
+    const quoteCurrency = value('quote').toUpperCase();
+    const rate = Number(value('rate'));
+
+    if (!isDateKey(effectiveDate)) {
+      return { error: `${row}: date must be in YYYY-MM-DD format` };
+    }
+    if (!isSupportedCurrency(baseCurrency) || !isSupportedCurrency(quoteCurrency)) {
+      return { error: `${row}: unsupported currency` };
+    }
+    if (baseCurrency === quoteCurrency) {
+      return { error: `${row}: base and quote currency must differ` };
+    }
+    if (isNaN(rate) || rate <= 0) {
+      return { error: `${row}: rate must be greater than zero` };
+    }
+
+    const key = `${baseCurrency}/${quoteCurrency}|${effectiveDate}`;
+    const earlier = seen.get(key);
+    if (earlier) {
+      return { error: `${row}: ${earlier} already has a ${baseCurrency}/${quoteCurrency} rate for ${effectiveDate}` };
+    }
+    seen.set(key, row);
+
+    rates.push({ baseCurrency, quoteCurrency, rate, effectiveDate });
+  }
+
+  return { rates };
+}
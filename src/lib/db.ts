@@ -9,3 +9,6 @@ export const db = drizzle(pool, {
   schema,
   logger: !isProduction,
 });
+
+// The handle a db.transaction callback receives
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
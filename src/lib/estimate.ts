@@ -0,0 +1,137 @@
+// Estimate totals, lifecycle rules and the estimate-vs-actual comparison.
+// Free of database imports so the estimate builder can reuse the maths.
+
+import { isValidHsnSac } from '@/lib/gst';
+
+export type EstimateStatus = 'draft' | 'submitted' | 'approved';
+
+// Submitted estimates can be sent back to draft for rework; approved ones are final.
+export const ESTIMATE_STATUS_TRANSITIONS: Record<EstimateStatus, EstimateStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['approved', 'draft'],
+  approved: [],
+};
+
+export function canTransitionEstimate(from: EstimateStatus, to: EstimateStatus): boolean {
+  return ESTIMATE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export interface EstimateLineItemInput {
+  id?: string;
+  workPackage: string;
+  role: string;
+  estimatedHours: string | number;
+  hourlyRate: string | number;
+  contingencyPercent: string | number;
+  hsnSac?: string | null;
+}
+
+export interface ParsedLineItem {
+  id?: string;
+  workPackage: string;
+  role: string;
+  estimatedHours: number;
+  hourlyRate: number;
+  contingencyPercent: number;
+  hsnSac: string | null;
+}
+
+const toNumber = (value: string | number | null | undefined) =>
+  typeof value === 'number' ? value : parseFloat(value || '0');
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Contingency is added on top of the estimated hours and priced at the same rate.
+export function calculateLineItemTotals(item: Pick<EstimateLineItemInput, 'estimatedHours' | 'hourlyRate' | 'contingencyPercent'>) {
+  const estimatedHours = toNumber(item.estimatedHours);
+  const contingencyHours = round2((estimatedHours * toNumber(item.contingencyPercent)) / 100);
+  const totalHours = round2(estimatedHours + contingencyHours);
+
+  return {
+    estimatedHours,
+    contingencyHours,
+    totalHours,
+    amount: round2(totalHours * toNumber(item.hourlyRate)),
+  };
+}
+
+export function calculateEstimateTotals(items: Pick<EstimateLineItemInput, 'estimatedHours' | 'hourlyRate' | 'contingencyPercent'>[]) {
+  return items.reduce(
+    (totals, item) => {
+      const line = calculateLineItemTotals(item);
+      return {
+        estimatedHours: round2(totals.estimatedHours + line.estimatedHours),
+        contingencyHours: round2(totals.contingencyHours + line.contingencyHours),
+        totalHours: round2(totals.totalHours + line.totalHours),
+        totalAmount: round2(totals.totalAmount + line.amount),
+      };
+    },
+    { estimatedHours: 0, contingencyHours: 0, totalHours: 0, totalAmount: 0 }
+  );
+}
+
+// Validate line items sent by the client. Returns an error message for the
+// first invalid row, or the parsed rows.
+export function parseLineItems(value: unknown): { items: ParsedLineItem[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'Line items must be a list' };
+  }
+
+  const items: ParsedLineItem[] = [];
+  for (const [index, raw] of value.entries()) {
+    const row = `Line ${index + 1}`;
+    const workPackage = typeof raw?.workPackage === 'string' ? raw.workPackage.trim() : '';
+    const role = typeof raw?.role === 'string' ? raw.role.trim() : '';
+    const estimatedHours = Number(raw?.estimatedHours);
+    const hourlyRate = Number(raw?.hourlyRate);
+    const contingencyPercent = Number(raw?.contingencyPercent ?? 0);
+    const hsnSac = typeof raw?.hsnSac === 'string' && raw.hsnSac.trim() ? raw.hsnSac.trim() : null;
+
+    if (!workPackage || !role) {
+      return { error: `${row}: work package and role are required` };
+    }
+    if (isNaN(estimatedHours) || estimatedHours <= 0) {
+      return { error: `${row}: estimated hours must be greater than zero` };
+    }
+    if (isNaN(hourlyRate) || hourlyRate < 0) {
+      return { error: `${row}: rate must be a positive number` };
+    }
+    if (isNaN(contingencyPercent) || contingencyPercent < 0 || contingencyPercent > 999) {
+      return { error: `${row}: contingency must be between 0 and 999%` };
+    }
+    if (hsnSac !== null && !isValidHsnSac(hsnSac)) {
+      return { error: `${row}: HSN/SAC code must be 4, 6 or 8 digits` };
+    }
+
+    items.push({
+      id: typeof raw?.id === 'string' ? raw.id : undefined,
+      workPackage,
+      role,
+      estimatedHours,
+      hourlyRate,
+      contingencyPercent,
+      hsnSac,
+    });
+  }
+
+  return { items };
+}
+
+// Compare each line item's hours (including contingency) with the actual hours
+// of the tasks mapped to it. actualHoursByLineItem is keyed by line item id.
+export function compareEstimateWithActuals<T extends { id: string } & Pick<EstimateLineItemInput, 'estimatedHours' | 'hourlyRate' | 'contingencyPercent'>>(
+  items: T[],
+  actualHoursByLineItem: Record<string, number>
+) {
+  return items.map((item) => {
+    const { totalHours } = calculateLineItemTotals(item);
+    const actualHours = round2(actualHoursByLineItem[item.id] || 0);
+
+    return {
+      ...item,
+      actualHours,
+      remainingHours: round2(totalHours - actualHours),
+      percentUsed: totalHours > 0 ? round2((actualHours / totalHours) * 100) : null,
+    };
+  });
+}
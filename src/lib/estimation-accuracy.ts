@@ -0,0 +1,105 @@
+// Estimation accuracy metrics: how far actual hours landed from expected hours.
+//
+// Per task the signed error is (actual - expected) / actual, so a positive
+// bias means work routinely takes longer than estimated (under-estimation).
+
+export type AccuracyPeriod = 'month' | 'quarter';
+
+export interface EstimatedTask {
+  employeeId: string;
+  expectedHours: number;
+  actualHours: number;
+  workDate: Date | string;
+}
+
+export interface AccuracyMetrics {
+  taskCount: number;
+  expectedHours: number;
+  actualHours: number;
+  mape: number; // mean absolute % error
+  bias: number; // mean signed % error; > 0 under-estimates, < 0 over-estimates
+}
+
+export type AccuracyTrend = 'improving' | 'worsening' | 'stable';
+
+// A change in MAPE smaller than this (percentage points per period) is noise
+const TREND_TOLERANCE = 2;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function toPeriodKey(value: Date | string, period: AccuracyPeriod): string {
+  const date = new Date(value);
+  const year = date.getUTCFullYear();
+  if (period === 'quarter') {
+    return `${year}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+  }
+  return `${year}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+// Only tasks with a positive estimate and positive actual hours can be scored.
+export function isScorable(expectedHours: number, actualHours: number): boolean {
+  return expectedHours > 0 && actualHours > 0;
+}
+
+export function calculateAccuracy(tasks: Pick<EstimatedTask, 'expectedHours' | 'actualHours'>[]): AccuracyMetrics {
+  const scored = tasks.filter((task) => isScorable(task.expectedHours, task.actualHours));
+  const errors = scored.map((task) => (task.actualHours - task.expectedHours) / task.actualHours);
+
+  return {
+    taskCount: scored.length,
+    expectedHours: round2(scored.reduce((sum, task) => sum + task.expectedHours, 0)),
+    actualHours: round2(scored.reduce((sum, task) => sum + task.actualHours, 0)),
+    mape: scored.length ? round2((errors.reduce((sum, e) => sum + Math.abs(e), 0) / scored.length) * 100) : 0,
+    bias: scored.length ? round2((errors.reduce((sum, e) => sum + e, 0) / scored.length) * 100) : 0,
+  };
+}
+
+// Least-squares slope of MAPE over consecutive periods. Falling error is improvement.
+export function calculateTrend(periodMape: number[]): { slope: number; trend: AccuracyTrend } | null {
+  if (periodMape.length < 2) return null;
+
+  const n = periodMape.length;
+  const meanX = (n - 1) / 2;
+  const meanY = periodMape.reduce((sum, value) => sum + value, 0) / n;
+  const numerator = periodMape.reduce((sum, value, index) => sum + (index - meanX) * (value - meanY), 0);
+  const denominator = periodMape.reduce((sum, _, index) => sum + (index - meanX) ** 2, 0);
+  const slope = round2(numerator / denominator);
+
+  return {
+    slope,
+    trend: slope <= -TREND_TOLERANCE ? 'improving' : slope >= TREND_TOLERANCE ? 'worsening' : 'stable',
+  };
+}
+
+export function describeBias(bias: number): string {
+  if (Math.abs(bias) < 5) return 'Balanced';
+  return bias > 0 ? 'Under-estimates' : 'Over-estimates';
+}
+
+// Scorecard rows per employee, each with a breakdown per period (oldest first).
+export function buildScorecard(tasks: EstimatedTask[], period: AccuracyPeriod) {
+  const byEmployee = new Map<string, EstimatedTask[]>();
+  for (const task of tasks) {
+    byEmployee.set(task.employeeId, [...(byEmployee.get(task.employeeId) || []), task]);
+  }
+
+  return Array.from(byEmployee.entries()).map(([employeeId, employeeTasks]) => {
+    const byPeriod = new Map<string, EstimatedTask[]>();
+    for (const task of employeeTasks) {
+      const key = toPeriodKey(task.workDate, period);
+      byPeriod.set(key, [...(byPeriod.get(key) || []), task]);
+    }
+
+    const periods = Array.from(byPeriod.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, periodTasks]) => ({ period: key, ...calculateAccuracy(periodTasks) }))
+      .filter((row) => row.taskCount > 0);
+
+    return {
+      employeeId,
+      overall: calculateAccuracy(employeeTasks),
+      periods,
+      trend: calculateTrend(periods.map((row) => row.mape)),
+    };
+  });
+}
@@ -0,0 +1,94 @@
+// Project expenses: categories, validation of what an employee submits, and
+// conversion into the currencies costs and revenue are reported in.
+
+import { isDateKey, orgDateKey } from '@/lib/costing';
+import { convertAmount, ExchangeRatePoint, isSupportedCurrency } from '@/lib/currency';
+
+export type ExpenseCategory = 'travel' | 'software_licence' | 'subcontractor' | 'other';
+export type ExpenseStatus = 'pending' | 'approved' | 'rejected';
+
+export const EXPENSE_CATEGORIES: { value: ExpenseCategory; label: string }[] = [
+  { value: 'travel', label: 'Travel' },
+  { value: 'software_licence', label: 'Software licence' },
+  { value: 'subcontractor', label: 'Subcontractor' },
+  { value: 'other', label: 'Other' },
+];
+
+export interface ExpenseInput {
+  category: ExpenseCategory;
+  description: string;
+  amount: string;
+  currency: string;
+  expenseDate: string;
+  isBillable: boolean;
+  receiptKey: string; // UploadThing file key; the URL and name come from the recorded upload
+}
+
+export function expenseCategoryLabel(category: string): string {
+  return EXPENSE_CATEGORIES.find((option) => option.value === category)?.label ?? category;
+}
+
+// Validate an expense sent by the form. Returns an error message for the first
+// invalid field, or the cleaned values.
+export function parseExpenseInput(value: any): { expense: ExpenseInput } | { error: string } {
+  const category = value?.category;
+  if (!EXPENSE_CATEGORIES.some((option) => option.value === category)) {
+    return { error: 'Choose an expense category' };
+  }
+
+  const description = typeof value?.description === 'string' ? value.description.trim() : '';
+  if (!description) {
+    return { error: 'Description is required' };
+  }
+  if (description.length > 500) {
+    return { error: 'Description must be 500 characters or fewer' };
+  }
+
+  const amount = Number(value?.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: 'Amount must be greater than zero' };
+  }
+
+  if (!isSupportedCurrency(value?.currency)) {
+    return { error: 'Unsupported currency' };
+  }
+
+  const expenseDate = value?.expenseDate;
+  if (typeof expenseDate !== 'string' || !isDateKey(expenseDate)) {
+    return { error: 'Expense date must be a date (YYYY-MM-DD)' };
+  }
+  if (expenseDate > orgDateKey()) {
+    return { error: 'Expense date cannot be in the future' };
+  }
+
+  const isBillable = value?.isBillable ?? true;
+  if (typeof isBillable !== 'boolean') {
+    return { error: 'isBillable must be true or false' };
+  }
+
+  if (typeof value?.receiptKey !== 'string' || !value.receiptKey) {
+    return { error: 'Upload a receipt for the expense' };
+  }
+
+  return {
+    expense: {
+      category,
+      description,
+      amount: amount.toFixed(2),
+      currency: value.currency,
+      expenseDate,
+      isBillable,
+      receiptKey: value.receiptKey,
+    },
+  };
+}
+
+// The expense amount in `currency` at the rate for the expense date; null when
+// no exchange rate covers it.
+export function convertExpense(
+  expense: { amount: string; currency: string; expenseDate: string },
+  rates: ExchangeRatePoint[],
+  currency: string
+): number | null {
+  return convertAmount(parseFloat(expense.amount), rates, expense.currency, currency, expense.expenseDate);
+}
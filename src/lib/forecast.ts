@@ -0,0 +1,143 @@
+// Earned-value style forecasting from the history of approved work.
+//
+// Work is "earned" at its estimate: an approved task earns its expected hours
+// (or its actual hours when it was never estimated). Comparing earned with
+// actual hours gives the cost performance index (CPI); comparing earned with
+// the planned schedule gives the schedule performance index (SPI).
+//
+// Cost counts approved expenses as well as labour, like the budget burn the
+// forecast is compared with. Expenses already spent are carried into the cost
+// at completion as they are; only the labour still to come is projected.
+
+import { orgDateKey, toDateKey } from '@/lib/costing';
+
+export interface ForecastTask {
+  expectedHours: number | null;
+  actualHours: number;
+  cost: number | null;
+  workDate: Date | string;
+}
+
+export interface ForecastInput {
+  budgetHours: number | null; // budget at completion, hours
+  budgetCost: number | null; // budget at completion, money
+  approvedTasks: ForecastTask[];
+  expectedHours: number | null; // estimated hours of all tasks, for progress without an hours budget
+  expenseCost: number; // approved expenses to date, in the cost currency
+  plannedStartDate: string | null;
+  plannedEndDate: string | null;
+  today?: Date;
+}
+
+// Recent velocity reflects the current team better than the whole history
+const VELOCITY_WINDOW_DAYS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00.000Z`).getTime() - new Date(`${from}T00:00:00.000Z`).getTime()) / DAY_MS);
+
+const addDays = (dateKey: string, days: number) =>
+  toDateKey(new Date(new Date(`${dateKey}T00:00:00.000Z`).getTime() + days * DAY_MS));
+
+const earnedHoursOf = (task: ForecastTask) =>
+  task.expectedHours !== null && task.expectedHours > 0 ? task.expectedHours : task.actualHours;
+
+// Earned hours per calendar day over the trailing window, falling back to the
+// whole history when nothing was earned recently.
+function calculateVelocity(tasks: ForecastTask[], todayKey: string): number | null {
+  if (tasks.length === 0) return null;
+
+  const windowStart = addDays(todayKey, -(VELOCITY_WINDOW_DAYS - 1));
+  const recent = tasks.filter((task) => toDateKey(task.workDate) >= windowStart);
+  if (recent.length > 0) {
+    return recent.reduce((sum, task) => sum + earnedHoursOf(task), 0) / VELOCITY_WINDOW_DAYS;
+  }
+
+  const firstWorkDate = tasks.map((task) => toDateKey(task.workDate)).sort()[0];
+  const days = Math.max(1, daysBetween(firstWorkDate, todayKey) + 1);
+  return tasks.reduce((sum, task) => sum + earnedHoursOf(task), 0) / days;
+}
+
+export function calculateForecast(input: ForecastInput) {
+  const todayKey = orgDateKey(input.today);
+  const tasks = input.approvedTasks;
+
+  const earnedHours = tasks.reduce((sum, task) => sum + earnedHoursOf(task), 0);
+  const actualHours = tasks.reduce((sum, task) => sum + task.actualHours, 0);
+  const labourCost = tasks.reduce((sum, task) => sum + (task.cost || 0), 0);
+  const actualCost = labourCost + input.expenseCost;
+
+  const cpi = actualHours > 0 ? earnedHours / actualHours : null;
+  const budgetHours = input.budgetHours && input.budgetHours > 0 ? input.budgetHours : null;
+  // Progress against the hours budget, or against the tasks' estimates when
+  // the project only has a cost budget
+  const expectedHours = input.expectedHours && input.expectedHours > 0 ? input.expectedHours : null;
+  const percentComplete = budgetHours
+    ? Math.min(earnedHours / budgetHours, 1)
+    : expectedHours
+      ? Math.min(earnedHours / expectedHours, 1)
+      : null;
+
+  // EAC = BAC / CPI: the remaining work is assumed to run at the efficiency seen so far
+  const eacHours = budgetHours && cpi ? budgetHours / cpi : null;
+  const etcHours = eacHours !== null ? Math.max(eacHours - actualHours, 0) : null;
+
+  // Labour cost per earned hour so far, applied to the hours still to be earned
+  const costPerEarnedHour = earnedHours > 0 && labourCost > 0 ? labourCost / earnedHours : null;
+  const eacCost =
+    budgetHours && costPerEarnedHour !== null
+      ? actualCost + Math.max(budgetHours - earnedHours, 0) * costPerEarnedHour
+      : input.budgetCost && percentComplete
+        ? actualCost / percentComplete
+        : null;
+  const etcCost = eacCost !== null ? Math.max(eacCost - actualCost, 0) : null;
+
+  // Planned value assumes the budget is earned evenly between the planned dates
+  let spi: number | null = null;
+  if (budgetHours && input.plannedStartDate && input.plannedEndDate && input.plannedEndDate > input.plannedStartDate) {
+    const plannedDays = daysBetween(input.plannedStartDate, input.plannedEndDate);
+    const elapsedDays = Math.min(Math.max(daysBetween(input.plannedStartDate, todayKey), 0), plannedDays);
+    const plannedHours = (budgetHours * elapsedDays) / plannedDays;
+    spi = plannedHours > 0 ? earnedHours / plannedHours : null;
+  }
+
+  const velocity = calculateVelocity(tasks, todayKey);
+  const remainingHours = budgetHours ? Math.max(budgetHours - earnedHours, 0) : null;
+  const expectedFinishDate =
+    remainingHours === null
+      ? null
+      : remainingHours === 0
+        ? todayKey
+        : velocity
+          ? addDays(todayKey, Math.ceil(remainingHours / velocity))
+          : null;
+
+  const warnings: string[] = [];
+  if (eacHours !== null && budgetHours && eacHours > budgetHours) {
+    warnings.push(`Forecast of ${round2(eacHours)}h exceeds the ${round2(budgetHours)}h budget`);
+  }
+  if (eacCost !== null && input.budgetCost && eacCost > input.budgetCost) {
+    warnings.push('Forecast cost at completion exceeds the cost budget');
+  }
+  if (expectedFinishDate && input.plannedEndDate && expectedFinishDate > input.plannedEndDate) {
+    warnings.push(`Expected to finish after the planned end date of ${input.plannedEndDate}`);
+  }
+
+  return {
+    earnedHours: round2(earnedHours),
+    actualHours: round2(actualHours),
+    actualCost: round2(actualCost),
+    percentComplete: percentComplete !== null ? round2(percentComplete * 100) : null,
+    cpi: cpi !== null ? round2(cpi) : null,
+    spi: spi !== null ? round2(spi) : null,
+    eacHours: eacHours !== null ? round2(eacHours) : null,
+    etcHours: etcHours !== null ? round2(etcHours) : null,
+    eacCost: eacCost !== null ? round2(eacCost) : null,
+    etcCost: etcCost !== null ? round2(etcCost) : null,
+    velocityHoursPerDay: velocity !== null ? round2(velocity) : null,
+    expectedFinishDate,
+    warnings,
+  };
+}
@@ -0,0 +1,128 @@
+// Indian GST: GSTIN validation, state codes and the CGST+SGST / IGST split.
+// Free of database imports so forms can validate a GSTIN before saving.
+
+// IT design and development services, charged at the standard 18%
+export const DEFAULT_SAC_CODE = '998314';
+export const DEFAULT_GST_RATE = '18';
+
+// GST state codes as printed in the first two digits of a GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+  '96': 'Other Country', // place of supply for exports
+};
+
+export function isValidStateCode(value: unknown): value is string {
+  return typeof value === 'string' && value in GST_STATE_CODES;
+}
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// The 15th character of a GSTIN: a base-36 Luhn-style check over the first 14.
+export function gstinCheckCharacter(first14: string): string {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+}
+
+// Returns an error message, or null when the GSTIN is well formed, has a known
+// state code and a matching check character.
+export function validateGstin(value: string): string | null {
+  const gstin = value.trim().toUpperCase();
+
+  if (!GSTIN_PATTERN.test(gstin)) {
+    return 'GSTIN must be 15 characters: state code, PAN, entity number, Z and a check character';
+  }
+  if (!isValidStateCode(gstin.slice(0, 2))) {
+    return `GSTIN state code ${gstin.slice(0, 2)} is not a valid GST state code`;
+  }
+  if (gstinCheckCharacter(gstin.slice(0, 14)) !== gstin[14]) {
+    return 'GSTIN check character does not match; please re-check the number';
+  }
+  return null;
+}
+
+export function stateCodeFromGstin(gstin: string | null | undefined): string | null {
+  return gstin ? gstin.slice(0, 2) : null;
+}
+
+// HSN codes for goods are 4, 6 or 8 digits; SAC codes for services are 6 digits starting 99
+export function isValidHsnSac(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}(\d{2}){0,2}$/.test(value);
+}
+
+export type SupplyType = 'intra_state' | 'inter_state';
+
+// Supply within the supplier's own state attracts CGST + SGST; supply to another
+// state, or outside India, attracts IGST.
+export function determineSupplyType(supplierStateCode: string, placeOfSupply: string): SupplyType {
+  return supplierStateCode === placeOfSupply ? 'intra_state' : 'inter_state';
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function calculateGst(taxableAmount: number, rate: number, supplyType: SupplyType) {
+  if (supplyType === 'intra_state') {
+    // Each half is rounded separately, as printed on the invoice
+    const half = round2((taxableAmount * rate) / 200);
+    return {
+      cgstRate: rate / 2,
+      sgstRate: rate / 2,
+      igstRate: 0,
+      cgstAmount: half,
+      sgstAmount: half,
+      igstAmount: 0,
+      totalTax: round2(half * 2),
+    };
+  }
+
+  const igst = round2((taxableAmount * rate) / 100);
+  return {
+    cgstRate: 0,
+    sgstRate: 0,
+    igstRate: rate,
+    cgstAmount: 0,
+    sgstAmount: 0,
+    igstAmount: igst,
+    totalTax: igst,
+  };
+}
@@ -0,0 +1,91 @@
+// Invoice lifecycle, numbering and totals. Free of database imports so the
+// invoice panel and the PDF export can reuse the maths.
+
+import { calculateGst, SupplyType } from '@/lib/gst';
+
+export type InvoiceStatus = 'draft' | 'issued' | 'partially_paid' | 'paid' | 'void';
+
+// Drafts are deleted rather than voided once nobody needs them, but voiding
+// is allowed so that a number already shared with a client stays accounted for.
+// Once money has been received an invoice can only go on to paid.
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['issued', 'void'],
+  issued: ['partially_paid', 'paid', 'void'],
+  partially_paid: ['paid'],
+  paid: [],
+  void: [],
+};
+
+// Invoices that can still receive a payment
+export const PAYABLE_INVOICE_STATUSES: InvoiceStatus[] = ['issued', 'partially_paid'];
+
+// The status an invoice moves to once `amountPaid` has been received
+export function invoiceStatusForPayment(total: string | number, amountPaid: number): 'partially_paid' | 'paid' {
+  const totalAmount = typeof total === 'number' ? total : parseFloat(total || '0');
+  return amountPaid >= totalAmount ? 'paid' : 'partially_paid';
+}
+
+// Payment providers take amounts in the currency's smallest unit (paise, cents);
+// yen has no smaller unit
+const ZERO_DECIMAL_CURRENCIES = ['JPY'];
+
+export function toSubunits(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency) ? Math.round(amount) : Math.round(amount * 100);
+}
+
+export function fromSubunits(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency) ? amount : amount / 100;
+}
+
+export function canTransitionInvoice(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+const INVOICE_NUMBER_PREFIX = 'INV';
+
+// Invoices are numbered per calendar year: INV-2025-0001, INV-2025-0002, ...
+export function nextInvoiceNumber(lastNumber: string | null, year: number): string {
+  const prefix = `${INVOICE_NUMBER_PREFIX}-${year}-`;
+  const lastSequence =
+    lastNumber && lastNumber.startsWith(prefix) ? parseInt(lastNumber.slice(prefix.length), 10) : 0;
+  const sequence = isNaN(lastSequence) ? 1 : lastSequence + 1;
+  return `${prefix}${sequence.toString().padStart(4, '0')}`;
+}
+
+export function invoiceNumberPrefix(year: number): string {
+  return `${INVOICE_NUMBER_PREFIX}-${year}-`;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Without a supply type (organisation not GST registered) the tax is a single
+// amount; otherwise it is split into CGST + SGST or IGST.
+export function calculateInvoiceTotals(
+  lines: { amount: string | number }[],
+  taxRate: string | number,
+  supplyType: SupplyType | null = null
+) {
+  const subtotal = round2(
+    lines.reduce((sum, line) => sum + (typeof line.amount === 'number' ? line.amount : parseFloat(line.amount || '0')), 0)
+  );
+  const parsedRate = typeof taxRate === 'number' ? taxRate : parseFloat(taxRate || '0');
+  const rate = isNaN(parsedRate) ? 0 : parsedRate;
+
+  const gst = supplyType
+    ? calculateGst(subtotal, rate, supplyType)
+    : { cgstAmount: 0, sgstAmount: 0, igstAmount: 0, totalTax: round2((subtotal * rate) / 100) };
+
+  return {
+    subtotal,
+    cgstAmount: gst.cgstAmount,
+    sgstAmount: gst.sgstAmount,
+    igstAmount: gst.igstAmount,
+    taxAmount: gst.totalTax,
+    total: round2(subtotal + gst.totalTax),
+  };
+}
+
+export function isValidTaxRate(value: unknown): boolean {
+  const rate = Number(value);
+  return value !== '' && !isNaN(rate) && rate >= 0 && rate <= 100;
+}
@@ -14,6 +14,17 @@ const transporter = nodemailer.createTransport({
   },
 });
 
+// Values from users and clients go into the HTML escaped, so they cannot add
+// markup or links to the email
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 export async function sendEmailVerificationEmail(email: string, token: string) {
   const emailVerificationUrl = `${process.env.NEXT_PUBLIC_BASE_URL}${process.env.NEXT_PUBLIC_EMAIL_VERIFICATION_ENDPOINT}`;
   const url = `${emailVerificationUrl}?token=${token}`;
@@ -129,6 +140,190 @@ export async function sendPasswordResetEmail(email: string, token: string) {
   }
 }
 
+export async function sendBudgetThresholdEmail(
+  email: string,
+  details: {
+    projectName: string;
+    budgetType: "hours" | "amount";
+    threshold: number;
+    percentBurned: string;
+    consumed: string;
+    budget: string;
+  }
+) {
+  const budgetLabel = details.budgetType === "hours" ? "hours" : "cost";
+
+  try {
+    console.log(
+      `Sending ${details.threshold}% ${budgetLabel} budget alert for ${details.projectName} to ${email}`
+    );
+    const info = await transporter.sendMail({
+      from: process.env.NODEMAILER_EMAIL_USER,
+      to: email,
+      subject: `${details.projectName}: ${details.threshold}% of ${budgetLabel} budget used`,
+      html: `
+      <div>
+        <p>Hello,</p>
+        <p>Project <strong>${escapeHtml(details.projectName)}</strong> has used <strong>${escapeHtml(details.percentBurned)}%</strong> of its ${escapeHtml(budgetLabel)} budget, passing the ${escapeHtml(details.threshold)}% alert threshold.</p>
+        <table style="border-collapse: collapse; width: 100%;">
+          <tr>
+            <td style="border: 1px solid #dddddd; padding: 8px;"><strong>Budget</strong></td>
+            <td style="border: 1px solid #dddddd; padding: 8px;">${escapeHtml(details.budget)}</td>
+          </tr>
+          <tr>
+            <td style="border: 1px solid #dddddd; padding: 8px;"><strong>Consumed</strong></td>
+            <td style="border: 1px solid #dddddd; padding: 8px;">${escapeHtml(details.consumed)}</td>
+          </tr>
+        </table>
+        <p>You will not be notified about this threshold again unless the burn drops back below it.</p>
+        <p>Best regards,<br>The Gennext It Team</p>
+      </div>
+      `,
+    });
+    console.log("Email sent: %s", info.messageId);
+  } catch (error) {
+    console.error(`Error sending email!`, error);
+  }
+}
+
+export async function sendSignoffRequestEmail(
+  email: string,
+  details: {
+    contactName: string;
+    projectName: string;
+    periodStart: string;
+    periodEnd: string;
+    lineCount: number;
+    totalHours: string;
+    url: string;
+    expiresAt: string;
+  }
+) {
+  try {
+    console.log(`Sending sign-off request for ${details.projectName} to ${email}`);
+    const info = await transporter.sendMail({
+      from: process.env.NODEMAILER_EMAIL_USER,
+      to: email,
+      subject: `${details.projectName}: please review hours for ${details.periodStart} to ${details.periodEnd}`,
+      html: `
+      <div>
+        <p>Dear ${escapeHtml(details.contactName)},</p>
+        <p>Please review the hours logged on <strong>${escapeHtml(details.projectName)}</strong> and accept or dispute each line.</p>
+        <table style="border-collapse: collapse; width: 100%;">
+          <tr>
+            <td style="border: 1px solid #dddddd; padding: 8px;"><strong>Period</strong></td>
+            <td style="border: 1px solid #dddddd; padding: 8px;">${escapeHtml(details.periodStart)} to ${escapeHtml(details.periodEnd)}</td>
+          </tr>
+          <tr>
+            <td style="border: 1px solid #dddddd; padding: 8px;"><strong>Lines</strong></td>
+            <td style="border: 1px solid #dddddd; padding: 8px;">${escapeHtml(details.lineCount)}</td>
+          </tr>
+          <tr>
+            <td style="border: 1px solid #dddddd; padding: 8px;"><strong>Hours</strong></td>
+            <td style="border: 1px solid #dddddd; padding: 8px;">${escapeHtml(details.totalHours)}</td>
+          </tr>
+        </table>
+        <p><a href="${escapeHtml(details.url)}">Review the hours</a>. This link is valid until ${escapeHtml(details.expiresAt)}.</p>
+        <p>Best regards,<br>The Gennext It Team</p>
+      </div>
+      `,
+    });
+    console.log("Email sent: %s", info.messageId);
+  } catch (error) {
+    console.error(`Error sending email!`, error);
+  }
+}
+
+export async function sendSignoffResponseEmail(
+  email: string,
+  details: {
+    contactName: string;
+    projectName: string;
+    periodStart: string;
+    periodEnd: string;
+    acceptedCount: number;
+    disputes: { taskName: string; hours: string; comment: string | null }[];
+  }
+) {
+  const disputeRows = details.disputes
+    .map(
+      (dispute) => `
+          <tr>
+            <td style="border: 1px solid #dddddd; padding: 8px;">${escapeHtml(dispute.taskName)}</td>
+            <td style="border: 1px solid #dddddd; padding: 8px;">${escapeHtml(dispute.hours)}</td>
+            <td style="border: 1px solid #dddddd; padding: 8px;">${escapeHtml(dispute.comment ?? "")}</td>
+          </tr>`
+    )
+    .join("");
+
+  try {
+    console.log(`Sending sign-off response for ${details.projectName} to ${email}`);
+    const info = await transporter.sendMail({
+      from: process.env.NODEMAILER_EMAIL_USER,
+      to: email,
+      subject: `${details.projectName}: ${details.contactName} responded to the sign-off for ${details.periodStart} to ${details.periodEnd}`,
+      html: `
+      <div>
+        <p>Hello,</p>
+        <p>${escapeHtml(details.contactName)} accepted <strong>${escapeHtml(details.acceptedCount)}</strong> and disputed <strong>${escapeHtml(details.disputes.length)}</strong> lines on <strong>${escapeHtml(details.projectName)}</strong>.</p>
+        ${
+          details.disputes.length > 0
+            ? `<table style="border-collapse: collapse; width: 100%;">
+          <tr>
+            <th style="border: 1px solid #dddddd; text-align: left; padding: 8px;">Task</th>
+            <th style="border: 1px solid #dddddd; text-align: left; padding: 8px;">Hours</th>
+            <th style="border: 1px solid #dddddd; text-align: left; padding: 8px;">Comment</th>
+          </tr>${disputeRows}
+        </table>`
+            : ""
+        }
+        <p>Accepted hours can now be invoiced.</p>
+        <p>Best regards,<br>The Gennext It Team</p>
+      </div>
+      `,
+    });
+    console.log("Email sent: %s", info.messageId);
+  } catch (error) {
+    console.error(`Error sending email!`, error);
+  }
+}
+
+export async function sendTimerStoppedEmail(
+  email: string,
+  details: {
+    taskName: string;
+    projectName: string | null;
+    startedAt: string;
+    hours: string;
+    limitHours: number;
+    error: string | null; // why the time could not be logged
+  }
+) {
+  try {
+    console.log(`Sending stopped timer notice for ${details.taskName} to ${email}`);
+    const info = await transporter.sendMail({
+      from: process.env.NODEMAILER_EMAIL_USER,
+      to: email,
+      subject: `Your timer on ${details.taskName} was stopped`,
+      html: `
+      <div>
+        <p>Hello,</p>
+        <p>The timer you started on <strong>${escapeHtml(details.taskName)}</strong>${details.projectName ? ` (${escapeHtml(details.projectName)})` : ""} at ${escapeHtml(details.startedAt)} ran for more than ${escapeHtml(details.limitHours)} hours and has been stopped.</p>
+        ${
+          details.error
+            ? `<p>Its time could not be logged: ${escapeHtml(details.error)}</p>`
+            : `<p><strong>${escapeHtml(details.hours)} hours</strong> were logged for approval. Please correct the entry if you stopped working earlier.</p>`
+        }
+        <p>Best regards,<br>The Gennext It Team</p>
+      </div>
+      `,
+    });
+    console.log("Email sent: %s", info.messageId);
+  } catch (error) {
+    console.error(`Error sending email!`, error);
+  }
+}
+
 export async function sendEmailAbsenceEmail(
   date: string,
   fromTime: string,
@@ -0,0 +1,63 @@
+// Guards on work dated in pay periods that have been exported to payroll.
+
+import { NextResponse } from 'next/server';
+import { PayPeriods } from '@/drizzle/schema';
+import { findLockedPayPeriodForDate, findLockedPayPeriodsForDates } from '@/data/payroll';
+import { PaidWork, paidHoursIn, payrollChangedDates } from '@/lib/payroll';
+
+// The hours a change takes out of, and leaves in, each exported pay period it
+// reaches into, with the admin's reason
+export interface PayrollLock {
+  adjustments: { period: typeof PayPeriods.$inferSelect; previousHours: number; hours: number }[];
+  reason: string;
+}
+
+export const NO_PAYROLL_LOCK: PayrollLock = { adjustments: [], reason: '' };
+
+// A change to paid hours worked in an exported pay period is only allowed as
+// an admin adjustment with a reason. Each entry counts in the period of the
+// day it was worked. Returns the adjustment per period (none when no changed
+// day is in an exported period) or the response refusing the change.
+export async function checkPayrollLock(
+  before: PaidWork,
+  after: PaidWork,
+  isAdmin: boolean,
+  adjustmentReason: unknown
+): Promise<PayrollLock | { response: NextResponse }> {
+  const periods = await findLockedPayPeriodsForDates(payrollChangedDates(before, after));
+  if (periods.length === 0) return NO_PAYROLL_LOCK;
+
+  const reason = typeof adjustmentReason === 'string' ? adjustmentReason.trim() : '';
+  if (!isAdmin || !reason) {
+    return {
+      response: NextResponse.json(
+        {
+          error: `This task has time in the pay period ${periods[0].periodStart} to ${periods[0].periodEnd}, which has been exported to payroll. An admin must give a reason for the adjustment.`,
+          payPeriodLocked: true,
+        },
+        { status: 409 }
+      ),
+    };
+  }
+
+  return {
+    adjustments: periods.map((period) => ({
+      period,
+      previousHours: paidHoursIn(before, period),
+      hours: paidHoursIn(after, period),
+    })),
+    reason,
+  };
+}
+
+// New or moved work cannot be dated in an exported pay period. Returns the
+// response refusing it, or null when the date's period is open.
+export async function rejectLockedWorkDate(workDate: string) {
+  const period = await findLockedPayPeriodForDate(workDate);
+  return period
+    ? NextResponse.json(
+        { error: `The pay period ${period.periodStart} to ${period.periodEnd} has already been exported to payroll` },
+        { status: 409 }
+      )
+    : null;
+}
@@ -0,0 +1,170 @@
+// Pay periods and the payroll lines built from approved time entries; overtime
+// comes from the rate rules. Free of database imports so the admin page can list
+// periods client-side.
+
+import { toDateKey } from '@/lib/costing';
+
+export type PayPeriodFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export const PAY_PERIOD_FREQUENCIES: { value: PayPeriodFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every two weeks' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+export const DEFAULT_PAY_PERIOD_FREQUENCY: PayPeriodFrequency = 'monthly';
+export const DEFAULT_PAY_PERIOD_ANCHOR_DATE = '2024-01-01'; // a Monday
+
+export interface PayPeriodRange {
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string;
+}
+
+// A task's paid hours by the date they were worked
+export interface PaidWork {
+  isBillable: boolean;
+  hoursByDate: Map<string, number>;
+}
+
+export interface PayrollLine {
+  employeeId: string;
+  projectId: string;
+  isBillable: boolean;
+  regularHours: number;
+  overtimeHours: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+function addDays(dateKey: string, days: number): string {
+  return toDateKey(new Date(Date.parse(`${dateKey}T00:00:00.000Z`) + days * DAY_MS));
+}
+
+export function isPayPeriodFrequency(value: unknown): value is PayPeriodFrequency {
+  return PAY_PERIOD_FREQUENCIES.some((option) => option.value === value);
+}
+
+// The pay period containing the date. Monthly periods are calendar months;
+// weekly and biweekly periods repeat from the anchor date in both directions.
+export function payPeriodFor(
+  date: Date | string,
+  frequency: PayPeriodFrequency,
+  anchorDate: string
+): PayPeriodRange {
+  const dateKey = toDateKey(date);
+
+  if (frequency === 'monthly') {
+    const [year, month] = dateKey.split('-').map(Number);
+    return {
+      periodStart: toDateKey(new Date(Date.UTC(year, month - 1, 1))),
+      periodEnd: toDateKey(new Date(Date.UTC(year, month, 0))),
+    };
+  }
+
+  const length = frequency === 'weekly' ? 7 : 14;
+  const daysFromAnchor = Math.round(
+    (Date.parse(`${dateKey}T00:00:00.000Z`) - Date.parse(`${anchorDate}T00:00:00.000Z`)) / DAY_MS
+  );
+  const periodStart = addDays(anchorDate, Math.floor(daysFromAnchor / length) * length);
+
+  return { periodStart, periodEnd: addDays(periodStart, length - 1) };
+}
+
+// The pay period containing `today` and the ones before it, newest first
+export function recentPayPeriods(
+  today: Date | string,
+  frequency: PayPeriodFrequency,
+  anchorDate: string,
+  count: number
+): PayPeriodRange[] {
+  const periods: PayPeriodRange[] = [];
+  let period = payPeriodFor(today, frequency, anchorDate);
+
+  while (periods.length < count) {
+    periods.push(period);
+    period = payPeriodFor(addDays(period.periodStart, -1), frequency, anchorDate);
+  }
+
+  return periods;
+}
+
+// Sum split hours per employee, project and billable status
+export function summarisePayroll(
+  tasks: { employeeId: string; projectId: string; isBillable: boolean; regularHours: number; overtimeHours: number }[]
+): PayrollLine[] {
+  const lines = new Map<string, PayrollLine>();
+
+  for (const task of tasks) {
+    const key = `${task.employeeId}|${task.projectId}|${task.isBillable}`;
+    const line = lines.get(key) ?? {
+      employeeId: task.employeeId,
+      projectId: task.projectId,
+      isBillable: task.isBillable,
+      regularHours: 0,
+      overtimeHours: 0,
+    };
+    line.regularHours = roundHours(line.regularHours + task.regularHours);
+    line.overtimeHours = roundHours(line.overtimeHours + task.overtimeHours);
+    lines.set(key, line);
+  }
+
+  return Array.from(lines.values());
+}
+
+// What a task's entries contribute to payroll, by the day each was worked:
+// the approved entries, once the task itself is approved
+export function paidWork(
+  task: { status: string; isBillable: boolean },
+  entries: { entryDate: string; hours: string; status: string }[]
+): PaidWork {
+  const hoursByDate = new Map<string, number>();
+  if (task.status === 'approved') {
+    for (const entry of entries) {
+      if (entry.status !== 'approved') continue;
+      hoursByDate.set(entry.entryDate, roundHours((hoursByDate.get(entry.entryDate) ?? 0) + parseFloat(entry.hours)));
+    }
+  }
+  return { isBillable: task.isBillable, hoursByDate };
+}
+
+// The days on which a change to a task changes what payroll pays: their paid
+// hours differ, or paid hours are reclassified as billable or not
+export function payrollChangedDates(before: PaidWork, after: PaidWork): string[] {
+  const dates = Array.from(new Set([...Array.from(before.hoursByDate.keys()), ...Array.from(after.hoursByDate.keys())]));
+  return dates
+    .filter((date) => {
+      const previousHours = before.hoursByDate.get(date) ?? 0;
+      const hours = after.hoursByDate.get(date) ?? 0;
+      return previousHours !== hours || (hours > 0 && after.isBillable !== before.isBillable);
+    })
+    .sort();
+}
+
+// Paid hours worked within a pay period
+export function paidHoursIn(work: PaidWork, period: PayPeriodRange): number {
+  return roundHours(
+    Array.from(work.hoursByDate.entries())
+      .filter(([date]) => date >= period.periodStart && date <= period.periodEnd)
+      .reduce((sum, [, hours]) => sum + hours, 0)
+  );
+}
+
+// The change in paid hours an adjustment makes, per billable status
+export function adjustmentDeltas(adjustment: {
+  previousHours: string;
+  previousBillable: boolean;
+  hours: string;
+  isBillable: boolean;
+}): { isBillable: boolean; hours: number }[] {
+  const deltas = [true, false].map((isBillable) => ({
+    isBillable,
+    hours: roundHours(
+      (adjustment.isBillable === isBillable ? parseFloat(adjustment.hours) : 0) -
+        (adjustment.previousBillable === isBillable ? parseFloat(adjustment.previousHours) : 0)
+    ),
+  }));
+
+  return deltas.filter((delta) => delta.hours !== 0);
+}
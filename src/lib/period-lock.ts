@@ -0,0 +1,90 @@
+// Guards on work dated in timesheet periods that have been closed or locked.
+
+import { NextResponse } from 'next/server';
+import { TimesheetPeriods } from '@/drizzle/schema';
+import { recordAuditEvent } from '@/data/audit-trail';
+import { Transaction } from '@/lib/db';
+import { findClosedPeriodsForDates } from '@/data/timesheet-period';
+import { PERIOD_ADJUSTMENT_EVENT } from '@/lib/periods';
+
+type TimesheetPeriod = typeof TimesheetPeriods.$inferSelect;
+
+// A change to work dated in a closed period is for admins only; in a locked
+// period it is only allowed as an admin adjustment with a reason. Returns the
+// locked periods touched (empty when none is) with the reason, or the
+// response refusing the change.
+export async function checkPeriodLock(
+  workDates: string[],
+  isAdmin: boolean,
+  adjustmentReason: unknown
+): Promise<{ periods: TimesheetPeriod[]; reason: string } | { response: NextResponse }> {
+  const periods = await findClosedPeriodsForDates(Array.from(new Set(workDates)));
+
+  const closed = periods.find((period) => period.status === 'closed');
+  if (closed && !isAdmin) {
+    return {
+      response: NextResponse.json(
+        { error: `The period ${closed.periodStart} to ${closed.periodEnd} has been closed. Ask an admin to make this change.` },
+        { status: 409 }
+      ),
+    };
+  }
+
+  const locked = periods.filter((period) => period.status === 'locked');
+  if (locked.length === 0) return { periods: [], reason: '' };
+
+  const reason = typeof adjustmentReason === 'string' ? adjustmentReason.trim() : '';
+  if (!isAdmin || !reason) {
+    return {
+      response: NextResponse.json(
+        {
+          error: `The period ${locked[0].periodStart} to ${locked[0].periodEnd} has been locked. An admin must give a reason for the adjustment.`,
+          periodLocked: true,
+        },
+        { status: 409 }
+      ),
+    };
+  }
+
+  return { periods: locked, reason };
+}
+
+// Audit an admin adjustment against each locked period it touched, in the
+// transaction making the change, so a locked period never changes without
+// its log entry. `details` says what was changed.
+export async function recordPeriodAdjustment(
+  tx: Transaction,
+  lock: { periods: TimesheetPeriod[]; reason: string },
+  actorId: string,
+  details: Record<string, any>
+) {
+  for (const period of lock.periods) {
+    await recordAuditEvent(
+      PERIOD_ADJUSTMENT_EVENT,
+      actorId,
+      {
+        periodId: period.id,
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+        reason: lock.reason,
+        ...details,
+      },
+      1,
+      tx
+    );
+  }
+}
+
+// The parts of a task an adjustment changes hours and costs through, for the
+// audit trail to show before and after
+export const taskSnapshot = (task: {
+  status: string;
+  actualHours: string | null;
+  workDate: string;
+  isBillable: boolean;
+}) => ({
+  status: task.status,
+  actualHours: task.actualHours,
+  workDate: task.workDate,
+  isBillable: task.isBillable,
+});
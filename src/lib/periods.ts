@@ -0,0 +1,51 @@
+// Timesheet periods: defining one, and the order of their statuses. Closing
+// a period stops employees changing its hours; locking it stops everyone
+// except an admin adjustment with a reason.
+
+import { isDateKey } from '@/lib/costing';
+
+export type PeriodStatus = 'open' | 'closed' | 'locked';
+
+// Audit trail events; both carry the period's id in their details
+export const PERIOD_STATUS_EVENT = 'timesheet_period_status';
+export const PERIOD_ADJUSTMENT_EVENT = 'timesheet_period_adjustment';
+
+export const PERIOD_STATUSES: { value: PeriodStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'locked', label: 'Locked' },
+];
+
+export function isPeriodStatus(value: unknown): value is PeriodStatus {
+  return PERIOD_STATUSES.some((option) => option.value === value);
+}
+
+// Moving a period back towards open reopens it, which needs a reason
+export const isReopening = (from: PeriodStatus, to: PeriodStatus) =>
+  PERIOD_STATUSES.findIndex((option) => option.value === to) <
+  PERIOD_STATUSES.findIndex((option) => option.value === from);
+
+// A period's first and last day from a request body
+export function parsePeriodInput(body: any): { periodStart: string; periodEnd: string } | { error: string } {
+  const { periodStart, periodEnd } = body ?? {};
+
+  if (!isDateKey(periodStart) || !isDateKey(periodEnd)) {
+    return { error: 'Period start and end must be valid dates in YYYY-MM-DD format' };
+  }
+
+  if (periodEnd < periodStart) {
+    return { error: 'Period end must be on or after its start' };
+  }
+
+  return { periodStart, periodEnd };
+}
+
+// The first and last day of a YYYY-MM month, the usual period
+export function monthPeriod(month: string) {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return {
+    periodStart: `${month}-01`,
+    periodEnd: `${month}-${lastDay.toString().padStart(2, '0')}`,
+  };
+}
@@ -0,0 +1,83 @@
+// Three-point (PERT) estimates and the confidence ranges derived from them.
+
+export interface ThreePointEstimate {
+  optimisticHours: number;
+  mostLikelyHours: number;
+  pessimisticHours: number;
+}
+
+// One-sided z-scores of the normal distribution for the reported percentiles
+export const CONFIDENCE_LEVELS = {
+  p50: 0,
+  p80: 0.8416,
+  p90: 1.2816,
+} as const;
+
+export type ConfidenceLevel = keyof typeof CONFIDENCE_LEVELS;
+export type ConfidenceRange = Record<ConfidenceLevel, number>;
+
+export function calculatePert({ optimisticHours, mostLikelyHours, pessimisticHours }: ThreePointEstimate) {
+  return {
+    mean: Math.round(((optimisticHours + 4 * mostLikelyHours + pessimisticHours) / 6) * 100) / 100,
+    stdDev: Math.round(((pessimisticHours - optimisticHours) / 6) * 100) / 100,
+  };
+}
+
+// Validate the three hours sent by the client. All three must be given
+// together and ordered optimistic <= most likely <= pessimistic.
+export function parseThreePointEstimate(body: {
+  optimisticHours?: unknown;
+  mostLikelyHours?: unknown;
+  pessimisticHours?: unknown;
+}): { estimate: ThreePointEstimate | null } | { error: string } {
+  const values = [body.optimisticHours, body.mostLikelyHours, body.pessimisticHours];
+  const provided = values.filter((value) => value !== undefined && value !== null && value !== '');
+
+  if (provided.length === 0) return { estimate: null };
+  if (provided.length !== 3) {
+    return { error: 'Optimistic, most likely and pessimistic hours must all be provided' };
+  }
+
+  const [optimisticHours, mostLikelyHours, pessimisticHours] = values.map(Number);
+  if ([optimisticHours, mostLikelyHours, pessimisticHours].some((value) => isNaN(value) || value < 0)) {
+    return { error: 'Estimate hours must be positive numbers' };
+  }
+  if (mostLikelyHours <= 0) {
+    return { error: 'Most likely hours must be greater than 0' };
+  }
+  if (optimisticHours > mostLikelyHours || mostLikelyHours > pessimisticHours) {
+    return { error: 'Hours must be ordered optimistic ≤ most likely ≤ pessimistic' };
+  }
+
+  return { estimate: { optimisticHours, mostLikelyHours, pessimisticHours } };
+}
+
+// Combine task estimates into a project range. Tasks are treated as
+// independent, so means add and variances add. Tasks without a three-point
+// estimate contribute their single figure with no spread.
+export function combineEstimates(estimates: { mean: number; stdDev: number; hourlyRate?: number | null }[]) {
+  const hours = { mean: 0, variance: 0 };
+  const cost = { mean: 0, variance: 0 };
+
+  for (const estimate of estimates) {
+    hours.mean += estimate.mean;
+    hours.variance += estimate.stdDev ** 2;
+
+    if (estimate.hourlyRate != null) {
+      cost.mean += estimate.mean * estimate.hourlyRate;
+      cost.variance += (estimate.stdDev * estimate.hourlyRate) ** 2;
+    }
+  }
+
+  const toRange = ({ mean, variance }: { mean: number; variance: number }) =>
+    (Object.keys(CONFIDENCE_LEVELS) as ConfidenceLevel[]).reduce((range, level) => {
+      range[level] = Math.round((mean + CONFIDENCE_LEVELS[level] * Math.sqrt(variance)) * 100) / 100;
+      return range;
+    }, {} as ConfidenceRange);
+
+  return {
+    hours: toRange(hours),
+    cost: toRange(cost),
+    stdDevHours: Math.round(Math.sqrt(hours.variance) * 100) / 100,
+  };
+}
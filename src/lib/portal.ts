@@ -0,0 +1,73 @@
+// Share links to the read-only client portal: expiry, token checks and the
+// audit trail of portal views.
+
+import { ShareLinks } from "@/drizzle/schema";
+import { findShareLinkById, recordShareLinkView } from "@/data/share-link";
+import { recordAuditEvent } from "@/data/audit-trail";
+import { verifyShareLinkToken } from "@/utils/portalToken";
+
+export type ShareLink = typeof ShareLinks.$inferSelect;
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export const DEFAULT_SHARE_LINK_DAYS = 30;
+export const MAX_SHARE_LINK_DAYS = 365;
+
+export const PORTAL_VIEW_EVENT = 'client_portal_view';
+
+export function shareLinkStatus(link: { expiresAt: Date; revokedAt: Date | null }, now = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  return link.expiresAt <= now ? 'expired' : 'active';
+}
+
+// Expiry for a new link valid for `days` whole days, or null if out of range
+export function shareLinkExpiry(days: unknown, now = new Date()): Date | null {
+  const validDays = Number(days ?? DEFAULT_SHARE_LINK_DAYS);
+  if (!Number.isInteger(validDays) || validDays < 1 || validDays > MAX_SHARE_LINK_DAYS) {
+    return null;
+  }
+  return new Date(now.getTime() + validDays * 24 * 60 * 60 * 1000);
+}
+
+// The share link a portal token grants access to. Bad signatures and unknown
+// links get the same answer so that neither can be told apart.
+export async function resolvePortalLink(
+  token: string
+): Promise<{ link: ShareLink } | { error: string; status: number }> {
+  const linkId = verifyShareLinkToken(token);
+  const link = linkId ? await findShareLinkById(linkId) : null;
+  if (!link) {
+    return { error: 'This link is not valid', status: 404 };
+  }
+
+  const status = shareLinkStatus(link);
+  if (status === 'revoked') {
+    return { error: 'This link has been revoked', status: 410 };
+  }
+  if (status === 'expired') {
+    return { error: 'This link has expired', status: 410 };
+  }
+
+  return { link };
+}
+
+// Where a portal request came from, for the audit trail; portal visitors have
+// no user account.
+export function portalVisitor(req: Request) {
+  return {
+    ip: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip') || null,
+    userAgent: req.headers.get('user-agent'),
+  };
+}
+
+// Count the view on the link and add it to the audit trail with the
+// visitor's address.
+export async function recordPortalView(link: ShareLink, req: Request, details: Record<string, any>) {
+  await recordShareLinkView(link.id);
+  await recordAuditEvent(PORTAL_VIEW_EVENT, null, {
+    shareLinkId: link.id,
+    projectId: link.projectId,
+    clientId: link.clientId,
+    ...portalVisitor(req),
+    ...details,
+  });
+}
@@ -0,0 +1,245 @@
+// Overtime, weekend and holiday multipliers on the cost of an hour. Kept free
+// of database imports so the rules page can describe versions client-side.
+
+import { EffectivePeriod, isDateKey, toDateKey } from '@/lib/costing';
+
+export interface RateRuleVersion extends EffectivePeriod {
+  version: number;
+  dailyThresholdHours: string | null;
+  weeklyThresholdHours: string | null;
+  overtimeMultiplier: string;
+  weekendMultiplier: string;
+  holidayMultiplier: string;
+  holidayCountryCode: string | null;
+  holidayStateCode: string | null;
+}
+
+export interface Holiday {
+  countryCode: string;
+  stateCode: string | null;
+  holidayDate: string; // YYYY-MM-DD
+  name: string;
+}
+
+// How one time entry's hours, or a task's entries added up, are costed.
+// costedHours is what the hourly rate is multiplied by; multiplier is
+// costedHours / hours.
+export interface TaskMultiplier {
+  regularHours: number;
+  overtimeHours: number;
+  costedHours: number;
+  multiplier: number;
+  reason: string | null; // null when the task is costed at the standard rate
+  ruleVersion: number | null;
+}
+
+export type RateRuleInput = Omit<RateRuleVersion, 'version' | 'effectiveTo'>;
+
+const MAX_MULTIPLIER = 10;
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+const formatMultiplier = (multiplier: number) => `×${parseFloat(multiplier.toFixed(2))}`;
+
+// Weeks run Monday to Sunday; returns the Monday of the date's week
+export function weekStartKey(value: Date | string): string {
+  const date = new Date(`${toDateKey(value)}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return toDateKey(date);
+}
+
+export function isWeekend(value: Date | string): boolean {
+  const day = new Date(`${toDateKey(value)}T00:00:00.000Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+export function findRuleForDate<T extends RateRuleVersion>(rules: T[], workDate: Date | string): T | null {
+  const dateKey = toDateKey(workDate);
+  return (
+    rules.find((rule) => rule.effectiveFrom <= dateKey && (rule.effectiveTo === null || rule.effectiveTo >= dateKey)) ||
+    null
+  );
+}
+
+// The holiday on the date in the rule's calendar: countrywide holidays and
+// those of the rule's state
+export function findHoliday<T extends Holiday>(
+  holidays: T[],
+  rule: Pick<RateRuleVersion, 'holidayCountryCode' | 'holidayStateCode'>,
+  workDate: Date | string
+): T | null {
+  if (!rule.holidayCountryCode) return null;
+  const dateKey = toDateKey(workDate);
+  return (
+    holidays.find(
+      (holiday) =>
+        holiday.holidayDate === dateKey &&
+        holiday.countryCode === rule.holidayCountryCode &&
+        (holiday.stateCode === null || holiday.stateCode === rule.holidayStateCode)
+    ) || null
+  );
+}
+
+// Validate a new rule version from a request body
+export function parseRateRuleInput(body: any): { rule: RateRuleInput } | { error: string } {
+  const effectiveFrom = body?.effectiveFrom;
+  if (!isDateKey(effectiveFrom)) {
+    return { error: 'Effective from must be in YYYY-MM-DD format' };
+  }
+
+  const threshold = (value: unknown, max: number, label: string): { value: string | null } | { error: string } => {
+    if (value === undefined || value === null || value === '') return { value: null };
+    const hours = parseFloat(String(value));
+    if (isNaN(hours) || hours <= 0 || hours > max) {
+      return { error: `${label} threshold must be between 0 and ${max} hours` };
+    }
+    return { value: hours.toString() };
+  };
+
+  const daily = threshold(body.dailyThresholdHours, 24, 'Daily');
+  if ('error' in daily) return { error: daily.error };
+  const weekly = threshold(body.weeklyThresholdHours, 168, 'Weekly');
+  if ('error' in weekly) return { error: weekly.error };
+
+  const multipliers: Record<'overtimeMultiplier' | 'weekendMultiplier' | 'holidayMultiplier', string> = {
+    overtimeMultiplier: '1',
+    weekendMultiplier: '1',
+    holidayMultiplier: '1',
+  };
+  for (const field of Object.keys(multipliers) as (keyof typeof multipliers)[]) {
+    const value = parseFloat(body[field] ?? '1');
+    if (isNaN(value) || value < 1 || value > MAX_MULTIPLIER) {
+      return { error: `Multipliers must be between 1 and ${MAX_MULTIPLIER}` };
+    }
+    multipliers[field] = value.toString();
+  }
+
+  const holidayCountryCode = body.holidayCountryCode ? String(body.holidayCountryCode).toUpperCase() : null;
+  const holidayStateCode = holidayCountryCode && body.holidayStateCode ? String(body.holidayStateCode) : null;
+
+  return {
+    rule: {
+      effectiveFrom,
+      dailyThresholdHours: daily.value,
+      weeklyThresholdHours: weekly.value,
+      ...multipliers,
+      holidayCountryCode,
+      holidayStateCode,
+    },
+  };
+}
+
+// Apply the rules to an employee's approved work, given as time entries. They
+// are taken by date, and in the order they were logged within a day: hours
+// beyond the daily threshold for the employee's day, or beyond the weekly
+// threshold for their week, are overtime. Weekend
+// and holiday work is costed at its multiplier; overtime at the higher of the
+// overtime multiplier and the day's own.
+export function applyRateRules<
+  T extends { id: string; employeeId: string; workDate: Date | string; loggedAt: Date | string; hours: number }
+>(
+  tasks: T[],
+  rules: RateRuleVersion[],
+  holidays: Holiday[]
+): Map<string, TaskMultiplier> {
+  const loggedPerDay = new Map<string, number>();
+  const loggedPerWeek = new Map<string, number>();
+  const multipliers = new Map<string, TaskMultiplier>();
+
+  const ordered = [...tasks].sort(
+    (a, b) =>
+      toDateKey(a.workDate).localeCompare(toDateKey(b.workDate)) ||
+      new Date(a.loggedAt).getTime() - new Date(b.loggedAt).getTime() ||
+      a.id.localeCompare(b.id)
+  );
+
+  for (const task of ordered) {
+    const dayKey = `${task.employeeId}|${toDateKey(task.workDate)}`;
+    const weekKey = `${task.employeeId}|${weekStartKey(task.workDate)}`;
+    const loggedToday = loggedPerDay.get(dayKey) ?? 0;
+    const loggedThisWeek = loggedPerWeek.get(weekKey) ?? 0;
+    loggedPerDay.set(dayKey, loggedToday + task.hours);
+    loggedPerWeek.set(weekKey, loggedThisWeek + task.hours);
+
+    const rule = findRuleForDate(rules, task.workDate);
+    if (!rule) {
+      multipliers.set(task.id, {
+        regularHours: task.hours,
+        overtimeHours: 0,
+        costedHours: task.hours,
+        multiplier: 1,
+        reason: null,
+        ruleVersion: null,
+      });
+      continue;
+    }
+
+    const overtimeBeyond = (threshold: string | null, logged: number) =>
+      threshold === null ? 0 : task.hours - Math.max(0, Math.min(task.hours, parseFloat(threshold) - logged));
+    const dailyOvertime = overtimeBeyond(rule.dailyThresholdHours, loggedToday);
+    const weeklyOvertime = overtimeBeyond(rule.weeklyThresholdHours, loggedThisWeek);
+    const overtimeHours = roundHours(Math.max(dailyOvertime, weeklyOvertime));
+    const regularHours = roundHours(task.hours - overtimeHours);
+
+    const holiday = findHoliday(holidays, rule, task.workDate);
+    const weekend = isWeekend(task.workDate);
+    const dayMultiplier = holiday
+      ? parseFloat(rule.holidayMultiplier)
+      : weekend
+        ? parseFloat(rule.weekendMultiplier)
+        : 1;
+    const overtimeMultiplier = Math.max(dayMultiplier, parseFloat(rule.overtimeMultiplier));
+
+    const costedHours = roundHours(regularHours * dayMultiplier + overtimeHours * overtimeMultiplier);
+
+    const reasons: string[] = [];
+    if (dayMultiplier !== 1) {
+      reasons.push(holiday ? `Holiday (${holiday.name}) ${formatMultiplier(dayMultiplier)}` : `Weekend ${formatMultiplier(dayMultiplier)}`);
+    }
+    if (overtimeHours > 0 && overtimeMultiplier !== dayMultiplier) {
+      const threshold = dailyOvertime >= weeklyOvertime
+        ? `${parseFloat(rule.dailyThresholdHours!)}h daily`
+        : `${parseFloat(rule.weeklyThresholdHours!)}h weekly`;
+      reasons.push(`${overtimeHours}h over the ${threshold} threshold ${formatMultiplier(overtimeMultiplier)}`);
+    }
+
+    multipliers.set(task.id, {
+      regularHours,
+      overtimeHours,
+      costedHours,
+      multiplier: task.hours > 0 ? Math.round((costedHours / task.hours) * 10000) / 10000 : dayMultiplier,
+      reason: reasons.length > 0 ? `${reasons.join('; ')} (rules v${rule.version})` : null,
+      ruleVersion: rule.version,
+    });
+  }
+
+  return multipliers;
+}
+
+// A task's multiplier from those of its entries, each costed on its own date.
+// With entries on several days each reason is prefixed with its day.
+export function combineMultipliers(
+  entries: { entryDate: string; hours: number; multiplier: TaskMultiplier }[]
+): TaskMultiplier {
+  const hours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+  const sum = (field: 'regularHours' | 'overtimeHours' | 'costedHours') =>
+    roundHours(entries.reduce((total, entry) => total + entry.multiplier[field], 0));
+  const costedHours = sum('costedHours');
+  const days = new Set(entries.map((entry) => entry.entryDate));
+
+  const reasons = entries
+    .filter((entry) => entry.multiplier.reason !== null)
+    .map((entry) => (days.size > 1 ? `${entry.entryDate}: ${entry.multiplier.reason}` : entry.multiplier.reason!));
+  const ruleVersions = entries
+    .map((entry) => entry.multiplier.ruleVersion)
+    .filter((version): version is number => version !== null);
+
+  return {
+    regularHours: sum('regularHours'),
+    overtimeHours: sum('overtimeHours'),
+    costedHours,
+    multiplier: hours > 0 ? Math.round((costedHours / hours) * 10000) / 10000 : 1,
+    reason: reasons.length > 0 ? Array.from(new Set(reasons)).join('; ') : null,
+    ruleVersion: ruleVersions.length > 0 ? Math.max(...ruleVersions) : null,
+  };
+}
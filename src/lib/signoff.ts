@@ -0,0 +1,86 @@
+// Client sign-off of approved hours: request lifetime and validation of the
+// client's answers.
+
+import { SignoffRequests } from "@/drizzle/schema";
+import { findSignoffRequestById } from "@/data/signoff";
+import { verifySignoffToken } from "@/utils/portalToken";
+
+export type SignoffRequest = typeof SignoffRequests.$inferSelect;
+
+export type SignoffLineStatus = 'pending' | 'accepted' | 'disputed';
+export type SignoffRequestStatus = 'sent' | 'completed' | 'cancelled';
+
+export const SIGNOFF_LINK_DAYS = 14;
+
+export const SIGNOFF_VIEW_EVENT = 'client_signoff_view';
+export const SIGNOFF_RESPONSE_EVENT = 'client_signoff_response';
+
+const MAX_COMMENT_LENGTH = 1000;
+
+export interface SignoffResponse {
+  lineId: string;
+  status: 'accepted' | 'disputed';
+  comment: string | null;
+}
+
+// Check that the client answered every line of the request, and gave a reason
+// for each dispute. Returns an error for the first problem found.
+export function parseSignoffResponses(
+  value: unknown,
+  lineIds: string[]
+): { responses: SignoffResponse[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'Responses must be a list' };
+  }
+
+  const responses: SignoffResponse[] = [];
+  for (const raw of value) {
+    const lineId = raw?.lineId;
+    if (!lineIds.includes(lineId)) {
+      return { error: 'Unknown line in responses' };
+    }
+    if (responses.some((response) => response.lineId === lineId)) {
+      return { error: 'Each line can only be answered once' };
+    }
+    if (raw.status !== 'accepted' && raw.status !== 'disputed') {
+      return { error: 'Each line must be accepted or disputed' };
+    }
+
+    const comment = typeof raw.comment === 'string' && raw.comment.trim() ? raw.comment.trim() : null;
+    if (raw.status === 'disputed' && !comment) {
+      return { error: 'Add a comment explaining each disputed line' };
+    }
+    if (comment && comment.length > MAX_COMMENT_LENGTH) {
+      return { error: `Comments must be less than ${MAX_COMMENT_LENGTH} characters` };
+    }
+
+    responses.push({ lineId, status: raw.status, comment });
+  }
+
+  if (responses.length !== lineIds.length) {
+    return { error: 'Accept or dispute every line before submitting' };
+  }
+
+  return { responses };
+}
+
+// The sign-off request a token is for. Answered requests stay readable until
+// they expire so the client can see what was submitted.
+export async function resolveSignoffRequest(
+  token: string
+): Promise<{ request: SignoffRequest } | { error: string; status: number }> {
+  const requestId = verifySignoffToken(token);
+  const request = requestId ? await findSignoffRequestById(requestId) : null;
+  if (!request) {
+    return { error: 'This link is not valid', status: 404 };
+  }
+
+  if (request.status === 'cancelled') {
+    return { error: 'This sign-off request has been withdrawn', status: 410 };
+  }
+  if (request.expiresAt <= new Date()) {
+    return { error: 'This link has expired', status: 410 };
+  }
+
+  return { request };
+}
@@ -0,0 +1,70 @@
+// Text similarity and hour statistics used to suggest estimates from past tasks.
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'this', 'that', 'task', 'work', 'new', 'fix', 'add', 'update',
+]);
+
+// Lowercased words of three or more characters, without common filler words.
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  return Array.from(new Set(words.filter((word) => word.length >= 3 && !STOP_WORDS.has(word))));
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = a.filter((word) => setB.has(word)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+export interface SimilarityContext {
+  nameTokens: string[];
+  descriptionTokens: string[];
+  projectId: string;
+  employeeId: string;
+}
+
+// Name overlap counts most; description overlap and a shared project or
+// employee nudge the score up. Returns a value between 0 and 1.
+export function scoreSimilarity(
+  context: SimilarityContext,
+  candidate: { taskName: string; description: string | null; projectId: string; employeeId: string }
+): number {
+  const candidateName = tokenize(candidate.taskName);
+  const candidateText = tokenize(`${candidate.taskName} ${candidate.description || ''}`);
+
+  const nameScore = jaccard(context.nameTokens, candidateName);
+  const descriptionScore = jaccard([...context.nameTokens, ...context.descriptionTokens], candidateText);
+  if (nameScore === 0 && descriptionScore === 0) return 0;
+
+  const contextBonus =
+    (candidate.projectId === context.projectId ? 0.1 : 0) +
+    (candidate.employeeId === context.employeeId ? 0.05 : 0);
+
+  return Math.min(1, 0.6 * nameScore + 0.25 * descriptionScore + contextBonus);
+}
+
+// Linear-interpolated quantile of an ascending list.
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function summarizeHours(hours: number[]) {
+  if (hours.length === 0) return null;
+  const sorted = [...hours].sort((a, b) => a - b);
+
+  return {
+    sampleSize: sorted.length,
+    median: round2(quantile(sorted, 0.5)),
+    p10: round2(quantile(sorted, 0.1)),
+    p90: round2(quantile(sorted, 0.9)),
+    min: round2(sorted[0]),
+    max: round2(sorted[sorted.length - 1]),
+  };
+}
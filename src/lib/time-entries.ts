@@ -0,0 +1,122 @@
+// Time entries: validating one from a request, and rolling a task's entries up
+// into the hours, work date and status the task carries.
+
+import { parseWorkDate } from '@/lib/work-date';
+
+export type EntryStatus = 'pending' | 'approved' | 'rejected';
+
+export interface TimeEntryInput {
+  entryDate: string; // YYYY-MM-DD
+  hours: string;
+  startTime: string | null; // HH:MM
+  endTime: string | null;
+  note: string | null;
+}
+
+export interface TaskRollup {
+  actualHours: string;
+  workDate: string | null;
+  status: EntryStatus;
+}
+
+// New time would take an approved task back to pending, un-approving the hours
+// already approved, so only an admin can add it
+export const APPROVED_TASK_ERROR = 'This task has been approved. Log further time on a new task.';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const MAX_ENTRY_HOURS = 24;
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Database times come back as HH:MM:SS; entries are shown and sent as HH:MM
+export const formatEntryTime = (time: string | null) => (time ? time.slice(0, 5) : null);
+
+// An entry from a request body, with `defaults` for the fields not sent when
+// editing. With a start and end time the hours are the time between them.
+export function parseTimeEntryInput(
+  body: any,
+  defaults?: TimeEntryInput
+): { entry: TimeEntryInput } | { error: string } {
+  const date = body?.entryDate !== undefined || !defaults ? parseWorkDate(body?.entryDate) : { workDate: defaults.entryDate };
+  if ('error' in date) return { error: date.error };
+
+  const startTime = body?.startTime !== undefined ? body.startTime || null : defaults?.startTime ?? null;
+  const endTime = body?.endTime !== undefined ? body.endTime || null : defaults?.endTime ?? null;
+  if (!startTime !== !endTime) {
+    return { error: 'Give both a start and an end time, or neither' };
+  }
+
+  let hours: number;
+  if (startTime && endTime) {
+    if (!TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) {
+      return { error: 'Times must be in HH:MM format' };
+    }
+    if (minutesOf(endTime) <= minutesOf(startTime)) {
+      return { error: 'End time must be after the start time' };
+    }
+    hours = (minutesOf(endTime) - minutesOf(startTime)) / 60;
+  } else {
+    hours = parseFloat(body?.hours ?? defaults?.hours);
+    if (isNaN(hours) || hours <= 0 || hours > MAX_ENTRY_HOURS) {
+      return { error: `Hours must be more than 0 and at most ${MAX_ENTRY_HOURS}` };
+    }
+  }
+
+  const note = body?.note !== undefined ? (typeof body.note === 'string' && body.note.trim()) || null : defaults?.note ?? null;
+  if (note && note.length > 1000) {
+    return { error: 'Note must be less than 1000 characters' };
+  }
+
+  return {
+    entry: {
+      entryDate: date.workDate,
+      hours: hours.toFixed(2),
+      startTime: formatEntryTime(startTime),
+      endTime: formatEntryTime(endTime),
+      note,
+    },
+  };
+}
+
+// What a task's entries add up to. Rejected entries do not count towards the
+// hours or date unless every entry was rejected, so a rejected task still
+// shows what was claimed. The task is pending while any entry is, approved
+// once any entry is approved and none is pending, and rejected otherwise.
+export function rollUpEntries(entries: { entryDate: string; hours: string; status: EntryStatus }[]): TaskRollup {
+  const counted = entries.some((entry) => entry.status !== 'rejected')
+    ? entries.filter((entry) => entry.status !== 'rejected')
+    : entries;
+
+  const status: EntryStatus = entries.some((entry) => entry.status === 'pending')
+    ? 'pending'
+    : entries.some((entry) => entry.status === 'approved')
+      ? 'approved'
+      : entries.length > 0
+        ? 'rejected'
+        : 'pending';
+
+  return {
+    actualHours: counted.reduce((sum, entry) => sum + parseFloat(entry.hours), 0).toFixed(2),
+    workDate: counted.map((entry) => entry.entryDate).sort()[0] ?? null,
+    status,
+  };
+}
+
+// Hours logged per day, and how many of them are approved, oldest day first
+export function sumEntriesByDay(entries: { entryDate: string; hours: string; status: EntryStatus }[]) {
+  const days = new Map<string, { hours: number; approvedHours: number }>();
+  for (const entry of entries) {
+    if (entry.status === 'rejected') continue;
+    const day = days.get(entry.entryDate) ?? { hours: 0, approvedHours: 0 };
+    day.hours += parseFloat(entry.hours);
+    if (entry.status === 'approved') day.approvedHours += parseFloat(entry.hours);
+    days.set(entry.entryDate, day);
+  }
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({ date, hours: day.hours, approvedHours: day.approvedHours }));
+}
@@ -0,0 +1,160 @@
+// Stopping running timers: the time is logged as an entry on the timer's task,
+// under the same rules as logging it by hand.
+
+import { NextResponse } from 'next/server';
+import { eq, TransactionRollbackError } from 'drizzle-orm';
+import { RunningTimers, Tasks, TimeEntries } from '@/drizzle/schema';
+import { findOrganisationSettings } from '@/data/organisation-settings';
+import { changeTimeEntries, findTimeEntriesForTasks } from '@/data/time-entry';
+import { findTimersStartedBefore } from '@/data/timer';
+import { checkProjectBudget } from '@/lib/budget-alerts';
+import { db } from '@/lib/db';
+import { sendTimerStoppedEmail } from '@/lib/mail';
+import { paidWork } from '@/lib/payroll';
+import { checkPayrollLock, rejectLockedWorkDate } from '@/lib/payroll-lock';
+import { checkPeriodLock } from '@/lib/period-lock';
+import { rejectSubmittedWeek } from '@/lib/timesheet-lock';
+import { APPROVED_TASK_ERROR, rollUpEntries } from '@/lib/time-entries';
+import { ranUnderAMinute, timerEntry } from '@/lib/timers';
+
+interface RunningTimer {
+  id: string;
+  taskId: string;
+  note: string | null;
+  startedAt: Date;
+}
+
+// Stop a timer at `stoppedAt` (or at the limit, if it ran past it) and log
+// its time. Returns the updated task, or the response refusing the entry; the
+// timer is left running then. Throws TransactionRollbackError when the timer
+// was stopped elsewhere in the meantime.
+export async function stopTimer(
+  timer: RunningTimer,
+  stoppedAt: Date,
+  limitHours: number
+): Promise<{ response: NextResponse } | { task: typeof Tasks.$inferSelect; hours: string }> {
+  const [task] = await db.select().from(Tasks).where(eq(Tasks.id, timer.taskId)).limit(1);
+  const entry = timerEntry(timer.startedAt, stoppedAt, limitHours);
+
+  if (ranUnderAMinute(timer.startedAt, stoppedAt)) {
+    return {
+      response: NextResponse.json(
+        { error: 'The timer ran for less than a minute. Discard it instead.' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  if (task.invoiceId) {
+    return {
+      response: NextResponse.json(
+        { error: 'This task has been invoiced. Void the invoice before logging more time on it.' },
+        { status: 409 }
+      ),
+    };
+  }
+
+  // Approved while the timer ran
+  if (task.status === 'approved') {
+    return { response: NextResponse.json({ error: APPROVED_TASK_ERROR }, { status: 409 }) };
+  }
+
+  const blockedResponse =
+    (await rejectLockedWorkDate(entry.entryDate)) ??
+    (await rejectSubmittedWeek(task.employeeId, [entry.entryDate]));
+  if (blockedResponse) {
+    return { response: blockedResponse };
+  }
+
+  const periodLock = await checkPeriodLock([entry.entryDate], false, null);
+  if ('response' in periodLock) {
+    return periodLock;
+  }
+
+  const entries = await findTimeEntriesForTasks([task.id]);
+  const entriesAfter = [...entries, { ...entry, status: 'pending' as const }];
+  const rollup = rollUpEntries(entriesAfter);
+
+  const payrollLock = await checkPayrollLock(
+    paidWork(task, entries),
+    paidWork({ ...task, status: rollup.status }, entriesAfter),
+    false,
+    null
+  );
+  if ('response' in payrollLock) {
+    return payrollLock;
+  }
+
+  const updatedTask = await changeTimeEntries(
+    task,
+    task.employeeId,
+    payrollLock,
+    async (tx) => {
+      const [removed] = await tx.delete(RunningTimers).where(eq(RunningTimers.id, timer.id)).returning();
+      if (!removed) {
+        tx.rollback();
+      }
+
+      await tx.insert(TimeEntries).values({
+        taskId: task.id,
+        entryDate: entry.entryDate,
+        hours: entry.hours,
+        note: timer.note,
+      });
+    }
+  );
+
+  if (updatedTask.status !== task.status) {
+    await checkProjectBudget(task.projectId);
+  }
+
+  return { task: updatedTask, hours: entry.hours };
+}
+
+// Stop every timer that has run past the organisation's limit, or only the
+// employee's own when `employeeId` is given, logging it up to the limit, and
+// email each employee. A timer whose time cannot be logged (for example
+// because its week was submitted) is discarded, and the email says why.
+// Returns the timers stopped.
+export async function stopExpiredTimers(employeeId?: string) {
+  const { timerLimitHours } = await findOrganisationSettings();
+  const now = new Date();
+  const expired = await findTimersStartedBefore(
+    new Date(now.getTime() - timerLimitHours * 60 * 60 * 1000),
+    employeeId
+  );
+
+  const stopped: { employeeId: string; taskName: string; hours: string; error: string | null }[] = [];
+  for (const timer of expired) {
+    try {
+      const result = await stopTimer(timer, now, timerLimitHours);
+
+      let error: string | null = null;
+      if ('response' in result) {
+        error = (await result.response.json()).error;
+        const [removed] = await db.delete(RunningTimers).where(eq(RunningTimers.id, timer.id)).returning();
+        if (!removed) continue;
+      }
+
+      const hours = 'response' in result ? '0.00' : result.hours;
+      stopped.push({ employeeId: timer.employeeId, taskName: timer.taskName, hours, error });
+
+      if (timer.employeeEmail) {
+        await sendTimerStoppedEmail(timer.employeeEmail, {
+          taskName: timer.taskName,
+          projectName: timer.projectName,
+          startedAt: timer.startedAt.toLocaleString('en-IN'),
+          hours,
+          limitHours: timerLimitHours,
+          error,
+        });
+      }
+    } catch (error) {
+      // Stopped by another request in the meantime
+      if (error instanceof TransactionRollbackError) continue;
+      console.error(`Error stopping expired timer: ${timer.id}`, error);
+    }
+  }
+
+  return stopped;
+}
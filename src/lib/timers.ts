@@ -0,0 +1,41 @@
+// Running timers: the hours a timer logs when it is stopped, and the limit
+// after which a forgotten timer is stopped for the employee. Kept free of
+// database imports so the dashboard can show the time running.
+
+import { orgDateKey } from '@/lib/costing';
+
+export const DEFAULT_TIMER_LIMIT_HOURS = 10;
+const MAX_TIMER_LIMIT_HOURS = 24; // a time entry holds at most a day
+
+export function isValidTimerLimit(value: unknown): boolean {
+  const hours = Number(value);
+  return Number.isInteger(hours) && hours >= 1 && hours <= MAX_TIMER_LIMIT_HOURS;
+}
+
+// A timer stopped within a minute of starting logs nothing; it is discarded
+export const ranUnderAMinute = (startedAt: Date | string, stoppedAt: Date) =>
+  stoppedAt.getTime() - new Date(startedAt).getTime() < 60 * 1000;
+
+// When a timer started at `startedAt` runs past the limit
+export const timerDeadline = (startedAt: Date | string, limitHours: number) =>
+  new Date(new Date(startedAt).getTime() + limitHours * 60 * 60 * 1000);
+
+// The entry a timer stopped at `stoppedAt` logs: dated the organisation's day
+// it started, with the hours it ran, up to the limit
+export function timerEntry(startedAt: Date | string, stoppedAt: Date, limitHours: number) {
+  const deadline = timerDeadline(startedAt, limitHours);
+  const end = stoppedAt > deadline ? deadline : stoppedAt;
+  const hours = Math.max(0, end.getTime() - new Date(startedAt).getTime()) / (60 * 60 * 1000);
+
+  return {
+    entryDate: orgDateKey(startedAt),
+    hours: hours.toFixed(2),
+  };
+}
+
+// Time running as H:MM:SS
+export function formatElapsed(milliseconds: number): string {
+  const seconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
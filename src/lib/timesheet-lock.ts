@@ -0,0 +1,25 @@
+// Guards on work dated in weeks whose timesheet is with an admin.
+
+import { NextResponse } from 'next/server';
+import { findTimesheet } from '@/data/timesheet';
+import { weekStartKey } from '@/lib/rate-rules';
+import { isTimesheetEditable } from '@/lib/timesheets';
+
+// Employees cannot change their hours in a week once its timesheet has been
+// submitted or approved; admins can. Returns the response refusing the
+// change, or null when every week touched is still open to the employee.
+export async function rejectSubmittedWeek(employeeId: string, workDates: string[]) {
+  const weekStarts = Array.from(new Set(workDates.map((workDate) => weekStartKey(workDate))));
+
+  for (const weekStart of weekStarts) {
+    const timesheet = await findTimesheet(employeeId, weekStart);
+    if (timesheet && !isTimesheetEditable(timesheet.status)) {
+      return NextResponse.json(
+        { error: `The timesheet for the week of ${weekStart} has been ${timesheet.status} and can no longer be changed` },
+        { status: 409 }
+      );
+    }
+  }
+
+  return null;
+}
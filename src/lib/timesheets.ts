@@ -0,0 +1,161 @@
+// Weekly timesheets: the grid of a week's hours by task and day, and
+// validating the grid an employee sends back. Kept free of database imports
+// so the grid can share it client-side.
+
+import { isDateKey, orgDateKey, toDateKey } from '@/lib/costing';
+import { weekStartKey } from '@/lib/rate-rules';
+import { EntryStatus } from '@/lib/time-entries';
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+// One task's hours in the week. Days with approved hours can no longer be
+// changed from the grid.
+export interface TimesheetRow {
+  taskId: string;
+  taskName: string;
+  projectId: string;
+  projectName: string | null;
+  isInvoiced: boolean;
+  isApproved: boolean; // the whole task, which takes no more time from the employee
+  hours: Record<string, string>; // YYYY-MM-DD → hours, days without hours left out
+  approvedDays: string[];
+}
+
+export interface TimesheetCell {
+  taskId: string;
+  entryDate: string;
+  hours: string;
+}
+
+const MAX_DAY_HOURS = 24;
+
+// The seven days of the week starting on `weekStart`, Monday first
+export function weekDays(weekStart: string): string[] {
+  const start = new Date(`${weekStart}T00:00:00.000Z`);
+  return Array.from({ length: 7 }, (_, offset) => {
+    const day = new Date(start);
+    day.setUTCDate(start.getUTCDate() + offset);
+    return toDateKey(day);
+  });
+}
+
+// Employees change their week while it is a draft or after it was sent back
+export const isTimesheetEditable = (status: TimesheetStatus) => status === 'draft' || status === 'rejected';
+
+// A week from a query string or request body: the Monday it starts on, no
+// later than the current week
+export function parseWeekStart(
+  value: unknown,
+  today: string = orgDateKey()
+): { weekStart: string } | { error: string } {
+  if (!isDateKey(value)) {
+    return { error: 'Week start must be a valid date in YYYY-MM-DD format' };
+  }
+
+  if (weekStartKey(value) !== value) {
+    return { error: 'Weeks start on a Monday' };
+  }
+
+  if (value > weekStartKey(today)) {
+    return { error: 'Timesheets cannot be filled in for future weeks' };
+  }
+
+  return { weekStart: value };
+}
+
+// The grid rows for a week's time entries, by project and then task.
+// Rejected entries are left out, as they are from the task's hours.
+export function buildTimesheetRows(
+  entries: {
+    taskId: string;
+    taskName: string;
+    projectId: string;
+    projectName: string | null;
+    invoiceId: string | null;
+    taskStatus: EntryStatus;
+    entryDate: string;
+    hours: string;
+    status: EntryStatus;
+  }[]
+): TimesheetRow[] {
+  const rows = new Map<string, TimesheetRow>();
+
+  for (const entry of entries) {
+    const row = rows.get(entry.taskId) ?? {
+      taskId: entry.taskId,
+      taskName: entry.taskName,
+      projectId: entry.projectId,
+      projectName: entry.projectName,
+      isInvoiced: !!entry.invoiceId,
+      isApproved: entry.taskStatus === 'approved',
+      hours: {},
+      approvedDays: [],
+    };
+    rows.set(entry.taskId, row);
+
+    if (entry.status === 'rejected') continue;
+    row.hours[entry.entryDate] = (parseFloat(row.hours[entry.entryDate] ?? '0') + parseFloat(entry.hours)).toFixed(2);
+    if (entry.status === 'approved' && !row.approvedDays.includes(entry.entryDate)) {
+      row.approvedDays.push(entry.entryDate);
+    }
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) => (a.projectName ?? '').localeCompare(b.projectName ?? '') || a.taskName.localeCompare(b.taskName)
+  );
+}
+
+// The grid from a request body: `rows` of { taskId, hours: { date: hours } }.
+// Every day of the week is returned for each row, so a day left out or empty
+// clears that day's hours. Like work dates, hours cannot be in the future.
+export function parseTimesheetCells(
+  body: any,
+  weekStart: string,
+  today: string = orgDateKey()
+): { cells: TimesheetCell[] } | { error: string } {
+  if (!Array.isArray(body?.rows)) {
+    return { error: 'Rows are required' };
+  }
+
+  const days = weekDays(weekStart);
+  const seen = new Set<string>();
+  const cells: TimesheetCell[] = [];
+
+  for (const row of body.rows) {
+    if (typeof row?.taskId !== 'string' || !row.taskId) {
+      return { error: 'Every row needs a task' };
+    }
+    if (seen.has(row.taskId)) {
+      return { error: 'A task can only appear once in a timesheet' };
+    }
+    seen.add(row.taskId);
+
+    const hours = row.hours ?? {};
+    if (typeof hours !== 'object' || Object.keys(hours).some((day) => !days.includes(day))) {
+      return { error: 'Hours must be for days of the timesheet week' };
+    }
+
+    for (const day of days) {
+      const value = hours[day];
+      const parsed = value === undefined || value === null || value === '' ? 0 : parseFloat(value);
+      if (isNaN(parsed) || parsed < 0 || parsed > MAX_DAY_HOURS) {
+        return { error: `Hours must be between 0 and ${MAX_DAY_HOURS}` };
+      }
+      if (parsed > 0 && day > today) {
+        return { error: 'Hours cannot be logged for days in the future' };
+      }
+      cells.push({ taskId: row.taskId, entryDate: day, hours: parsed.toFixed(2) });
+    }
+  }
+
+  for (const day of days) {
+    const total = cells
+      .filter((cell) => cell.entryDate === day)
+      .reduce((sum, cell) => sum + parseFloat(cell.hours), 0);
+    if (total > MAX_DAY_HOURS) {
+      return { error: `Hours on ${day} add up to more than ${MAX_DAY_HOURS}` };
+    }
+  }
+
+  return { cells };
+}
@@ -0,0 +1,25 @@
+// The day work was done, as opposed to when it was logged. Dates are
+// YYYY-MM-DD keys, and "today" is the organisation's day (see orgDateKey).
+
+import { isDateKey, orgDateKey } from '@/lib/costing';
+
+// A work date from a request body. Work can be dated today or earlier, never
+// in the future; when no date is sent the work is dated today.
+export function parseWorkDate(
+  value: unknown,
+  today: string = orgDateKey()
+): { workDate: string } | { error: string } {
+  if (value === undefined || value === null || value === '') {
+    return { workDate: today };
+  }
+
+  if (!isDateKey(value)) {
+    return { error: 'Work date must be a valid date in YYYY-MM-DD format' };
+  }
+
+  if (value > today) {
+    return { error: 'Work date cannot be in the future' };
+  }
+
+  return { workDate: value };
+}
@@ -80,6 +80,7 @@ import {
   apiAuthPrefix,
   authRoutes,
   DEFAULT_LOGIN_REDIRECT,
+  portalPrefixes,
   protectedRoutes,
   publicApis,
   publicRoutes,
@@ -100,6 +101,9 @@ export default auth(async (req) => {
     nextUrl.pathname.startsWith(api)
   );
   const isAuthRoute = authRoutes.includes(nextUrl.pathname);
+  const isPortalRoute = portalPrefixes.some((prefix) =>
+    nextUrl.pathname.startsWith(prefix)
+  );
 
   // Allow API auth routes to pass through
   if (isApiAuthRoute) {
@@ -114,8 +118,9 @@ export default auth(async (req) => {
     return undefined;
   }
 
-  // Allow public routes and APIs to pass through
-  if (isPublicRoute || isPublicApi) {
+  // Allow public routes and APIs to pass through. Portal routes check their
+  // share link token themselves and never read the session.
+  if (isPublicRoute || isPublicApi || isPortalRoute) {
     return undefined;
   }
 
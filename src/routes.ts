@@ -9,7 +9,12 @@ export const apiAuthPrefix: string = "/api/auth";
 export const publicRoutes: string[] = ["/", "/auth/verify-email" ,"/Hotels/HotelDetails","/Hotels","/admin"];
 
 // APIs which are accessible to all.
-export const publicApis: string[] = ["/api/posts", "/api/company" ,"/posts", "/api/get", "/api/productCategory","/api/serviceCategory","/api/service" , "/api/deal-types","/api/uploadthing"];
+export const publicApis: string[] = ["/api/posts", "/api/company" ,"/posts", "/api/get", "/api/productCategory","/api/serviceCategory","/api/service" , "/api/deal-types","/api/uploadthing","/api/webhooks","/api/cron"];
+
+// Read-only client portal pages and APIs. They skip the login redirect and
+// authorise each request with the signed share link token in the path instead,
+// so nothing else may be served under these prefixes.
+export const portalPrefixes: string[] = ["/portal/", "/api/portal/"];
 
 // Routes which are used for authentication.
 export const authRoutes: string[] = [
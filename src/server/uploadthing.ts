@@ -2,6 +2,11 @@ import { randomUUID } from "crypto";
 
 import { createUploadthing, UTFiles } from "uploadthing/next";
 import type { FileRouter } from "uploadthing/next";
+import { UTApi, UploadThingError } from "uploadthing/server";
+
+import { ReceiptUploads } from "@/drizzle/schema";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
 
 const f = createUploadthing();
 
@@ -43,6 +48,47 @@ export const uploadRouter = {
       //   ^?
       console.log("upload completed", file);
     }),
+
+  // Receipt for a project expense; the expense itself is saved by the form
+  // once the upload has finished, naming the file by the key recorded here
+  expenseReceipt: f({
+    image: {
+      maxFileSize: "8MB",
+      maxFileCount: 1,
+    },
+    pdf: {
+      maxFileSize: "8MB",
+      maxFileCount: 1,
+    },
+  })
+    .middleware(async () => {
+      const session = await auth();
+      if (!session?.user?.id) {
+        throw new UploadThingError("Unauthorized");
+      }
+
+      return { userId: session.user.id };
+    })
+    .onUploadComplete(async ({ file, metadata }) => {
+      await db.insert(ReceiptUploads).values({
+        fileKey: file.key,
+        fileUrl: file.ufsUrl,
+        fileName: file.name.slice(0, 255) || "receipt",
+        uploadedBy: metadata.userId,
+      });
+
+      return { uploadedBy: metadata.userId, key: file.key, url: file.ufsUrl, name: file.name };
+    }),
 } satisfies FileRouter;
 
 export type OurFileRouter = typeof uploadRouter;
+
+// Remove a stored file, e.g. the receipt of a deleted expense. Failures are
+// logged only; an orphaned file must not fail the request that replaced it.
+export async function deleteUploadedFile(key: string) {
+  try {
+    await new UTApi().deleteFiles(key);
+  } catch (error) {
+    console.error(`Error deleting uploaded file: ${key}`, error);
+  }
+}
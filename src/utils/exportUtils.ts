@@ -1,4 +1,8 @@
 import * as XLSX from 'xlsx-js-style';
+import { GST_STATE_CODES } from '@/lib/gst';
+import { nonBillableReasonLabel } from '@/lib/billable';
+import { expenseCategoryLabel } from '@/lib/expense';
+import { adjustmentDeltas } from '@/lib/payroll';
 
 // ==================== STYLES ====================
 const styles = {
@@ -99,6 +103,10 @@ export const downloadExcel = (data: any[], filename: string, sheetName: string =
   }
 };
 
+// "Yes", or "No (Rework)" with the reason work was not billable
+const describeBillable = (task: any) =>
+  task.isBillable === false ? `No (${nonBillableReasonLabel(task.nonBillableReason) || 'no reason'})` : 'Yes';
+
 /**
  * Format projects list for Excel export with styling
  */
@@ -109,6 +117,7 @@ export const formatProjectsForExport = (projects: any[]) => {
   ws_data.push([
     { v: 'Project ID', s: styles.columnHeader },
     { v: 'Project Name', s: styles.columnHeader },
+    { v: 'Client', s: styles.columnHeader },
     { v: 'Description', s: styles.columnHeader },
     { v: 'Created By', s: styles.columnHeader },
     { v: 'Status', s: styles.columnHeader },
@@ -126,6 +135,7 @@ export const formatProjectsForExport = (projects: any[]) => {
     ws_data.push([
       { v: project.id, s: rowStyle },
       { v: project.projectName, s: rowStyle },
+      { v: project.clientName || 'No client', s: rowStyle },
       { v: project.description || 'No description', s: rowStyle },
       { v: project.createdBy, s: rowStyle },
       { v: project.isActive ? 'Active' : 'Inactive', s: rowStyle },
@@ -140,6 +150,7 @@ export const formatProjectsForExport = (projects: any[]) => {
   ws['!cols'] = [
     { wch: 12 },  // Project ID
     { wch: 25 },  // Project Name
+    { wch: 25 },  // Client
     { wch: 40 },  // Description
     { wch: 20 },  // Created By
     { wch: 12 },  // Status
@@ -150,6 +161,50 @@ export const formatProjectsForExport = (projects: any[]) => {
   return ws;
 };
 
+/**
+ * Format a per-client summary of the projects list
+ */
+export const formatProjectsByClientForExport = (projects: any[]) => {
+  const ws_data: any[][] = [];
+  const byClient = new Map<string, string[]>();
+
+  projects.forEach((project) => {
+    const client = project.clientName || 'No client';
+    byClient.set(client, [...(byClient.get(client) || []), project.projectName]);
+  });
+
+  ws_data.push([
+    { v: 'Client', s: styles.columnHeader },
+    { v: 'Projects', s: styles.columnHeader },
+    { v: 'Project Names', s: styles.columnHeader }
+  ]);
+
+  Array.from(byClient.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([client, projectNames], idx) => {
+      const rowStyle = idx % 2 === 0 ? styles.dataCell : {
+        ...styles.dataCell,
+        fill: { fgColor: { rgb: "F8FAFC" } }
+      };
+
+      ws_data.push([
+        { v: client, s: rowStyle },
+        { v: projectNames.length, s: styles.hoursCell },
+        { v: projectNames.join(', '), s: rowStyle }
+      ]);
+    });
+
+  const ws = XLSX.utils.aoa_to_sheet(ws_data);
+
+  ws['!cols'] = [
+    { wch: 30 },  // Client
+    { wch: 10 },  // Projects
+    { wch: 60 }   // Project Names
+  ];
+
+  return ws;
+};
+
 /**
  * Format project details for Excel export with premium styling
  * Layout: Project Name (top center - COLORED TEXT ONLY), Description (below - COLORED TEXT ONLY), then tasks table
@@ -164,6 +219,7 @@ export const formatProjectDetailsForExport = (projectDetails: any) => {
     { v: '', s: styles.projectHeader },
     { v: '', s: styles.projectHeader },
     { v: '', s: styles.projectHeader },
+    { v: '', s: styles.projectHeader },
     { v: '', s: styles.projectHeader }
   ]);
   
@@ -173,6 +229,7 @@ export const formatProjectDetailsForExport = (projectDetails: any) => {
     { v: '', s: styles.projectDescription },
     { v: '', s: styles.projectDescription },
     { v: '', s: styles.projectDescription },
+    { v: '', s: styles.projectDescription },
     { v: '', s: styles.projectDescription }
   ]);
   
@@ -182,6 +239,7 @@ export const formatProjectDetailsForExport = (projectDetails: any) => {
     { v: '', s: {} },
     { v: '', s: {} },
     { v: '', s: {} },
+    { v: '', s: {} },
     { v: '', s: {} }
   ]);
   
@@ -191,7 +249,8 @@ export const formatProjectDetailsForExport = (projectDetails: any) => {
     { v: 'Task Name', s: styles.columnHeader },
     { v: 'Task Description', s: styles.columnHeader },
     { v: 'Hours', s: styles.columnHeader },
-    { v: 'Date', s: styles.columnHeader }
+    { v: 'Billable', s: styles.columnHeader },
+    { v: 'Work Date', s: styles.columnHeader }
   ]);
   
   // Task Data Rows with alternating colors
@@ -207,7 +266,8 @@ export const formatProjectDetailsForExport = (projectDetails: any) => {
       { v: task.taskName, s: rowStyle },
       { v: task.description || 'No description', s: rowStyle },
       { v: parseFloat(task.expectedHours).toFixed(2), s: styles.hoursCell },
-      { v: new Date(task.createdAt).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }), s: styles.dateCell }
+      { v: describeBillable(task), s: rowStyle },
+      { v: new Date(task.workDate).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }), s: styles.dateCell }
     ]);
   });
 
@@ -216,8 +276,8 @@ export const formatProjectDetailsForExport = (projectDetails: any) => {
   
   // Merge cells for project name and description
   if (!ws['!merges']) ws['!merges'] = [];
-  ws['!merges'].push({ s: { r: 0, c: 0 }, e: { r: 0, c: 4 } }); // Project name row
-  ws['!merges'].push({ s: { r: 1, c: 0 }, e: { r: 1, c: 4 } }); // Description row
+  ws['!merges'].push({ s: { r: 0, c: 0 }, e: { r: 0, c: 5 } }); // Project name row
+  ws['!merges'].push({ s: { r: 1, c: 0 }, e: { r: 1, c: 5 } }); // Description row
   
   // Set column widths
   ws['!cols'] = [
@@ -225,6 +285,7 @@ export const formatProjectDetailsForExport = (projectDetails: any) => {
     { wch: 30 },  // Task Name
     { wch: 50 },  // Task Description
     { wch: 15 },  // Expected Hours
+    { wch: 22 },  // Billable
     { wch: 15 }   // Date
   ];
   
@@ -252,7 +313,7 @@ export const formatProjectTasksForExport = (projectDetails: any) => {
     { v: 'Task Name', s: styles.columnHeader },
     { v: 'Task Description', s: styles.columnHeader },
     { v: 'Expected Hours', s: styles.columnHeader },
-    { v: 'Date', s: styles.columnHeader }
+    { v: 'Work Date', s: styles.columnHeader }
   ]);
   
   // Task data with alternating colors
@@ -268,7 +329,7 @@ export const formatProjectTasksForExport = (projectDetails: any) => {
       { v: task.taskName, s: rowStyle },
       { v: task.description || 'No description', s: rowStyle },
       { v: parseFloat(task.expectedHours).toFixed(2), s: styles.hoursCell },
-      { v: new Date(task.createdAt).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }), s: styles.dateCell }
+      { v: new Date(task.workDate).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }), s: styles.dateCell }
     ]);
   });
 
@@ -285,6 +346,242 @@ export const formatProjectTasksForExport = (projectDetails: any) => {
   return ws;
 };
 
+/**
+ * Format revenue, cost and margin per employee with a project total row.
+ * Revenue and cost are shown in their own currencies and in the reporting
+ * currency; the margin is in the reporting currency.
+ */
+export const formatProjectFinancialsForExport = (projectDetails: any) => {
+  const { employees, summary, currencies } = projectDetails;
+  const ws_data: any[][] = [];
+
+  const formatMarginPercent = (value: string | number | null) =>
+    value === null || value === undefined ? '—' : `${parseFloat(String(value)).toFixed(2)}%`;
+
+  // Header row
+  ws_data.push([
+    { v: 'Employee', s: styles.columnHeader },
+    { v: 'Email', s: styles.columnHeader },
+    { v: `Revenue (${currencies.billing})`, s: styles.columnHeader },
+    { v: `Cost (${currencies.cost})`, s: styles.columnHeader },
+    { v: `Revenue (${currencies.reporting})`, s: styles.columnHeader },
+    { v: `Cost (${currencies.reporting})`, s: styles.columnHeader },
+    { v: `Loaded Cost (${currencies.cost})`, s: styles.columnHeader },
+    { v: `Loaded Cost (${currencies.reporting})`, s: styles.columnHeader },
+    { v: `Gross Margin (${currencies.reporting})`, s: styles.columnHeader },
+    { v: 'Margin %', s: styles.columnHeader },
+    { v: 'Loaded Margin %', s: styles.columnHeader }
+  ]);
+
+  (employees || []).forEach((employee: any, index: number) => {
+    const rowStyle = index % 2 === 0 ? styles.dataCell : {
+      ...styles.dataCell,
+      fill: { fgColor: { rgb: "F8FAFC" } }
+    };
+
+    ws_data.push([
+      { v: employee.employeeName, s: rowStyle },
+      { v: employee.employeeEmail, s: rowStyle },
+      { v: Number(employee.totalRevenue || 0).toFixed(2), s: styles.hoursCell },
+      { v: Number(employee.totalCost || 0).toFixed(2), s: styles.hoursCell },
+      { v: Number(employee.reportingRevenue || 0).toFixed(2), s: styles.hoursCell },
+      { v: Number(employee.reportingCost || 0).toFixed(2), s: styles.hoursCell },
+      { v: Number(employee.totalLoadedCost || 0).toFixed(2), s: styles.hoursCell },
+      { v: Number(employee.reportingLoadedCost || 0).toFixed(2), s: styles.hoursCell },
+      { v: Number(employee.grossMargin || 0).toFixed(2), s: styles.hoursCell },
+      { v: formatMarginPercent(employee.marginPercent), s: styles.hoursCell },
+      { v: formatMarginPercent(employee.loadedMarginPercent), s: styles.hoursCell }
+    ]);
+  });
+
+  // Project total row
+  ws_data.push([
+    { v: 'Project Total', s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: parseFloat(summary.totalRevenue || '0').toFixed(2), s: styles.serialCell },
+    { v: parseFloat(summary.totalCost || '0').toFixed(2), s: styles.serialCell },
+    { v: parseFloat(summary.reportingRevenue || '0').toFixed(2), s: styles.serialCell },
+    { v: parseFloat(summary.reportingCost || '0').toFixed(2), s: styles.serialCell },
+    { v: parseFloat(summary.loadedCost || '0').toFixed(2), s: styles.serialCell },
+    { v: parseFloat(summary.reportingLoadedCost || '0').toFixed(2), s: styles.serialCell },
+    { v: parseFloat(summary.grossMargin || '0').toFixed(2), s: styles.serialCell },
+    { v: formatMarginPercent(summary.marginPercent), s: styles.serialCell },
+    { v: formatMarginPercent(summary.loadedMarginPercent), s: styles.serialCell }
+  ]);
+
+  if (summary.unconvertedTasks > 0) {
+    ws_data.push([]);
+    ws_data.push([
+      { v: `${summary.unconvertedTasks} task(s) without an exchange rate for the work date are excluded from the ${currencies.reporting} figures`, s: { font: { italic: true, sz: 10, color: { rgb: "B45309" } } } }
+    ]);
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet(ws_data);
+
+  ws['!cols'] = [
+    { wch: 25 },  // Employee
+    { wch: 30 },  // Email
+    { wch: 15 },  // Revenue (billing)
+    { wch: 15 },  // Cost (cost currency)
+    { wch: 15 },  // Revenue (reporting)
+    { wch: 15 },  // Cost (reporting)
+    { wch: 18 },  // Loaded Cost (cost currency)
+    { wch: 18 },  // Loaded Cost (reporting)
+    { wch: 20 },  // Gross Margin
+    { wch: 12 },  // Margin %
+    { wch: 16 }   // Loaded Margin %
+  ];
+
+  return ws;
+};
+
+/**
+ * Format approved hours and cost per employee split into billable and
+ * non-billable work, with utilisation and a breakdown of non-billable reasons
+ */
+export const formatProjectUtilisationForExport = (projectDetails: any) => {
+  const { employees, summary, currencies } = projectDetails;
+  const ws_data: any[][] = [];
+
+  const formatPercent = (value: string | number | null) =>
+    value === null || value === undefined ? '—' : `${parseFloat(String(value)).toFixed(2)}%`;
+
+  ws_data.push([
+    { v: 'Employee', s: styles.columnHeader },
+    { v: 'Email', s: styles.columnHeader },
+    { v: 'Billable Hours', s: styles.columnHeader },
+    { v: 'Non-billable Hours', s: styles.columnHeader },
+    { v: `Billable Cost (${currencies.cost})`, s: styles.columnHeader },
+    { v: `Non-billable Cost (${currencies.cost})`, s: styles.columnHeader },
+    { v: 'Utilisation %', s: styles.columnHeader }
+  ]);
+
+  (employees || []).forEach((employee: any, index: number) => {
+    const rowStyle = index % 2 === 0 ? styles.dataCell : {
+      ...styles.dataCell,
+      fill: { fgColor: { rgb: "F8FAFC" } }
+    };
+
+    ws_data.push([
+      { v: employee.employeeName, s: rowStyle },
+      { v: employee.employeeEmail, s: rowStyle },
+      { v: Number(employee.billableHours || 0).toFixed(2), s: styles.hoursCell },
+      { v: Number(employee.nonBillableHours || 0).toFixed(2), s: styles.hoursCell },
+      { v: Number(employee.billableCost || 0).toFixed(2), s: styles.hoursCell },
+      { v: Number(employee.nonBillableCost || 0).toFixed(2), s: styles.hoursCell },
+      { v: formatPercent(employee.utilisationPercent), s: styles.hoursCell }
+    ]);
+  });
+
+  ws_data.push([
+    { v: 'Project Total', s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: parseFloat(summary.billableHours || '0').toFixed(2), s: styles.serialCell },
+    { v: parseFloat(summary.nonBillableHours || '0').toFixed(2), s: styles.serialCell },
+    { v: parseFloat(summary.billableCost || '0').toFixed(2), s: styles.serialCell },
+    { v: parseFloat(summary.nonBillableCost || '0').toFixed(2), s: styles.serialCell },
+    { v: formatPercent(summary.utilisationPercent), s: styles.serialCell }
+  ]);
+
+  if ((summary.nonBillableByReason || []).length > 0) {
+    ws_data.push([]);
+    ws_data.push([
+      { v: 'Non-billable Reason', s: styles.columnHeader },
+      { v: '', s: styles.columnHeader },
+      { v: 'Hours', s: styles.columnHeader },
+      { v: '', s: styles.columnHeader },
+      { v: `Cost (${currencies.cost})`, s: styles.columnHeader }
+    ]);
+    summary.nonBillableByReason.forEach((row: any) => {
+      ws_data.push([
+        { v: nonBillableReasonLabel(row.reason), s: styles.dataCell },
+        { v: '', s: styles.dataCell },
+        { v: parseFloat(row.hours).toFixed(2), s: styles.hoursCell },
+        { v: '', s: styles.dataCell },
+        { v: parseFloat(row.cost).toFixed(2), s: styles.hoursCell }
+      ]);
+    });
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet(ws_data);
+
+  ws['!cols'] = [
+    { wch: 25 },  // Employee
+    { wch: 30 },  // Email
+    { wch: 15 },  // Billable Hours
+    { wch: 18 },  // Non-billable Hours
+    { wch: 18 },  // Billable Cost
+    { wch: 22 },  // Non-billable Cost
+    { wch: 14 }   // Utilisation %
+  ];
+
+  return ws;
+};
+
+/**
+ * Format approved expenses with their amount as entered and in the cost
+ * currency, and whether each is rebilled
+ */
+export const formatProjectExpensesForExport = (projectDetails: any) => {
+  const { expenses, summary, currencies } = projectDetails;
+  const ws_data: any[][] = [];
+
+  ws_data.push([
+    { v: 'Date', s: styles.columnHeader },
+    { v: 'Category', s: styles.columnHeader },
+    { v: 'Description', s: styles.columnHeader },
+    { v: 'Amount', s: styles.columnHeader },
+    { v: 'Currency', s: styles.columnHeader },
+    { v: `Cost (${currencies.cost})`, s: styles.columnHeader },
+    { v: 'Billable', s: styles.columnHeader },
+    { v: 'Invoiced', s: styles.columnHeader }
+  ]);
+
+  (expenses || []).forEach((expense: any, index: number) => {
+    const rowStyle = index % 2 === 0 ? styles.dataCell : {
+      ...styles.dataCell,
+      fill: { fgColor: { rgb: "F8FAFC" } }
+    };
+
+    ws_data.push([
+      { v: expense.expenseDate, s: rowStyle },
+      { v: expenseCategoryLabel(expense.category), s: rowStyle },
+      { v: expense.description, s: rowStyle },
+      { v: parseFloat(expense.amount).toFixed(2), s: styles.hoursCell },
+      { v: expense.currency, s: rowStyle },
+      { v: expense.cost !== null ? parseFloat(expense.cost).toFixed(2) : 'No exchange rate', s: styles.hoursCell },
+      { v: expense.isBillable ? 'Yes' : 'No', s: rowStyle },
+      { v: expense.invoiceId ? 'Yes' : 'No', s: rowStyle }
+    ]);
+  });
+
+  ws_data.push([
+    { v: 'Total', s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: parseFloat(summary.expenseCost || '0').toFixed(2), s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: '', s: styles.serialCell }
+  ]);
+
+  const ws = XLSX.utils.aoa_to_sheet(ws_data);
+
+  ws['!cols'] = [
+    { wch: 12 },  // Date
+    { wch: 18 },  // Category
+    { wch: 40 },  // Description
+    { wch: 12 },  // Amount
+    { wch: 10 },  // Currency
+    { wch: 16 },  // Cost
+    { wch: 10 },  // Billable
+    { wch: 10 }   // Invoiced
+  ];
+
+  return ws;
+};
+
 /**
  * Main export function for projects list
  */
@@ -294,6 +591,7 @@ export const exportProjectsToExcel = (projects: any[], filename: string = 'proje
     const ws = formatProjectsForExport(projects);
     
     XLSX.utils.book_append_sheet(wb, ws, 'Projects List');
+    XLSX.utils.book_append_sheet(wb, formatProjectsByClientForExport(projects), 'By Client');
     XLSX.writeFile(wb, `${filename}_${new Date().toISOString().split('T')[0]}.xlsx`);
   } catch (error) {
     console.error('Error generating Excel:', error);
@@ -312,6 +610,9 @@ export const exportProjectDetailsToExcel = (projectDetails: any, filename?: stri
     const exportFilename = filename || `project_${projectDetails.project.projectName}_details`;
     
     XLSX.utils.book_append_sheet(wb, ws, 'Project Details');
+    XLSX.utils.book_append_sheet(wb, formatProjectFinancialsForExport(projectDetails), 'Financials');
+    XLSX.utils.book_append_sheet(wb, formatProjectUtilisationForExport(projectDetails), 'Utilisation');
+    XLSX.utils.book_append_sheet(wb, formatProjectExpensesForExport(projectDetails), 'Expenses');
     XLSX.writeFile(wb, `${exportFilename}_${new Date().toISOString().split('T')[0]}.xlsx`);
   } catch (error) {
     console.error('Error generating Excel:', error);
@@ -418,6 +719,7 @@ export const exportSelectedTasksDetailedToExcel = (
       { v: '', s: styles.projectHeader },
       { v: '', s: styles.projectHeader },
       { v: '', s: styles.projectHeader },
+      { v: '', s: styles.projectHeader },
       { v: '', s: styles.projectHeader }
     ]);
     
@@ -427,6 +729,7 @@ export const exportSelectedTasksDetailedToExcel = (
       { v: '', s: styles.projectDescription },
       { v: '', s: styles.projectDescription },
       { v: '', s: styles.projectDescription },
+      { v: '', s: styles.projectDescription },
       { v: '', s: styles.projectDescription }
     ]);
     
@@ -436,6 +739,7 @@ export const exportSelectedTasksDetailedToExcel = (
       { v: '', s: {} },
       { v: '', s: {} },
       { v: '', s: {} },
+      { v: '', s: {} },
       { v: '', s: {} }
     ]);
     
@@ -445,7 +749,8 @@ export const exportSelectedTasksDetailedToExcel = (
       { v: 'Task Name', s: styles.columnHeader },
       { v: 'Description', s: styles.columnHeader },
       { v: 'Hours', s: styles.columnHeader },
-      { v: 'Date', s: styles.columnHeader }
+      { v: 'Billable', s: styles.columnHeader },
+      { v: 'Work Date', s: styles.columnHeader }
     ]);
     
     // Task Data Rows
@@ -461,7 +766,8 @@ export const exportSelectedTasksDetailedToExcel = (
         { v: task.taskName, s: rowStyle },
         { v: task.description || 'No description', s: rowStyle },
         { v: parseFloat(task.expectedHours).toFixed(2), s: styles.hoursCell },
-        { v: new Date(task.createdAt).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }), s: styles.dateCell }
+        { v: describeBillable(task), s: rowStyle },
+        { v: new Date(task.workDate).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }), s: styles.dateCell }
       ]);
     });
 
@@ -469,8 +775,8 @@ export const exportSelectedTasksDetailedToExcel = (
     
     // Merge cells
     if (!ws['!merges']) ws['!merges'] = [];
-    ws['!merges'].push({ s: { r: 0, c: 0 }, e: { r: 0, c: 4 } }); // Project name
-    ws['!merges'].push({ s: { r: 1, c: 0 }, e: { r: 1, c: 4 } }); // Description
+    ws['!merges'].push({ s: { r: 0, c: 0 }, e: { r: 0, c: 5 } }); // Project name
+    ws['!merges'].push({ s: { r: 1, c: 0 }, e: { r: 1, c: 5 } }); // Description
     
     // Set column widths
     ws['!cols'] = [
@@ -478,6 +784,7 @@ export const exportSelectedTasksDetailedToExcel = (
       { wch: 30 },  // Task Name
       { wch: 50 },  // Description
       { wch: 15 },  // Hours
+      { wch: 22 },  // Billable
       { wch: 15 }   // Date
     ];
     
@@ -500,6 +807,472 @@ export const exportSelectedTasksDetailedToExcel = (
   }
 };
 
+// ==================== ESTIMATION ACCURACY EXPORT ====================
+
+/**
+ * Format the estimation accuracy scorecard: one row per employee
+ */
+export const formatEstimationScorecardForExport = (scorecard: any[]) => {
+  const ws_data: any[][] = [];
+
+  ws_data.push([
+    { v: 'Employee', s: styles.columnHeader },
+    { v: 'Email', s: styles.columnHeader },
+    { v: 'Tasks', s: styles.columnHeader },
+    { v: 'Expected Hours', s: styles.columnHeader },
+    { v: 'Actual Hours', s: styles.columnHeader },
+    { v: 'MAPE %', s: styles.columnHeader },
+    { v: 'Bias %', s: styles.columnHeader },
+    { v: 'Tendency', s: styles.columnHeader },
+    { v: 'Trend', s: styles.columnHeader }
+  ]);
+
+  scorecard.forEach((row: any, index: number) => {
+    const rowStyle = index % 2 === 0 ? styles.dataCell : {
+      ...styles.dataCell,
+      fill: { fgColor: { rgb: "F8FAFC" } }
+    };
+
+    ws_data.push([
+      { v: row.employeeName || 'Unknown', s: rowStyle },
+      { v: row.employeeEmail || 'N/A', s: rowStyle },
+      { v: row.overall.taskCount, s: styles.hoursCell },
+      { v: row.overall.expectedHours.toFixed(2), s: styles.hoursCell },
+      { v: row.overall.actualHours.toFixed(2), s: styles.hoursCell },
+      { v: row.overall.mape.toFixed(2), s: styles.hoursCell },
+      { v: row.overall.bias.toFixed(2), s: styles.hoursCell },
+      { v: row.biasLabel, s: rowStyle },
+      { v: row.trend ? row.trend.trend : 'Not enough data', s: rowStyle }
+    ]);
+  });
+
+  const ws = XLSX.utils.aoa_to_sheet(ws_data);
+
+  ws['!cols'] = [
+    { wch: 25 },  // Employee
+    { wch: 30 },  // Email
+    { wch: 8 },   // Tasks
+    { wch: 15 },  // Expected Hours
+    { wch: 15 },  // Actual Hours
+    { wch: 10 },  // MAPE
+    { wch: 10 },  // Bias
+    { wch: 18 },  // Tendency
+    { wch: 16 }   // Trend
+  ];
+
+  return ws;
+};
+
+/**
+ * Format the per-period breakdown of the estimation accuracy scorecard
+ */
+export const formatEstimationPeriodsForExport = (scorecard: any[]) => {
+  const ws_data: any[][] = [];
+
+  ws_data.push([
+    { v: 'Employee', s: styles.columnHeader },
+    { v: 'Period', s: styles.columnHeader },
+    { v: 'Tasks', s: styles.columnHeader },
+    { v: 'Expected Hours', s: styles.columnHeader },
+    { v: 'Actual Hours', s: styles.columnHeader },
+    { v: 'MAPE %', s: styles.columnHeader },
+    { v: 'Bias %', s: styles.columnHeader }
+  ]);
+
+  scorecard.forEach((row: any) => {
+    row.periods.forEach((period: any, index: number) => {
+      const rowStyle = index % 2 === 0 ? styles.dataCell : {
+        ...styles.dataCell,
+        fill: { fgColor: { rgb: "F8FAFC" } }
+      };
+
+      ws_data.push([
+        { v: row.employeeName || 'Unknown', s: rowStyle },
+        { v: period.period, s: styles.dateCell },
+        { v: period.taskCount, s: styles.hoursCell },
+        { v: period.expectedHours.toFixed(2), s: styles.hoursCell },
+        { v: period.actualHours.toFixed(2), s: styles.hoursCell },
+        { v: period.mape.toFixed(2), s: styles.hoursCell },
+        { v: period.bias.toFixed(2), s: styles.hoursCell }
+      ]);
+    });
+  });
+
+  const ws = XLSX.utils.aoa_to_sheet(ws_data);
+
+  ws['!cols'] = [
+    { wch: 25 },  // Employee
+    { wch: 12 },  // Period
+    { wch: 8 },   // Tasks
+    { wch: 15 },  // Expected Hours
+    { wch: 15 },  // Actual Hours
+    { wch: 10 },  // MAPE
+    { wch: 10 }   // Bias
+  ];
+
+  return ws;
+};
+
+/**
+ * Export the estimation accuracy scorecard with its per-period breakdown
+ */
+export const exportEstimationScorecardToExcel = (scorecard: any[], filename: string = 'estimation_accuracy') => {
+  try {
+    const wb = XLSX.utils.book_new();
+
+    XLSX.utils.book_append_sheet(wb, formatEstimationScorecardForExport(scorecard), 'Scorecard');
+    XLSX.utils.book_append_sheet(wb, formatEstimationPeriodsForExport(scorecard), 'By Period');
+    XLSX.writeFile(wb, `${filename}_${new Date().toISOString().split('T')[0]}.xlsx`);
+  } catch (error) {
+    console.error('Error generating Excel:', error);
+    throw new Error('Failed to generate download file');
+  }
+};
+
+// ==================== GST EXPORTS ====================
+
+/**
+ * Tax rows under a line item table: CGST + SGST for intra-state supply, IGST for
+ * inter-state supply, or a single tax row when the supply type is not known.
+ * The label goes in the first column and the amount in the last.
+ */
+const formatTaxRows = (totals: any, width: number) => {
+  const rate = parseFloat(totals.taxRate || '0');
+  const row = (label: string, amount: string | number) => [
+    { v: label, s: styles.serialCell },
+    ...Array.from({ length: width - 2 }, () => ({ v: '', s: styles.serialCell })),
+    { v: parseFloat(String(amount || 0)).toFixed(2), s: styles.serialCell }
+  ];
+
+  if (totals.supplyType === 'intra_state') {
+    return [
+      row(`CGST (${rate / 2}%)`, totals.cgstAmount),
+      row(`SGST (${rate / 2}%)`, totals.sgstAmount)
+    ];
+  }
+  if (totals.supplyType === 'inter_state') {
+    return [row(`IGST (${rate}%)`, totals.igstAmount)];
+  }
+  return rate > 0 ? [row(`Tax (${rate}%)`, totals.taxAmount)] : [];
+};
+
+/**
+ * Format an invoice (as returned by GET /api/invoices/[id]) with its GST details,
+ * HSN/SAC per line and the tax breakdown
+ */
+export const formatInvoiceForExport = (invoice: any) => {
+  const ws_data: any[][] = [];
+  const infoStyle = { font: { sz: 10, color: { rgb: "475569" } } };
+
+  ws_data.push([{ v: `Invoice ${invoice.invoiceNumber}`, s: styles.projectHeader }]);
+  if (invoice.clientName) ws_data.push([{ v: `Bill To: ${invoice.clientName}`, s: infoStyle }]);
+  ws_data.push([{ v: `Project: ${invoice.projectName}`, s: infoStyle }]);
+  if (invoice.supplierName) ws_data.push([{ v: `Supplier: ${invoice.supplierName}`, s: infoStyle }]);
+  if (invoice.supplierGstin) ws_data.push([{ v: `Supplier GSTIN: ${invoice.supplierGstin}`, s: infoStyle }]);
+  if (invoice.customerGstin) ws_data.push([{ v: `Customer GSTIN: ${invoice.customerGstin}`, s: infoStyle }]);
+  if (invoice.placeOfSupply) ws_data.push([{ v: `Place of Supply: ${invoice.placeOfSupply} - ${GST_STATE_CODES[invoice.placeOfSupply] || ''}`, s: infoStyle }]);
+  ws_data.push([{ v: `Period: ${invoice.periodStart} to ${invoice.periodEnd} · Currency: ${invoice.currency}`, s: infoStyle }]);
+  ws_data.push([]);
+
+  ws_data.push([
+    { v: 'S.No', s: styles.columnHeader },
+    { v: 'Description', s: styles.columnHeader },
+    { v: 'HSN/SAC', s: styles.columnHeader },
+    { v: 'Date', s: styles.columnHeader },
+    { v: 'Hours', s: styles.columnHeader },
+    { v: 'Rate', s: styles.columnHeader },
+    { v: 'Amount', s: styles.columnHeader }
+  ]);
+
+  (invoice.lineItems || []).forEach((line: any, index: number) => {
+    const rowStyle = index % 2 === 0 ? styles.dataCell : {
+      ...styles.dataCell,
+      fill: { fgColor: { rgb: "F8FAFC" } }
+    };
+
+    ws_data.push([
+      { v: index + 1, s: styles.serialCell },
+      { v: line.description, s: rowStyle },
+      { v: line.hsnSac || '', s: styles.hoursCell },
+      { v: new Date(line.workDate).toLocaleDateString('en-IN'), s: styles.dateCell },
+      { v: line.expenseId ? '' : parseFloat(line.quantity).toFixed(2), s: styles.hoursCell },
+      { v: parseFloat(line.unitPrice).toFixed(2), s: styles.hoursCell },
+      { v: parseFloat(line.amount).toFixed(2), s: styles.hoursCell }
+    ]);
+  });
+
+  const total = (label: string, amount: string) => [
+    { v: label, s: styles.serialCell },
+    ...Array.from({ length: 5 }, () => ({ v: '', s: styles.serialCell })),
+    { v: parseFloat(amount || '0').toFixed(2), s: styles.serialCell }
+  ];
+
+  ws_data.push(total('Subtotal', invoice.subtotal));
+  ws_data.push(...formatTaxRows(invoice, 7));
+  ws_data.push(total('Total', invoice.total));
+
+  const ws = XLSX.utils.aoa_to_sheet(ws_data);
+
+  ws['!cols'] = [
+    { wch: 14 },  // S.No / labels
+    { wch: 40 },  // Description
+    { wch: 10 },  // HSN/SAC
+    { wch: 12 },  // Date
+    { wch: 10 },  // Hours
+    { wch: 12 },  // Rate
+    { wch: 15 }   // Amount
+  ];
+
+  return ws;
+};
+
+/**
+ * Export an invoice to Excel as <invoice number>.xlsx
+ */
+export const exportInvoiceToExcel = (invoice: any) => {
+  try {
+    const wb = XLSX.utils.book_new();
+
+    XLSX.utils.book_append_sheet(wb, formatInvoiceForExport(invoice), 'Invoice');
+    XLSX.writeFile(wb, `${invoice.invoiceNumber}.xlsx`);
+  } catch (error) {
+    console.error('Error generating Excel:', error);
+    throw new Error('Failed to generate download file');
+  }
+};
+
+/**
+ * Format an estimate's line items with HSN/SAC codes and the GST it would attract
+ */
+export const formatEstimateForExport = (estimate: any) => {
+  const ws_data: any[][] = [];
+
+  ws_data.push([{ v: estimate.title, s: styles.projectHeader }]);
+  ws_data.push([]);
+
+  ws_data.push([
+    { v: 'Work Package', s: styles.columnHeader },
+    { v: 'Role', s: styles.columnHeader },
+    { v: 'HSN/SAC', s: styles.columnHeader },
+    { v: 'Hours', s: styles.columnHeader },
+    { v: 'Rate', s: styles.columnHeader },
+    { v: 'Contingency %', s: styles.columnHeader },
+    { v: 'Total Hours', s: styles.columnHeader },
+    { v: 'Amount', s: styles.columnHeader }
+  ]);
+
+  (estimate.lineItems || []).forEach((item: any, index: number) => {
+    const rowStyle = index % 2 === 0 ? styles.dataCell : {
+      ...styles.dataCell,
+      fill: { fgColor: { rgb: "F8FAFC" } }
+    };
+
+    ws_data.push([
+      { v: item.workPackage, s: rowStyle },
+      { v: item.role, s: rowStyle },
+      { v: item.hsnSac || '', s: styles.hoursCell },
+      { v: parseFloat(item.estimatedHours).toFixed(2), s: styles.hoursCell },
+      { v: parseFloat(item.hourlyRate).toFixed(2), s: styles.hoursCell },
+      { v: parseFloat(item.contingencyPercent).toFixed(2), s: styles.hoursCell },
+      { v: parseFloat(item.totalHours).toFixed(2), s: styles.hoursCell },
+      { v: parseFloat(item.amount).toFixed(2), s: styles.hoursCell }
+    ]);
+  });
+
+  const total = (label: string, amount: string) => [
+    { v: label, s: styles.serialCell },
+    ...Array.from({ length: 6 }, () => ({ v: '', s: styles.serialCell })),
+    { v: parseFloat(amount || '0').toFixed(2), s: styles.serialCell }
+  ];
+
+  ws_data.push(total('Subtotal', estimate.totals.totalAmount));
+  ws_data.push(...formatTaxRows(estimate.totals, 8));
+  ws_data.push(total('Total incl. GST', estimate.totals.grandTotal));
+
+  const ws = XLSX.utils.aoa_to_sheet(ws_data);
+
+  ws['!cols'] = [
+    { wch: 25 },  // Work Package
+    { wch: 20 },  // Role
+    { wch: 10 },  // HSN/SAC
+    { wch: 10 },  // Hours
+    { wch: 12 },  // Rate
+    { wch: 14 },  // Contingency
+    { wch: 12 },  // Total Hours
+    { wch: 15 }   // Amount
+  ];
+
+  return ws;
+};
+
+/**
+ * Export an estimate to Excel
+ */
+export const exportEstimateToExcel = (estimate: any, filename?: string) => {
+  try {
+    const wb = XLSX.utils.book_new();
+    const exportFilename = filename || `estimate_${estimate.title}`;
+
+    XLSX.utils.book_append_sheet(wb, formatEstimateForExport(estimate), 'Estimate');
+    XLSX.writeFile(wb, `${exportFilename}_${new Date().toISOString().split('T')[0]}.xlsx`);
+  } catch (error) {
+    console.error('Error generating Excel:', error);
+    throw new Error('Failed to generate download file');
+  }
+};
+
+// ==================== PAYROLL EXPORTS ====================
+// Built on the server by POST /api/payroll/export, so these return the sheet
+// or file contents instead of downloading.
+
+/**
+ * Adjustments as payroll rows: one row per billable status whose hours changed
+ */
+const payrollAdjustmentRows = (payroll: any) =>
+  (payroll.adjustments || []).flatMap((adjustment: any) =>
+    adjustmentDeltas(adjustment).map((delta) => ({ ...adjustment, isBillable: delta.isBillable, hours: delta.hours }))
+  );
+
+/**
+ * Format a pay period's payroll: hours per employee, project and billable
+ * status with overtime separated, then adjustments to earlier periods
+ */
+export const formatPayrollForExport = (payroll: any) => {
+  const { period, lines } = payroll;
+  const ws_data: any[][] = [];
+
+  ws_data.push([
+    { v: `Payroll ${period.periodStart} to ${period.periodEnd}`, s: styles.projectHeader },
+    ...Array.from({ length: 6 }, () => ({ v: '', s: styles.projectHeader }))
+  ]);
+  ws_data.push([]);
+
+  ws_data.push([
+    { v: 'Employee', s: styles.columnHeader },
+    { v: 'Email', s: styles.columnHeader },
+    { v: 'Project', s: styles.columnHeader },
+    { v: 'Billable', s: styles.columnHeader },
+    { v: 'Regular Hours', s: styles.columnHeader },
+    { v: 'Overtime Hours', s: styles.columnHeader },
+    { v: 'Total Hours', s: styles.columnHeader }
+  ]);
+
+  let totals = { regular: 0, overtime: 0 };
+  (lines || []).forEach((line: any, index: number) => {
+    const rowStyle = index % 2 === 0 ? styles.dataCell : {
+      ...styles.dataCell,
+      fill: { fgColor: { rgb: "F8FAFC" } }
+    };
+    const regular = parseFloat(line.regularHours);
+    const overtime = parseFloat(line.overtimeHours);
+    totals = { regular: totals.regular + regular, overtime: totals.overtime + overtime };
+
+    ws_data.push([
+      { v: line.employeeName || 'Unknown', s: rowStyle },
+      { v: line.employeeEmail || '', s: rowStyle },
+      { v: line.projectName || 'Unknown', s: rowStyle },
+      { v: line.isBillable ? 'Yes' : 'No', s: styles.hoursCell },
+      { v: regular.toFixed(2), s: styles.hoursCell },
+      { v: overtime.toFixed(2), s: styles.hoursCell },
+      { v: (regular + overtime).toFixed(2), s: styles.hoursCell }
+    ]);
+  });
+
+  ws_data.push([
+    { v: 'Total', s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: '', s: styles.serialCell },
+    { v: totals.regular.toFixed(2), s: styles.serialCell },
+    { v: totals.overtime.toFixed(2), s: styles.serialCell },
+    { v: (totals.regular + totals.overtime).toFixed(2), s: styles.serialCell }
+  ]);
+
+  const adjustments = payrollAdjustmentRows(payroll);
+  if (adjustments.length > 0) {
+    ws_data.push([]);
+    ws_data.push([
+      { v: 'Adjustments to exported periods', s: { font: { bold: true, sz: 12 } } }
+    ]);
+    ws_data.push([
+      { v: 'Employee', s: styles.columnHeader },
+      { v: 'Email', s: styles.columnHeader },
+      { v: 'Project', s: styles.columnHeader },
+      { v: 'Billable', s: styles.columnHeader },
+      { v: 'Hours Change', s: styles.columnHeader },
+      { v: 'Task (Period)', s: styles.columnHeader },
+      { v: 'Reason', s: styles.columnHeader }
+    ]);
+    adjustments.forEach((adjustment: any) => {
+      ws_data.push([
+        { v: adjustment.employeeName || 'Unknown', s: styles.dataCell },
+        { v: adjustment.employeeEmail || '', s: styles.dataCell },
+        { v: adjustment.projectName || 'Unknown', s: styles.dataCell },
+        { v: adjustment.isBillable ? 'Yes' : 'No', s: styles.hoursCell },
+        { v: adjustment.hours.toFixed(2), s: styles.hoursCell },
+        { v: `${adjustment.taskName} (${adjustment.periodStart} to ${adjustment.periodEnd})`, s: styles.dataCell },
+        { v: adjustment.reason, s: styles.dataCell }
+      ]);
+    });
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet(ws_data);
+
+  if (!ws['!merges']) ws['!merges'] = [];
+  ws['!merges'].push({ s: { r: 0, c: 0 }, e: { r: 0, c: 6 } }); // Title row
+
+  ws['!cols'] = [
+    { wch: 25 },  // Employee
+    { wch: 30 },  // Email
+    { wch: 30 },  // Project
+    { wch: 10 },  // Billable
+    { wch: 15 },  // Regular / change
+    { wch: 30 },  // Overtime / task
+    { wch: 40 }   // Total / reason
+  ];
+
+  return ws;
+};
+
+/**
+ * Payroll workbook as XLSX file contents
+ */
+export const buildPayrollWorkbook = (payroll: any): ArrayBuffer => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, formatPayrollForExport(payroll), 'Payroll');
+  return XLSX.write(wb, { type: 'array', bookType: 'xlsx' });
+};
+
+/**
+ * Payroll as CSV, one row per payroll line followed by one per adjustment
+ */
+export const formatPayrollCsv = (payroll: any): string => {
+  const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+  const headers = [
+    'Type', 'Employee', 'Email', 'Project', 'Billable',
+    'Regular Hours', 'Overtime Hours', 'Total Hours', 'Task', 'Reason'
+  ];
+
+  const lineRows = (payroll.lines || []).map((line: any) => {
+    const regular = parseFloat(line.regularHours);
+    const overtime = parseFloat(line.overtimeHours);
+    return [
+      'Hours', line.employeeName || 'Unknown', line.employeeEmail || '', line.projectName || 'Unknown',
+      line.isBillable ? 'Yes' : 'No', regular.toFixed(2), overtime.toFixed(2), (regular + overtime).toFixed(2), '', ''
+    ];
+  });
+
+  const adjustmentRows = payrollAdjustmentRows(payroll).map((adjustment: any) => [
+    'Adjustment', adjustment.employeeName || 'Unknown', adjustment.employeeEmail || '', adjustment.projectName || 'Unknown',
+    adjustment.isBillable ? 'Yes' : 'No', adjustment.hours.toFixed(2), '0.00', adjustment.hours.toFixed(2),
+    `${adjustment.taskName} (${adjustment.periodStart} to ${adjustment.periodEnd})`, adjustment.reason
+  ]);
+
+  return [headers, ...lineRows, ...adjustmentRows]
+    .map((row) => row.map(escape).join(','))
+    .join('\n');
+};
+
 // Legacy CSV functions for backward compatibility
 export const downloadCSV = (data: any[], filename: string) => {
   console.warn('downloadCSV is deprecated. Use exportProjectsToExcel or exportProjectDetailsToExcel instead.');
@@ -0,0 +1,161 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { GST_STATE_CODES } from '@/lib/gst';
+
+// Shape returned by GET /api/invoices/[id]
+export interface InvoiceDocument {
+  invoiceNumber: string;
+  status: string;
+  projectName: string;
+  clientName: string | null;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  subtotal: string;
+  taxRate: string;
+  taxAmount: string;
+  total: string;
+  supplierName: string | null;
+  supplierAddress: string | null;
+  supplierGstin: string | null;
+  customerGstin: string | null;
+  placeOfSupply: string | null;
+  supplyType: 'intra_state' | 'inter_state' | null;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  dueDate: string | null;
+  notes: string | null;
+  issuedAt: string | null;
+  createdAt: string;
+  lineItems: {
+    expenseId?: string | null;
+    description: string;
+    hsnSac: string | null;
+    workDate: string;
+    quantity: string;
+    unitPrice: string;
+    amount: string;
+  }[];
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// The built-in PDF fonts have no glyph for symbols like ₹, so amounts are
+// printed with the ISO currency code instead.
+const formatAmount = (value: string, currency: string) =>
+  `${currency} ${parseFloat(value || '0').toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// CGST + SGST for intra-state supply, IGST for inter-state, otherwise one tax row
+const taxRows = (invoice: InvoiceDocument): [string, string][] => {
+  const rate = parseFloat(invoice.taxRate);
+  if (invoice.supplyType === 'intra_state') {
+    return [
+      [`CGST (${rate / 2}%)`, invoice.cgstAmount],
+      [`SGST (${rate / 2}%)`, invoice.sgstAmount],
+    ];
+  }
+  if (invoice.supplyType === 'inter_state') {
+    return [[`IGST (${rate}%)`, invoice.igstAmount]];
+  }
+  return [[`Tax (${rate}%)`, invoice.taxAmount]];
+};
+
+/**
+ * Build the invoice PDF and download it as <invoice number>.pdf
+ */
+export const downloadInvoicePdf = (invoice: InvoiceDocument) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFontSize(20);
+  doc.setTextColor(37, 99, 235);
+  doc.text(
+    invoice.status === 'draft' ? 'DRAFT INVOICE' : invoice.supplierGstin ? 'TAX INVOICE' : 'INVOICE',
+    14,
+    20
+  );
+
+  doc.setFontSize(10);
+  doc.setTextColor(71, 85, 105);
+  doc.text(`Invoice No: ${invoice.invoiceNumber}`, pageWidth - 14, 16, { align: 'right' });
+  doc.text(`Date: ${formatDate(invoice.issuedAt || invoice.createdAt)}`, pageWidth - 14, 22, { align: 'right' });
+  if (invoice.dueDate) {
+    doc.text(`Due: ${formatDate(invoice.dueDate)}`, pageWidth - 14, 28, { align: 'right' });
+  }
+
+  // Supplier block on the left, customer and period below it
+  let y = 30;
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(10);
+  if (invoice.supplierName) {
+    doc.text(invoice.supplierName, 14, y);
+    y += 5;
+  }
+  if (invoice.supplierAddress) {
+    const addressLines = doc.splitTextToSize(invoice.supplierAddress, pageWidth / 2);
+    doc.text(addressLines, 14, y);
+    y += addressLines.length * 5;
+  }
+  if (invoice.supplierGstin) {
+    doc.text(`GSTIN: ${invoice.supplierGstin}`, 14, y);
+    y += 5;
+  }
+
+  y += 4;
+  doc.setFontSize(11);
+  if (invoice.clientName) {
+    doc.text(`Bill To: ${invoice.clientName}`, 14, y);
+    y += 6;
+  }
+  doc.text(`Project: ${invoice.projectName}`, 14, y);
+  y += 6;
+  if (invoice.customerGstin) {
+    doc.text(`Customer GSTIN: ${invoice.customerGstin}`, 14, y);
+    y += 6;
+  }
+  if (invoice.placeOfSupply) {
+    doc.text(`Place of Supply: ${invoice.placeOfSupply} - ${GST_STATE_CODES[invoice.placeOfSupply] || ''}`, 14, y);
+    y += 6;
+  }
+  doc.text(`Period: ${formatDate(invoice.periodStart)} – ${formatDate(invoice.periodEnd)}`, 14, y);
+
+  autoTable(doc, {
+    theme: 'grid',
+    startY: y + 8,
+    head: [['#', 'Description', 'HSN/SAC', 'Date', 'Hours', 'Rate', 'Amount']],
+    body: invoice.lineItems.map((line, index) => [
+      index + 1,
+      line.description,
+      line.hsnSac || '',
+      formatDate(line.workDate),
+      // Rebilled expenses are a single charge, not hours
+      line.expenseId ? '' : parseFloat(line.quantity).toFixed(2),
+      formatAmount(line.unitPrice, invoice.currency),
+      formatAmount(line.amount, invoice.currency),
+    ]),
+    foot: [
+      ['', 'Subtotal', '', '', '', '', formatAmount(invoice.subtotal, invoice.currency)],
+      ...taxRows(invoice).map(([label, amount]) => ['', label, '', '', '', '', formatAmount(amount, invoice.currency)]),
+      ['', 'Total', '', '', '', '', formatAmount(invoice.total, invoice.currency)],
+    ],
+    headStyles: { fillColor: [5, 150, 105] },
+    footStyles: { fillColor: [248, 250, 252], textColor: [0, 0, 0] },
+    columnStyles: {
+      0: { cellWidth: 10 },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+    },
+  });
+
+  if (invoice.notes) {
+    const finalY = (doc as any).lastAutoTable?.finalY ?? 50;
+    doc.setFontSize(10);
+    doc.setTextColor(71, 85, 105);
+    doc.text(doc.splitTextToSize(`Notes: ${invoice.notes}`, pageWidth - 28), 14, finalY + 10);
+  }
+
+  doc.save(`${invoice.invoiceNumber}.pdf`);
+};
@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// What a token grants access to. Part of the signed data, so a token for one
+// purpose is rejected for the other.
+type TokenPurpose = 'share-link' | 'signoff';
+
+function portalSecret(): string {
+  const secret = process.env.SHARE_LINK_SECRET || process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('SHARE_LINK_SECRET or AUTH_SECRET must be set to sign portal links');
+  }
+  return secret;
+}
+
+function signature(purpose: TokenPurpose, id: string): string {
+  return createHmac('sha256', portalSecret()).update(`${purpose}:${id}`).digest('base64url');
+}
+
+// The token in a portal URL: the record id and its signature, so ids cannot be
+// guessed or enumerated without the secret.
+function signPortalToken(purpose: TokenPurpose, id: string): string {
+  return `${id}.${signature(purpose, id)}`;
+}
+
+// The record id of a correctly signed token, or null. Expiry and revocation
+// are checked against the database by the caller.
+function verifyPortalToken(purpose: TokenPurpose, token: string): string | null {
+  const [id, received, ...rest] = token.split('.');
+  if (!id || !received || rest.length > 0 || !UUID_PATTERN.test(id)) return null;
+
+  const expected = Buffer.from(signature(purpose, id));
+  const actual = Buffer.from(received);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? id : null;
+}
+
+export function verifyShareLinkToken(token: string): string | null {
+  return verifyPortalToken('share-link', token);
+}
+
+export function shareLinkUrl(linkId: string): string {
+  return `${process.env.NEXT_PUBLIC_BASE_URL}/portal/${signPortalToken('share-link', linkId)}`;
+}
+
+export function verifySignoffToken(token: string): string | null {
+  return verifyPortalToken('signoff', token);
+}
+
+export function signoffUrl(requestId: string): string {
+  return `${process.env.NEXT_PUBLIC_BASE_URL}/portal/signoff/${signPortalToken('signoff', requestId)}`;
+}
@@ -1,13 +1,39 @@
+import { createHmac, timingSafeEqual } from 'crypto';
 import Razorpay from 'razorpay';
 
-if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
-  throw new Error('Razorpay credentials are not properly configured');
+let client: Razorpay | null = null;
+
+// Created on first use so that routes importing this module still load when
+// Razorpay is not configured; they fail only when they try to take a payment.
+export function getRazorpay(): Razorpay {
+  if (client) return client;
+
+  if (!process.env.RAZORPAY_KEY_ID || !process.env.RAZORPAY_KEY_SECRET) {
+    throw new Error('Razorpay credentials are not properly configured');
+  }
+
+  client = new Razorpay({
+    key_id: process.env.RAZORPAY_KEY_ID,
+    key_secret: process.env.RAZORPAY_KEY_SECRET
+  });
+
+  // RAZORPAY_API_URL points the SDK at a local stub (scripts/razorpay-stub.mjs)
+  // instead of https://api.razorpay.com. The SDK has no option for this, so the
+  // base URL of its HTTP client is replaced.
+  if (process.env.RAZORPAY_API_URL) {
+    (client.api as any).rq.defaults.baseURL = process.env.RAZORPAY_API_URL;
+  }
+
+  return client;
 }
 
-export const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID,
-  key_secret: process.env.RAZORPAY_KEY_SECRET
-});
+// Razorpay signs the raw request body with the webhook secret (HMAC-SHA256).
+// Compared in constant time so the signature cannot be guessed byte by byte.
+export function verifyRazorpayWebhook(body: string, signature: string | null): boolean {
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  if (!secret || !signature) return false;
 
-// Add this to verify the config is loaded
-console.log('Razorpay initialized with key_id:', process.env.RAZORPAY_KEY_ID);
\ No newline at end of file
+  const expected = Buffer.from(createHmac('sha256', secret).update(body).digest('hex'));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}